@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { Switch, Route, Link, useLocation, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
+import { flushOutbox } from "./lib/outbox";
 import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -12,6 +13,7 @@ import { ThemeToggle } from "@/components/theme-toggle";
 import { LiveChat, type LiveChatRef } from "@/components/live-chat";
 import { ChatTray } from "@/components/chat-tray";
 import { AppSidebar } from "@/components/app-sidebar";
+import { AccountSuspendedScreen } from "@/components/account-suspended";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -38,12 +40,16 @@ import RealsPage from "@/pages/reals";
 import DiscoverPage from "@/pages/discover";
 import MessagesPage from "@/pages/messages";
 import NotificationsPage from "@/pages/notifications";
+import ModerationPage from "@/pages/moderation";
 import ProfilePage from "@/pages/profile";
 import LoginPage from "@/pages/login";
 import SetupPage from "@/pages/setup";
 import NotFound from "@/pages/not-found";
 import type { ChatMessage } from "@shared/schema";
 
+// Close code the server uses when the socket's session has ended
+const WS_CLOSE_SESSION_ENDED = 4401;
+
 function getInitials(name: string) {
   return name
     .split(" ")
@@ -79,7 +85,7 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
 
 function AppContent() {
   const { t } = useI18n();
-  const { user, isAuthenticated, profileCompleted, logout, isLoading } = useAuth();
+  const { user, suspension, isAuthenticated, profileCompleted, logout, isLoading } = useAuth();
   const isMobile = useIsMobile();
   const [, navigate] = useLocation();
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
@@ -88,6 +94,9 @@ function AppContent() {
   const wsRef = useRef<WebSocket | null>(null);
   const liveChatRef = useRef<LiveChatRef>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  // seq of the last logged server event seen, sent as the cursor when resuming
+  const lastEventSeqRef = useRef<number | null>(null);
   const isUnmountedRef = useRef(false);
 
   const cleanupWebSocket = useCallback(() => {
@@ -106,6 +115,8 @@ function AppContent() {
       }
       wsRef.current = null;
     }
+    reconnectAttemptRef.current = 0;
+    lastEventSeqRef.current = null;
   }, []);
 
   const connectWebSocket = useCallback(() => {
@@ -126,13 +137,10 @@ function AppContent() {
           socket.close();
           return;
         }
+        // The server identifies us from the session cookie sent with the upgrade request.
+        // "resume" is sent once the listeners are attached to this socket (see below).
+        reconnectAttemptRef.current = 0;
         setIsConnected(true);
-        
-        // Identify user to server
-        socket.send(JSON.stringify({
-          type: "connect",
-          userId: user.id,
-        }));
 
         if (reconnectTimeoutRef.current) {
           clearTimeout(reconnectTimeoutRef.current);
@@ -144,12 +152,33 @@ function AppContent() {
         if (isUnmountedRef.current) return;
         try {
           const message = JSON.parse(event.data);
-          if (message.type === "chat") {
+          if (typeof message.seq === "number") {
+            // Already seen (replayed and delivered live around a reconnect) - hide it from the other listeners
+            if (lastEventSeqRef.current !== null && message.seq <= lastEventSeqRef.current) {
+              event.stopImmediatePropagation();
+              return;
+            }
+            lastEventSeqRef.current = message.seq;
+          }
+
+          if (message.type === "resumed") {
+            lastEventSeqRef.current = Math.max(lastEventSeqRef.current ?? 0, message.cursor);
+            flushOutbox(user.id);
+          } else if (message.type === "resync_required") {
+            // Missed too much to replay - refetch everything
+            lastEventSeqRef.current = message.cursor;
+            queryClient.invalidateQueries();
+            flushOutbox(user.id);
+          } else if (message.type === "chat") {
             setChatMessages((prev) => [...prev, message.data]);
           } else if (message.type === "notification") {
             queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
             queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
           } else if (message.type === "direct_message") {
+            // Acknowledge receipt so the sender sees the message as delivered
+            if (message.data?.senderId !== user.id) {
+              socket.send(JSON.stringify({ type: "message_delivered", messageIds: [message.data.id] }));
+            }
             // Invalidate conversations and unread count for real-time updates
             queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
             queryClient.invalidateQueries({ queryKey: ["/api/messages/unread-count"] });
@@ -165,11 +194,18 @@ function AppContent() {
         }
       };
 
-      socket.onclose = () => {
+      socket.onclose = (event) => {
         if (isUnmountedRef.current) return;
         setIsConnected(false);
         wsRef.current = null;
-        reconnectTimeoutRef.current = setTimeout(connectWebSocket, 3000);
+
+        // Session was logged out or expired - re-check auth instead of reconnecting
+        if (event.code === WS_CLOSE_SESSION_ENDED) {
+          queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+          return;
+        }
+
+        scheduleReconnect();
       };
 
       socket.onerror = () => {
@@ -178,11 +214,41 @@ function AppContent() {
     } catch (error) {
       console.error("WebSocket connection error:", error);
       if (!isUnmountedRef.current) {
-        reconnectTimeoutRef.current = setTimeout(connectWebSocket, 3000);
+        scheduleReconnect();
       }
     }
   }, [isAuthenticated, user]);
 
+  // Exponential backoff with jitter: ~1s, 2s, 4s ... capped at 30s
+  const scheduleReconnect = () => {
+    if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
+    const delay = Math.min(30000, 1000 * 2 ** reconnectAttemptRef.current) * (0.75 + Math.random() * 0.5);
+    reconnectAttemptRef.current++;
+    reconnectTimeoutRef.current = setTimeout(connectWebSocket, delay);
+  };
+
+  // Resume from the last seen event. Runs after the pages' effects have moved
+  // their listeners to the new socket, so the replay reaches them.
+  useEffect(() => {
+    if (!isConnected || wsRef.current?.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(JSON.stringify({ type: "resume", cursor: lastEventSeqRef.current }));
+  }, [isConnected]);
+
+  // Reconnect right away when the network comes back instead of waiting out the backoff
+  useEffect(() => {
+    const handleOnline = () => {
+      if (!user || !profileCompleted) return;
+      reconnectAttemptRef.current = 0;
+      if (!wsRef.current) {
+        if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
+        connectWebSocket();
+      }
+      flushOutbox(user.id);
+    };
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [connectWebSocket, user, profileCompleted]);
+
   useEffect(() => {
     isUnmountedRef.current = false;
     
@@ -229,6 +295,10 @@ function AppContent() {
     );
   }
 
+  if (suspension) {
+    return <AccountSuspendedScreen suspension={suspension} />;
+  }
+
   // Public routes (login, setup)
   if (!isAuthenticated || !profileCompleted) {
     return (
@@ -338,9 +408,10 @@ function AppContent() {
                 <Route path="/reals" component={RealsPage} />
                 <Route path="/discover" component={DiscoverPage} />
                 <Route path="/messages">
-                  <MessagesPage wsRef={wsRef} />
+                  <MessagesPage wsRef={wsRef} isConnected={isConnected} />
                 </Route>
                 <Route path="/notifications" component={NotificationsPage} />
+                <Route path="/moderation" component={ModerationPage} />
                 <Route path="/profile" component={ProfilePage} />
                 <Route path="/profile/:id" component={ProfilePage} />
                 <Route component={NotFound} />
@@ -363,7 +434,7 @@ function AppContent() {
       />
 
       {/* Chat Tray for direct messages */}
-      <ChatTray wsRef={wsRef} />
+      <ChatTray wsRef={wsRef} isConnected={isConnected} />
     </SidebarProvider>
   );
 }
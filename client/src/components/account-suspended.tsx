@@ -0,0 +1,51 @@
+import { Ban, LogOut } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import { useAuth, type AccountSuspension } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+// One-line explanation of a suspension: how long it lasts and why
+export function describeSuspension(
+  t: (key: string, params?: Record<string, string | number>) => string,
+  suspension: AccountSuspension
+) {
+  const duration = suspension.suspendedUntil
+    ? t("auth.suspendedUntil", { date: new Date(suspension.suspendedUntil).toLocaleString() })
+    : t("auth.suspendedIndefinitely");
+  return suspension.reason ? `${duration} ${t("auth.suspensionReason", { reason: suspension.reason })}` : duration;
+}
+
+// Shown instead of the app while the signed-in account is suspended
+export function AccountSuspendedScreen({ suspension }: { suspension: AccountSuspension }) {
+  const { t } = useI18n();
+  const { logout } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 mx-auto mb-2 rounded-full bg-destructive/10 text-destructive flex items-center justify-center">
+            <Ban className="w-6 h-6" />
+          </div>
+          <CardTitle>{t("auth.accountSuspended")}</CardTitle>
+          <CardDescription>
+            {suspension.suspendedUntil
+              ? t("auth.suspendedUntil", { date: new Date(suspension.suspendedUntil).toLocaleString() })
+              : t("auth.suspendedIndefinitely")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {suspension.reason && (
+            <div className="rounded-md bg-muted p-3 text-sm whitespace-pre-wrap break-words" data-testid="text-suspension-reason">
+              {suspension.reason}
+            </div>
+          )}
+          <Button variant="outline" className="w-full" onClick={() => logout()} data-testid="button-suspended-logout">
+            <LogOut className="w-4 h-4 mr-2" />
+            {t("auth.logOut")}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
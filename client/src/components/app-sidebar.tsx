@@ -33,13 +33,14 @@ import {
   Bell,
   Handshake,
   Globe,
-  ChevronDown
+  ChevronDown,
+  ShieldCheck
 } from "lucide-react";
 
 export function AppSidebar() {
   const [location] = useLocation();
   const { t, language, setLanguage } = useI18n();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const isMobile = useIsMobile();
   const { setOpenMobile } = useSidebar();
 
@@ -57,7 +58,16 @@ export function AppSidebar() {
     refetchInterval: 5000,
   });
 
+  // Open reports, for moderators
+  const isModerator = user?.role === "moderator" || user?.role === "admin";
+  const { data: openReports } = useQuery<{ count: number }>({
+    queryKey: ["/api/moderation/reports/count"],
+    enabled: isAuthenticated && isModerator,
+    refetchInterval: 30000,
+  });
+
   const messageCount = unreadMessages?.count ?? 0;
+  const reportCount = openReports?.count ?? 0;
   const notificationCount = unreadNotifications?.count ?? 0;
 
   // Close mobile sidebar when navigating
@@ -179,6 +189,26 @@ export function AppSidebar() {
                   </Link>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+
+              {/* Moderation */}
+              {isModerator && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild isActive={location === "/moderation"} size={isMobile ? "lg" : "default"}>
+                    <Link href="/moderation" data-testid="nav-moderation" onClick={handleNavClick}>
+                      <ShieldCheck className={isMobile ? "w-5 h-5" : "w-4 h-4"} />
+                      <span className={isMobile ? "text-base" : ""}>{t("nav.moderation")}</span>
+                      {reportCount > 0 && (
+                        <Badge
+                          variant="destructive"
+                          className={`ml-auto flex items-center justify-center text-xs px-1.5 ${isMobile ? "h-6 min-w-6" : "h-5 min-w-5"}`}
+                        >
+                          {reportCount > 99 ? "99+" : reportCount}
+                        </Badge>
+                      )}
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -0,0 +1,72 @@
+import {
+  Download,
+  File,
+  FileArchive,
+  FileAudio,
+  FileImage,
+  FileSpreadsheet,
+  FileText,
+  Presentation,
+  type LucideIcon,
+} from "lucide-react";
+import type { MessageAttachmentInfo } from "@shared/schema";
+
+interface AttachmentCardProps {
+  attachment: MessageAttachmentInfo;
+  // Sent by the current user (rendered on the primary-coloured bubble)
+  isOwn?: boolean;
+  compact?: boolean;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function getFileIcon(mimeType: string): LucideIcon {
+  if (mimeType.startsWith("image/")) return FileImage;
+  if (mimeType.startsWith("audio/")) return FileAudio;
+  if (mimeType === "application/pdf" || mimeType.startsWith("text/plain")) return FileText;
+  if (/word|opendocument\.text/.test(mimeType)) return FileText;
+  if (/excel|spreadsheet|csv/.test(mimeType)) return FileSpreadsheet;
+  if (/powerpoint|presentation/.test(mimeType)) return Presentation;
+  if (/zip|compressed/.test(mimeType)) return FileArchive;
+  return File;
+}
+
+// Short type label shown under the file name, e.g. "PDF" or "XLSX"
+function getFileTypeLabel(attachment: MessageAttachmentInfo) {
+  const ext = attachment.originalName.split(".").pop();
+  if (ext && ext !== attachment.originalName) return ext.toUpperCase();
+  return attachment.mimeType.split("/").pop()?.toUpperCase() || "";
+}
+
+export function AttachmentCard({ attachment, isOwn = false, compact = false }: AttachmentCardProps) {
+  const Icon = getFileIcon(attachment.mimeType);
+
+  return (
+    <a
+      href={`${attachment.url}?download=1`}
+      download={attachment.originalName}
+      className={`flex items-center gap-2 rounded-lg border mb-1 hover-elevate ${
+        compact ? "p-1.5 max-w-[180px]" : "p-2 max-w-[260px]"
+      } ${isOwn ? "border-primary-foreground/30 bg-primary-foreground/10" : "bg-background"}`}
+      title={attachment.originalName}
+      data-testid={`attachment-${attachment.id}`}
+    >
+      <div className={`rounded-md flex items-center justify-center flex-shrink-0 ${
+        compact ? "w-7 h-7" : "w-9 h-9"
+      } ${isOwn ? "bg-primary-foreground/20" : "bg-primary/10 text-primary"}`}>
+        <Icon className={compact ? "w-4 h-4" : "w-5 h-5"} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className={`font-medium truncate ${compact ? "text-xs" : "text-sm"}`}>{attachment.originalName}</p>
+        <p className={`text-[10px] ${isOwn ? "opacity-70" : "text-muted-foreground"}`}>
+          {getFileTypeLabel(attachment)} · {formatFileSize(attachment.size)}
+        </p>
+      </div>
+      <Download className={`flex-shrink-0 opacity-70 ${compact ? "w-3 h-3" : "w-4 h-4"}`} />
+    </a>
+  );
+}
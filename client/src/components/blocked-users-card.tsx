@@ -0,0 +1,110 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Ban, VolumeX } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { User } from "@shared/schema";
+
+// Refresh everything a block or mute filters
+export function invalidateBlockedContent() {
+  queryClient.invalidateQueries({ queryKey: ["/api/blocks"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/mutes"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/users/recommendations"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/connections"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/connections/accepted"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/shorts"] });
+}
+
+function UserRow({ user, actionLabel, onAction, disabled }: {
+  user: User;
+  actionLabel: string;
+  onAction: () => void;
+  disabled: boolean;
+}) {
+  const name = user.fullName || user.name || "";
+  return (
+    <div className="flex items-center gap-3" data-testid={`restricted-user-${user.id}`}>
+      <Avatar className="w-8 h-8">
+        <AvatarImage src={user.avatarUrl || undefined} />
+        <AvatarFallback className="text-xs">{name.charAt(0).toUpperCase()}</AvatarFallback>
+      </Avatar>
+      <span className="flex-1 min-w-0 truncate text-sm">{name}</span>
+      <Button size="sm" variant="outline" onClick={onAction} disabled={disabled}>
+        {actionLabel}
+      </Button>
+    </div>
+  );
+}
+
+// Own profile: the users the current user has blocked or muted, with undo buttons
+export function BlockedUsersCard() {
+  const { t } = useI18n();
+  const { toast } = useToast();
+
+  const { data: blocked = [] } = useQuery<User[]>({ queryKey: ["/api/blocks"] });
+  const { data: muted = [] } = useQuery<User[]>({ queryKey: ["/api/mutes"] });
+
+  const undoMutation = useMutation({
+    mutationFn: async ({ userId, kind }: { userId: string; kind: "block" | "mute" }) => {
+      return apiRequest("DELETE", `/api/users/${userId}/${kind}`);
+    },
+    onSuccess: (_data, { kind }) => {
+      invalidateBlockedContent();
+      toast({ title: kind === "block" ? t("profile.userUnblocked") : t("profile.userUnmuted") });
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  if (blocked.length === 0 && muted.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{t("profile.blockedAndMuted")}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {blocked.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+              <Ban className="w-4 h-4" />
+              {t("profile.blockedUsers")}
+            </p>
+            {blocked.map((user) => (
+              <UserRow
+                key={user.id}
+                user={user}
+                actionLabel={t("profile.unblock")}
+                onAction={() => undoMutation.mutate({ userId: user.id, kind: "block" })}
+                disabled={undoMutation.isPending}
+              />
+            ))}
+          </div>
+        )}
+        {muted.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+              <VolumeX className="w-4 h-4" />
+              {t("profile.mutedUsers")}
+            </p>
+            {muted.map((user) => (
+              <UserRow
+                key={user.id}
+                user={user}
+                actionLabel={t("profile.unmute")}
+                onAction={() => undoMutation.mutate({ userId: user.id, kind: "mute" })}
+                disabled={undoMutation.isPending}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
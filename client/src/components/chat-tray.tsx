@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from "react";
 import { useAuth } from "@/lib/auth";
 import { useI18n } from "@/lib/i18n";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -9,16 +9,25 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card } from "@/components/ui/card";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { X, Minus, Send, ImagePlus, Check, CheckCheck, Smile, Trash2 } from "lucide-react";
+import { X, Minus, Send, ImagePlus, Smile, Trash2, Loader2 } from "lucide-react";
 import { ImageLightbox, useLightbox } from "@/components/image-lightbox";
 import { motion, AnimatePresence } from "framer-motion";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import type { User, DirectMessage, MessageReaction } from "@shared/schema";
+import { AttachmentCard } from "@/components/attachment-card";
+import { DeliveryTicks, applyDeliveryStatus } from "@/components/delivery-ticks";
+import { OutboxMessages } from "@/components/outbox-messages";
+import { createClientMessageId, enqueueOutboxMessage } from "@/lib/outbox";
+import { VoiceMessagePlayer, VoiceRecorderButton } from "@/components/voice-message";
+import { LinkifiedText, LinkPreviewCard, extractFirstUrl } from "@/components/link-preview";
+import type { User, DirectMessage, MessageReaction, MessageAttachmentInfo, ThreadInfo } from "@shared/schema";
 
 // Supported emoji reactions (same as messages.tsx)
 const EMOJI_REACTIONS = ["😂", "❤️", "👍", "😒", "😠"] as const;
 
+// Messages loaded per page of conversation history (same as messages.tsx)
+const MESSAGE_PAGE_SIZE = 50;
+
 interface ChatWindow {
   id: string;
   user: User;
@@ -27,6 +36,8 @@ interface ChatWindow {
 
 interface ChatTrayProps {
   wsRef: React.MutableRefObject<WebSocket | null>;
+  // Changes on every reconnect, so listeners move to the new socket
+  isConnected?: boolean;
   onNewMessage?: (message: DirectMessage) => void;
 }
 
@@ -86,13 +97,33 @@ async function resizeImage(file: File): Promise<string> {
   });
 }
 
-export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
+// Upload a resized chat image and return the attachment id to send with the message
+async function uploadMessageAttachment(dataUrl: string): Promise<string> {
+  const blob = await (await fetch(dataUrl)).blob();
+  const formData = new FormData();
+  formData.append("file", blob, "image.jpg");
+
+  const res = await fetch("/api/upload/message-attachment", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    throw new Error("Failed to upload image");
+  }
+  const data = await res.json();
+  return data.attachment.id;
+}
+
+export function ChatTray({ wsRef, isConnected, onNewMessage }: ChatTrayProps) {
   const { t } = useI18n();
   const { toast } = useToast();
   const { user: currentUser } = useAuth();
   const { lightboxState, openLightbox, closeLightbox } = useLightbox();
   const [openChats, setOpenChats] = useState<ChatWindow[]>([]);
-  const [chatMessages, setChatMessages] = useState<Record<string, DirectMessage[]>>({});
+  const [chatMessages, setChatMessages] = useState<Record<string, Array<DirectMessage & ThreadInfo>>>({});
+  const [hasOlderMessages, setHasOlderMessages] = useState<Record<string, boolean>>({});
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState<Record<string, boolean>>({});
   const [inputValues, setInputValues] = useState<Record<string, string>>({});
   const [selectedImages, setSelectedImages] = useState<Record<string, string>>({});
   const [typingUsers, setTypingUsers] = useState<Set<string>>(new Set());
@@ -100,6 +131,7 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
   const [messageToDelete, setMessageToDelete] = useState<string | null>(null);
   const messagesEndRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const fileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+  const pendingScrollRestoreRefs = useRef<Record<string, { viewport: HTMLElement; distanceFromBottom: number }>>({});
 
   // Listen for incoming messages
   useEffect(() => {
@@ -115,10 +147,14 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
             ? message.receiverId 
             : message.senderId;
 
-          setChatMessages((prev) => ({
-            ...prev,
-            [otherUserId]: [...(prev[otherUserId] || []), message],
-          }));
+          // Queued messages are replayed on reconnect, so skip any we already have
+          setChatMessages((prev) => {
+            if (prev[otherUserId]?.some((m) => m.id === message.id)) return prev;
+            return {
+              ...prev,
+              [otherUserId]: [...(prev[otherUserId] || []), message],
+            };
+          });
 
           // Check if this user's chat is open (not minimized) in the tray
           const existingChat = openChats.find((c) => c.user.id === message.senderId);
@@ -151,16 +187,77 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
 
         if (data.type === "direct_message_sent") {
           const message = data.data as DirectMessage;
-          setChatMessages((prev) => ({
-            ...prev,
-            [message.receiverId]: [...(prev[message.receiverId] || []), message],
-          }));
+          setChatMessages((prev) => {
+            if (prev[message.receiverId]?.some((m) => m.id === message.id)) return prev;
+            return {
+              ...prev,
+              [message.receiverId]: [...(prev[message.receiverId] || []), message],
+            };
+          });
 
           // Sync with messages page
           queryClient.invalidateQueries({ queryKey: ["messages", message.receiverId] });
           queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
         }
 
+        if (data.type === "direct_message_status") {
+          // Our messages were delivered to or read by the other user
+          const { status, receiverId, messageIds, deliveredAt, readAt } = data.data;
+          setChatMessages((prev) => {
+            if (!prev[receiverId]) return prev;
+            return {
+              ...prev,
+              [receiverId]: prev[receiverId].map((m) =>
+                messageIds.includes(m.id) ? applyDeliveryStatus(m, status, deliveredAt, readAt) : m
+              ),
+            };
+          });
+        }
+
+        if (data.type === "message_edited" && data.data.messageType === "direct") {
+          // Replace the edited message in place
+          const message = data.data.message as DirectMessage;
+          const otherUserId = message.senderId === currentUser?.id 
+            ? message.receiverId 
+            : message.senderId;
+
+          setChatMessages((prev) => {
+            if (!prev[otherUserId]) return prev;
+            return {
+              ...prev,
+              [otherUserId]: prev[otherUserId].map((m) =>
+                m.id === message.id ? { ...m, content: message.content, editedAt: message.editedAt } : m
+              ),
+            };
+          });
+        }
+
+        if (data.type === "voice_message_played" && data.data.messageType === "direct" && data.data.message) {
+          const { attachmentId, userId, message } = data.data;
+          const otherUserId = message.senderId === currentUser?.id 
+            ? message.receiverId 
+            : message.senderId;
+
+          setChatMessages((prev) => {
+            if (!prev[otherUserId]) return prev;
+            return {
+              ...prev,
+              [otherUserId]: prev[otherUserId].map((m: any) =>
+                m.id === message.id
+                  ? {
+                      ...m,
+                      attachments: m.attachments?.map((a: MessageAttachmentInfo) =>
+                        a.id === attachmentId && !a.playedBy?.includes(userId)
+                          ? { ...a, playedBy: [...(a.playedBy || []), userId] }
+                          : a
+                      ),
+                    }
+                  : m
+              ),
+            };
+          });
+        }
+
         if (data.type === "typing") {
           if (data.isTyping) {
             setTypingUsers((prev) => new Set([...Array.from(prev), data.userId]));
@@ -180,16 +277,29 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
     const ws = wsRef.current;
     ws.addEventListener("message", handleMessage);
     return () => ws.removeEventListener("message", handleMessage);
-  }, [wsRef, currentUser?.id, openChats, onNewMessage]);
+  }, [wsRef, isConnected, currentUser?.id, openChats, onNewMessage]);
 
   // Scroll to bottom when new messages arrive or typing indicator shows
+  // (keyed on the newest messages so loading older history doesn't jump)
+  const newestMessageKey = openChats
+    .map((chat) => chatMessages[chat.user.id]?.[chatMessages[chat.user.id].length - 1]?.id)
+    .join(",");
   useEffect(() => {
     openChats.forEach((chat) => {
       if (!chat.isMinimized) {
         messagesEndRefs.current[chat.id]?.scrollIntoView({ behavior: "smooth" });
       }
     });
-  }, [chatMessages, openChats, typingUsers]);
+  }, [newestMessageKey, openChats, typingUsers]);
+
+  // Keep the visible messages in place once older history is rendered above them
+  useLayoutEffect(() => {
+    for (const [userId, pending] of Object.entries(pendingScrollRestoreRefs.current)) {
+      if (loadingOlderMessages[userId]) continue;
+      pending.viewport.scrollTop = pending.viewport.scrollHeight - pending.distanceFromBottom;
+      delete pendingScrollRestoreRefs.current[userId];
+    }
+  }, [chatMessages, loadingOlderMessages]);
 
   const openChat = useCallback((user: User) => {
     setOpenChats((prev) => {
@@ -208,9 +318,10 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
 
   const loadMessages = async (userId: string) => {
     try {
-      const res = await fetch(`/api/messages/${userId}`, { credentials: "include" });
+      const res = await fetch(`/api/messages/${userId}?limit=${MESSAGE_PAGE_SIZE}`, { credentials: "include" });
       if (res.ok) {
         const messages = await res.json();
+        setHasOlderMessages((prev) => ({ ...prev, [userId]: messages.length === MESSAGE_PAGE_SIZE }));
         // Fetch reactions for each message
         const messagesWithReactions = await Promise.all(
           messages.map(async (msg: DirectMessage) => {
@@ -236,6 +347,31 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
     }
   };
 
+  // Load the page of history before the oldest loaded message
+  const loadOlderMessages = async (userId: string, viewport: HTMLElement) => {
+    const oldest = chatMessages[userId]?.[0];
+    if (!oldest || !hasOlderMessages[userId] || pendingScrollRestoreRefs.current[userId]) return;
+
+    pendingScrollRestoreRefs.current[userId] = {
+      viewport,
+      distanceFromBottom: viewport.scrollHeight - viewport.scrollTop,
+    };
+    setLoadingOlderMessages((prev) => ({ ...prev, [userId]: true }));
+    try {
+      const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE), before: oldest.id });
+      const res = await fetch(`/api/messages/${userId}?${params}`, { credentials: "include" });
+      if (res.ok) {
+        const older: DirectMessage[] = await res.json();
+        setChatMessages((prev) => ({ ...prev, [userId]: [...older, ...(prev[userId] || [])] }));
+        setHasOlderMessages((prev) => ({ ...prev, [userId]: older.length === MESSAGE_PAGE_SIZE }));
+      }
+    } catch (e) {
+      console.error("Failed to load older messages:", e);
+    } finally {
+      setLoadingOlderMessages((prev) => ({ ...prev, [userId]: false }));
+    }
+  };
+
   const closeChat = (userId: string) => {
     setOpenChats((prev) => prev.filter((c) => c.user.id !== userId));
     // Clear selected image for this chat
@@ -259,16 +395,32 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
     const imageData = selectedImages[userId];
     
     if (!content && !imageData) return;
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    const clientId = createClientMessageId();
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+      // Offline: text waits in the outbox and is sent on reconnect
+      if (imageData || !currentUser) return;
+      enqueueOutboxMessage({ clientId, senderId: currentUser.id, kind: "direct", targetId: userId, content });
+      setInputValues((prev) => ({ ...prev, [userId]: "" }));
+      return;
+    }
 
-    const messageContent = imageData 
-      ? `[IMAGE]${imageData}[/IMAGE]${content ? `\n${content}` : ""}`
-      : content;
+    let attachmentIds: string[] | undefined;
+    if (imageData) {
+      try {
+        attachmentIds = [await uploadMessageAttachment(imageData)];
+      } catch (error) {
+        toast({ title: "Failed to process image", variant: "destructive" });
+        return;
+      }
+    }
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
 
     wsRef.current.send(JSON.stringify({
       type: "direct_message",
       receiverId: userId,
-      content: messageContent,
+      content,
+      attachmentIds,
+      clientId,
     }));
 
     setInputValues((prev) => ({ ...prev, [userId]: "" }));
@@ -300,6 +452,21 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
     }, 100);
   };
 
+  const handleSendVoiceMessage = (userId: string, attachmentId: string) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    
+    wsRef.current.send(JSON.stringify({
+      type: "direct_message",
+      receiverId: userId,
+      content: "",
+      attachmentIds: [attachmentId],
+    }));
+    
+    setTimeout(() => {
+      loadMessages(userId);
+    }, 100);
+  };
+
   const handleTyping = (userId: string, isTyping: boolean) => {
     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
     
@@ -339,8 +506,52 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
     }
   };
 
+  // Message text with clickable links and a preview card for the first URL
+  const renderMessageText = (text: string, isOwn: boolean) => {
+    const url = extractFirstUrl(text);
+    return (
+      <>
+        <p className="text-xs sm:text-sm break-words"><LinkifiedText text={text} /></p>
+        {url && <LinkPreviewCard url={url} isOwn={isOwn} compact />}
+      </>
+    );
+  };
+
   // Render message content with image and GIF support
-  const renderMessageContent = (content: string) => {
+  const renderMessageContent = (content: string, attachments: MessageAttachmentInfo[] = [], isOwn = false) => {
+    if (attachments.length > 0) {
+      const images = attachments.filter((a) => a.mimeType.startsWith("image/"));
+      const voiceMessages = attachments.filter((a) => a.mimeType.startsWith("audio/"));
+      const files = attachments.filter((a) => !a.mimeType.startsWith("image/") && !a.mimeType.startsWith("audio/"));
+      return (
+        <div>
+          {voiceMessages.map((voice) => (
+            <VoiceMessagePlayer
+              key={voice.id}
+              attachment={voice}
+              currentUserId={currentUser?.id}
+              isOwn={isOwn}
+              compact
+            />
+          ))}
+          {images.map((image) => (
+            <img 
+              key={image.id}
+              src={image.url} 
+              alt={t("messages.imageSent")}
+              className="max-w-[120px] max-h-[120px] object-cover rounded-lg mb-1 cursor-pointer hover:opacity-90 transition-opacity"
+              onClick={() => openLightbox(image.url, t("messages.imageSent"))}
+              title={t("messages.clickToZoom")}
+            />
+          ))}
+          {files.map((file) => (
+            <AttachmentCard key={file.id} attachment={file} isOwn={isOwn} compact />
+          ))}
+          {content && renderMessageText(content, isOwn)}
+        </div>
+      );
+    }
+    
     // Check for GIF
     const gifMatch = content.match(/\[GIF\](.*?)\[\/GIF\]/);
     if (gifMatch) {
@@ -377,7 +588,7 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
         </div>
       );
     }
-    return <p className="text-xs sm:text-sm">{content}</p>;
+    return renderMessageText(content, isOwn);
   };
   
   // State for reaction popup
@@ -608,7 +819,18 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
                 </div>
 
                 {/* Messages */}
-                <ScrollArea className="flex-1 p-2 sm:p-3">
+                <ScrollArea
+                  className="flex-1 p-2 sm:p-3"
+                  onScrollCapture={(e) => {
+                    const viewport = e.target as HTMLElement;
+                    if (viewport.scrollTop <= 80) loadOlderMessages(chat.user.id, viewport);
+                  }}
+                >
+                  {loadingOlderMessages[chat.user.id] && (
+                    <div className="flex justify-center py-1">
+                      <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
+                    </div>
+                  )}
                   <div className="space-y-2 sm:space-y-3">
                     {(chatMessages[chat.user.id] || []).map((msg) => (
                       <div
@@ -626,16 +848,36 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
                                   : "bg-muted rounded-bl-md"
                               }`}
                             >
-                              {renderMessageContent(msg.content)}
+                              {/* Quoted parent for replies */}
+                              {msg.parentId && (
+                                <div className={`mb-1 pl-2 border-l-2 text-[10px] sm:text-xs ${
+                                  msg.senderId === currentUser?.id ? "border-primary-foreground/60 opacity-80" : "border-primary/60 text-muted-foreground"
+                                }`}>
+                                  {msg.parent ? (
+                                    <>
+                                      <span className="block font-medium truncate">{msg.parent.senderName}</span>
+                                      <span className="block truncate">
+                                        {/\[(IMAGE|GIF)\]/.test(msg.parent.content)
+                                          ? t("messages.imageSent")
+                                          : msg.parent.content || t("messages.attachmentSent")}
+                                      </span>
+                                    </>
+                                  ) : (
+                                    <span className="italic">{t("messages.originalDeleted")}</span>
+                                  )}
+                                </div>
+                              )}
+                              {renderMessageContent(msg.content, msg.attachments, msg.senderId === currentUser?.id)}
                               <div className="flex items-center justify-between gap-2 mt-0.5">
                                 <p className="text-[9px] sm:text-[10px] opacity-70">
                                   {formatTime(msg.timestamp)}
+                                  {msg.editedAt && (
+                                    <span className="ml-1 italic">({t("messages.edited")})</span>
+                                  )}
                                 </p>
-                                {/* Read/unread status indicator for sent messages */}
+                                {/* Delivery status indicator for sent messages */}
                                 {msg.senderId === currentUser?.id && (
-                                  <span className={`inline-flex items-center justify-center rounded-full p-0.5 ${msg.isRead ? 'text-green-500 bg-black/90' : 'text-blue-500 bg-black/90'}`}>
-                                    {msg.isRead ? <CheckCheck className="w-3 h-3" /> : <Check className="w-3 h-3" />}
-                                  </span>
+                                  <DeliveryTicks message={msg} compact />
                                 )}
                               </div>
                             </div>
@@ -699,6 +941,7 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
                         </div>
                       </div>
                     ))}
+                    <OutboxMessages kind="direct" targetId={chat.user.id} compact />
                     {typingUsers.has(chat.user.id) && (
                       <div className="flex justify-start">
                         <div className="bg-muted px-3 py-2 rounded-2xl rounded-bl-md">
@@ -757,6 +1000,11 @@ export function ChatTray({ wsRef, onNewMessage }: ChatTrayProps) {
                       onSelect={(gifUrl) => handleSendGif(chat.user.id, gifUrl)} 
                       userId={chat.user.id}
                     />
+                    <VoiceRecorderButton
+                      onRecorded={(attachmentId) => handleSendVoiceMessage(chat.user.id, attachmentId)}
+                      className="h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0"
+                      iconClassName="w-3 h-3 sm:w-4 sm:h-4"
+                    />
                     <Input
                       value={inputValues[chat.user.id] || ""}
                       onChange={(e) => {
@@ -0,0 +1,62 @@
+import { Check, CheckCheck } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { useI18n } from "@/lib/i18n";
+import type { DirectMessage, DirectMessageStatus } from "@shared/schema";
+
+type DeliveryFields = Pick<DirectMessage, "isRead" | "deliveredAt" | "readAt">;
+
+export function getDeliveryStatus(message: DeliveryFields): DirectMessageStatus {
+  if (message.readAt || message.isRead) return "read";
+  if (message.deliveredAt) return "delivered";
+  return "sent";
+}
+
+// Apply a "direct_message_status" event to a message the current user sent
+export function applyDeliveryStatus<T extends DeliveryFields>(
+  message: T,
+  status: DirectMessageStatus,
+  deliveredAt: string | null,
+  readAt: string | null
+): T {
+  if (status === "read") {
+    return { ...message, isRead: true, readAt, deliveredAt: message.deliveredAt || deliveredAt };
+  }
+  return { ...message, deliveredAt: message.deliveredAt || deliveredAt };
+}
+
+interface DeliveryTicksProps {
+  message: DeliveryFields;
+  compact?: boolean;
+}
+
+// Single tick: sent, double tick: delivered, blue double tick: read
+export function DeliveryTicks({ message, compact = false }: DeliveryTicksProps) {
+  const { t } = useI18n();
+  const status = getDeliveryStatus(message);
+  const Icon = status === "sent" ? Check : CheckCheck;
+  const at = status === "read" ? message.readAt : status === "delivered" ? message.deliveredAt : null;
+  const label = status === "read" ? t("messages.seen") : status === "delivered" ? t("messages.delivered") : t("messages.sent");
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span
+            className={`inline-flex items-center justify-center rounded-full p-0.5 bg-black/90 ${
+              status === "read" ? "text-blue-500" : "text-gray-300"
+            }`}
+            data-testid={`delivery-status-${status}`}
+          >
+            <Icon className={compact ? "w-3 h-3" : "w-4 h-4"} />
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p className="text-xs">
+            {label}
+            {at && ` · ${new Date(at).toLocaleString()}`}
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
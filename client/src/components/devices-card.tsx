@@ -0,0 +1,131 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Monitor, Smartphone, LogOut } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ActiveSession } from "@shared/schema";
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// Short "Browser on OS" label from a user agent string
+export function describeDevice(userAgent: string | null) {
+  if (!userAgent) return null;
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} · ${platform}`;
+  return browser || platform || userAgent.slice(0, 60);
+}
+
+// Own profile: every device signed in to the account, with sign-out buttons
+export function DevicesCard() {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const { logout } = useAuth();
+
+  const { data: sessions = [] } = useQuery<ActiveSession[]>({ queryKey: ["/api/auth/sessions"] });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: ActiveSession) => {
+      return apiRequest("DELETE", `/api/auth/sessions/${session.id}`);
+    },
+    onSuccess: (_data, session) => {
+      if (session.current) {
+        logout();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: t("profile.deviceSignedOut") });
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", "/api/auth/sessions");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: t("profile.otherDevicesSignedOut") });
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  if (sessions.length === 0) return null;
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-lg">{t("profile.devices")}</CardTitle>
+        {hasOtherSessions && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+            data-testid="button-sign-out-other-devices"
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            {t("profile.signOutOtherDevices")}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sessions.map((session) => {
+          const Icon = session.userAgent && /Mobile|Android|iPhone|iPad/.test(session.userAgent) ? Smartphone : Monitor;
+          return (
+            <div key={session.id} className="flex items-center gap-3" data-testid={`device-${session.id}`}>
+              <Icon className="w-5 h-5 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate flex items-center gap-2">
+                  {describeDevice(session.userAgent) || t("profile.unknownDevice")}
+                  {session.current && <Badge variant="secondary">{t("profile.thisDevice")}</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {[
+                    session.ipAddress,
+                    t("profile.signedIn", { time: formatDistanceToNow(new Date(session.createdAt), { addSuffix: true }) }),
+                    t("profile.lastActive", { time: formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true }) }),
+                  ].filter(Boolean).join(" · ")}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => revokeMutation.mutate(session)}
+                disabled={revokeMutation.isPending}
+                data-testid={`button-revoke-device-${session.id}`}
+              >
+                {session.current ? t("auth.logOut") : t("profile.revokeDevice")}
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
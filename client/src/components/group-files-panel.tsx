@@ -0,0 +1,79 @@
+import { useQuery } from "@tanstack/react-query";
+import { useI18n } from "@/lib/i18n";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download, FolderOpen } from "lucide-react";
+import { formatFileSize, getFileIcon } from "@/components/attachment-card";
+import type { MessageAttachmentInfo, User } from "@shared/schema";
+
+export interface GroupFile extends MessageAttachmentInfo {
+  messageId: string;
+  createdAt: string;
+  uploader: User | null;
+}
+
+interface GroupFilesPanelProps {
+  groupId: string;
+}
+
+// Everything ever shared in a group, shown in the group's "Files" tab
+export function GroupFilesPanel({ groupId }: GroupFilesPanelProps) {
+  const { t } = useI18n();
+
+  const { data: files = [], isLoading } = useQuery<GroupFile[]>({
+    queryKey: ["/api/groups", groupId, "files"],
+    queryFn: async () => {
+      const res = await fetch(`/api/groups/${groupId}/files`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch group files");
+      return res.json();
+    },
+  });
+
+  return (
+    <ScrollArea className="flex-1 p-3 sm:p-4">
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-14 w-full rounded-lg" />
+          <Skeleton className="h-14 w-full rounded-lg" />
+          <Skeleton className="h-14 w-full rounded-lg" />
+        </div>
+      ) : files.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <FolderOpen className="w-12 h-12 text-muted-foreground/50 mb-3" />
+          <p className="text-sm text-muted-foreground">{t("groups.noFiles")}</p>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {files.map((file) => {
+            const Icon = getFileIcon(file.mimeType);
+            return (
+              <a
+                key={file.id}
+                href={`${file.url}?download=1`}
+                download={file.originalName}
+                className="flex items-center gap-3 p-2 rounded-lg hover-elevate"
+                data-testid={`group-file-${file.id}`}
+              >
+                <div className="w-10 h-10 rounded-md bg-primary/10 text-primary flex items-center justify-center flex-shrink-0">
+                  <Icon className="w-5 h-5" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{file.originalName}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {t("groups.sharedBy", {
+                      name: file.uploader?.fullName || file.uploader?.name || "",
+                      date: new Date(file.createdAt).toLocaleDateString(),
+                    })}
+                    {" · "}
+                    {formatFileSize(file.size)}
+                  </p>
+                </div>
+                <Download className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              </a>
+            );
+          })}
+        </div>
+      )}
+    </ScrollArea>
+  );
+}
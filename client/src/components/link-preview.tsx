@@ -0,0 +1,108 @@
+import { Fragment } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { LinkPreviewInfo } from "@shared/schema";
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/g;
+
+// Trailing punctuation is almost always part of the sentence, not the URL
+function trimUrl(url: string) {
+  return url.replace(/[.,!?;:)\]]+$/, "");
+}
+
+export function extractFirstUrl(text: string): string | null {
+  const match = text.match(URL_PATTERN);
+  return match ? trimUrl(match[0]) : null;
+}
+
+// Plain text with URLs turned into links
+export function LinkifiedText({ text }: { text: string }) {
+  const parts: (string | { url: string })[] = [];
+  let lastIndex = 0;
+  for (const match of Array.from(text.matchAll(URL_PATTERN))) {
+    const url = trimUrl(match[0]);
+    const index = match.index ?? 0;
+    parts.push(text.slice(lastIndex, index), { url });
+    lastIndex = index + url.length;
+  }
+  parts.push(text.slice(lastIndex));
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        typeof part === "string" ? (
+          <Fragment key={i}>{part}</Fragment>
+        ) : (
+          <a
+            key={i}
+            href={part.url}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2 break-all"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {part.url}
+          </a>
+        )
+      )}
+    </>
+  );
+}
+
+interface LinkPreviewCardProps {
+  url: string;
+  // Sent by the current user (rendered on the primary-coloured bubble)
+  isOwn?: boolean;
+  compact?: boolean;
+}
+
+export function LinkPreviewCard({ url, isOwn = false, compact = false }: LinkPreviewCardProps) {
+  const { data: preview } = useQuery<LinkPreviewInfo | null>({
+    queryKey: ["/api/link-previews", url],
+    queryFn: async () => {
+      const res = await fetch(`/api/link-previews?url=${encodeURIComponent(url)}`, { credentials: "include" });
+      if (!res.ok) return null;
+      return res.json();
+    },
+    staleTime: 60 * 60 * 1000,
+    retry: false,
+  });
+
+  if (!preview) return null;
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className={`block rounded-lg border overflow-hidden mt-1 hover-elevate ${
+        compact ? "max-w-[200px]" : "max-w-sm"
+      } ${isOwn ? "border-primary-foreground/30 bg-primary-foreground/10" : "bg-background"}`}
+      onClick={(e) => e.stopPropagation()}
+      data-testid="link-preview"
+    >
+      {preview.imageUrl && (
+        <img
+          src={preview.imageUrl}
+          alt=""
+          loading="lazy"
+          className={`w-full object-cover ${compact ? "h-20" : "h-36"}`}
+        />
+      )}
+      <div className={compact ? "p-1.5" : "p-2"}>
+        {preview.siteName && (
+          <p className={`text-[10px] uppercase tracking-wide truncate ${isOwn ? "opacity-70" : "text-muted-foreground"}`}>
+            {preview.siteName}
+          </p>
+        )}
+        {preview.title && (
+          <p className={`font-medium line-clamp-2 ${compact ? "text-xs" : "text-sm"}`}>{preview.title}</p>
+        )}
+        {preview.description && !compact && (
+          <p className={`text-xs line-clamp-2 ${isOwn ? "opacity-80" : "text-muted-foreground"}`}>
+            {preview.description}
+          </p>
+        )}
+      </div>
+    </a>
+  );
+}
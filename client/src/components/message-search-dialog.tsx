@@ -0,0 +1,255 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useI18n } from "@/lib/i18n";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, Users } from "lucide-react";
+import {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  type User,
+  type Connection,
+  type Group,
+  type MessageSearchResult,
+  type PublicUser,
+} from "@shared/schema";
+
+export interface MessageSearchHit extends MessageSearchResult {
+  sender?: PublicUser;
+  otherUser?: PublicUser;
+  group?: Group;
+}
+
+interface MessageSearchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connections: (Connection & { otherUser: User })[];
+  groups: Group[];
+  onSelectResult: (result: MessageSearchHit) => void;
+}
+
+const ALL = "all";
+
+function getInitials(name: string) {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+// Render a search snippet with the matched terms highlighted
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.trim().split(SEARCH_HIGHLIGHT_START);
+  return (
+    <p className="text-sm break-words line-clamp-2">
+      {parts.map((part, i) => {
+        if (i === 0) return <span key={i}>{part}</span>;
+        const [match, rest] = part.split(SEARCH_HIGHLIGHT_END);
+        return (
+          <span key={i}>
+            <mark className="bg-primary/20 text-foreground rounded-sm px-0.5">{match}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
+// Start of the given local day (or end of it) as an ISO timestamp
+function localDayBoundary(date: string, endOfDay: boolean) {
+  return new Date(`${date}T${endOfDay ? "23:59:59.999" : "00:00:00"}`).toISOString();
+}
+
+export function MessageSearchDialog({ isOpen, onClose, connections, groups, onSelectResult }: MessageSearchDialogProps) {
+  const { t } = useI18n();
+
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [personId, setPersonId] = useState(ALL);
+  const [groupId, setGroupId] = useState(ALL);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (personId !== ALL) params.set("withUserId", personId);
+  if (groupId !== ALL) params.set("groupId", groupId);
+  if (fromDate) params.set("from", localDayBoundary(fromDate, false));
+  if (toDate) params.set("to", localDayBoundary(toDate, true));
+
+  const { data: results = [], isFetching } = useQuery<MessageSearchHit[]>({
+    queryKey: ["/api/messages/search", params.toString()],
+    queryFn: async () => {
+      const res = await fetch(`/api/messages/search?${params.toString()}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to search messages");
+      return res.json();
+    },
+    enabled: isOpen && debouncedQuery.length > 0,
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setQuery("");
+      setDebouncedQuery("");
+      setPersonId(ALL);
+      setGroupId(ALL);
+      setFromDate("");
+      setToDate("");
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("messages.searchMessages")}</DialogTitle>
+          <DialogDescription>{t("messages.searchDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder={t("messages.searchPlaceholder")}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9 text-base"
+            autoFocus
+            data-testid="input-message-search"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={personId} onValueChange={setPersonId}>
+            <SelectTrigger data-testid="select-search-person">
+              <SelectValue placeholder={t("messages.anyone")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t("messages.anyone")}</SelectItem>
+              {connections.map((c) => (
+                <SelectItem key={c.otherUser.id} value={c.otherUser.id}>
+                  {c.otherUser.fullName || c.otherUser.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={groupId} onValueChange={setGroupId}>
+            <SelectTrigger data-testid="select-search-group">
+              <SelectValue placeholder={t("messages.allConversations")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t("messages.allConversations")}</SelectItem>
+              {groups.map((g) => (
+                <SelectItem key={g.id} value={g.id}>
+                  {g.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">{t("messages.fromDate")}</label>
+            <Input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              data-testid="input-search-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">{t("messages.toDate")}</label>
+            <Input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              data-testid="input-search-to"
+            />
+          </div>
+        </div>
+
+        <ScrollArea className="max-h-[50vh]">
+          {!debouncedQuery ? null : isFetching && results.length === 0 ? (
+            <div className="space-y-2">
+              <Skeleton className="h-14 w-full rounded-lg" />
+              <Skeleton className="h-14 w-full rounded-lg" />
+            </div>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {t("messages.noSearchResults")}
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {results.map((result) => {
+                const conversationName = result.messageType === "group"
+                  ? result.group?.name
+                  : result.otherUser?.fullName || result.otherUser?.name;
+                const senderName = result.sender?.fullName || result.sender?.name || "";
+                return (
+                  <button
+                    key={`${result.messageType}-${result.messageId}`}
+                    onClick={() => {
+                      onSelectResult(result);
+                      handleOpenChange(false);
+                    }}
+                    className="w-full flex items-start gap-3 p-2 rounded-lg text-left hover-elevate"
+                    data-testid={`search-result-${result.messageId}`}
+                  >
+                    {result.messageType === "group" ? (
+                      <div className="w-9 h-9 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
+                        <Users className="w-4 h-4 text-primary" />
+                      </div>
+                    ) : (
+                      <Avatar className="w-9 h-9 flex-shrink-0">
+                        <AvatarImage src={result.otherUser?.avatarUrl || undefined} />
+                        <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                          {getInitials(conversationName || "")}
+                        </AvatarFallback>
+                      </Avatar>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm font-medium truncate">{conversationName}</p>
+                        <p className="text-[10px] text-muted-foreground flex-shrink-0">
+                          {new Date(result.timestamp).toLocaleDateString()}
+                        </p>
+                      </div>
+                      {result.messageType === "group" && (
+                        <p className="text-xs text-muted-foreground truncate">{senderName}</p>
+                      )}
+                      <HighlightedSnippet snippet={result.snippet} />
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+import { AlertCircle, Clock, X } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { useI18n } from "@/lib/i18n";
+import { discardOutboxMessage, useOutbox, type OutboxMessage } from "@/lib/outbox";
+
+interface OutboxMessagesProps {
+  kind: OutboxMessage["kind"];
+  targetId: string;
+  compact?: boolean;
+}
+
+// Messages written while offline, shown at the end of the conversation until they are sent
+export function OutboxMessages({ kind, targetId, compact = false }: OutboxMessagesProps) {
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const pending = useOutbox(user?.id, kind, targetId);
+
+  return (
+    <>
+      {pending.map((item) => (
+        <div key={item.clientId} className="flex justify-end" data-testid={`outbox-message-${item.clientId}`}>
+          <div
+            className={`rounded-2xl rounded-br-md bg-primary text-primary-foreground opacity-70 ${
+              compact ? "px-2 sm:px-3 py-1.5 sm:py-2 max-w-[85%]" : "px-3 sm:px-4 py-2 max-w-[85%] sm:max-w-[70%]"
+            }`}
+          >
+            <p className={`whitespace-pre-wrap break-words ${compact ? "text-xs sm:text-sm" : "text-sm"}`}>{item.content}</p>
+            <div className="flex items-center justify-end gap-1 mt-1 text-[10px] sm:text-xs">
+              {item.failed ? (
+                <>
+                  <AlertCircle className="w-3 h-3" />
+                  <span>{t("messages.notSent")}</span>
+                  <button
+                    onClick={() => discardOutboxMessage(item.clientId)}
+                    className="ml-1 rounded hover:bg-primary-foreground/20"
+                    title={t("messages.discard")}
+                    data-testid={`button-discard-outbox-${item.clientId}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <Clock className="w-3 h-3" />
+                  <span>{t("messages.waitingForConnection")}</span>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
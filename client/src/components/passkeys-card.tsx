@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { startRegistration, browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import { KeyRound, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { describeDevice } from "@/components/devices-card";
+import type { PasskeyInfo } from "@shared/schema";
+
+// Own profile: passkeys for signing in without email, with rename and revoke
+export function PasskeysCard() {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const [renaming, setRenaming] = useState<PasskeyInfo | null>(null);
+  const [newName, setNewName] = useState("");
+  const [revoking, setRevoking] = useState<PasskeyInfo | null>(null);
+
+  const { data: passkeys = [] } = useQuery<PasskeyInfo[]>({ queryKey: ["/api/auth/passkeys"] });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const optionsRes = await apiRequest("POST", "/api/auth/passkeys/register/options");
+      const response = await startRegistration({ optionsJSON: await optionsRes.json() });
+      return apiRequest("POST", "/api/auth/passkeys/register/verify", {
+        response,
+        name: describeDevice(navigator.userAgent),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/passkeys"] });
+      toast({ title: t("profile.passkeys.added") });
+    },
+    onError: (error: Error) => {
+      // Closing the browser prompt isn't an error worth reporting
+      if (error.name === "NotAllowedError" || error.name === "AbortError") return;
+      toast({
+        title: error.message.startsWith("409") || error.name === "InvalidStateError"
+          ? t("profile.passkeys.alreadyRegistered")
+          : t("profile.passkeys.addFailed"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      return apiRequest("PATCH", `/api/auth/passkeys/${id}`, { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/passkeys"] });
+      setRenaming(null);
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/auth/passkeys/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/passkeys"] });
+      toast({ title: t("profile.passkeys.revoked") });
+      setRevoking(null);
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  if (!browserSupportsWebAuthn() && passkeys.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="text-lg">{t("profile.passkeys.title")}</CardTitle>
+          <CardDescription>{t("profile.passkeys.description")}</CardDescription>
+        </div>
+        {browserSupportsWebAuthn() && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => addMutation.mutate()}
+            disabled={addMutation.isPending}
+            data-testid="button-add-passkey"
+          >
+            {addMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            {t("profile.passkeys.add")}
+          </Button>
+        )}
+      </CardHeader>
+      {passkeys.length > 0 && (
+        <CardContent className="space-y-3">
+          {passkeys.map((passkey) => (
+            <div key={passkey.id} className="flex items-center gap-3" data-testid={`passkey-${passkey.id}`}>
+              <KeyRound className="w-5 h-5 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{passkey.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {[
+                    t("profile.passkeys.created", { time: formatDistanceToNow(new Date(passkey.createdAt), { addSuffix: true }) }),
+                    passkey.lastUsedAt
+                      ? t("profile.passkeys.lastUsed", { time: formatDistanceToNow(new Date(passkey.lastUsedAt), { addSuffix: true }) })
+                      : t("profile.passkeys.neverUsed"),
+                    passkey.backedUp ? t("profile.passkeys.synced") : null,
+                  ].filter(Boolean).join(" · ")}
+                </p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => {
+                  setRenaming(passkey);
+                  setNewName(passkey.name);
+                }}
+                aria-label={t("profile.passkeys.rename")}
+                data-testid={`button-rename-passkey-${passkey.id}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => setRevoking(passkey)}
+                aria-label={t("profile.passkeys.revoke")}
+                data-testid={`button-revoke-passkey-${passkey.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      )}
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{t("profile.passkeys.rename")}</DialogTitle>
+          </DialogHeader>
+          <form
+            id="rename-passkey-form"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (renaming && newName.trim()) renameMutation.mutate({ id: renaming.id, name: newName.trim() });
+            }}
+          >
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={64}
+              autoFocus
+              data-testid="input-passkey-name"
+            />
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit" form="rename-passkey-form" disabled={!newName.trim() || renameMutation.isPending}>
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("profile.passkeys.revokeTitle", { name: revoking?.name ?? "" })}</AlertDialogTitle>
+            <AlertDialogDescription>{t("profile.passkeys.revokeDescription")}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revoking && revokeMutation.mutate(revoking.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-revoke-passkey"
+            >
+              {t("profile.passkeys.revoke")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { REPORT_REASONS, type ReportReason, type ReportTargetType } from "@shared/schema";
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ReportTargetType;
+  targetId: string;
+}
+
+export function ReportDialog({ open, onOpenChange, targetType, targetId }: ReportDialogProps) {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+
+  const close = () => {
+    onOpenChange(false);
+    setReason("");
+    setDetails("");
+  };
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/reports", {
+        targetType,
+        targetId,
+        reason,
+        details: details.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: t("report.submitted"), description: t("report.submittedDescription") });
+      close();
+    },
+    onError: (error: Error) => {
+      if (error.message.startsWith("409")) {
+        toast({ title: t("report.alreadyReported") });
+        close();
+      } else {
+        toast({ title: t("errors.general"), variant: "destructive" });
+      }
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-md" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>{t(`report.title.${targetType}`)}</DialogTitle>
+          <DialogDescription>{t("report.description")}</DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)} className="gap-3">
+          {REPORT_REASONS.map((r) => (
+            <div key={r} className="flex items-center gap-2">
+              <RadioGroupItem value={r} id={`report-reason-${r}`} data-testid={`radio-report-reason-${r}`} />
+              <Label htmlFor={`report-reason-${r}`} className="font-normal cursor-pointer">
+                {t(`report.reasons.${r}`)}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder={t("report.detailsPlaceholder")}
+          maxLength={1000}
+          className="resize-none"
+          rows={3}
+          data-testid="input-report-details"
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => reportMutation.mutate()}
+            disabled={!reason || reportMutation.isPending}
+            data-testid="button-submit-report"
+          >
+            {reportMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t("report.submit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
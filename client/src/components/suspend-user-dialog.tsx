@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { User } from "@shared/schema";
+
+// Suspension lengths offered to moderators; "0" means until lifted (a ban)
+export const SUSPENSION_DAYS = ["1", "7", "30", "0"] as const;
+
+export function SuspensionLengthSelect({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-2">
+      <Label>{t("moderation.suspendFor")}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger data-testid="select-suspend-days">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SUSPENSION_DAYS.map((days) => (
+            <SelectItem key={days} value={days}>
+              {days === "0" ? t("moderation.indefinitely") : t("moderation.days", { count: days })}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface SuspendUserDialogProps {
+  user: User;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Moderator action on a profile: suspend the account for a while or ban it
+export function SuspendUserDialog({ user, open, onOpenChange }: SuspendUserDialogProps) {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const [days, setDays] = useState("7");
+  const [reason, setReason] = useState("");
+
+  const suspendMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/moderation/users/${user.id}/suspend`, {
+        days: Number(days),
+        reason: reason.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: t("moderation.accountSuspended") });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", user.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/moderation/audit"] });
+      setReason("");
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("moderation.actions.suspend")}</DialogTitle>
+          <DialogDescription>{t("moderation.confirm.suspend")}</DialogDescription>
+        </DialogHeader>
+
+        <SuspensionLengthSelect value={days} onChange={setDays} />
+
+        <div className="space-y-2">
+          <Label>{t("moderation.suspensionReason")}</Label>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={1000}
+            rows={3}
+            className="resize-none"
+            data-testid="input-suspension-reason"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => suspendMutation.mutate()}
+            disabled={suspendMutation.isPending}
+            data-testid="button-confirm-suspend"
+          >
+            {suspendMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t("moderation.actions.suspend")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
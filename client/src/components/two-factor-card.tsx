@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { TwoFactorStatus } from "@shared/schema";
+
+type DialogMode = "enroll" | "regenerate" | "disable";
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+function CodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled: boolean }) {
+  return (
+    <div className="flex justify-center">
+      <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} inputMode="numeric" autoComplete="one-time-code" autoFocus>
+        <InputOTPGroup>
+          {[0, 1, 2, 3, 4, 5].map((index) => (
+            <InputOTPSlot key={index} index={index} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+}
+
+function BackupCodeList({ codes }: { codes: string[] }) {
+  const { t } = useI18n();
+  const { toast } = useToast();
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-3 font-mono text-sm" data-testid="list-backup-codes">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={async () => {
+          await navigator.clipboard.writeText(codes.join("\n"));
+          toast({ title: t("profile.twoFactor.codesCopied") });
+        }}
+      >
+        <Copy className="w-4 h-4 mr-2" />
+        {t("profile.twoFactor.copyCodes")}
+      </Button>
+    </div>
+  );
+}
+
+// Own profile: turn two-factor authentication on or off and manage backup codes
+export function TwoFactorCard() {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<DialogMode | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({ queryKey: ["/api/auth/2fa"] });
+
+  const close = () => {
+    setMode(null);
+    setEnrollment(null);
+    setCode("");
+    setUseBackupCode(false);
+    setBackupCodes(null);
+  };
+
+  const onError = (error: Error) => {
+    setCode("");
+    toast({
+      title: error.message.startsWith("400") ? t("profile.twoFactor.invalidCode") : t("errors.general"),
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return res.json() as Promise<Enrollment>;
+    },
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setMode("enroll");
+    },
+    onError,
+  });
+
+  // Enabling, regenerating and disabling all confirm with a code
+  const confirmMutation = useMutation({
+    mutationFn: async (action: DialogMode) => {
+      const path = action === "enroll" ? "enable" : action === "regenerate" ? "backup-codes" : "disable";
+      const body = useBackupCode ? { backupCode: code } : { code };
+      const res = await apiRequest("POST", `/api/auth/2fa/${path}`, body);
+      return res.json() as Promise<{ backupCodes?: string[] }>;
+    },
+    onSuccess: (data, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setCode("");
+      if (data.backupCodes) {
+        setBackupCodes(data.backupCodes);
+        if (action === "enroll") toast({ title: t("profile.twoFactor.enabled") });
+      } else {
+        toast({ title: t("profile.twoFactor.disabled") });
+        close();
+      }
+    },
+    onError,
+  });
+
+  const openMode = (next: DialogMode) => {
+    setCode("");
+    setUseBackupCode(false);
+    setBackupCodes(null);
+    setMode(next);
+  };
+
+  const codeReady = useBackupCode ? code.trim().length > 0 : code.length === 6;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="text-lg flex items-center gap-2">
+            {t("profile.twoFactor.title")}
+            {status?.enabled && <Badge variant="secondary">{t("profile.twoFactor.on")}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            {status?.enabled
+              ? t("profile.twoFactor.backupCodesRemaining", { count: status.backupCodesRemaining })
+              : t("profile.twoFactor.description")}
+          </CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {status?.enabled ? (
+          <>
+            <Button variant="outline" size="sm" onClick={() => openMode("regenerate")} data-testid="button-regenerate-backup-codes">
+              {t("profile.twoFactor.newBackupCodes")}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => openMode("disable")} data-testid="button-disable-two-factor">
+              <ShieldOff className="w-4 h-4 mr-2" />
+              {t("profile.twoFactor.turnOff")}
+            </Button>
+          </>
+        ) : (
+          <Button size="sm" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-enable-two-factor">
+            {setupMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+            {t("profile.twoFactor.turnOn")}
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {backupCodes ? t("profile.twoFactor.saveBackupCodes") : t(`profile.twoFactor.dialogTitle.${mode ?? "enroll"}`)}
+            </DialogTitle>
+            <DialogDescription>
+              {backupCodes ? t("profile.twoFactor.saveBackupCodesDescription") : t(`profile.twoFactor.dialogDescription.${mode ?? "enroll"}`)}
+            </DialogDescription>
+          </DialogHeader>
+
+          {backupCodes ? (
+            <BackupCodeList codes={backupCodes} />
+          ) : (
+            <div className="space-y-4">
+              {mode === "enroll" && enrollment && (
+                <div className="flex flex-col items-center gap-2">
+                  <img src={enrollment.qrCode} alt="" className="w-44 h-44 rounded-md bg-white p-1" data-testid="img-two-factor-qr" />
+                  <p className="text-xs text-muted-foreground">{t("profile.twoFactor.manualEntry")}</p>
+                  <code className="text-xs font-mono break-all text-center" data-testid="text-two-factor-secret">{enrollment.secret}</code>
+                </div>
+              )}
+              {useBackupCode ? (
+                <Input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="xxxxx-xxxxx"
+                  autoComplete="off"
+                  className="text-center font-mono"
+                  data-testid="input-backup-code"
+                />
+              ) : (
+                <CodeInput value={code} onChange={setCode} disabled={confirmMutation.isPending} />
+              )}
+              {mode !== "enroll" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => {
+                    setUseBackupCode(!useBackupCode);
+                    setCode("");
+                  }}
+                >
+                  {useBackupCode ? t("auth.useAuthenticatorCode") : t("auth.useBackupCode")}
+                </Button>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {backupCodes ? (
+              <Button onClick={close} data-testid="button-backup-codes-done">{t("profile.twoFactor.done")}</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={close}>
+                  {t("common.cancel")}
+                </Button>
+                <Button
+                  variant={mode === "disable" ? "destructive" : "default"}
+                  onClick={() => mode && confirmMutation.mutate(mode)}
+                  disabled={!codeReady || confirmMutation.isPending}
+                  data-testid="button-confirm-two-factor"
+                >
+                  {confirmMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t(`profile.twoFactor.confirm.${mode ?? "enroll"}`)}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
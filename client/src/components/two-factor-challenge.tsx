@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { describeSuspension } from "@/components/account-suspended";
+
+interface TwoFactorChallengeProps {
+  // Back to the first sign-in step, with an error to show there if the attempt ended badly
+  onCancel: (error?: string) => void;
+}
+
+// Second sign-in step for accounts with two-factor authentication
+export function TwoFactorChallenge({ onCancel }: TwoFactorChallengeProps) {
+  const { t } = useI18n();
+  const { completeTwoFactor } = useAuth();
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [backupCode, setBackupCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (value: { code?: string; backupCode?: string }) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    const result = await completeTwoFactor(value);
+    if (result.success) {
+      // Same full navigation as Google sign-in, so the app starts with fresh auth state
+      window.location.href = result.profileCompleted ? "/" : "/setup";
+      return;
+    }
+
+    setIsSubmitting(false);
+    if (result.suspension) {
+      onCancel(`${t("auth.accountSuspended")}. ${describeSuspension(t, result.suspension)}`);
+    } else if (result.expired) {
+      onCancel(t("auth.twoFactorExpired"));
+    } else if (result.attemptsRemaining !== undefined) {
+      setCode("");
+      setBackupCode("");
+      setError(t("auth.twoFactorInvalid", { count: result.attemptsRemaining }));
+    } else {
+      setError(t("errors.general"));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (useBackupCode) {
+      if (backupCode.trim()) submit({ backupCode: backupCode.trim() });
+    } else if (code.length === 6) {
+      submit({ code });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="text-center space-y-2">
+        <div className="w-12 h-12 mx-auto rounded-full bg-primary/10 text-primary flex items-center justify-center">
+          <ShieldCheck className="w-6 h-6" />
+        </div>
+        <h2 className="text-lg font-semibold">{t("auth.twoFactorTitle")}</h2>
+        <p className="text-sm text-muted-foreground">
+          {useBackupCode ? t("auth.twoFactorBackupDescription") : t("auth.twoFactorDescription")}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive text-sm text-center">
+          {error}
+        </div>
+      )}
+
+      {useBackupCode ? (
+        <Input
+          value={backupCode}
+          onChange={(e) => setBackupCode(e.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          autoFocus
+          disabled={isSubmitting}
+          className="text-center font-mono"
+          data-testid="input-backup-code"
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            onComplete={(value: string) => submit({ code: value })}
+            autoFocus
+            disabled={isSubmitting}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            data-testid="input-totp-code"
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isSubmitting || (useBackupCode ? !backupCode.trim() : code.length !== 6)}
+        data-testid="button-verify-two-factor"
+      >
+        {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {t("auth.verify")}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <Button type="button" variant="ghost" size="sm" onClick={() => onCancel()}>
+          {t("common.back")}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setUseBackupCode(!useBackupCode);
+            setError(null);
+          }}
+          data-testid="button-toggle-backup-code"
+        >
+          {useBackupCode ? t("auth.useAuthenticatorCode") : t("auth.useBackupCode")}
+        </Button>
+      </div>
+    </form>
+  );
+}
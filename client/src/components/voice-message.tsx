@@ -0,0 +1,336 @@
+import { useState, useRef, useEffect } from "react";
+import { useI18n } from "@/lib/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Mic, Square, X, Play, Pause, Loader2 } from "lucide-react";
+import { VOICE_MESSAGE_MAX_DURATION_MS, type MessageAttachmentInfo } from "@shared/schema";
+
+const WAVEFORM_BARS = 40;
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+// Recorder formats in order of preference; Safari only supports mp4
+const RECORDER_MIME_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"];
+
+function formatDuration(ms: number) {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Resample stored peaks to the number of bars drawn
+function getBars(waveform: number[] | null | undefined) {
+  if (!waveform || waveform.length === 0) {
+    return Array.from({ length: WAVEFORM_BARS }, () => 0.3);
+  }
+  return Array.from({ length: WAVEFORM_BARS }, (_, i) => {
+    const peak = waveform[Math.floor((i * waveform.length) / WAVEFORM_BARS)];
+    return Math.max(0.08, peak);
+  });
+}
+
+// Decode the recording to measure its length and peaks
+async function analyzeRecording(blob: Blob, fallbackDurationMs: number) {
+  try {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const context = new AudioContextClass();
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    context.close();
+
+    const samples = buffer.getChannelData(0);
+    const bucketSize = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+    const peaks: number[] = [];
+    for (let i = 0; i < WAVEFORM_BARS; i++) {
+      let peak = 0;
+      for (let j = i * bucketSize; j < Math.min((i + 1) * bucketSize, samples.length); j++) {
+        peak = Math.max(peak, Math.abs(samples[j]));
+      }
+      peaks.push(peak);
+    }
+    const max = Math.max(...peaks) || 1;
+
+    return {
+      durationMs: Math.round(buffer.duration * 1000) || fallbackDurationMs,
+      waveform: peaks.map((p) => Math.round((p / max) * 100) / 100),
+    };
+  } catch {
+    return { durationMs: fallbackDurationMs, waveform: null };
+  }
+}
+
+async function uploadVoiceMessage(blob: Blob, durationMs: number, waveform: number[] | null): Promise<string> {
+  const extension = blob.type.includes("mp4") ? "m4a" : blob.type.includes("ogg") ? "ogg" : "webm";
+  const formData = new FormData();
+  formData.append("durationMs", String(durationMs));
+  if (waveform) formData.append("waveform", JSON.stringify(waveform));
+  formData.append("audio", blob, `voice-message.${extension}`);
+
+  const res = await fetch("/api/upload/voice-message", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.details || data.error || "Failed to upload voice message");
+  }
+  return data.attachment.id;
+}
+
+interface VoiceRecorderButtonProps {
+  // Called with the uploaded attachment id once recording is finished
+  onRecorded: (attachmentId: string) => void;
+  disabled?: boolean;
+  className?: string;
+  iconClassName?: string;
+}
+
+export function VoiceRecorderButton({ onRecorded, disabled, className, iconClassName = "w-4 h-4" }: VoiceRecorderButtonProps) {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const [isRecording, setIsRecording] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const cancelledRef = useRef(false);
+  const startedAtRef = useRef(0);
+
+  // Tick the timer and stop automatically at the maximum length
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => {
+      const elapsed = Date.now() - startedAtRef.current;
+      setElapsedMs(elapsed);
+      if (elapsed >= VOICE_MESSAGE_MAX_DURATION_MS) {
+        recorderRef.current?.stop();
+      }
+    }, 250);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Release the microphone if the composer unmounts mid-recording
+  useEffect(() => {
+    return () => {
+      cancelledRef.current = true;
+      if (recorderRef.current?.state === "recording") {
+        recorderRef.current.stop();
+      }
+    };
+  }, []);
+
+  const startRecording = async () => {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === "undefined") {
+      toast({ title: t("messages.voiceNotSupported"), variant: "destructive" });
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      toast({ title: t("messages.microphoneDenied"), variant: "destructive" });
+      return;
+    }
+
+    const mimeType = RECORDER_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    chunksRef.current = [];
+    cancelledRef.current = false;
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunksRef.current.push(e.data);
+    };
+    recorder.onstop = async () => {
+      stream.getTracks().forEach((track) => track.stop());
+      setIsRecording(false);
+      if (cancelledRef.current || chunksRef.current.length === 0) return;
+
+      const recordedMs = Math.min(Date.now() - startedAtRef.current, VOICE_MESSAGE_MAX_DURATION_MS);
+      const blob = new Blob(chunksRef.current, { type: recorder.mimeType.split(";")[0] });
+      setIsUploading(true);
+      try {
+        const { durationMs, waveform } = await analyzeRecording(blob, recordedMs);
+        onRecorded(await uploadVoiceMessage(blob, Math.min(durationMs, VOICE_MESSAGE_MAX_DURATION_MS), waveform));
+      } catch (error: any) {
+        toast({ title: t("errors.uploadFailed"), description: error.message, variant: "destructive" });
+      } finally {
+        setIsUploading(false);
+      }
+    };
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setElapsedMs(0);
+    recorder.start();
+    setIsRecording(true);
+  };
+
+  const stopRecording = (cancel: boolean) => {
+    cancelledRef.current = cancel;
+    recorderRef.current?.stop();
+  };
+
+  if (isRecording) {
+    return (
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <Button
+          variant="ghost"
+          size="icon"
+          className={className}
+          onClick={() => stopRecording(true)}
+          title={t("common.cancel")}
+          data-testid="button-cancel-voice"
+        >
+          <X className={iconClassName} />
+        </Button>
+        <span className="flex items-center gap-1 text-xs tabular-nums text-destructive">
+          <span className="w-2 h-2 rounded-full bg-destructive animate-pulse" />
+          {formatDuration(elapsedMs)}
+        </span>
+        <Button
+          variant="destructive"
+          size="icon"
+          className={className}
+          onClick={() => stopRecording(false)}
+          title={t("messages.stopRecording")}
+          data-testid="button-stop-voice"
+        >
+          <Square className={iconClassName} />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      className={className}
+      onClick={startRecording}
+      disabled={disabled || isUploading}
+      title={t("messages.recordVoice")}
+      data-testid="button-record-voice"
+    >
+      {isUploading ? <Loader2 className={`${iconClassName} animate-spin`} /> : <Mic className={iconClassName} />}
+    </Button>
+  );
+}
+
+interface VoiceMessagePlayerProps {
+  attachment: MessageAttachmentInfo;
+  currentUserId?: string;
+  // Sent by the current user (rendered on the primary-coloured bubble)
+  isOwn?: boolean;
+  isGroup?: boolean;
+  compact?: boolean;
+}
+
+export function VoiceMessagePlayer({ attachment, currentUserId, isOwn = false, isGroup = false, compact = false }: VoiceMessagePlayerProps) {
+  const { t } = useI18n();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [rateIndex, setRateIndex] = useState(0);
+  const [playedLocally, setPlayedLocally] = useState(false);
+
+  const durationMs = attachment.durationMs || 0;
+  const playedBy = attachment.playedBy || [];
+  const isUnplayed = !isOwn && !playedLocally && !!currentUserId && !playedBy.includes(currentUserId);
+  const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+  const bars = getBars(attachment.waveform);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (!audio.paused) {
+      audio.pause();
+      return;
+    }
+    audio.playbackRate = PLAYBACK_RATES[rateIndex];
+    audio.play();
+    if (isUnplayed) {
+      setPlayedLocally(true);
+      apiRequest("POST", `/api/attachments/${attachment.id}/played`).catch(() => {});
+    }
+  };
+
+  const cycleRate = () => {
+    const next = (rateIndex + 1) % PLAYBACK_RATES.length;
+    setRateIndex(next);
+    if (audioRef.current) audioRef.current.playbackRate = PLAYBACK_RATES[next];
+  };
+
+  const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || durationMs === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    audio.currentTime = (fraction * durationMs) / 1000;
+    setPositionMs(fraction * durationMs);
+  };
+
+  const playedLabel = isOwn && playedBy.length > 0
+    ? (isGroup ? t("messages.playedByCount", { count: playedBy.length }) : t("messages.played"))
+    : null;
+
+  return (
+    <div className={`flex items-center gap-2 mb-1 ${compact ? "w-[170px]" : "w-[220px]"}`} data-testid={`voice-message-${attachment.id}`}>
+      <audio
+        ref={audioRef}
+        src={attachment.url}
+        preload="none"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setPositionMs(0);
+        }}
+        onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+      />
+      <Button
+        variant={isOwn ? "secondary" : "default"}
+        size="icon"
+        className={`rounded-full flex-shrink-0 ${compact ? "h-7 w-7" : "h-8 w-8"}`}
+        onClick={togglePlay}
+        title={isPlaying ? t("messages.pause") : t("messages.play")}
+      >
+        {isPlaying ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+      </Button>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-[2px] h-6 cursor-pointer" onClick={seek}>
+          {bars.map((height, i) => (
+            <div
+              key={i}
+              className={`flex-1 rounded-full ${
+                i / bars.length < progress
+                  ? (isOwn ? "bg-primary-foreground" : "bg-primary")
+                  : (isOwn ? "bg-primary-foreground/40" : "bg-muted-foreground/40")
+              }`}
+              style={{ height: `${height * 100}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center justify-between gap-1 text-[10px] opacity-70 tabular-nums">
+          <span className="flex items-center gap-1">
+            {isUnplayed && <span className="w-1.5 h-1.5 rounded-full bg-primary" title={t("messages.unplayed")} />}
+            {formatDuration(isPlaying || positionMs > 0 ? positionMs : durationMs)}
+          </span>
+          {playedLabel && <span className="truncate">{playedLabel}</span>}
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={cycleRate}
+        className={`text-[10px] font-semibold rounded-full px-1.5 py-0.5 flex-shrink-0 ${
+          isOwn ? "bg-primary-foreground/20" : "bg-muted-foreground/15"
+        }`}
+        title={t("messages.playbackSpeed")}
+        data-testid={`button-voice-speed-${attachment.id}`}
+      >
+        {PLAYBACK_RATES[rateIndex]}×
+      </button>
+    </div>
+  );
+}
@@ -1,15 +1,41 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { startAuthentication } from "@simplewebauthn/browser";
 import { apiRequest } from "./queryClient";
 import type { User } from "@shared/schema";
 
+// Sent with a 403 "ACCOUNT_SUSPENDED" when a suspended account signs in or uses its session
+export interface AccountSuspension {
+  reason: string | null;
+  suspendedUntil: string | null;
+}
+
+// Outcome of a sign-in step; twoFactorRequired means a code is needed next
+export interface SignInResult {
+  success: boolean;
+  profileCompleted?: boolean;
+  suspension?: AccountSuspension;
+  twoFactorRequired?: boolean;
+  // The user dismissed the browser's passkey prompt
+  cancelled?: boolean;
+}
+
+export interface TwoFactorResult extends SignInResult {
+  // The sign-in timed out or ran out of attempts and has to start over
+  expired?: boolean;
+  attemptsRemaining?: number;
+}
+
 interface AuthContextType {
   user: User | null;
+  suspension: AccountSuspension | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   profileCompleted: boolean;
-  login: (email: string) => Promise<{ success: boolean; message?: string }>;
-  loginWithGoogle: (credential: string) => Promise<{ success: boolean; profileCompleted?: boolean }>;
+  login: (email: string) => Promise<{ success: boolean; message?: string; retryAfter?: number }>;
+  loginWithGoogle: (credential: string) => Promise<SignInResult>;
+  completeTwoFactor: (input: { code?: string; backupCode?: string }) => Promise<TwoFactorResult>;
+  loginWithPasskey: () => Promise<SignInResult>;
   logout: () => Promise<void>;
   refetchUser: () => void;
 }
@@ -22,12 +48,21 @@ interface AuthProviderProps {
 
 export function AuthProvider({ children }: AuthProviderProps) {
   const queryClient = useQueryClient();
+  const [suspension, setSuspension] = useState<AccountSuspension | null>(null);
 
   const { data: user, isLoading, refetch } = useQuery<User | null>({
     queryKey: ["/api/auth/me"],
     queryFn: async () => {
       try {
         const res = await fetch("/api/auth/me", { credentials: "include" });
+        if (res.status === 403) {
+          const data = await res.json();
+          if (data.code === "ACCOUNT_SUSPENDED") {
+            setSuspension({ reason: data.reason ?? null, suspendedUntil: data.suspendedUntil ?? null });
+            return null;
+          }
+        }
+        setSuspension(null);
         if (res.status === 401) return null;
         if (!res.ok) throw new Error("Failed to fetch user");
         return res.json();
@@ -49,7 +84,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       });
       if (!res.ok) {
         const data = await res.json();
-        throw new Error(data.error || "Failed to send magic link");
+        throw Object.assign(new Error(data.error || "Failed to send magic link"), { retryAfter: data.retryAfter });
       }
       return res.json();
     },
@@ -65,17 +100,98 @@ export function AuthProvider({ children }: AuthProviderProps) {
       });
       if (!res.ok) {
         const data = await res.json();
+        if (data.code === "ACCOUNT_SUSPENDED") {
+          return {
+            success: false,
+            suspension: { reason: data.reason ?? null, suspendedUntil: data.suspendedUntil ?? null },
+          };
+        }
         throw new Error(data.error || "Google login failed");
       }
       return res.json();
     },
-    onSuccess: async () => {
+    onSuccess: async (result) => {
+      if (result.suspension || result.twoFactorRequired) return;
       // Invalidate and refetch auth state before returning
       await queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
       await refetch();
     },
   });
 
+  const twoFactorMutation = useMutation({
+    mutationFn: async (input: { code?: string; backupCode?: string }): Promise<TwoFactorResult> => {
+      const res = await fetch("/api/auth/2fa/challenge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (res.ok) {
+        return { success: true, profileCompleted: data.profileCompleted };
+      }
+      if (data.code === "ACCOUNT_SUSPENDED") {
+        return {
+          success: false,
+          suspension: { reason: data.reason ?? null, suspendedUntil: data.suspendedUntil ?? null },
+        };
+      }
+      if (data.code === "TWO_FACTOR_EXPIRED") {
+        return { success: false, expired: true };
+      }
+      if (data.code === "INVALID_TWO_FACTOR_CODE") {
+        return { success: false, attemptsRemaining: data.attemptsRemaining };
+      }
+      throw new Error(data.error || "Two-factor verification failed");
+    },
+    onSuccess: async (result) => {
+      if (!result.success) return;
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      await refetch();
+    },
+  });
+
+  const passkeyLoginMutation = useMutation({
+    mutationFn: async (): Promise<SignInResult> => {
+      const optionsRes = await fetch("/api/auth/passkeys/login/options", {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!optionsRes.ok) throw new Error("Failed to start passkey sign-in");
+
+      let response;
+      try {
+        response = await startAuthentication({ optionsJSON: await optionsRes.json() });
+      } catch (error: any) {
+        if (error?.name === "NotAllowedError" || error?.name === "AbortError") {
+          return { success: false, cancelled: true };
+        }
+        throw error;
+      }
+
+      const res = await fetch("/api/auth/passkeys/login/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ response }),
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (data.code === "ACCOUNT_SUSPENDED") {
+        return {
+          success: false,
+          suspension: { reason: data.reason ?? null, suspendedUntil: data.suspendedUntil ?? null },
+        };
+      }
+      if (!res.ok) throw new Error(data.error || "Passkey sign-in failed");
+      return { success: true, profileCompleted: data.profileCompleted };
+    },
+    onSuccess: async (result) => {
+      if (!result.success) return;
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      await refetch();
+    },
+  });
+
   const logoutMutation = useMutation({
     mutationFn: async () => {
       await fetch("/api/auth/logout", {
@@ -86,25 +202,32 @@ export function AuthProvider({ children }: AuthProviderProps) {
     onSuccess: () => {
       queryClient.clear();
       queryClient.setQueryData(["/api/auth/me"], null);
+      setSuspension(null);
     },
   });
 
   const login = useCallback(
-    async (email: string): Promise<{ success: boolean; message?: string }> => {
+    async (email: string): Promise<{ success: boolean; message?: string; retryAfter?: number }> => {
       try {
         await loginMutation.mutateAsync(email);
         return { success: true, message: "Magic link sent to your email" };
       } catch (error: any) {
-        return { success: false, message: error.message };
+        return { success: false, message: error.message, retryAfter: error.retryAfter };
       }
     },
     [loginMutation]
   );
 
   const loginWithGoogle = useCallback(
-    async (credential: string): Promise<{ success: boolean; profileCompleted?: boolean }> => {
+    async (credential: string): Promise<SignInResult> => {
       try {
         const result = await googleLoginMutation.mutateAsync(credential);
+        if (result.suspension) {
+          return { success: false, suspension: result.suspension };
+        }
+        if (result.twoFactorRequired) {
+          return { success: false, twoFactorRequired: true };
+        }
         // Wait a brief moment for React Query state to propagate
         await new Promise(resolve => setTimeout(resolve, 100));
         return { success: true, profileCompleted: result.profileCompleted };
@@ -115,6 +238,25 @@ export function AuthProvider({ children }: AuthProviderProps) {
     [googleLoginMutation]
   );
 
+  const completeTwoFactor = useCallback(
+    async (input: { code?: string; backupCode?: string }): Promise<TwoFactorResult> => {
+      try {
+        return await twoFactorMutation.mutateAsync(input);
+      } catch {
+        return { success: false };
+      }
+    },
+    [twoFactorMutation]
+  );
+
+  const loginWithPasskey = useCallback(async (): Promise<SignInResult> => {
+    try {
+      return await passkeyLoginMutation.mutateAsync();
+    } catch {
+      return { success: false };
+    }
+  }, [passkeyLoginMutation]);
+
   const logout = useCallback(async () => {
     await logoutMutation.mutateAsync();
   }, [logoutMutation]);
@@ -125,11 +267,14 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const value: AuthContextType = {
     user: user ?? null,
+    suspension,
     isLoading,
     isAuthenticated: !!user,
     profileCompleted: user?.profileCompleted ?? false,
     login,
     loginWithGoogle,
+    completeTwoFactor,
+    loginWithPasskey,
     logout,
     refetchUser,
   };
@@ -0,0 +1,113 @@
+import { useSyncExternalStore } from "react";
+import { queryClient } from "./queryClient";
+
+// Messages composed while offline, kept in localStorage until the server accepts
+// them. Each one carries a client-generated id so a send that reached the
+// server before the connection dropped is not stored twice when retried.
+export interface OutboxMessage {
+  clientId: string;
+  senderId: string;
+  kind: "direct" | "group";
+  // Receiver id for direct messages, group id for group messages
+  targetId: string;
+  content: string;
+  parentId?: string;
+  createdAt: string;
+  // Rejected by the server (e.g. no longer connected); kept so the user can see it
+  failed?: boolean;
+}
+
+const STORAGE_KEY = "llc_outbox";
+const listeners = new Set<() => void>();
+let items: OutboxMessage[] = load();
+let flushing = false;
+
+function load(): OutboxMessage[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(next: OutboxMessage[]) {
+  items = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch {
+    // Storage full or disabled - the outbox still works for this page
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function createClientMessageId() {
+  return crypto.randomUUID();
+}
+
+// A fetch that never reached the server (as opposed to one it rejected)
+export function isNetworkError(error: unknown) {
+  return error instanceof TypeError;
+}
+
+export function enqueueOutboxMessage(message: Omit<OutboxMessage, "createdAt">) {
+  save([...items, { ...message, createdAt: new Date().toISOString() }]);
+}
+
+export function discardOutboxMessage(clientId: string) {
+  save(items.filter((item) => item.clientId !== clientId));
+}
+
+// Pending messages of one conversation, oldest first
+export function useOutbox(senderId: string | undefined, kind: OutboxMessage["kind"], targetId: string | null) {
+  const all = useSyncExternalStore(subscribe, () => items);
+  return all.filter((item) => item.senderId === senderId && item.kind === kind && item.targetId === targetId);
+}
+
+// Send everything queued by the user, in order. Stops at the first network
+// failure; the next reconnect tries again.
+export async function flushOutbox(senderId: string) {
+  if (flushing) return;
+  flushing = true;
+  try {
+    for (const item of items.filter((i) => i.senderId === senderId && !i.failed)) {
+      const url = item.kind === "group" ? `/api/groups/${item.targetId}/messages` : "/api/messages";
+      const body = item.kind === "group"
+        ? { content: item.content, parentId: item.parentId, clientId: item.clientId }
+        : { receiverId: item.targetId, content: item.content, parentId: item.parentId, clientId: item.clientId };
+
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+          credentials: "include",
+        });
+      } catch {
+        return;
+      }
+      // Not signed in, rate limited or a server error: try again later
+      if (res.status === 401 || res.status === 429 || res.status >= 500) return;
+
+      if (res.ok) {
+        discardOutboxMessage(item.clientId);
+      } else {
+        save(items.map((i) => (i.clientId === item.clientId ? { ...i, failed: true } : i)));
+      }
+      if (item.kind === "group") {
+        queryClient.invalidateQueries({ queryKey: ["/api/groups", item.targetId, "messages"] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["messages", item.targetId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+}
@@ -3,6 +3,10 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
+    // The account was suspended mid-session: re-check auth so the app shows why
+    if (res.status === 403 && text.includes("ACCOUNT_SUSPENDED")) {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    }
     throw new Error(`${res.status}: ${text}`);
   }
 }
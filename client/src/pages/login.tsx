@@ -13,7 +13,10 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { Handshake, Mail, Loader2, CheckCircle, Globe, ChevronDown } from "lucide-react";
+import { Handshake, Mail, Loader2, CheckCircle, Globe, ChevronDown, KeyRound } from "lucide-react";
+import { browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import { describeSuspension } from "@/components/account-suspended";
+import { TwoFactorChallenge } from "@/components/two-factor-challenge";
 
 declare global {
   interface Window {
@@ -31,7 +34,7 @@ declare global {
 
 export default function LoginPage() {
   const { t, language, setLanguage } = useI18n();
-  const { login, loginWithGoogle, isAuthenticated, profileCompleted } = useAuth();
+  const { login, loginWithGoogle, loginWithPasskey, isAuthenticated, profileCompleted } = useAuth();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   
@@ -39,10 +42,16 @@ export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [magicLinkSent, setMagicLinkSent] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
 
   // Check for auth errors in URL
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
+    // A magic link for an account with two-factor authentication lands here for the code
+    if (params.get("step") === "two_factor") {
+      setTwoFactorRequired(true);
+      window.history.replaceState({}, "", "/login");
+    }
     const errorType = params.get("error");
     if (errorType) {
       switch (errorType) {
@@ -56,6 +65,12 @@ export default function LoginPage() {
         case "verification_failed":
           setError(t("auth.verificationFailed"));
           break;
+        case "account_suspended":
+          setError(`${t("auth.accountSuspended")}. ${describeSuspension(t, {
+            reason: params.get("reason"),
+            suspendedUntil: params.get("until"),
+          })}`);
+          break;
       }
       // Clean URL
       window.history.replaceState({}, "", "/login");
@@ -135,6 +150,12 @@ export default function LoginPage() {
         // before React Query has updated the auth state
         const targetPath = result.profileCompleted ? "/" : "/setup";
         window.location.href = targetPath;
+      } else if (result.twoFactorRequired) {
+        setTwoFactorRequired(true);
+        setIsLoading(false);
+      } else if (result.suspension) {
+        setError(`${t("auth.accountSuspended")}. ${describeSuspension(t, result.suspension)}`);
+        setIsLoading(false);
       } else {
         setError(t("auth.magicLinkError"));
         setIsLoading(false);
@@ -145,6 +166,23 @@ export default function LoginPage() {
     }
   };
 
+  const handlePasskey = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await loginWithPasskey();
+    if (result.success) {
+      window.location.href = result.profileCompleted ? "/" : "/setup";
+      return;
+    }
+    if (result.suspension) {
+      setError(`${t("auth.accountSuspended")}. ${describeSuspension(t, result.suspension)}`);
+    } else if (!result.cancelled) {
+      setError(t("auth.passkeyError"));
+    }
+    setIsLoading(false);
+  };
+
   const handleMagicLink = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -157,6 +195,8 @@ export default function LoginPage() {
       const result = await login(email.trim());
       if (result.success) {
         setMagicLinkSent(true);
+      } else if (result.retryAfter) {
+        setError(t("auth.tooManyRequests", { minutes: Math.ceil(result.retryAfter / 60) }));
       } else {
         setError(result.message || t("auth.magicLinkError"));
       }
@@ -239,64 +279,88 @@ export default function LoginPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            {error && (
-              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive text-sm text-center">
-                {error}
-              </div>
-            )}
+            {twoFactorRequired ? (
+              <TwoFactorChallenge
+                onCancel={(message) => {
+                  setTwoFactorRequired(false);
+                  setError(message ?? null);
+                }}
+              />
+            ) : (
+              <>
+              {error && (
+                <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive text-sm text-center">
+                  {error}
+                </div>
+              )}
 
-            {/* Google Sign-In */}
-            <div id="google-signin-button" className="w-full flex justify-center" />
+              {/* Google Sign-In */}
+              <div id="google-signin-button" className="w-full flex justify-center" />
 
-            <div className="relative">
-              <div className="absolute inset-0 flex items-center">
-                <Separator className="w-full" />
-              </div>
-              <div className="relative flex justify-center text-xs uppercase">
-                <span className="bg-card px-2 text-muted-foreground">
-                  {t("common.or")}
-                </span>
-              </div>
-            </div>
+              {browserSupportsWebAuthn() && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handlePasskey}
+                  disabled={isLoading}
+                  data-testid="button-passkey-login"
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  {t("auth.continueWithPasskey")}
+                </Button>
+              )}
 
-            {/* Email Magic Link */}
-            <form onSubmit={handleMagicLink} className="space-y-4">
-              <div className="space-y-2">
-                <div className="relative">
-                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                  <Input
-                    type="email"
-                    placeholder={t("auth.emailPlaceholder")}
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    className="pl-10"
-                    disabled={isLoading}
-                    required
-                  />
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <Separator className="w-full" />
+                </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-card px-2 text-muted-foreground">
+                    {t("common.or")}
+                  </span>
                 </div>
               </div>
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={isLoading || !email.trim()}
-              >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    {t("common.loading")}
-                  </>
-                ) : (
-                  <>
-                    <Mail className="w-4 h-4 mr-2" />
-                    {t("auth.continueWithEmail")}
-                  </>
-                )}
-              </Button>
-            </form>
 
-            <p className="text-xs text-center text-muted-foreground">
-              {t("auth.termsNotice")}
-            </p>
+              {/* Email Magic Link */}
+              <form onSubmit={handleMagicLink} className="space-y-4">
+                <div className="space-y-2">
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      type="email"
+                      placeholder={t("auth.emailPlaceholder")}
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="pl-10"
+                      disabled={isLoading}
+                      required
+                    />
+                  </div>
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading || !email.trim()}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {t("common.loading")}
+                    </>
+                  ) : (
+                    <>
+                      <Mail className="w-4 h-4 mr-2" />
+                      {t("auth.continueWithEmail")}
+                    </>
+                  )}
+                </Button>
+              </form>
+
+              <p className="text-xs text-center text-muted-foreground">
+                {t("auth.termsNotice")}
+              </p>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
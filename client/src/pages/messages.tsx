@@ -1,5 +1,5 @@
-import { useState, useRef, useEffect, useCallback } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from "react";
+import { useQuery, useMutation, useInfiniteQuery, type InfiniteData } from "@tanstack/react-query";
 import { useI18n } from "@/lib/i18n";
 import { useAuth } from "@/lib/auth";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -39,16 +39,42 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { Send, ArrowLeft, MessageSquare, Users, ExternalLink, MoreVertical, UserX, ImagePlus, X, Trash2, Plus, LogOut, UserPlus, Smile, Check, CheckCheck, Image as ImageIcon } from "lucide-react";
+import { Send, ArrowLeft, MessageSquare, Users, ExternalLink, MoreVertical, UserX, ImagePlus, X, Trash2, Plus, LogOut, UserPlus, Smile, CheckCheck, Image as ImageIcon, Pencil, Reply, Search, Loader2, Paperclip, Flag } from "lucide-react";
 import { ImageLightbox, useLightbox } from "@/components/image-lightbox";
 import { Link } from "wouter";
 import { CreateGroupDialog } from "@/components/create-group-dialog";
 import { AddGroupMembersDialog } from "@/components/add-group-members-dialog";
-import type { User, DirectMessage, Connection, Group, GroupMember, GroupMessage, MessageReaction, MessageReadReceipt } from "@shared/schema";
+import { MessageSearchDialog, type MessageSearchHit } from "@/components/message-search-dialog";
+import { ReportDialog } from "@/components/report-dialog";
+import { AttachmentCard, formatFileSize, getFileIcon } from "@/components/attachment-card";
+import { GroupFilesPanel } from "@/components/group-files-panel";
+import { VoiceMessagePlayer, VoiceRecorderButton } from "@/components/voice-message";
+import { LinkifiedText, LinkPreviewCard, extractFirstUrl } from "@/components/link-preview";
+import { DeliveryTicks, applyDeliveryStatus } from "@/components/delivery-ticks";
+import { OutboxMessages } from "@/components/outbox-messages";
+import { createClientMessageId, enqueueOutboxMessage, isNetworkError } from "@/lib/outbox";
+import { MESSAGE_ATTACHMENT_MIME_TYPES } from "@shared/schema";
+import type { User, DirectMessage, Connection, Group, GroupMember, GroupMessage, MessageReaction, MessageReadReceipt, MessageEdit, MessageAttachmentInfo, ParentPreview, ThreadInfo } from "@shared/schema";
 
 // Supported emoji reactions
 const EMOJI_REACTIONS = ["😂", "❤", "👍", "😒", "😠"] as const;
 
+// Messages loaded per page of conversation history
+const MESSAGE_PAGE_SIZE = 50;
+
+// Apply a change to one message inside a paged conversation cache entry
+function updateCachedMessage<T extends { id: string }>(
+  data: InfiniteData<T[], string | undefined> | undefined,
+  messageId: string,
+  update: (message: T) => T
+) {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page) => page.map((m) => (m.id === messageId ? update(m) : m))),
+  };
+}
+
 // GIF Picker component using GIPHY
 function GifPicker({ onSelect, t }: { onSelect: (gifUrl: string) => void; t: (key: string) => string }) {
   const [searchQuery, setSearchQuery] = useState("");
@@ -218,12 +244,12 @@ function MessageReactionsDisplay({ reactions }: { reactions: Array<{ emoji: stri
 
 // Read receipt indicator
 function ReadReceiptIndicator({ 
-  isRead, 
+  message, 
   readReceipts,
   isSender,
   t,
 }: { 
-  isRead: boolean;
+  message: Pick<DirectMessage, "isRead" | "deliveredAt" | "readAt">;
   readReceipts: Array<{ user: User; readAt: string }>;
   isSender: boolean;
   t: (key: string) => string;
@@ -260,13 +286,226 @@ function ReadReceiptIndicator({
     );
   }
   
+  return <DeliveryTicks message={message} />;
+}
+
+// Edit history dialog - lists the earlier versions of an edited message
+function EditHistoryDialog({
+  message,
+  onClose,
+  t,
+}: {
+  message: { id: string; messageType: 'direct' | 'group'; content: string } | null;
+  onClose: () => void;
+  t: (key: string) => string;
+}) {
+  const { data: edits = [], isLoading } = useQuery<Array<MessageEdit & { editedBy: User }>>({
+    queryKey: ["/api/messages", message?.id, "edits", message?.messageType],
+    queryFn: async () => {
+      const res = await fetch(`/api/messages/${message!.id}/edits?type=${message!.messageType}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch edit history");
+      return res.json();
+    },
+    enabled: !!message,
+  });
+
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("messages.editHistory")}</DialogTitle>
+          <DialogDescription>{t("messages.editHistoryDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          <div className="rounded-lg border p-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1">{t("messages.currentVersion")}</p>
+            <p className="text-sm break-words">{message?.content}</p>
+          </div>
+          {isLoading ? (
+            <Skeleton className="h-14 w-full rounded-lg" />
+          ) : (
+            [...edits].reverse().map((edit) => (
+              <div key={edit.id} className="rounded-lg bg-muted p-3">
+                <p className="text-xs text-muted-foreground mb-1">{formatDate(edit.editedAt)}</p>
+                <p className="text-sm break-words">{edit.previousContent}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Short one-line preview of a message, used in quotes and the reply composer
+function getQuotePreview(content: string, t: (key: string) => string) {
+  if (/\[GIF\]/.test(content)) return t("messages.gifSent");
+  if (/\[IMAGE\]/.test(content)) return t("messages.imageSent");
+  if (!content.trim()) return t("messages.attachmentSent");
+  return content;
+}
+
+function formatReplyCount(count: number, t: (key: string, params?: Record<string, string | number>) => string) {
+  return count === 1 ? t("messages.oneReply") : t("messages.replyCount", { count });
+}
+
+// Quoted parent shown above a reply
+function ParentQuote({
+  parent,
+  isOwn,
+  onClick,
+  t,
+}: {
+  parent: ParentPreview | null | undefined;
+  isOwn: boolean;
+  onClick?: () => void;
+  t: (key: string) => string;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!parent}
+      className={`block w-full text-left mb-1 pl-2 border-l-2 rounded-sm text-xs ${
+        isOwn ? "border-primary-foreground/60 opacity-80" : "border-primary/60 text-muted-foreground"
+      }`}
+    >
+      {parent ? (
+        <>
+          <span className="block font-medium truncate">{parent.senderName}</span>
+          <span className="block truncate">{getQuotePreview(parent.content, t)}</span>
+        </>
+      ) : (
+        <span className="italic">{t("messages.originalDeleted")}</span>
+      )}
+    </button>
+  );
+}
+
+// Thread view - a message and every reply to it, with its own reply box
+function ThreadDialog({
+  thread,
+  currentUserId,
+  onClose,
+  t,
+}: {
+  thread: OpenThread | null;
+  currentUserId?: string;
+  onClose: () => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+}) {
+  const [replyInput, setReplyInput] = useState("");
+  const repliesKey = ["/api/messages", thread?.id, "replies", thread?.messageType];
+
+  const { data: replies = [], isLoading } = useQuery<Array<(DirectMessage | GroupMessage) & ThreadInfo & { sender?: User }>>({
+    queryKey: repliesKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/messages/${thread!.id}/replies?type=${thread!.messageType}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch replies");
+      return res.json();
+    },
+    enabled: !!thread,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (content: string) => {
+      if (!thread) return;
+      return thread.messageType === 'group'
+        ? apiRequest("POST", `/api/groups/${thread.groupId}/messages`, { content, parentId: thread.id })
+        : apiRequest("POST", "/api/messages", { receiverId: thread.otherUserId, content, parentId: thread.id });
+    },
+    onSuccess: () => {
+      setReplyInput("");
+      queryClient.invalidateQueries({ queryKey: repliesKey });
+      if (thread?.messageType === 'group') {
+        queryClient.invalidateQueries({ queryKey: ["/api/groups", thread.groupId, "messages"] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["messages", thread?.otherUserId] });
+      }
+    },
+  });
+
+  const handleSend = () => {
+    if (replyInput.trim() && !replyMutation.isPending) {
+      replyMutation.mutate(replyInput.trim());
+    }
+  };
+
   return (
-    <span className={`inline-flex items-center justify-center text-xs rounded-full p-0.5 ${isRead ? 'text-green-500 bg-black/90' : 'text-blue-500 bg-black/90'}`}>
-      {isRead ? <CheckCheck className="w-4 h-4" /> : <Check className="w-4 h-4" />}
-    </span>
+    <Dialog open={!!thread} onOpenChange={(open) => {
+      if (!open) {
+        setReplyInput("");
+        onClose();
+      }
+    }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("messages.thread")}</DialogTitle>
+          <DialogDescription>
+            {formatReplyCount(replies.length, t)}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {thread && (
+            <div className="rounded-lg border p-3">
+              <p className="text-xs font-medium mb-1">{thread.senderName}</p>
+              <p className="text-sm break-words">{getQuotePreview(thread.content, t)}</p>
+            </div>
+          )}
+          {isLoading ? (
+            <Skeleton className="h-14 w-full rounded-lg" />
+          ) : (
+            replies.map((reply) => (
+              <div
+                key={reply.id}
+                className={`rounded-lg p-3 ml-4 ${reply.senderId === currentUserId ? "bg-primary/10" : "bg-muted"}`}
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <p className="text-xs font-medium">
+                    {reply.senderId === currentUserId
+                      ? t("messages.you")
+                      : reply.sender?.fullName || reply.sender?.name || thread?.otherUserName}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">{formatDate(reply.timestamp)}</p>
+                </div>
+                <p className="text-sm break-words">{getQuotePreview(reply.content, t)}</p>
+              </div>
+            ))
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            placeholder={t("messages.replyInThread")}
+            value={replyInput}
+            onChange={(e) => setReplyInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            className="flex-1 text-base"
+            data-testid="input-thread-reply"
+          />
+          <Button
+            onClick={handleSend}
+            disabled={!replyInput.trim() || replyMutation.isPending}
+            size="icon"
+            data-testid="button-send-thread-reply"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
   );
 }
 
+// Only plain text messages can be edited (not images or GIFs)
+function isEditableContent(content: string) {
+  return content.trim() !== "" && !/\[(IMAGE|GIF)\]/.test(content);
+}
+
 interface ConversationWithUser {
   oderId: string;
   otherUser: User;
@@ -284,12 +523,24 @@ interface GroupInvitation extends GroupMember {
   invitedBy: User | null;
 }
 
-interface GroupMessageWithSender extends GroupMessage {
+interface OpenThread {
+  id: string;
+  messageType: 'direct' | 'group';
+  content: string;
+  senderName: string;
+  groupId?: string;
+  otherUserId?: string;
+  otherUserName?: string;
+}
+
+interface GroupMessageWithSender extends GroupMessage, ThreadInfo {
   sender: User;
 }
 
 interface MessagesPageProps {
   wsRef?: React.MutableRefObject<WebSocket | null>;
+  // Changes on every reconnect, so listeners move to the new socket
+  isConnected?: boolean;
 }
 
 function getInitials(name: string) {
@@ -374,7 +625,37 @@ async function resizeImage(file: File): Promise<string> {
   });
 }
 
-export default function MessagesPage({ wsRef }: MessagesPageProps) {
+// Upload a chat attachment and return its id to send with the message
+async function uploadMessageAttachment(file: Blob, fileName: string): Promise<string> {
+  const formData = new FormData();
+  formData.append("file", file, fileName);
+
+  const res = await fetch("/api/upload/message-attachment", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.details || data.error || "Failed to upload attachment");
+  }
+  return data.attachment.id;
+}
+
+// Upload the selected image (a resized data URL) and/or file, returning the attachment ids
+async function uploadSelectedAttachments(imageData?: string, file?: File) {
+  const attachmentIds: string[] = [];
+  if (imageData) {
+    const blob = await (await fetch(imageData)).blob();
+    attachmentIds.push(await uploadMessageAttachment(blob, "image.jpg"));
+  }
+  if (file) {
+    attachmentIds.push(await uploadMessageAttachment(file, file.name));
+  }
+  return attachmentIds.length > 0 ? attachmentIds : undefined;
+}
+
+export default function MessagesPage({ wsRef, isConnected }: MessagesPageProps) {
   const { t } = useI18n();
   const { user: currentUser } = useAuth();
   const { toast } = useToast();
@@ -394,14 +675,27 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
   const [leaveGroupDialogOpen, setLeaveGroupDialogOpen] = useState(false);
   const [createGroupDialogOpen, setCreateGroupDialogOpen] = useState(false);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [groupView, setGroupView] = useState<"chat" | "files">("chat");
   const [typingUsers, setTypingUsers] = useState<Set<string>>(new Set());
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [messageToDelete, setMessageToDelete] = useState<string | null>(null);
+  const [messageToReport, setMessageToReport] = useState<string | null>(null);
+  const [messageToEdit, setMessageToEdit] = useState<{ id: string; messageType: 'direct' | 'group' } | null>(null);
+  const [editInput, setEditInput] = useState("");
+  const [historyMessage, setHistoryMessage] = useState<{ id: string; messageType: 'direct' | 'group'; content: string } | null>(null);
+  const [replyTo, setReplyTo] = useState<{ id: string; senderName: string; content: string } | null>(null);
+  const [openThread, setOpenThread] = useState<OpenThread | null>(null);
+  const [searchDialogOpen, setSearchDialogOpen] = useState(false);
+  const [jumpToMessageId, setJumpToMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [addMembersDialogOpen, setAddMembersDialogOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messageInputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingScrollRestoreRef = useRef<{ viewport: HTMLElement; distanceFromBottom: number } | null>(null);
 
   // Get accepted connections
   const { data: acceptedConnections = [], isLoading: connectionsLoading } = useQuery<
@@ -426,26 +720,51 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
   });
 
   // Get messages for selected group
-  const { data: groupMessages = [], isLoading: groupMessagesLoading, refetch: refetchGroupMessages } = useQuery<GroupMessageWithSender[]>({
+  // Pages go newest first; each page is oldest first
+  const {
+    data: groupMessagePages,
+    isLoading: groupMessagesLoading,
+    refetch: refetchGroupMessages,
+    fetchNextPage: fetchOlderGroupMessages,
+    hasNextPage: hasOlderGroupMessages,
+    isFetchingNextPage: isFetchingOlderGroupMessages,
+  } = useInfiniteQuery({
     queryKey: ["/api/groups", selectedGroupId, "messages"],
-    queryFn: async () => {
+    queryFn: async ({ pageParam }): Promise<GroupMessageWithSender[]> => {
       if (!selectedGroupId) return [];
-      const res = await fetch(`/api/groups/${selectedGroupId}/messages`, { credentials: "include" });
+      const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE) });
+      if (pageParam) params.set("before", pageParam);
+      const res = await fetch(`/api/groups/${selectedGroupId}/messages?${params}`, { credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch group messages");
       return res.json();
     },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => (lastPage.length < MESSAGE_PAGE_SIZE ? undefined : lastPage[0]?.id),
     enabled: !!selectedGroupId,
   });
+  const groupMessages = useMemo(
+    () => (groupMessagePages ? [...groupMessagePages.pages].reverse().flat() : []),
+    [groupMessagePages]
+  );
 
   // Get selected group details
   const selectedGroup = selectedGroupId ? groups.find(g => g.id === selectedGroupId) : null;
 
   // Get messages for selected user
-  const { data: messages = [], isLoading: messagesLoading, refetch: refetchMessages } = useQuery<DirectMessage[]>({
+  const {
+    data: messagePages,
+    isLoading: messagesLoading,
+    refetch: refetchMessages,
+    fetchNextPage: fetchOlderMessages,
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: isFetchingOlderMessages,
+  } = useInfiniteQuery({
     queryKey: ["messages", selectedUserId],
-    queryFn: async () => {
+    queryFn: async ({ pageParam }): Promise<Array<DirectMessage & ThreadInfo>> => {
       if (!selectedUserId) return [];
-      const res = await fetch(`/api/messages/${selectedUserId}`, { credentials: "include" });
+      const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE) });
+      if (pageParam) params.set("before", pageParam);
+      const res = await fetch(`/api/messages/${selectedUserId}?${params}`, { credentials: "include" });
       if (!res.ok) {
         if (res.status === 403) {
           return [];
@@ -454,8 +773,14 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
       }
       return res.json();
     },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => (lastPage.length < MESSAGE_PAGE_SIZE ? undefined : lastPage[0]?.id),
     enabled: !!selectedUserId,
   });
+  const messages = useMemo(
+    () => (messagePages ? [...messagePages.pages].reverse().flat() : []),
+    [messagePages]
+  );
 
   // Mark messages as read and update unread count when selecting a conversation
   useEffect(() => {
@@ -468,25 +793,57 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
   }, [selectedUserId, messages.length]);
 
   const sendMutation = useMutation({
-    mutationFn: async ({ content, imageData }: { content: string; imageData?: string }) => {
+    mutationFn: async ({ content, imageData, file, voiceAttachmentId, parentId }: {
+      content: string;
+      imageData?: string;
+      file?: File;
+      voiceAttachmentId?: string;
+      parentId?: string;
+    }) => {
       if (!selectedUserId || !currentUser) return;
-      const messageContent = imageData 
-        ? `[IMAGE]${imageData}[/IMAGE]${content ? `\n${content}` : ""}`
-        : content;
-      return apiRequest("POST", "/api/messages", {
-        receiverId: selectedUserId,
-        content: messageContent,
-      });
+      // Text written while offline waits in the outbox; the client id makes the later send idempotent
+      const clientId = createClientMessageId();
+      const canQueue = !imageData && !file && !voiceAttachmentId;
+      const queue = () => {
+        enqueueOutboxMessage({ clientId, senderId: currentUser.id, kind: "direct", targetId: selectedUserId, content, parentId });
+        return "queued" as const;
+      };
+      if (canQueue && !navigator.onLine) return queue();
+
+      const attachmentIds = voiceAttachmentId ? [voiceAttachmentId] : await uploadSelectedAttachments(imageData, file);
+      try {
+        return await apiRequest("POST", "/api/messages", {
+          receiverId: selectedUserId,
+          content,
+          parentId,
+          attachmentIds,
+          clientId,
+        });
+      } catch (error) {
+        if (canQueue && isNetworkError(error)) return queue();
+        throw error;
+      }
     },
-    onSuccess: () => {
-      setMessageInput("");
-      setSelectedImage(null);
+    onSuccess: (data, { voiceAttachmentId }) => {
+      if (data === "queued") {
+        toast({ title: t("messages.queuedOffline") });
+      }
+      // A voice message leaves whatever is typed in the composer alone
+      if (!voiceAttachmentId) {
+        setMessageInput("");
+        setSelectedImage(null);
+        removeSelectedFile();
+      }
+      setReplyTo(null);
       refetchMessages();
       queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
       queryClient.invalidateQueries({ queryKey: ["/api/messages/unread-count"] });
       // Restore focus to input after sending
       setTimeout(() => messageInputRef.current?.focus(), 0);
     },
+    onError: (error: Error) => {
+      toast({ title: t("errors.messageFailed"), description: error.message, variant: "destructive" });
+    },
   });
 
   // Delete message mutation
@@ -506,6 +863,35 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
     },
   });
 
+  // Edit message mutation (direct or group)
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ id, messageType, content }: { id: string; messageType: 'direct' | 'group'; content: string }) => {
+      const url = messageType === 'group'
+        ? `/api/groups/${selectedGroupId}/messages/${id}`
+        : `/api/messages/${id}`;
+      return apiRequest("PATCH", url, { content });
+    },
+    onSuccess: (_data, variables) => {
+      toast({ title: t("messages.messageUpdated") });
+      setMessageToEdit(null);
+      setEditInput("");
+      if (variables.messageType === 'group') {
+        refetchGroupMessages();
+      } else {
+        refetchMessages();
+        queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+      }
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  const startEditingMessage = (id: string, messageType: 'direct' | 'group', content: string) => {
+    setMessageToEdit({ id, messageType });
+    setEditInput(content);
+  };
+
   // Remove connection mutation
   const removeConnectionMutation = useMutation({
     mutationFn: async () => {
@@ -529,17 +915,46 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
 
   // Send group message mutation
   const sendGroupMessageMutation = useMutation({
-    mutationFn: async ({ content }: { content: string }) => {
+    mutationFn: async ({ content, file, voiceAttachmentId, parentId }: {
+      content: string;
+      file?: File;
+      voiceAttachmentId?: string;
+      parentId?: string;
+    }) => {
       if (!selectedGroupId || !currentUser) return;
-      return apiRequest("POST", `/api/groups/${selectedGroupId}/messages`, { content });
+      const clientId = createClientMessageId();
+      const canQueue = !file && !voiceAttachmentId;
+      const queue = () => {
+        enqueueOutboxMessage({ clientId, senderId: currentUser.id, kind: "group", targetId: selectedGroupId, content, parentId });
+        return "queued" as const;
+      };
+      if (canQueue && !navigator.onLine) return queue();
+
+      const attachmentIds = voiceAttachmentId ? [voiceAttachmentId] : await uploadSelectedAttachments(undefined, file);
+      try {
+        return await apiRequest("POST", `/api/groups/${selectedGroupId}/messages`, { content, parentId, attachmentIds, clientId });
+      } catch (error) {
+        if (canQueue && isNetworkError(error)) return queue();
+        throw error;
+      }
     },
-    onSuccess: () => {
-      setMessageInput("");
+    onSuccess: (data, { file, voiceAttachmentId }) => {
+      if (data === "queued") {
+        toast({ title: t("messages.queuedOffline") });
+      }
+      if (!voiceAttachmentId) {
+        setMessageInput("");
+        removeSelectedFile();
+      }
+      setReplyTo(null);
       refetchGroupMessages();
+      if (file) {
+        queryClient.invalidateQueries({ queryKey: ["/api/groups", selectedGroupId, "files"] });
+      }
       setTimeout(() => messageInputRef.current?.focus(), 0);
     },
-    onError: () => {
-      toast({ title: t("errors.messageFailed"), variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: t("errors.messageFailed"), description: error.message, variant: "destructive" });
     },
   });
 
@@ -590,9 +1005,40 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
   });
 
   // Scroll to bottom when new messages arrive or typing indicator shows
+  // (keyed on the newest message so loading older history doesn't jump)
+  const newestMessageId = messages[messages.length - 1]?.id;
+  const newestGroupMessageId = groupMessages[groupMessages.length - 1]?.id;
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, groupMessages, typingUsers]);
+  }, [newestMessageId, newestGroupMessageId, typingUsers]);
+
+  // Load older history when scrolled near the top
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const viewport = e.target as HTMLElement;
+    if (viewport.scrollTop > 80 || pendingScrollRestoreRef.current) return;
+
+    const hasOlder = selectedGroupId ? hasOlderGroupMessages : hasOlderMessages;
+    const isFetchingOlder = selectedGroupId ? isFetchingOlderGroupMessages : isFetchingOlderMessages;
+    if (!hasOlder || isFetchingOlder) return;
+
+    pendingScrollRestoreRef.current = {
+      viewport,
+      distanceFromBottom: viewport.scrollHeight - viewport.scrollTop,
+    };
+    if (selectedGroupId) {
+      fetchOlderGroupMessages();
+    } else {
+      fetchOlderMessages();
+    }
+  };
+
+  // Keep the visible messages in place once the older page is rendered above them
+  useLayoutEffect(() => {
+    const pending = pendingScrollRestoreRef.current;
+    if (!pending || isFetchingOlderMessages || isFetchingOlderGroupMessages) return;
+    pending.viewport.scrollTop = pending.viewport.scrollHeight - pending.distanceFromBottom;
+    pendingScrollRestoreRef.current = null;
+  }, [messages, groupMessages, isFetchingOlderMessages, isFetchingOlderGroupMessages]);
 
   // Refetch messages periodically when a user is selected
   useEffect(() => {
@@ -635,6 +1081,76 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
               return newSet;
             });
           }
+        } else if (data.type === "message_edited") {
+          // Replace the edited message in place in whichever conversation holds it
+          const { messageType, message } = data.data;
+          const applyEdit = <T extends GroupMessage | DirectMessage>(m: T): T => ({
+            ...m,
+            content: message.content,
+            editedAt: message.editedAt,
+          });
+          if (messageType === "group") {
+            queryClient.setQueryData<InfiniteData<GroupMessageWithSender[], string | undefined>>(
+              ["/api/groups", message.groupId, "messages"],
+              (old) => updateCachedMessage(old, message.id, applyEdit)
+            );
+          } else {
+            for (const otherUserId of [message.senderId, message.receiverId]) {
+              queryClient.setQueryData<InfiniteData<DirectMessage[], string | undefined>>(
+                ["messages", otherUserId],
+                (old) => updateCachedMessage(old, message.id, applyEdit)
+              );
+            }
+            queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+          }
+          queryClient.invalidateQueries({ queryKey: ["/api/messages", message.id, "edits"] });
+        } else if (data.type === "voice_message_played") {
+          // Record the new listener on the voice message in whichever conversation holds it
+          const { messageType, attachmentId, userId, message } = data.data;
+          if (!message) return;
+          const applyPlay = <T extends ThreadInfo & { id: string }>(m: T): T => ({
+            ...m,
+            attachments: m.attachments?.map((a) =>
+              a.id === attachmentId && !a.playedBy?.includes(userId)
+                ? { ...a, playedBy: [...(a.playedBy || []), userId] }
+                : a
+            ),
+          });
+          if (messageType === "group") {
+            queryClient.setQueryData<InfiniteData<GroupMessageWithSender[], string | undefined>>(
+              ["/api/groups", message.groupId, "messages"],
+              (old) => updateCachedMessage(old, message.id, applyPlay)
+            );
+          } else {
+            for (const otherUserId of [message.senderId, message.receiverId]) {
+              queryClient.setQueryData<InfiniteData<Array<DirectMessage & ThreadInfo>, string | undefined>>(
+                ["messages", otherUserId],
+                (old) => updateCachedMessage(old, message.id, applyPlay)
+              );
+            }
+          }
+        } else if (data.type === "direct_message_status") {
+          // Our messages were delivered to or read by the other user
+          const { status, receiverId, messageIds, deliveredAt, readAt } = data.data;
+          queryClient.setQueryData<InfiniteData<DirectMessage[], string | undefined>>(
+            ["messages", receiverId],
+            (old) => old && {
+              ...old,
+              pages: old.pages.map((page) => page.map((m) =>
+                messageIds.includes(m.id) ? applyDeliveryStatus(m, status, deliveredAt, readAt) : m
+              )),
+            }
+          );
+        } else if (data.type === "thread_reply") {
+          // Refresh the open thread and the reply counts in the conversation
+          const { messageType, parentId, message } = data.data;
+          queryClient.invalidateQueries({ queryKey: ["/api/messages", parentId, "replies"] });
+          if (messageType === "group") {
+            queryClient.invalidateQueries({ queryKey: ["/api/groups", message.groupId, "messages"] });
+          } else {
+            queryClient.invalidateQueries({ queryKey: ["messages", message.senderId] });
+            queryClient.invalidateQueries({ queryKey: ["messages", message.receiverId] });
+          }
         }
       } catch (e) {
         // Ignore parse errors
@@ -644,7 +1160,7 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
     const ws = wsRef.current;
     ws.addEventListener("message", handleMessage);
     return () => ws.removeEventListener("message", handleMessage);
-  }, [wsRef]);
+  }, [wsRef, isConnected]);
 
   // Send typing indicator
   const handleTyping = (isTyping: boolean) => {
@@ -679,17 +1195,30 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
   };
 
   const handleSendMessage = () => {
-    if ((messageInput.trim() || selectedImage) && currentUser) {
+    if ((messageInput.trim() || selectedImage || selectedFile) && currentUser) {
       if (selectedGroupId) {
         // Sending to group
-        sendGroupMessageMutation.mutate({ content: messageInput.trim() });
+        sendGroupMessageMutation.mutate({ content: messageInput.trim(), file: selectedFile || undefined, parentId: replyTo?.id });
       } else {
         // Sending direct message
-        sendMutation.mutate({ content: messageInput.trim(), imageData: selectedImage || undefined });
+        sendMutation.mutate({
+          content: messageInput.trim(),
+          imageData: selectedImage || undefined,
+          file: selectedFile || undefined,
+          parentId: replyTo?.id,
+        });
       }
     }
   };
 
+  const handleSendVoiceMessage = (attachmentId: string) => {
+    if (selectedGroupId) {
+      sendGroupMessageMutation.mutate({ content: "", voiceAttachmentId: attachmentId, parentId: replyTo?.id });
+    } else if (selectedUserId) {
+      sendMutation.mutate({ content: "", voiceAttachmentId: attachmentId, parentId: replyTo?.id });
+    }
+  };
+
   const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -716,6 +1245,26 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
     }
   };
 
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!(MESSAGE_ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type)) {
+      toast({ title: t("messages.fileTypeNotAllowed"), variant: "destructive" });
+      e.target.value = "";
+      return;
+    }
+
+    setSelectedFile(file);
+  };
+
+  const removeSelectedFile = () => {
+    setSelectedFile(null);
+    if (attachmentInputRef.current) {
+      attachmentInputRef.current.value = "";
+    }
+  };
+
   const selectedUser = selectedUserId 
     ? (acceptedConnections.find(c => c.otherUser.id === selectedUserId)?.otherUser ||
        conversations.find(c => c.otherUser.id === selectedUserId)?.otherUser)
@@ -744,6 +1293,8 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
   // Mobile: show either contacts list or chat
   // Desktop: show both side by side
   const showChat = (selectedUserId && selectedUser) || (selectedGroupId && selectedGroup);
+  const showGroupFiles = !!selectedGroup && groupView === "files";
+  const SelectedFileIcon = getFileIcon(selectedFile?.type || "");
 
   // Long press handlers for mobile
   const handleTouchStart = useCallback((e: React.TouchEvent, messageId: string, senderId: string) => {
@@ -775,8 +1326,133 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
     setLongPressPosition(null);
   }, []);
 
+  // Open the conversation a search result belongs to, then jump to the message
+  const handleSelectSearchResult = (result: MessageSearchHit) => {
+    if (result.messageType === "group" && result.groupId) {
+      setActiveTab("groups");
+      setSelectedGroupId(result.groupId);
+      setSelectedUserId(null);
+    } else {
+      const otherUserId = result.senderId === currentUser?.id ? result.receiverId : result.senderId;
+      if (!otherUserId) return;
+      setActiveTab("direct");
+      setSelectedUserId(otherUserId);
+      setSelectedGroupId(null);
+    }
+    setJumpToMessageId(result.messageId);
+  };
+
+  // Scroll to the searched message once the conversation has loaded it,
+  // paging back through older history until it shows up
+  useEffect(() => {
+    if (!jumpToMessageId) return;
+    const element = document.querySelector(`[data-message-id="${jumpToMessageId}"]`);
+    if (!element) {
+      if (selectedGroupId) {
+        if (hasOlderGroupMessages && !isFetchingOlderGroupMessages) fetchOlderGroupMessages();
+      } else if (hasOlderMessages && !isFetchingOlderMessages) {
+        fetchOlderMessages();
+      }
+      return;
+    }
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(jumpToMessageId);
+    setJumpToMessageId(null);
+  }, [jumpToMessageId, messages, groupMessages, hasOlderMessages, hasOlderGroupMessages]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // Drop a half-written reply and attachment when switching conversations
+  useEffect(() => {
+    setReplyTo(null);
+    removeSelectedFile();
+    setGroupView("chat");
+  }, [selectedUserId, selectedGroupId]);
+
+  const getDirectSenderName = (senderId: string) =>
+    senderId === currentUser?.id
+      ? t("messages.you")
+      : selectedUser?.fullName || selectedUser?.name || "";
+
+  const startReply = (id: string, senderName: string, content: string) => {
+    setReplyTo({ id, senderName, content });
+    setTimeout(() => messageInputRef.current?.focus(), 0);
+  };
+
+  const openDirectThread = (id: string, senderId: string, content: string) => {
+    setOpenThread({
+      id,
+      messageType: 'direct',
+      content,
+      senderName: getDirectSenderName(senderId),
+      otherUserId: selectedUserId || undefined,
+      otherUserName: selectedUser?.fullName || selectedUser?.name || "",
+    });
+  };
+
+  const openGroupThread = (id: string, senderName: string, content: string) => {
+    setOpenThread({
+      id,
+      messageType: 'group',
+      content,
+      senderName,
+      groupId: selectedGroupId || undefined,
+    });
+  };
+
+  // Message text with clickable links and a preview card for the first URL
+  const renderMessageText = (text: string, isOwn: boolean) => {
+    const url = extractFirstUrl(text);
+    return (
+      <>
+        <p className="text-sm break-words"><LinkifiedText text={text} /></p>
+        {url && <LinkPreviewCard url={url} isOwn={isOwn} compact={isMobile} />}
+      </>
+    );
+  };
+
   // Helper to render message content (with image and GIF support)
-  const renderMessageContent = (content: string) => {
+  const renderMessageContent = (content: string, attachments: MessageAttachmentInfo[] = [], isOwn = false) => {
+    if (attachments.length > 0) {
+      const images = attachments.filter((a) => a.mimeType.startsWith("image/"));
+      const voiceMessages = attachments.filter((a) => a.mimeType.startsWith("audio/"));
+      const files = attachments.filter((a) => !a.mimeType.startsWith("image/") && !a.mimeType.startsWith("audio/"));
+      return (
+        <div>
+          {voiceMessages.map((voice) => (
+            <VoiceMessagePlayer
+              key={voice.id}
+              attachment={voice}
+              currentUserId={currentUser?.id}
+              isOwn={isOwn}
+              isGroup={!!selectedGroupId}
+              compact={isMobile}
+            />
+          ))}
+          {images.map((image) => (
+            <img 
+              key={image.id}
+              src={image.url} 
+              alt={t("messages.imageSent")} 
+              className={`rounded-lg mb-1 cursor-pointer hover:opacity-90 transition-opacity object-cover ${
+                isMobile ? 'w-[50px] h-[50px]' : 'max-w-[200px] max-h-[200px]'
+              }`}
+              onClick={() => openLightbox(image.url, t("messages.imageSent"))}
+              title={t("messages.clickToZoom")}
+            />
+          ))}
+          {files.map((file) => (
+            <AttachmentCard key={file.id} attachment={file} isOwn={isOwn} compact={isMobile} />
+          ))}
+          {content && renderMessageText(content, isOwn)}
+        </div>
+      );
+    }
+    
     // Check for GIF
     const gifMatch = content.match(/\[GIF\](.*?)\[\/GIF\]/);
     if (gifMatch) {
@@ -817,15 +1493,15 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
         </div>
       );
     }
-    return <p className="text-sm">{content}</p>;
+    return renderMessageText(content, isOwn);
   };
   
   // Handle sending a GIF
   const handleSendGif = (gifUrl: string) => {
     if (selectedGroupId) {
-      sendGroupMessageMutation.mutate({ content: `[GIF]${gifUrl}[/GIF]` });
+      sendGroupMessageMutation.mutate({ content: `[GIF]${gifUrl}[/GIF]`, parentId: replyTo?.id });
     } else if (selectedUserId) {
-      sendMutation.mutate({ content: `[GIF]${gifUrl}[/GIF]` });
+      sendMutation.mutate({ content: `[GIF]${gifUrl}[/GIF]`, parentId: replyTo?.id });
     }
   };
 
@@ -843,13 +1519,24 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
   return (
     <div className="h-[calc(100vh-10rem)] sm:h-[calc(100vh-12rem)]">
       {/* Header - hidden on mobile when chat is open */}
-      <div className={`mb-4 sm:mb-6 ${showChat ? 'hidden lg:block' : ''}`}>
-        <h1 className="text-2xl sm:text-3xl font-bold text-foreground mb-1 sm:mb-2">
-          {t("messages.title")}
-        </h1>
-        <p className="text-sm sm:text-base text-muted-foreground">
-          {t("messages.messageConnections")}
-        </p>
+      <div className={`mb-4 sm:mb-6 flex items-start justify-between gap-4 ${showChat ? 'hidden lg:flex' : ''}`}>
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground mb-1 sm:mb-2">
+            {t("messages.title")}
+          </h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            {t("messages.messageConnections")}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => setSearchDialogOpen(true)}
+          className="gap-2"
+          data-testid="button-search-messages"
+        >
+          <Search className="w-4 h-4" />
+          <span className="hidden sm:inline">{t("messages.searchMessages")}</span>
+        </Button>
       </div>
 
       <div className="flex h-full gap-4">
@@ -939,7 +1626,9 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                             )}
                           </div>
                           <p className="text-xs text-muted-foreground truncate">
-                            {conv?.lastMessage?.includes("[IMAGE]") 
+                            {conv?.lastMessage === ""
+                              ? t("messages.attachmentSent")
+                              : conv?.lastMessage?.includes("[IMAGE]") 
                               ? t("messages.imageSent")
                               : (conv?.lastMessage || contact.jobPosition || t("messages.noMessages"))}
                           </p>
@@ -1226,8 +1915,38 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
               </div>
             </div>
 
+            {/* Group Chat / Files tabs */}
+            {selectedGroup && (
+              <div className="px-3 sm:px-4 pt-2">
+                <Tabs value={groupView} onValueChange={(v) => setGroupView(v as "chat" | "files")}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="chat" className="gap-2" data-testid="tab-group-chat">
+                      <MessageSquare className="w-4 h-4" />
+                      {t("groups.chat")}
+                    </TabsTrigger>
+                    <TabsTrigger value="files" className="gap-2" data-testid="tab-group-files">
+                      <Paperclip className="w-4 h-4" />
+                      {t("groups.files")}
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+            )}
+
+            {selectedGroup && groupView === "files" && <GroupFilesPanel groupId={selectedGroup.id} />}
+
             {/* Messages Area */}
-            <ScrollArea className="flex-1 p-3 sm:p-4">
+            <ScrollArea
+              className={`flex-1 p-3 sm:p-4 ${showGroupFiles ? "hidden" : ""}`}
+              onScrollCapture={handleMessagesScroll}
+            >
+              {/* Loading older history */}
+              {(isFetchingOlderMessages || isFetchingOlderGroupMessages) && (
+                <div className="flex justify-center py-2">
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                </div>
+              )}
+              
               {/* Direct Messages */}
               {selectedUser && (
                 <>
@@ -1251,10 +1970,11 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                   {messages.map((msg) => (
                     <div
                       key={msg.id}
-                      className={`flex ${
+                      className={`flex rounded-lg transition-colors duration-700 ${
                         msg.senderId === currentUser?.id ? "justify-end" : "justify-start"
-                      }`}
+                      } ${highlightedMessageId === msg.id ? "bg-primary/10" : ""}`}
                       data-testid={`msg-${msg.id}`}
+                      data-message-id={msg.id}
                     >
                       <div className="flex flex-col">
                         <div
@@ -1267,15 +1987,33 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                           onTouchEnd={handleTouchEnd}
                           onTouchMove={handleTouchMove}
                         >
-                          {renderMessageContent(msg.content)}
+                          {msg.parentId && (
+                            <ParentQuote
+                              parent={msg.parent}
+                              isOwn={msg.senderId === currentUser?.id}
+                              onClick={() => msg.parent && openDirectThread(msg.parent.id, msg.parent.senderId, msg.parent.content)}
+                              t={t}
+                            />
+                          )}
+                          {renderMessageContent(msg.content, msg.attachments, msg.senderId === currentUser?.id)}
                           <div className="flex items-center justify-between gap-2 mt-1">
                             <p className="text-[10px] sm:text-xs opacity-70">
                               {formatDate(msg.timestamp)}
+                              {msg.editedAt && (
+                                <button
+                                  onClick={() => setHistoryMessage({ id: msg.id, messageType: 'direct', content: msg.content })}
+                                  className="ml-1 italic hover:underline"
+                                  title={t("messages.editHistory")}
+                                  data-testid={`button-edit-history-${msg.id}`}
+                                >
+                                  ({t("messages.edited")})
+                                </button>
+                              )}
                             </p>
                             {/* Read receipt indicator for own messages */}
                             {msg.senderId === currentUser?.id && (
                               <ReadReceiptIndicator
-                                isRead={msg.isRead || false}
+                                message={msg}
                                 readReceipts={[]}
                                 isSender={true}
                                 t={t}
@@ -1283,9 +2021,27 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                             )}
                           </div>
                           
-                          {/* Action buttons (delete + reaction) - Hidden on mobile, shown via long press popup */}
+                          {/* Action buttons (reply + edit + delete + reaction) - Hidden on mobile, shown via long press popup */}
                           {!isMobile && (
-                            <div className={`absolute ${msg.senderId === currentUser?.id ? '-left-16' : '-right-16'} top-1/2 -translate-y-1/2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity`}>
+                            <div className={`absolute ${msg.senderId === currentUser?.id ? '-left-32' : '-right-32'} top-1/2 -translate-y-1/2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity`}>
+                              <button
+                                onClick={() => startReply(msg.id, getDirectSenderName(msg.senderId), msg.content)}
+                                className="p-1 hover:bg-muted/50 rounded"
+                                title={t("messages.reply")}
+                                data-testid={`button-reply-message-${msg.id}`}
+                              >
+                                <Reply className="w-4 h-4 text-muted-foreground" />
+                              </button>
+                              {msg.senderId === currentUser?.id && isEditableContent(msg.content) && (
+                                <button
+                                  onClick={() => startEditingMessage(msg.id, 'direct', msg.content)}
+                                  className="p-1 hover:bg-muted/50 rounded"
+                                  title={t("common.edit")}
+                                  data-testid={`button-edit-message-${msg.id}`}
+                                >
+                                  <Pencil className="w-4 h-4 text-muted-foreground" />
+                                </button>
+                              )}
                               {msg.senderId === currentUser?.id && (
                                 <button
                                   onClick={() => {
@@ -1298,6 +2054,16 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                                   <Trash2 className="w-4 h-4 text-destructive" />
                                 </button>
                               )}
+                              {msg.senderId !== currentUser?.id && (
+                                <button
+                                  onClick={() => setMessageToReport(msg.id)}
+                                  className="p-1 hover:bg-muted/50 rounded"
+                                  title={t("report.report")}
+                                  data-testid={`button-report-message-${msg.id}`}
+                                >
+                                  <Flag className="w-4 h-4 text-muted-foreground" />
+                                </button>
+                              )}
                               <EmojiReactionPicker
                                 messageId={msg.id}
                                 messageType="direct"
@@ -1311,9 +2077,21 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                         {(msg as any).reactions && (msg as any).reactions.length > 0 && (
                           <MessageReactionsDisplay reactions={(msg as any).reactions} />
                         )}
+                        
+                        {/* Thread link */}
+                        {!!msg.replyCount && (
+                          <button
+                            onClick={() => openDirectThread(msg.id, msg.senderId, msg.content)}
+                            className={`text-xs text-primary hover:underline mt-1 ${msg.senderId === currentUser?.id ? "self-end" : "self-start"}`}
+                            data-testid={`button-open-thread-${msg.id}`}
+                          >
+                            {formatReplyCount(msg.replyCount, t)}
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))}
+                  {selectedUserId && <OutboxMessages kind="direct" targetId={selectedUserId} />}
                   {/* Typing indicator */}
                   {selectedUserId && typingUsers.has(selectedUserId) && (
                     <div className="flex justify-start">
@@ -1355,9 +2133,10 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                       {groupMessages.map((msg) => (
                         <div
                           key={msg.id}
-                          className={`flex ${
+                          className={`flex rounded-lg transition-colors duration-700 ${
                             msg.senderId === currentUser?.id ? "justify-end" : "justify-start"
-                          }`}
+                          } ${highlightedMessageId === msg.id ? "bg-primary/10" : ""}`}
+                          data-message-id={msg.id}
                         >
                           <div className="flex gap-2 max-w-[80%] sm:max-w-xs">
                             {msg.senderId !== currentUser?.id && (
@@ -1377,19 +2156,60 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                                     ? "bg-primary text-primary-foreground rounded-br-md"
                                     : "bg-muted rounded-bl-md"
                                 }`}
+                                onTouchStart={(e) => handleTouchStart(e, msg.id, msg.senderId)}
+                                onTouchEnd={handleTouchEnd}
+                                onTouchMove={handleTouchMove}
                               >
                                 {msg.senderId !== currentUser?.id && (
                                   <p className="text-xs font-medium mb-1 opacity-80">
                                     {msg.sender.fullName || msg.sender.name}
                                   </p>
                                 )}
-                                {renderMessageContent(msg.content)}
+                                {msg.parentId && (
+                                  <ParentQuote
+                                    parent={msg.parent}
+                                    isOwn={msg.senderId === currentUser?.id}
+                                    onClick={() => msg.parent && openGroupThread(msg.parent.id, msg.parent.senderName, msg.parent.content)}
+                                    t={t}
+                                  />
+                                )}
+                                {renderMessageContent(msg.content, msg.attachments, msg.senderId === currentUser?.id)}
                                 <p className="text-[10px] sm:text-xs opacity-70 mt-1">
                                   {formatDate(msg.timestamp)}
+                                  {msg.editedAt && (
+                                    <button
+                                      onClick={() => setHistoryMessage({ id: msg.id, messageType: 'group', content: msg.content })}
+                                      className="ml-1 italic hover:underline"
+                                      title={t("messages.editHistory")}
+                                      data-testid={`button-edit-history-${msg.id}`}
+                                    >
+                                      ({t("messages.edited")})
+                                    </button>
+                                  )}
                                 </p>
                                 
-                                {/* Reaction picker for group messages */}
-                                <div className={`absolute ${msg.senderId === currentUser?.id ? '-left-10' : '-right-10'} top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity`}>
+                                {/* Reply + edit + reaction picker for group messages */}
+                                <div className={`absolute ${msg.senderId === currentUser?.id ? '-left-24' : '-right-16'} top-1/2 -translate-y-1/2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity`}>
+                                  {!isMobile && (
+                                    <button
+                                      onClick={() => startReply(msg.id, msg.senderId === currentUser?.id ? t("messages.you") : msg.sender.fullName || msg.sender.name || "", msg.content)}
+                                      className="p-1 hover:bg-muted/50 rounded"
+                                      title={t("messages.reply")}
+                                      data-testid={`button-reply-message-${msg.id}`}
+                                    >
+                                      <Reply className="w-4 h-4 text-muted-foreground" />
+                                    </button>
+                                  )}
+                                  {!isMobile && msg.senderId === currentUser?.id && isEditableContent(msg.content) && (
+                                    <button
+                                      onClick={() => startEditingMessage(msg.id, 'group', msg.content)}
+                                      className="p-1 hover:bg-muted/50 rounded"
+                                      title={t("common.edit")}
+                                      data-testid={`button-edit-message-${msg.id}`}
+                                    >
+                                      <Pencil className="w-4 h-4 text-muted-foreground" />
+                                    </button>
+                                  )}
                                   <EmojiReactionPicker
                                     messageId={msg.id}
                                     messageType="group"
@@ -1402,10 +2222,22 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                               {(msg as any).reactions && (msg as any).reactions.length > 0 && (
                                 <MessageReactionsDisplay reactions={(msg as any).reactions} />
                               )}
+                              
+                              {/* Thread link */}
+                              {!!msg.replyCount && (
+                                <button
+                                  onClick={() => openGroupThread(msg.id, msg.sender.fullName || msg.sender.name || "", msg.content)}
+                                  className={`text-xs text-primary hover:underline mt-1 ${msg.senderId === currentUser?.id ? "self-end" : "self-start"}`}
+                                  data-testid={`button-open-thread-${msg.id}`}
+                                >
+                                  {formatReplyCount(msg.replyCount, t)}
+                                </button>
+                              )}
                             </div>
                           </div>
                         </div>
                       ))}
+                      {selectedGroupId && <OutboxMessages kind="group" targetId={selectedGroupId} />}
                       <div ref={messagesEndRef} />
                     </div>
                   )}
@@ -1413,6 +2245,28 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
               )}
             </ScrollArea>
 
+            {/* Replying-to banner */}
+            {replyTo && !showGroupFiles && (
+              <div className="px-3 sm:px-4 pt-2">
+                <div className="flex items-center gap-2 rounded-lg bg-muted px-3 py-2">
+                  <Reply className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <div className="flex-1 min-w-0 text-xs">
+                    <p className="font-medium truncate">{t("messages.replyingTo", { name: replyTo.senderName })}</p>
+                    <p className="text-muted-foreground truncate">{getQuotePreview(replyTo.content, t)}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setReplyTo(null)}
+                    data-testid="button-cancel-reply"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Image Preview - only for direct messages */}
             {selectedUser && selectedImage && (
               <div className="px-3 sm:px-4 pt-2">
@@ -1434,8 +2288,30 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
               </div>
             )}
 
+            {/* File Preview */}
+            {selectedFile && !showGroupFiles && (
+              <div className="px-3 sm:px-4 pt-2">
+                <div className="flex items-center gap-2 rounded-lg border px-3 py-2 max-w-xs">
+                  <SelectedFileIcon className="w-4 h-4 text-primary flex-shrink-0" />
+                  <div className="flex-1 min-w-0 text-xs">
+                    <p className="font-medium truncate">{selectedFile.name}</p>
+                    <p className="text-muted-foreground">{formatFileSize(selectedFile.size)}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={removeSelectedFile}
+                    data-testid="button-remove-file"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Input Area */}
-            <div className="p-3 sm:p-4 border-t flex gap-2">
+            <div className={`p-3 sm:p-4 border-t flex gap-2 ${showGroupFiles ? "hidden" : ""}`}>
               {/* Image upload */}
               <input
                 type="file"
@@ -1454,9 +2330,34 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                 <ImagePlus className="w-4 h-4" />
               </Button>
               
+              {/* File attachment */}
+              <input
+                type="file"
+                ref={attachmentInputRef}
+                onChange={handleFileSelect}
+                accept={MESSAGE_ATTACHMENT_MIME_TYPES.join(",")}
+                className="hidden"
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => attachmentInputRef.current?.click()}
+                disabled={sendMutation.isPending || sendGroupMessageMutation.isPending}
+                title={t("messages.attachFile")}
+                data-testid="button-attach-file"
+              >
+                <Paperclip className="w-4 h-4" />
+              </Button>
+              
               {/* GIF button */}
               <GifPicker onSelect={handleSendGif} t={t} />
               
+              {/* Voice message */}
+              <VoiceRecorderButton
+                onRecorded={handleSendVoiceMessage}
+                disabled={sendMutation.isPending || sendGroupMessageMutation.isPending}
+              />
+              
               <Input
                 ref={messageInputRef}
                 placeholder={selectedGroup ? t("groups.typeGroupMessage") : t("messages.typeMessage")}
@@ -1477,7 +2378,7 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
               <Button
                 onClick={handleSendMessage}
                 disabled={
-                  (!messageInput.trim() && !selectedImage) || 
+                  (!messageInput.trim() && !selectedImage && !selectedFile) || 
                   sendMutation.isPending || 
                   sendGroupMessageMutation.isPending
                 }
@@ -1525,6 +2426,15 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
         </DialogContent>
       </Dialog>
 
+      {messageToReport && (
+        <ReportDialog
+          open
+          onOpenChange={(open) => !open && setMessageToReport(null)}
+          targetType="direct_message"
+          targetId={messageToReport}
+        />
+      )}
+
       {/* Delete Message Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={(open) => {
         setDeleteDialogOpen(open);
@@ -1552,6 +2462,69 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
         </DialogContent>
       </Dialog>
 
+      {/* Edit Message Dialog */}
+      <Dialog open={!!messageToEdit} onOpenChange={(open) => {
+        if (!open) {
+          setMessageToEdit(null);
+          setEditInput("");
+        }
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("messages.editMessage")}</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={editInput}
+            onChange={(e) => setEditInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey && messageToEdit && editInput.trim()) {
+                e.preventDefault();
+                editMessageMutation.mutate({ ...messageToEdit, content: editInput.trim() });
+              }
+            }}
+            className="text-base"
+            autoFocus
+            data-testid="input-edit-message"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMessageToEdit(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={() => messageToEdit && editMessageMutation.mutate({ ...messageToEdit, content: editInput.trim() })}
+              disabled={!editInput.trim() || editMessageMutation.isPending}
+              data-testid="button-save-edit"
+            >
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Message Search Dialog */}
+      <MessageSearchDialog
+        isOpen={searchDialogOpen}
+        onClose={() => setSearchDialogOpen(false)}
+        connections={acceptedConnections}
+        groups={groups}
+        onSelectResult={handleSelectSearchResult}
+      />
+
+      {/* Thread Dialog */}
+      <ThreadDialog
+        thread={openThread}
+        currentUserId={currentUser?.id}
+        onClose={() => setOpenThread(null)}
+        t={t}
+      />
+
+      {/* Edit History Dialog */}
+      <EditHistoryDialog
+        message={historyMessage}
+        onClose={() => setHistoryMessage(null)}
+        t={t}
+      />
+
       {/* Leave Group Confirmation Dialog */}
       <Dialog open={leaveGroupDialogOpen} onOpenChange={setLeaveGroupDialogOpen}>
         <DialogContent>
@@ -1642,6 +2615,49 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
               ))}
             </div>
             
+            {/* Reply option */}
+            {(() => {
+              const directTarget = !selectedGroupId ? messages.find(m => m.id === longPressMessageId) : undefined;
+              const groupTarget = selectedGroupId ? groupMessages.find(m => m.id === longPressMessageId) : undefined;
+              const target = directTarget || groupTarget;
+              if (!target) return null;
+              const senderName = groupTarget && groupTarget.senderId !== currentUser?.id
+                ? groupTarget.sender.fullName || groupTarget.sender.name || ""
+                : getDirectSenderName(target.senderId);
+              return (
+                <button
+                  onClick={() => {
+                    startReply(target.id, senderName, target.content);
+                    closeLongPressMenu();
+                  }}
+                  className="w-full flex items-center gap-2 p-2.5 sm:p-3 hover:bg-muted active:bg-muted rounded-lg transition-colors touch-manipulation text-sm"
+                >
+                  <Reply className="w-4 h-4 flex-shrink-0" />
+                  <span className="truncate">{t("messages.reply")}</span>
+                </button>
+              );
+            })()}
+            
+            {/* Edit option - only for own text messages */}
+            {(() => {
+              const target = selectedGroupId
+                ? groupMessages.find(m => m.id === longPressMessageId)
+                : messages.find(m => m.id === longPressMessageId);
+              if (!target || target.senderId !== currentUser?.id || !isEditableContent(target.content)) return null;
+              return (
+                <button
+                  onClick={() => {
+                    startEditingMessage(target.id, selectedGroupId ? 'group' : 'direct', target.content);
+                    closeLongPressMenu();
+                  }}
+                  className="w-full flex items-center gap-2 p-2.5 sm:p-3 hover:bg-muted active:bg-muted rounded-lg transition-colors touch-manipulation text-sm"
+                >
+                  <Pencil className="w-4 h-4 flex-shrink-0" />
+                  <span className="truncate">{t("messages.editMessage")}</span>
+                </button>
+              );
+            })()}
+            
             {/* Delete option - only for own messages */}
             {messages.find(m => m.id === longPressMessageId)?.senderId === currentUser?.id && (
               <button
@@ -1656,6 +2672,20 @@ export default function MessagesPage({ wsRef }: MessagesPageProps) {
                 <span className="truncate">{t("messages.deleteMessage")}</span>
               </button>
             )}
+
+            {/* Report option - only for direct messages from the other person */}
+            {!selectedGroupId && messages.some(m => m.id === longPressMessageId && m.senderId !== currentUser?.id) && (
+              <button
+                onClick={() => {
+                  setMessageToReport(longPressMessageId);
+                  closeLongPressMenu();
+                }}
+                className="w-full flex items-center gap-2 p-2.5 sm:p-3 hover:bg-muted active:bg-muted rounded-lg transition-colors touch-manipulation text-sm"
+              >
+                <Flag className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate">{t("report.reportMessage")}</span>
+              </button>
+            )}
           </div>
         </>
       )}
@@ -0,0 +1,374 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { useI18n } from "@/lib/i18n";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ShieldCheck, ShieldOff, Flag, Check, Trash2, AlertTriangle, Ban, History, Loader2 } from "lucide-react";
+import { SuspensionLengthSelect } from "@/components/suspend-user-dialog";
+import type { ModerationAuditEntry, ModerationReport, User } from "@shared/schema";
+
+type ReportAction = "dismiss" | "delete_content" | "warn" | "suspend";
+
+function getInitials(name: string) {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+function UserChip({ user }: { user: User | null }) {
+  const { t } = useI18n();
+  if (!user) {
+    return <span className="text-sm text-muted-foreground">{t("moderation.deletedUser")}</span>;
+  }
+  const name = user.fullName || user.name || user.email;
+  return (
+    <Link href={`/profile/${user.id}`}>
+      <span className="inline-flex items-center gap-2 hover:underline cursor-pointer">
+        <Avatar className="w-6 h-6">
+          <AvatarImage src={user.avatarUrl || undefined} />
+          <AvatarFallback className="text-[10px]">{getInitials(name)}</AvatarFallback>
+        </Avatar>
+        <span className="text-sm font-medium">{name}</span>
+      </span>
+    </Link>
+  );
+}
+
+function isSuspended(user: User | null) {
+  if (!user?.suspendedAt) return false;
+  return !user.suspendedUntil || new Date(user.suspendedUntil) > new Date();
+}
+
+function ReportCard({ report, onAction, onUnsuspend }: {
+  report: ModerationReport;
+  onAction?: (report: ModerationReport, action: ReportAction) => void;
+  onUnsuspend: (user: User) => void;
+}) {
+  const { t } = useI18n();
+  const contentLink = report.targetType === "post"
+    ? `/posts?highlight=${report.targetId}`
+    : report.targetType === "user"
+      ? `/profile/${report.targetId}`
+      : null;
+
+  return (
+    <Card data-testid={`report-${report.id}`}>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline">{t(`moderation.targetTypes.${report.targetType}`)}</Badge>
+          <Badge variant="destructive">{t(`report.reasons.${report.reason}`)}</Badge>
+          {report.relatedOpenCount > 0 && (
+            <Badge variant="secondary">{t("moderation.moreReports", { count: report.relatedOpenCount })}</Badge>
+          )}
+          {report.status !== "open" && (
+            <Badge variant="secondary">{t(`moderation.statuses.${report.status}`)}</Badge>
+          )}
+          <span className="ml-auto text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid gap-2 sm:grid-cols-2 text-sm">
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">{t("moderation.author")}</p>
+            <div className="flex items-center gap-2">
+              <UserChip user={report.targetUser} />
+              {isSuspended(report.targetUser) && <Badge variant="destructive">{t("moderation.suspended")}</Badge>}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">{t("moderation.reportedBy")}</p>
+            <UserChip user={report.reporter} />
+          </div>
+        </div>
+
+        {report.contentSnapshot && (
+          <div className="rounded-md bg-muted p-3 text-sm whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
+            {report.contentSnapshot}
+          </div>
+        )}
+        {report.details && (
+          <p className="text-sm">
+            <span className="text-muted-foreground">{t("moderation.reporterNote")}: </span>
+            {report.details}
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2 pt-1">
+          {contentLink && (
+            <Button asChild variant="ghost" size="sm">
+              <Link href={contentLink}>{t("moderation.viewContent")}</Link>
+            </Button>
+          )}
+          {onAction && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => onAction(report, "dismiss")} data-testid={`button-dismiss-${report.id}`}>
+                <Check className="w-4 h-4 mr-1" />
+                {t("moderation.actions.dismiss")}
+              </Button>
+              {report.targetType !== "user" && (
+                <Button size="sm" variant="outline" onClick={() => onAction(report, "delete_content")} data-testid={`button-delete-${report.id}`}>
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  {t("moderation.actions.delete_content")}
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => onAction(report, "warn")} data-testid={`button-warn-${report.id}`}>
+                <AlertTriangle className="w-4 h-4 mr-1" />
+                {t("moderation.actions.warn")}
+              </Button>
+              <Button size="sm" variant="destructive" onClick={() => onAction(report, "suspend")} data-testid={`button-suspend-${report.id}`}>
+                <Ban className="w-4 h-4 mr-1" />
+                {t("moderation.actions.suspend")}
+              </Button>
+            </>
+          )}
+          {report.targetUser && isSuspended(report.targetUser) && (
+            <Button size="sm" variant="outline" onClick={() => onUnsuspend(report.targetUser!)}>
+              <ShieldOff className="w-4 h-4 mr-1" />
+              {t("moderation.actions.unsuspend")}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function AuditEntry({ entry }: { entry: ModerationAuditEntry }) {
+  const { t } = useI18n();
+  const moderatorName = entry.moderator?.fullName || entry.moderator?.name || t("moderation.deletedUser");
+  const targetName = entry.targetUser?.fullName || entry.targetUser?.name;
+
+  return (
+    <div className="flex gap-3 p-4 border-b last:border-b-0" data-testid={`audit-${entry.id}`}>
+      <History className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="text-sm">
+          <span className="font-medium">{moderatorName}</span>{" "}
+          <Badge variant="outline" className="mx-1">{t(`moderation.actions.${entry.action}`)}</Badge>
+          {targetName && <span className="font-medium">{targetName}</span>}
+          {entry.targetType && entry.targetType !== "user" && (
+            <span className="text-muted-foreground"> · {t(`moderation.targetTypes.${entry.targetType}`)}</span>
+          )}
+        </p>
+        {entry.note && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">
+            {entry.action === "set_role" ? t(`moderation.roles.${entry.note}`) : entry.note}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function ListSkeleton() {
+  return (
+    <div className="space-y-4">
+      <Skeleton className="h-40 w-full" />
+      <Skeleton className="h-40 w-full" />
+    </div>
+  );
+}
+
+export default function ModerationPage() {
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isModerator = user?.role === "moderator" || user?.role === "admin";
+
+  const [pending, setPending] = useState<{ report: ModerationReport; action: ReportAction } | null>(null);
+  const [note, setNote] = useState("");
+  const [suspendDays, setSuspendDays] = useState<string>("7");
+
+  const { data: openReports = [], isLoading: openLoading } = useQuery<ModerationReport[]>({
+    queryKey: ["/api/moderation/reports?status=open"],
+    enabled: isModerator,
+  });
+  const { data: resolvedReports = [], isLoading: resolvedLoading } = useQuery<ModerationReport[]>({
+    queryKey: ["/api/moderation/reports?status=resolved"],
+    enabled: isModerator,
+  });
+  const { data: audit = [], isLoading: auditLoading } = useQuery<ModerationAuditEntry[]>({
+    queryKey: ["/api/moderation/audit"],
+    enabled: isModerator,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/moderation/reports?status=open"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/moderation/reports?status=resolved"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/moderation/reports/count"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/moderation/audit"] });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async () => {
+      if (!pending) return;
+      return apiRequest("POST", `/api/moderation/reports/${pending.report.id}/action`, {
+        action: pending.action,
+        note: note.trim() || undefined,
+        days: pending.action === "suspend" ? Number(suspendDays) : undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: t("moderation.actionApplied") });
+      setPending(null);
+      setNote("");
+      invalidate();
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  const unsuspendMutation = useMutation({
+    mutationFn: async (target: User) => {
+      return apiRequest("POST", `/api/moderation/users/${target.id}/unsuspend`);
+    },
+    onSuccess: () => {
+      toast({ title: t("moderation.suspensionLifted") });
+      invalidate();
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  if (!isModerator) {
+    return (
+      <Card>
+        <CardContent className="py-16 text-center">
+          <ShieldCheck className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
+          <h3 className="text-lg font-medium">{t("moderation.noAccess")}</h3>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const emptyState = (
+    <Card>
+      <CardContent className="py-16 text-center">
+        <Flag className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
+        <p className="text-muted-foreground">{t("moderation.noReports")}</p>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <ShieldCheck className="w-7 h-7 text-primary" />
+        <h1 className="text-3xl font-bold">{t("moderation.title")}</h1>
+      </div>
+
+      <Tabs defaultValue="open">
+        <TabsList>
+          <TabsTrigger value="open" data-testid="tab-moderation-open">
+            {t("moderation.queue")}
+            {openReports.length > 0 && <Badge variant="destructive" className="ml-2">{openReports.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="resolved" data-testid="tab-moderation-resolved">{t("moderation.resolved")}</TabsTrigger>
+          <TabsTrigger value="audit" data-testid="tab-moderation-audit">{t("moderation.auditLog")}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="open" className="space-y-4 mt-4">
+          {openLoading ? <ListSkeleton /> : openReports.length === 0 ? emptyState : openReports.map((report) => (
+            <ReportCard
+              key={report.id}
+              report={report}
+              onAction={(r, action) => setPending({ report: r, action })}
+              onUnsuspend={(u) => unsuspendMutation.mutate(u)}
+            />
+          ))}
+        </TabsContent>
+
+        <TabsContent value="resolved" className="space-y-4 mt-4">
+          {resolvedLoading ? <ListSkeleton /> : resolvedReports.length === 0 ? emptyState : resolvedReports.map((report) => (
+            <ReportCard key={report.id} report={report} onUnsuspend={(u) => unsuspendMutation.mutate(u)} />
+          ))}
+        </TabsContent>
+
+        <TabsContent value="audit" className="mt-4">
+          <Card>
+            <CardContent className="p-0">
+              {auditLoading ? (
+                <div className="p-4"><ListSkeleton /></div>
+              ) : audit.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-12">{t("moderation.noAuditEntries")}</p>
+              ) : (
+                audit.map((entry) => <AuditEntry key={entry.id} entry={entry} />)
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{pending && t(`moderation.actions.${pending.action}`)}</DialogTitle>
+            <DialogDescription>{pending && t(`moderation.confirm.${pending.action}`)}</DialogDescription>
+          </DialogHeader>
+
+          {pending?.action === "suspend" && (
+            <SuspensionLengthSelect value={suspendDays} onChange={setSuspendDays} />
+          )}
+
+          <div className="space-y-2">
+            <Label>
+              {pending?.action === "warn" ? t("moderation.warningMessage") : pending?.action === "suspend" ? t("moderation.suspensionReason") : t("moderation.internalNote")}
+            </Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              className="resize-none"
+              data-testid="input-moderation-note"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              variant={pending?.action === "dismiss" ? "default" : "destructive"}
+              onClick={() => actionMutation.mutate()}
+              disabled={actionMutation.isPending || (pending?.action === "warn" && !note.trim())}
+              data-testid="button-confirm-moderation-action"
+            >
+              {actionMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("common.confirm")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
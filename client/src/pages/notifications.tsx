@@ -11,7 +11,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Bell, Check, X, Users, UserPlus, CheckCircle, Loader2 } from "lucide-react";
+import { Bell, Check, X, Users, UserPlus, CheckCircle, Loader2, ShieldAlert } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import type { User, Notification } from "@shared/schema";
 
@@ -356,23 +356,38 @@ export default function NotificationsPage() {
                         !notification.read ? "bg-primary/5" : ""
                       }`}
                     >
-                      <Avatar className="w-10 h-10">
-                        <AvatarImage src={notification.fromUser?.avatarUrl || undefined} />
-                        <AvatarFallback className="bg-primary/10 text-primary text-sm">
-                          {notification.fromUser?.name
-                            ? getInitials(notification.fromUser.name)
-                            : "?"}
-                        </AvatarFallback>
-                      </Avatar>
+                      {notification.type === "moderation_warning" ? (
+                        <div className="w-10 h-10 rounded-full bg-destructive/10 text-destructive flex items-center justify-center shrink-0">
+                          <ShieldAlert className="w-5 h-5" />
+                        </div>
+                      ) : (
+                        <Avatar className="w-10 h-10">
+                          <AvatarImage src={notification.fromUser?.avatarUrl || undefined} />
+                          <AvatarFallback className="bg-primary/10 text-primary text-sm">
+                            {notification.fromUser?.name
+                              ? getInitials(notification.fromUser.name)
+                              : "?"}
+                          </AvatarFallback>
+                        </Avatar>
+                      )}
                       <div className="flex-1">
-                        <p className="text-sm">
-                          <span className="font-medium">
-                            {notification.fromUser?.fullName || notification.fromUser?.name}
-                          </span>{" "}
-                          {notification.type === "connection_accepted"
-                            ? t("notifications.connectionAccepted")
-                            : notification.message}
-                        </p>
+                        {notification.type === "moderation_warning" ? (
+                          <>
+                            <p className="text-sm font-medium">{t("notifications.moderationWarning")}</p>
+                            {notification.message && (
+                              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{notification.message}</p>
+                            )}
+                          </>
+                        ) : (
+                          <p className="text-sm">
+                            <span className="font-medium">
+                              {notification.fromUser?.fullName || notification.fromUser?.name}
+                            </span>{" "}
+                            {notification.type === "connection_accepted"
+                              ? t("notifications.connectionAccepted")
+                              : notification.message}
+                          </p>
+                        )}
                         <span className="text-xs text-muted-foreground">
                           {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
                         </span>
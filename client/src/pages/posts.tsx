@@ -1,5 +1,5 @@
-import { useState, useRef, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
 import { Link, useSearch } from "wouter";
 import { useI18n } from "@/lib/i18n";
 import { useAuth } from "@/lib/auth";
@@ -27,6 +27,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { ReportDialog } from "@/components/report-dialog";
 import {
   FileText,
   ImagePlus,
@@ -36,11 +37,13 @@ import {
   MessageCircle,
   MoreHorizontal,
   Trash2,
+  Flag,
   Filter,
   SlidersHorizontal,
   Users,
   Clock,
   TrendingUp,
+  Flame,
   Send,
   ChevronDown,
   ChevronUp,
@@ -52,8 +55,15 @@ import {
 } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import { LinkifiedText, LinkPreviewCard, extractFirstUrl } from "@/components/link-preview";
 import type { User, Post, PostComment, Connection, Short } from "@shared/schema";
 
+// Posts fetched per page of the feed
+const PAGE_SIZE = 10;
+
+// Error for a ranked feed cursor the server no longer knows (410)
+const FEED_EXPIRED = "Feed expired";
+
 interface EnrichedPost extends Post {
   user: User;
   likesCount: number;
@@ -62,6 +72,11 @@ interface EnrichedPost extends Post {
   userReaction?: "like" | "dislike" | null;
 }
 
+interface PaginatedPostsResponse {
+  posts: EnrichedPost[];
+  nextCursor: string | null;
+}
+
 interface EnrichedComment extends PostComment {
   user: User;
 }
@@ -113,7 +128,11 @@ function PostSkeleton() {
   );
 }
 
-function CommentItem({ comment, t }: { comment: EnrichedComment; t: (key: string, vars?: Record<string, any>) => string }) {
+function CommentItem({ comment, t, onReport }: {
+  comment: EnrichedComment;
+  t: (key: string, vars?: Record<string, any>) => string;
+  onReport?: () => void;
+}) {
   return (
     <div className="flex gap-3 py-3">
       <Link href={`/profile/${comment.user.id}`}>
@@ -133,9 +152,18 @@ function CommentItem({ comment, t }: { comment: EnrichedComment; t: (key: string
           </Link>
           <p className="text-sm text-foreground/90">{comment.content}</p>
         </div>
-        <span className="text-xs text-muted-foreground mt-1 block">
-          {formatTimeAgo(comment.createdAt, t)}
-        </span>
+        <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
+          <span>{formatTimeAgo(comment.createdAt, t)}</span>
+          {onReport && (
+            <button
+              onClick={onReport}
+              className="hover:text-foreground hover:underline"
+              data-testid={`button-report-comment-${comment.id}`}
+            >
+              {t("report.report")}
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -155,6 +183,8 @@ function PostCard({ post, currentUser, t, connections, isHighlighted, postRef }:
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [selectedConnections, setSelectedConnections] = useState<string[]>([]);
+  const [reportTarget, setReportTarget] = useState<{ type: "post" | "post_comment"; id: string } | null>(null);
+  const postLinkUrl = extractFirstUrl(post.content);
 
   // Fetch comments
   const { data: comments = [], isLoading: commentsLoading } = useQuery<EnrichedComment[]>({
@@ -307,7 +337,7 @@ function PostCard({ post, currentUser, t, connections, isHighlighted, postRef }:
                 </div>
               </div>
             </div>
-            {isOwnPost && (
+            {currentUser && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -315,20 +345,37 @@ function PostCard({ post, currentUser, t, connections, isHighlighted, postRef }:
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  <DropdownMenuItem
-                    className="text-destructive focus:text-destructive"
-                    onClick={() => setDeleteDialogOpen(true)}
-                  >
-                    <Trash2 className="w-4 h-4 mr-2" />
-                    {t("posts.deletePost")}
-                  </DropdownMenuItem>
+                  {isOwnPost ? (
+                    <DropdownMenuItem
+                      className="text-destructive focus:text-destructive"
+                      onClick={() => setDeleteDialogOpen(true)}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      {t("posts.deletePost")}
+                    </DropdownMenuItem>
+                  ) : (
+                    <DropdownMenuItem
+                      onClick={() => setReportTarget({ type: "post", id: post.id })}
+                      data-testid={`menu-item-report-post-${post.id}`}
+                    >
+                      <Flag className="w-4 h-4 mr-2" />
+                      {t("report.reportPost")}
+                    </DropdownMenuItem>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
           </div>
         </CardHeader>
         <CardContent className="pt-0">
-          <p className="text-sm sm:text-base whitespace-pre-wrap mb-4">{post.content}</p>
+          <p className="text-sm sm:text-base whitespace-pre-wrap break-words mb-4"><LinkifiedText text={post.content} /></p>
+          
+          {/* Preview for the first link, unless the post has its own image */}
+          {!post.imageUrl && postLinkUrl && (
+            <div className="mb-4">
+              <LinkPreviewCard url={postLinkUrl} />
+            </div>
+          )}
           
           {post.imageUrl && (
             <div className="rounded-lg overflow-hidden mb-4 bg-muted">
@@ -459,7 +506,14 @@ function PostCard({ post, currentUser, t, connections, isHighlighted, postRef }:
               ) : (
                 <div className="space-y-1">
                   {comments.map((comment) => (
-                    <CommentItem key={comment.id} comment={comment} t={t} />
+                    <CommentItem
+                      key={comment.id}
+                      comment={comment}
+                      t={t}
+                      onReport={currentUser && comment.userId !== currentUser.id
+                        ? () => setReportTarget({ type: "post_comment", id: comment.id })
+                        : undefined}
+                    />
                   ))}
                 </div>
               )}
@@ -468,6 +522,15 @@ function PostCard({ post, currentUser, t, connections, isHighlighted, postRef }:
         </CardContent>
       </Card>
 
+      {reportTarget && (
+        <ReportDialog
+          open
+          onOpenChange={(open) => !open && setReportTarget(null)}
+          targetType={reportTarget.type}
+          targetId={reportTarget.id}
+        />
+      )}
+
       {/* Delete confirmation dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
@@ -576,7 +639,7 @@ export default function PostsPage() {
   const [postContent, setPostContent] = useState("");
   const [postImage, setPostImage] = useState<string | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [sortBy, setSortBy] = useState<"newest" | "likes">("newest");
+  const [sortBy, setSortBy] = useState<"newest" | "likes" | "top">("newest");
   const [filterBy, setFilterBy] = useState<"all" | "connections">("all");
   const [highlightedPostId, setHighlightedPostId] = useState<string | null>(null);
 
@@ -621,18 +684,63 @@ export default function PostsPage() {
     },
   });
 
-  // Fetch posts
-  const { data: posts = [], isLoading } = useQuery<EnrichedPost[]>({
+  // Fetch posts a page at a time; the sentinel below the feed loads the next one
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+    error,
+    isLoading,
+  } = useInfiniteQuery<PaginatedPostsResponse>({
     queryKey: ["/api/posts", sortBy, filterBy],
-    queryFn: async () => {
-      const res = await fetch(`/api/posts?sortBy=${sortBy}&filterBy=${filterBy}`, {
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({
+        sortBy,
+        filterBy,
+        paginated: "true",
+        limit: String(PAGE_SIZE),
+      });
+      if (pageParam) params.set("cursor", pageParam as string);
+      const res = await fetch(`/api/posts?${params}`, {
         credentials: "include",
       });
+      if (res.status === 410) throw new Error(FEED_EXPIRED);
       if (!res.ok) throw new Error("Failed to fetch posts");
       return res.json();
     },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    initialPageParam: undefined as string | undefined,
   });
 
+  // Ranked feeds are kept on the server for a while only; start over from the top
+  useEffect(() => {
+    if (isFetchNextPageError && error?.message === FEED_EXPIRED) {
+      queryClient.resetQueries({ queryKey: ["/api/posts", sortBy, filterBy] });
+    }
+  }, [isFetchNextPageError, error, sortBy, filterBy]);
+
+  const posts = useMemo(() => data?.pages.flatMap((page) => page.posts) ?? [], [data]);
+
+  // Load the next page when the end of the feed scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, posts.length]);
+
   // Create post mutation
   const createPostMutation = useMutation({
     mutationFn: async () => {
@@ -813,7 +921,11 @@ export default function PostsPage() {
             <DropdownMenuTrigger asChild>
               <Button variant="outline" size="sm" className="gap-2">
                 <SlidersHorizontal className="w-4 h-4" />
-                {sortBy === "newest" ? t("posts.sortNewest") : t("posts.sortMostLiked")}
+                {sortBy === "newest"
+                  ? t("posts.sortNewest")
+                  : sortBy === "likes"
+                    ? t("posts.sortMostLiked")
+                    : t("posts.sortTop")}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
@@ -825,6 +937,10 @@ export default function PostsPage() {
                 <TrendingUp className="w-4 h-4 mr-2" />
                 {t("posts.sortMostLiked")}
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setSortBy("top")}>
+                <Flame className="w-4 h-4 mr-2" />
+                {t("posts.sortTop")}
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -915,6 +1031,17 @@ export default function PostsPage() {
               postRef={highlightedPostId === post.id ? highlightedPostRef : undefined}
             />
           ))}
+          <div ref={loadMoreRef} />
+          {isFetchingNextPage && (
+            <div className="space-y-4">
+              <PostSkeleton />
+            </div>
+          )}
+          {!hasNextPage && posts.length > PAGE_SIZE && (
+            <p className="text-center text-sm text-muted-foreground py-4" data-testid="text-end-of-feed">
+              {t("posts.endOfFeed")}
+            </p>
+          )}
         </div>
       )}
     </div>
@@ -44,8 +44,37 @@ import {
   FileText,
   ArrowRight,
   Video,
-  Play
+  Play,
+  MoreVertical,
+  Ban,
+  VolumeX,
+  Volume2,
+  Flag,
+  ShieldCheck,
+  KeyRound
 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { BlockedUsersCard, invalidateBlockedContent } from "@/components/blocked-users-card";
+import { DevicesCard } from "@/components/devices-card";
+import { TwoFactorCard } from "@/components/two-factor-card";
+import { PasskeysCard } from "@/components/passkeys-card";
+import { ReportDialog } from "@/components/report-dialog";
+import { SuspendUserDialog } from "@/components/suspend-user-dialog";
 import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -120,12 +149,15 @@ export default function Profile() {
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [contentTab, setContentTab] = useState<'posts' | 'reals'>('posts');
+  const [blockDialogOpen, setBlockDialogOpen] = useState(false);
+  const [reportDialogOpen, setReportDialogOpen] = useState(false);
+  const [suspendDialogOpen, setSuspendDialogOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const isOwnProfile = !params?.id;
 
   // Fetch other user's profile if viewing someone else's
-  const { data: profileUser, isLoading: profileLoading } = useQuery<User>({
+  const { data: profileUser, isLoading: profileLoading } = useQuery<User & { isBlocked?: boolean; isMuted?: boolean }>({
     queryKey: ["/api/users", params?.id],
     queryFn: async () => {
       const res = await fetch(`/api/users/${params?.id}`, { credentials: "include" });
@@ -225,6 +257,73 @@ export default function Profile() {
     },
   });
 
+  // Block/unblock and mute/unmute the viewed user
+  const restrictMutation = useMutation({
+    mutationFn: async ({ kind, undo }: { kind: "block" | "mute"; undo: boolean }) => {
+      return apiRequest(undo ? "DELETE" : "POST", `/api/users/${params?.id}/${kind}`);
+    },
+    onSuccess: (_data, { kind, undo }) => {
+      setBlockDialogOpen(false);
+      invalidateBlockedContent();
+      const titles = {
+        block: undo ? t("profile.userUnblocked") : t("profile.userBlocked"),
+        mute: undo ? t("profile.userUnmuted") : t("profile.userMuted"),
+      };
+      toast({ title: titles[kind] });
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  // Admins grant or revoke the moderator role
+  const roleMutation = useMutation({
+    mutationFn: async (role: "member" | "moderator") => {
+      return apiRequest("PATCH", `/api/moderation/users/${params?.id}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", params?.id] });
+      toast({ title: t("moderation.roleUpdated") });
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  // Recovery for a member locked out of two-factor sign-in
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", `/api/moderation/users/${params?.id}/two-factor`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/moderation/audit"] });
+      toast({ title: t("moderation.twoFactorReset") });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: error.message.startsWith("400") ? t("moderation.twoFactorNotEnabled") : t("errors.general"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unsuspendMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/moderation/users/${params?.id}/unsuspend`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", params?.id] });
+      toast({ title: t("moderation.suspensionLifted") });
+    },
+    onError: () => {
+      toast({ title: t("errors.general"), variant: "destructive" });
+    },
+  });
+
+  const isModerator = currentUser?.role === "moderator" || currentUser?.role === "admin";
+  const isProfileSuspended = !!profileUser?.suspendedAt &&
+    (!profileUser.suspendedUntil || new Date(profileUser.suspendedUntil) > new Date());
+
   const handleEditClick = () => {
     if (user) {
       form.reset({
@@ -574,6 +673,18 @@ export default function Profile() {
                       </Form>
                     </DialogContent>
                   </Dialog>
+                ) : profileUser?.isBlocked ? (
+                  <div className="flex flex-col items-center md:items-start gap-2">
+                    <p className="text-sm text-muted-foreground">{t("profile.youBlocked")}</p>
+                    <Button
+                      variant="outline"
+                      onClick={() => restrictMutation.mutate({ kind: "block", undo: true })}
+                      disabled={restrictMutation.isPending}
+                      data-testid="button-unblock-profile"
+                    >
+                      {t("profile.unblock")}
+                    </Button>
+                  </div>
                 ) : (
                   <div className="flex gap-2">
                     <Button
@@ -604,6 +715,65 @@ export default function Profile() {
                         {t("common.message")}
                       </Button>
                     )}
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" data-testid="button-profile-more">
+                          <MoreVertical className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => restrictMutation.mutate({ kind: "mute", undo: !!profileUser?.isMuted })}
+                          data-testid="menu-item-mute-user"
+                        >
+                          {profileUser?.isMuted ? <Volume2 className="w-4 h-4 mr-2" /> : <VolumeX className="w-4 h-4 mr-2" />}
+                          {profileUser?.isMuted ? t("profile.unmute") : t("profile.mute")}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => setBlockDialogOpen(true)}
+                          className="text-destructive"
+                          data-testid="menu-item-block-user"
+                        >
+                          <Ban className="w-4 h-4 mr-2" />
+                          {t("profile.block")}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => setReportDialogOpen(true)}
+                          data-testid="menu-item-report-user"
+                        >
+                          <Flag className="w-4 h-4 mr-2" />
+                          {t("report.reportProfile")}
+                        </DropdownMenuItem>
+                        {currentUser?.role === "admin" && profileUser?.role !== "admin" && (
+                          <DropdownMenuItem
+                            onClick={() => roleMutation.mutate(profileUser?.role === "moderator" ? "member" : "moderator")}
+                            data-testid="menu-item-toggle-moderator"
+                          >
+                            <ShieldCheck className="w-4 h-4 mr-2" />
+                            {profileUser?.role === "moderator" ? t("moderation.removeModerator") : t("moderation.makeModerator")}
+                          </DropdownMenuItem>
+                        )}
+                        {currentUser?.role === "admin" && (
+                          <DropdownMenuItem
+                            onClick={() => resetTwoFactorMutation.mutate()}
+                            data-testid="menu-item-reset-two-factor"
+                          >
+                            <KeyRound className="w-4 h-4 mr-2" />
+                            {t("moderation.resetTwoFactor")}
+                          </DropdownMenuItem>
+                        )}
+                        {isModerator && (
+                          <DropdownMenuItem
+                            onClick={() => isProfileSuspended ? unsuspendMutation.mutate() : setSuspendDialogOpen(true)}
+                            className={isProfileSuspended ? undefined : "text-destructive"}
+                            data-testid="menu-item-suspend-user"
+                          >
+                            <Ban className="w-4 h-4 mr-2" />
+                            {isProfileSuspended ? t("moderation.actions.unsuspend") : t("moderation.actions.suspend")}
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 )}
               </div>
@@ -665,6 +835,13 @@ export default function Profile() {
         </div>
       )}
 
+      {isOwnProfile && <BlockedUsersCard />}
+
+      {isOwnProfile && <TwoFactorCard />}
+      {isOwnProfile && <PasskeysCard />}
+
+      {isOwnProfile && <DevicesCard />}
+
       {/* Shared Interests Section */}
       {!isOwnProfile && sharedInterests.length > 0 && (
         <Card>
@@ -835,6 +1012,38 @@ export default function Profile() {
           )}
         </CardContent>
       </Card>
+
+      {!isOwnProfile && isModerator && profileUser && (
+        <SuspendUserDialog user={profileUser} open={suspendDialogOpen} onOpenChange={setSuspendDialogOpen} />
+      )}
+
+      {!isOwnProfile && displayUser.id && (
+        <ReportDialog
+          open={reportDialogOpen}
+          onOpenChange={setReportDialogOpen}
+          targetType="user"
+          targetId={displayUser.id}
+        />
+      )}
+
+      <AlertDialog open={blockDialogOpen} onOpenChange={setBlockDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("profile.blockTitle", { name: displayUser.fullName || displayUser.name || "" })}</AlertDialogTitle>
+            <AlertDialogDescription>{t("profile.blockConfirm")}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restrictMutation.mutate({ kind: "block", undo: false })}
+              className="bg-destructive text-destructive-foreground"
+              data-testid="button-confirm-block"
+            >
+              {t("profile.block")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
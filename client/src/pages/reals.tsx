@@ -34,6 +34,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { ReportDialog } from "@/components/report-dialog";
 import {
   Video,
   Upload,
@@ -41,6 +42,7 @@ import {
   Pause,
   MoreHorizontal,
   Trash2,
+  Flag,
   Eye,
   Clock,
   Plus,
@@ -167,6 +169,7 @@ function ReelItem({
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [commentInput, setCommentInput] = useState("");
   const [commentsOpen, setCommentsOpen] = useState(false); // For mobile comments sheet
+  const [reportTarget, setReportTarget] = useState<{ type: "short" | "short_comment"; id: string } | null>(null);
   
   // Tap detection for mobile - distinguish tap from swipe
   const tapStartRef = useRef<{ x: number; y: number; time: number } | null>(null);
@@ -328,6 +331,15 @@ function ReelItem({
   const dislikesCount = enrichedData?.dislikesCount ?? 0;
   const userReaction = enrichedData?.userReaction ?? null;
 
+  const reportDialog = reportTarget && (
+    <ReportDialog
+      open
+      onOpenChange={(open) => !open && setReportTarget(null)}
+      targetType={reportTarget.type}
+      targetId={reportTarget.id}
+    />
+  );
+
   // Comments list component (shared between mobile and desktop)
   const CommentsContent = () => (
     <>
@@ -374,9 +386,18 @@ function ReelItem({
                     </Link>
                     <p className="text-sm">{comment.content}</p>
                   </div>
-                  <span className="text-[10px] text-muted-foreground mt-0.5 block px-1">
-                    {formatTimeAgo(comment.createdAt, t)}
-                  </span>
+                  <div className="flex items-center gap-2 text-[10px] text-muted-foreground mt-0.5 px-1">
+                    <span>{formatTimeAgo(comment.createdAt, t)}</span>
+                    {currentUser && comment.userId !== currentUser.id && (
+                      <button
+                        onClick={() => setReportTarget({ type: "short_comment", id: comment.id })}
+                        className="hover:text-foreground hover:underline"
+                        data-testid={`button-report-comment-${comment.id}`}
+                      >
+                        {t("report.report")}
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
             ))
@@ -528,7 +549,7 @@ function ReelItem({
             {isLoadingMore && <Loader2 className="w-3 h-3 animate-spin" />}
           </div>
           
-          {isOwnShort && (
+          {currentUser && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="icon" className="h-9 w-9 bg-black/50 hover:bg-black/70 text-white rounded-full">
@@ -536,13 +557,23 @@ function ReelItem({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem
-                  className="text-destructive focus:text-destructive"
-                  onClick={() => setDeleteDialogOpen(true)}
-                >
-                  <Trash2 className="w-4 h-4 mr-2" />
-                  {t("common.delete")}
-                </DropdownMenuItem>
+                {isOwnShort ? (
+                  <DropdownMenuItem
+                    className="text-destructive focus:text-destructive"
+                    onClick={() => setDeleteDialogOpen(true)}
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    {t("common.delete")}
+                  </DropdownMenuItem>
+                ) : (
+                  <DropdownMenuItem
+                    onClick={() => setReportTarget({ type: "short", id: short.id })}
+                    data-testid={`menu-item-report-short-${short.id}`}
+                  >
+                    <Flag className="w-4 h-4 mr-2" />
+                    {t("report.reportReal")}
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           )}
@@ -662,6 +693,8 @@ function ReelItem({
           </SheetContent>
         </Sheet>
         
+        {reportDialog}
+
         {/* Delete Dialog */}
         <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
           <DialogContent>
@@ -761,8 +794,8 @@ function ReelItem({
           </div>
         </div>
         
-        {/* Delete menu for own shorts */}
-        {isOwnShort && (
+        {/* Delete (own shorts) or report menu */}
+        {currentUser && (
           <div className="absolute top-4 right-4">
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -771,13 +804,23 @@ function ReelItem({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem
-                  className="text-destructive focus:text-destructive"
-                  onClick={() => setDeleteDialogOpen(true)}
-                >
-                  <Trash2 className="w-4 h-4 mr-2" />
-                  {t("common.delete")}
-                </DropdownMenuItem>
+                {isOwnShort ? (
+                  <DropdownMenuItem
+                    className="text-destructive focus:text-destructive"
+                    onClick={() => setDeleteDialogOpen(true)}
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    {t("common.delete")}
+                  </DropdownMenuItem>
+                ) : (
+                  <DropdownMenuItem
+                    onClick={() => setReportTarget({ type: "short", id: short.id })}
+                    data-testid={`menu-item-report-short-${short.id}`}
+                  >
+                    <Flag className="w-4 h-4 mr-2" />
+                    {t("report.reportReal")}
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -846,6 +889,8 @@ function ReelItem({
         <CommentsContent />
       </div>
       
+      {reportDialog}
+
       {/* Delete Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
@@ -0,0 +1,246 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { desc, eq, and } from "drizzle-orm";
+import type { SQLiteInsertValue, SQLiteTable } from "drizzle-orm/sqlite-core";
+import {
+  users,
+  connections,
+  notifications,
+  posts,
+  postLikes,
+  postComments,
+  shorts,
+  groups,
+  groupMembers,
+  groupMessages,
+  messageReactions,
+} from "@shared/schema";
+import { initializeDatabase, openDatabase } from "../server/db";
+
+// Usage:
+//   npm run db:benchmark                 seed and time the listing queries
+//   npm run db:benchmark -- --scale 4    seed four times as many rows
+//
+// Seeds a scratch SQLite database with thousands of rows, then times each
+// feed and listing query against the one-lookup-per-row pattern it replaced.
+// The scratch file is removed afterwards; the app database isn't touched.
+
+const ITERATIONS = 5;
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const scale = Math.max(Number(argValue("--scale") ?? 1) || 1, 1);
+const counts = {
+  users: 1000 * scale,
+  posts: 3000 * scale,
+  likesPerPost: 8,
+  commentsPerPost: 3,
+  shorts: 1000 * scale,
+  notifications: 200,
+  groupMembers: 300,
+  groupMessages: 50,
+  reactionsPerMessage: 10,
+};
+
+const dbPath = path.join(os.tmpdir(), `locallinkchat-benchmark-${process.pid}.db`);
+
+function pick<T>(items: T[], i: number): T {
+  return items[i % items.length];
+}
+
+function timestamp(i: number): string {
+  return new Date(Date.UTC(2024, 0, 1) + i * 60_000).toISOString();
+}
+
+// Median wall time of a few runs, in milliseconds
+async function time(run: () => Promise<unknown>): Promise<number> {
+  const samples: number[] = [];
+  for (let i = 0; i < ITERATIONS; i++) {
+    const start = process.hrtime.bigint();
+    await run();
+    samples.push(Number(process.hrtime.bigint() - start) / 1e6);
+  }
+  samples.sort((a, b) => a - b);
+  return samples[Math.floor(samples.length / 2)];
+}
+
+async function main() {
+  const { sqlite, db } = openDatabase(dbPath);
+  initializeDatabase(sqlite);
+
+  // Seed in chunks inside one transaction; multi-row inserts keep it to seconds
+  const insertAll = <T extends SQLiteTable>(table: T, rows: SQLiteInsertValue<T>[]) => {
+    for (let i = 0; i < rows.length; i += 500) {
+      db.insert(table).values(rows.slice(i, i + 500)).run();
+    }
+  };
+
+  const userRows = Array.from({ length: counts.users }, (_, i) => ({
+    id: randomUUID(),
+    email: `user${i}@benchmark.test`,
+    name: `User ${i}`,
+    interests: ["Tech", "Art", "Music"].slice(0, (i % 3) + 1),
+    profileCompleted: true,
+    createdAt: timestamp(i),
+  }));
+  const viewer = userRows[0];
+  const userIds = userRows.map((u) => u.id);
+  const postIds = Array.from({ length: counts.posts }, () => randomUUID());
+
+  const groupId = randomUUID();
+  const groupMessageIds = Array.from({ length: counts.groupMessages }, () => randomUUID());
+
+  console.log(`Seeding ${dbPath}`);
+  sqlite.transaction(() => {
+    insertAll(users, userRows);
+    insertAll(connections, userIds.slice(1).map((id, i) => ({
+      id: randomUUID(),
+      requesterId: i % 2 ? viewer.id : id,
+      receiverId: i % 2 ? id : pick(userIds, i + 7),
+      status: "accepted",
+      createdAt: timestamp(i),
+    })));
+    insertAll(notifications, Array.from({ length: counts.notifications }, (_, i) => ({
+      id: randomUUID(),
+      userId: viewer.id,
+      type: "connection_request",
+      fromUserId: pick(userIds, i + 1),
+      message: "wants to connect",
+      read: false,
+      createdAt: timestamp(i),
+    })));
+    insertAll(posts, postIds.map((id, i) => ({
+      id,
+      userId: pick(userIds, i),
+      content: `Post ${i}`,
+      createdAt: timestamp(i),
+    })));
+    insertAll(postLikes, postIds.flatMap((postId, i) => Array.from({ length: counts.likesPerPost }, (_, j) => ({
+      id: randomUUID(),
+      postId,
+      userId: pick(userIds, i + j),
+      type: j % 4 === 3 ? "dislike" : "like",
+      createdAt: timestamp(i + j),
+    }))));
+    insertAll(postComments, postIds.flatMap((postId, i) => Array.from({ length: counts.commentsPerPost }, (_, j) => ({
+      id: randomUUID(),
+      postId,
+      userId: pick(userIds, i + j + 1),
+      content: `Comment ${j}`,
+      createdAt: timestamp(i + j),
+    }))));
+    insertAll(shorts, Array.from({ length: counts.shorts }, (_, i) => ({
+      id: randomUUID(),
+      userId: pick(userIds, i),
+      videoUrl: `/short_videos/${i}.mp4`,
+      createdAt: timestamp(i),
+    })));
+    insertAll(groups, [{ id: groupId, name: "Benchmark", createdById: viewer.id, createdAt: timestamp(0) }]);
+    insertAll(groupMembers, userIds.slice(0, counts.groupMembers).map((userId, i) => ({
+      id: randomUUID(),
+      groupId,
+      userId,
+      role: i === 0 ? "admin" : "member",
+      status: "accepted",
+      createdAt: timestamp(i),
+      joinedAt: timestamp(i),
+    })));
+    insertAll(groupMessages, groupMessageIds.map((id, i) => ({
+      id,
+      groupId,
+      senderId: pick(userIds, i),
+      content: `Message ${i}`,
+      timestamp: timestamp(i),
+    })));
+    insertAll(messageReactions, groupMessageIds.flatMap((messageId, i) => Array.from({ length: counts.reactionsPerMessage }, (_, j) => ({
+      id: randomUUID(),
+      messageId,
+      messageType: "group",
+      userId: pick(userIds, i + j),
+      emoji: "👍",
+      createdAt: timestamp(i + j),
+    }))));
+  })();
+
+  // The app's storage, on the scratch database
+  process.env.DATABASE_URL = dbPath;
+  const { storage } = await import("../server/storage");
+
+  // The per-row lookups each query used to make, through the same storage
+  const postsPerRow = async (limit?: number) => {
+    const query = db.select().from(posts).orderBy(desc(posts.createdAt));
+    const allPosts = await (limit ? query.limit(limit) : query);
+    return Promise.all(allPosts.map(async (post) => ({
+      ...post,
+      user: await storage.getUser(post.userId),
+      likes: await storage.getPostLikesCount(post.id),
+      comments: (await db.select().from(postComments).where(eq(postComments.postId, post.id))).length,
+      reaction: await storage.getPostLike(post.id, viewer.id),
+    })));
+  };
+
+  const perRow = {
+    posts: () => postsPerRow(),
+    postsPage: () => postsPerRow(20),
+    shorts: async () => {
+      const allShorts = await db.select().from(shorts).orderBy(desc(shorts.createdAt));
+      return Promise.all(allShorts.slice(0, 20).map(async (short) => ({ ...short, user: await storage.getUser(short.userId) })));
+    },
+    groupMembers: async () => {
+      const members = await db.select().from(groupMembers).where(eq(groupMembers.groupId, groupId));
+      return Promise.all(members.map(async (member) => ({ ...member, user: await storage.getUser(member.userId) })));
+    },
+    reactions: () => Promise.all(groupMessageIds.map(async (messageId) => {
+      const reactions = await db.select().from(messageReactions)
+        .where(and(eq(messageReactions.messageId, messageId), eq(messageReactions.messageType, "group")));
+      return Promise.all(reactions.map(async (reaction) => ({ ...reaction, user: await storage.getUser(reaction.userId) })));
+    })),
+    notifications: async () => {
+      const rows = await db.select().from(notifications)
+        .where(eq(notifications.userId, viewer.id))
+        .orderBy(desc(notifications.createdAt));
+      return Promise.all(rows.map(async (notification) => ({
+        ...notification,
+        fromUser: await storage.getUser(notification.fromUserId!),
+        connectionsCount: await storage.getAcceptedConnectionsCount(notification.fromUserId!),
+      })));
+    },
+  };
+
+  const joined = {
+    posts: () => storage.getPosts({ currentUserId: viewer.id }),
+    postsPage: () => storage.getPosts({ currentUserId: viewer.id, limit: 20 }),
+    shorts: () => storage.getShorts({ limit: 20 }),
+    groupMembers: () => storage.getGroupMembers(groupId),
+    reactions: () => storage.getReactionsForMessages(groupMessageIds, "group"),
+    notifications: () => storage.getNotifications(viewer.id),
+  };
+
+  console.log(`\n${"query".padEnd(16)}${"per row".padStart(12)}${"joined".padStart(12)}${"speedup".padStart(10)}`);
+  for (const name of Object.keys(joined) as Array<keyof typeof joined>) {
+    const before = await time(perRow[name]);
+    const after = await time(joined[name]);
+    console.log(
+      `${name.padEnd(16)}${`${before.toFixed(1)} ms`.padStart(12)}${`${after.toFixed(1)} ms`.padStart(12)}${`${(before / after).toFixed(1)}x`.padStart(10)}`
+    );
+  }
+
+  sqlite.close();
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => {
+    for (const suffix of ["", "-wal", "-shm"]) {
+      fs.rmSync(dbPath + suffix, { force: true });
+    }
+    process.exit();
+  });
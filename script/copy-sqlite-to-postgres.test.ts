@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import Database from "better-sqlite3";
+import { Pool } from "pg";
+import { SQLiteStorage } from "../server/storage";
+import { PostgresStorage } from "../server/postgres-storage";
+
+// Round trip through `npm run db:copy-to-postgres`: seed a scratch SQLite
+// file, copy it into TEST_DATABASE_URL and compare what comes out. Skipped
+// unless TEST_DATABASE_URL names a scratch Postgres database.
+
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+const run = promisify(execFile);
+
+describe.skipIf(!testDatabaseUrl)("copy-sqlite-to-postgres", () => {
+  const dbPath = path.join(os.tmpdir(), `locallinkchat-copy-test-${process.pid}.db`);
+  let source: SQLiteStorage;
+  let target: PostgresStorage;
+  const ids: Record<string, string> = {};
+
+  beforeAll(async () => {
+    source = new SQLiteStorage(dbPath);
+    const alice = await source.createUser({ email: "alice@example.com", name: "alice", interests: ["Tech", "Art"], profileCompleted: true, createdAt: "2025-01-01T12:00:00.000Z" });
+    const bob = await source.createUser({ email: "bob@example.com", name: "bob", interests: [], createdAt: "2025-01-01T12:01:00.000Z" });
+    await source.createConnection({ requesterId: alice.id, receiverId: bob.id, status: "accepted", createdAt: "2025-01-01T12:02:00.000Z" });
+    const message = await source.createDirectMessage({ senderId: alice.id, receiverId: bob.id, content: "hello", timestamp: "2025-01-01T12:03:00.000Z", isRead: true });
+    await source.createMessageReaction({ messageId: message.id, messageType: "direct", userId: bob.id, emoji: "👍", createdAt: "2025-01-01T12:04:00.000Z" });
+    const post = await source.createPost({ userId: bob.id, content: "first post", createdAt: "2025-01-01T12:05:00.000Z" });
+    await source.createPostLike({ postId: post.id, userId: alice.id, type: "like", createdAt: "2025-01-01T12:06:00.000Z" });
+    await source.createPostComment({ postId: post.id, userId: alice.id, content: "nice", createdAt: "2025-01-01T12:07:00.000Z" });
+    await source.appendUserEvent(bob.id, "direct_message", "{}");
+    await source.appendUserEvent(bob.id, "direct_message", "{}");
+    Object.assign(ids, { alice: alice.id, bob: bob.id, message: message.id });
+
+    await run(
+      process.execPath,
+      [path.resolve("node_modules/tsx/dist/cli.mjs"), "script/copy-sqlite-to-postgres.ts", "--from", dbPath, "--truncate"],
+      { env: { ...process.env, DATABASE_URL: testDatabaseUrl }, timeout: 120_000 }
+    );
+    target = new PostgresStorage(testDatabaseUrl!);
+  }, 180_000);
+
+  afterAll(async () => {
+    await target?.close();
+    for (const suffix of ["", "-wal", "-shm"]) {
+      fs.rmSync(dbPath + suffix, { force: true });
+    }
+  });
+
+  it("copies every row of every table", async () => {
+    const sqlite = new Database(dbPath, { readonly: true });
+    const pool = new Pool({ connectionString: testDatabaseUrl });
+    try {
+      const { rows: tables } = await pool.query<{ table_name: string }>(`
+        SELECT table_name FROM information_schema.tables
+        WHERE table_schema = current_schema() AND table_type = 'BASE TABLE' AND table_name <> 'schema_migrations'
+      `);
+      expect(tables.length).toBeGreaterThan(20);
+
+      for (const { table_name: table } of tables) {
+        const { count } = sqlite.prepare(`SELECT count(*) AS count FROM ${table}`).get() as { count: number };
+        const { rows } = await pool.query<{ count: string }>(`SELECT count(*) FROM ${table}`);
+        expect([table, Number(rows[0].count)]).toEqual([table, count]);
+      }
+    } finally {
+      sqlite.close();
+      await pool.end();
+    }
+  });
+
+  it("keeps booleans, JSON columns and joined rows intact", async () => {
+    expect(await target.getUser(ids.alice)).toEqual(await source.getUser(ids.alice));
+    expect(await target.getDirectMessages(ids.alice, ids.bob)).toEqual(await source.getDirectMessages(ids.alice, ids.bob));
+    expect(await target.getMessageReactions(ids.message, "direct")).toEqual(await source.getMessageReactions(ids.message, "direct"));
+    expect(await target.getPosts({ currentUserId: ids.alice })).toEqual(await source.getPosts({ currentUserId: ids.alice }));
+    expect(await target.getAcceptedConnectionsCount(ids.bob)).toBe(1);
+  });
+
+  it("continues the event sequence after the copied events", async () => {
+    const latest = await source.getLatestUserEventSeq(ids.bob);
+    expect(await target.getLatestUserEventSeq(ids.bob)).toBe(latest);
+    expect(await target.appendUserEvent(ids.bob, "direct_message", "{}")).toBe(latest + 1);
+  });
+});
@@ -0,0 +1,149 @@
+import "dotenv/config";
+import Database from "better-sqlite3";
+import path from "path";
+import { Pool, type PoolClient } from "pg";
+import { getPendingMigrations, runPostgresMigrations } from "../server/migrate";
+
+// One-shot copy of every row from the SQLite database into the Postgres
+// database at DATABASE_URL, for moving a deployment onto PostgresStorage.
+//
+// Usage:
+//   DATABASE_URL=postgres://… npm run db:copy-to-postgres
+//   DATABASE_URL=postgres://… npm run db:copy-to-postgres -- --from ./backup.db --truncate
+//
+// The Postgres schema is migrated first. Target tables must be empty unless
+// --truncate is given. Everything is copied in one transaction, so a failed
+// run leaves the target as it was.
+
+const BATCH_SIZE = 500;
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const sourcePath = path.resolve(argValue("--from") ?? path.join(process.cwd(), "locallinkchat.db"));
+const truncate = process.argv.includes("--truncate");
+const databaseUrl = process.env.DATABASE_URL ?? "";
+
+type PgColumn = { name: string; type: string };
+
+async function getPgTables(client: PoolClient): Promise<Map<string, PgColumn[]>> {
+  const { rows } = await client.query<{ table_name: string; column_name: string; data_type: string }>(`
+    SELECT table_name, column_name, data_type
+    FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name <> 'schema_migrations'
+    ORDER BY table_name, ordinal_position
+  `);
+  const tables = new Map<string, PgColumn[]>();
+  for (const row of rows) {
+    const columns = tables.get(row.table_name) ?? [];
+    columns.push({ name: row.column_name, type: row.data_type });
+    tables.set(row.table_name, columns);
+  }
+  return tables;
+}
+
+// SQLite stores booleans as 0/1 and JSON as text; Postgres parses the text itself
+function toPgValue(value: unknown, column: PgColumn): unknown {
+  if (value === null || value === undefined) return null;
+  if (column.type === "boolean") return Boolean(value);
+  return value;
+}
+
+async function copyTable(
+  sqlite: Database.Database,
+  client: PoolClient,
+  table: string,
+  pgColumns: PgColumn[]
+): Promise<number> {
+  const sqliteColumns = new Set(
+    (sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name)
+  );
+  if (sqliteColumns.size === 0) return 0;
+
+  const columns = pgColumns.filter((column) => sqliteColumns.has(column.name));
+  const columnList = columns.map((column) => `"${column.name}"`).join(", ");
+  const select = sqlite.prepare(`SELECT ${columnList} FROM ${table} LIMIT ? OFFSET ?`);
+
+  let copied = 0;
+  for (;;) {
+    const rows = select.all(BATCH_SIZE, copied) as Record<string, unknown>[];
+    if (rows.length === 0) break;
+
+    const values: unknown[] = [];
+    const tuples = rows.map((row) => {
+      const placeholders = columns.map((column) => {
+        values.push(toPgValue(row[column.name], column));
+        return `$${values.length}`;
+      });
+      return `(${placeholders.join(", ")})`;
+    });
+    await client.query(`INSERT INTO ${table} (${columnList}) VALUES ${tuples.join(", ")}`, values);
+    copied += rows.length;
+  }
+  return copied;
+}
+
+async function main() {
+  if (!/^postgres(ql)?:\/\//.test(databaseUrl)) {
+    throw new Error("Set DATABASE_URL to the target postgres:// URL");
+  }
+
+  const sqlite = new Database(sourcePath, { readonly: true, fileMustExist: true });
+  const pool = new Pool({ connectionString: databaseUrl });
+  try {
+    const pending = getPendingMigrations(sqlite);
+    if (pending.length > 0) {
+      throw new Error(`${sourcePath} has pending migrations; run npm run db:migrate against it first`);
+    }
+
+    for (const migration of await runPostgresMigrations(pool)) {
+      console.log(`Applied migration ${migration.version} (${migration.name})`);
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const tables = await getPgTables(client);
+      const tableNames = Array.from(tables.keys());
+
+      if (truncate) {
+        await client.query(`TRUNCATE ${tableNames.join(", ")} RESTART IDENTITY`);
+      } else {
+        for (const table of tableNames) {
+          const { rows } = await client.query(`SELECT 1 FROM ${table} LIMIT 1`);
+          if (rows.length > 0) {
+            throw new Error(`Target table ${table} is not empty; pass --truncate to replace its contents`);
+          }
+        }
+      }
+
+      console.log(`Copying ${sourcePath} to Postgres`);
+      for (const table of tableNames) {
+        const copied = await copyTable(sqlite, client, table, tables.get(table)!);
+        console.log(`  ${table}: ${copied}`);
+      }
+
+      // Copied rows keep their seq values; continue the sequence after them
+      await client.query(
+        `SELECT setval(pg_get_serial_sequence('user_events', 'seq'), COALESCE((SELECT MAX(seq) FROM user_events), 0) + 1, false)`
+      );
+      await client.query("COMMIT");
+      console.log("Done");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  } finally {
+    sqlite.close();
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
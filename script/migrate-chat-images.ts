@@ -0,0 +1,110 @@
+import "dotenv/config";
+import Database from "better-sqlite3";
+import path from "path";
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { getSqlitePath, initializeDatabase } from "../server/db";
+
+// Moves base64 chat images ([IMAGE]data:...[/IMAGE] inside message content)
+// into message_attachments files, leaving only the caption in the message.
+
+const dbPath = getSqlitePath();
+const attachmentsDir = path.join(process.cwd(), "message_attachments");
+
+// Clients rendered an image wherever it appeared in the content, so match anywhere
+const IMAGE_PATTERN = /\[IMAGE\]data:(image\/[a-z+.-]+);base64,([A-Za-z0-9+/=\s]+)\[\/IMAGE\]\n?/g;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+};
+
+const db = new Database(dbPath);
+initializeDatabase(db);
+
+if (!fs.existsSync(attachmentsDir)) {
+  fs.mkdirSync(attachmentsDir, { recursive: true });
+}
+
+type MessageRow = { id: string; sender_id: string; content: string; timestamp: string };
+
+const insertAttachment = db.prepare(`
+  INSERT INTO message_attachments
+    (id, uploader_id, message_id, message_type, file_name, original_name, mime_type, size, created_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+function migrateTable(table: "direct_messages" | "group_messages", messageType: "direct" | "group") {
+  const exists = db
+    .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`)
+    .get(table);
+  if (!exists) {
+    console.log(`Skipping ${table}: table does not exist`);
+    return 0;
+  }
+
+  const rows = db
+    .prepare(`SELECT id, sender_id, content, timestamp FROM ${table} WHERE content LIKE '%[IMAGE]data:%'`)
+    .all() as MessageRow[];
+  const updateContent = db.prepare(`UPDATE ${table} SET content = ? WHERE id = ?`);
+
+  let migrated = 0;
+  for (const row of rows) {
+    const images: Array<{ fileName: string; mimeType: string; data: Buffer }> = [];
+    const caption = row.content.replace(IMAGE_PATTERN, (_marker, mimeType: string, base64: string) => {
+      images.push({ fileName: `${randomUUID()}${EXTENSIONS[mimeType] || ""}`, mimeType, data: Buffer.from(base64, "base64") });
+      return "";
+    }).trim();
+    if (images.length === 0) {
+      console.warn(`  Could not parse image in ${table} ${row.id}, leaving it untouched`);
+      continue;
+    }
+
+    // Files first, then the rows pointing at them; if the rows can't be
+    // written, remove the files again so a re-run starts clean
+    const written: string[] = [];
+    try {
+      for (const image of images) {
+        fs.writeFileSync(path.join(attachmentsDir, image.fileName), image.data);
+        written.push(image.fileName);
+      }
+      db.transaction(() => {
+        for (const image of images) {
+          insertAttachment.run(
+            randomUUID(),
+            row.sender_id,
+            row.id,
+            messageType,
+            image.fileName,
+            `image${EXTENSIONS[image.mimeType] || ""}`,
+            image.mimeType,
+            image.data.length,
+            row.timestamp
+          );
+        }
+        updateContent.run(caption, row.id);
+      })();
+    } catch (error) {
+      for (const fileName of written) {
+        fs.rmSync(path.join(attachmentsDir, fileName), { force: true });
+      }
+      throw error;
+    }
+    migrated++;
+  }
+
+  console.log(`✓ ${table}: migrated ${migrated} of ${rows.length} image message(s)`);
+  return migrated;
+}
+
+try {
+  const total = migrateTable("direct_messages", "direct") + migrateTable("group_messages", "group");
+  console.log(`\n✅ Migration completed: ${total} image message(s) moved to ${attachmentsDir}`);
+  db.close();
+} catch (error) {
+  console.error("❌ Error migrating chat images:", error);
+  db.close();
+  process.exit(1);
+}
@@ -0,0 +1,89 @@
+import "dotenv/config";
+import Database from "better-sqlite3";
+import { Pool } from "pg";
+import { getSqlitePath } from "../server/db";
+import {
+  getAppliedMigrations,
+  getAppliedPostgresMigrations,
+  getPendingMigrations,
+  getPendingPostgresMigrations,
+  runMigrations,
+  runPostgresMigrations,
+} from "../server/migrate";
+
+// Usage:
+//   npm run db:migrate             apply pending migrations
+//   npm run db:migrate -- --check  list pending migrations; exits 1 if there are any
+//
+// Migrates the Postgres database when DATABASE_URL is a postgres:// URL,
+// otherwise the SQLite file DATABASE_URL names (locallinkchat.db by default).
+
+const checkOnly = process.argv.includes("--check");
+const databaseUrl = process.env.DATABASE_URL ?? "";
+
+function report(
+  label: string,
+  applied: { version: number }[],
+  pending: { version: number; name: string }[]
+): boolean {
+  const current = applied.length > 0 ? applied[applied.length - 1].version : 0;
+
+  console.log(`Database: ${label}`);
+  console.log(`Schema version: ${current}`);
+
+  if (pending.length === 0) {
+    console.log("No pending migrations");
+    return false;
+  }
+  if (checkOnly) {
+    console.log("Pending migrations:");
+    for (const migration of pending) {
+      console.log(`  ${migration.version} ${migration.name}`);
+    }
+    process.exitCode = 1;
+    return false;
+  }
+  return true;
+}
+
+function migrateSqlite() {
+  const dbPath = getSqlitePath(databaseUrl);
+  const db = new Database(dbPath);
+  try {
+    if (report(dbPath, getAppliedMigrations(db), getPendingMigrations(db))) {
+      for (const migration of runMigrations(db)) {
+        console.log(`Applied ${migration.version} ${migration.name}`);
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
+
+async function migratePostgres() {
+  const pool = new Pool({ connectionString: databaseUrl });
+  try {
+    const applied = await getAppliedPostgresMigrations(pool);
+    const pending = await getPendingPostgresMigrations(pool);
+    if (report(new URL(databaseUrl).pathname.slice(1) || "postgres", applied, pending)) {
+      for (const migration of await runPostgresMigrations(pool)) {
+        console.log(`Applied ${migration.version} ${migration.name}`);
+      }
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+(async () => {
+  try {
+    if (/^postgres(ql)?:\/\//.test(databaseUrl)) {
+      await migratePostgres();
+    } else {
+      migrateSqlite();
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+})();
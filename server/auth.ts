@@ -1,13 +1,46 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { storage } from "./storage";
 import { randomUUID, randomBytes, createHash } from "crypto";
+import { EventEmitter } from "events";
+import type { IncomingMessage } from "http";
 import nodemailer from "nodemailer";
+import QRCode from "qrcode";
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type VerifiedAuthenticationResponse,
+  type VerifiedRegistrationResponse,
+} from "@simplewebauthn/server";
+import type { ActiveSession, Passkey, PasskeyChallenge, PasskeyInfo, Session, TwoFactorStatus, User } from "@shared/schema";
+import {
+  buildOtpauthUrl,
+  generateBackupCodes,
+  generateTotpSecret,
+  getTotpStep,
+  normalizeBackupCode,
+} from "./two-factor";
+import { RATE_LIMITS, rateLimit } from "./rate-limit";
 
 const router = Router();
 
 // Create a session cookie name
 const SESSION_COOKIE = "llc_session";
 const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+// Sign-ins of accounts with two-factor authentication wait on this cookie for a code
+const TWO_FACTOR_COOKIE = "llc_2fa";
+const TWO_FACTOR_CHALLENGE_MS = 10 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+// Passkey registrations and sign-ins are tied to the browser that started them by this cookie
+const PASSKEY_COOKIE = "llc_passkey";
+const PASSKEY_CHALLENGE_MS = 5 * 60 * 1000;
+const PASSKEY_NAME_MAX_LENGTH = 64;
+
+// How stale a session's "last active" time may get before a request refreshes it.
+// Each refresh also slides the session's expiry forward by SESSION_DURATION_MS.
+const SESSION_ACTIVITY_INTERVAL_MS = 5 * 60 * 1000;
 
 // Email transporter (configure with your SMTP settings)
 const transporter = nodemailer.createTransport({
@@ -30,21 +63,201 @@ function hashToken(token: string): string {
   return createHash("sha256").update(token).digest("hex");
 }
 
-// Middleware to get current user from session
-export async function getCurrentUser(req: Request): Promise<any | null> {
-  const sessionId = req.cookies?.[SESSION_COOKIE];
-  if (!sessionId) return null;
+// Emits "ended" with the session ID whenever a session is logged out or expires,
+// so long-lived connections (WebSockets) tied to it can be closed, and "rotated"
+// with the old and new ID when a session is re-issued under a fresh token.
+// Session IDs here are the stored hashes, never cookie values.
+export const sessionEvents = new EventEmitter();
+
+// Parse a raw Cookie header (cookie-parser only runs for Express requests)
+function parseCookieHeader(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(";")) {
+    const separatorIndex = part.indexOf("=");
+    if (separatorIndex === -1) continue;
+
+    const name = part.slice(0, separatorIndex).trim();
+    const value = part.slice(separatorIndex + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
+
+// The suspension an account is currently under, or null. Suspensions with an
+// end date stop applying once it has passed.
+export function getActiveSuspension(
+  user: User
+): { reason: string | null; suspendedUntil: string | null } | null {
+  if (!user.suspendedAt) return null;
+  if (user.suspendedUntil && new Date(user.suspendedUntil) <= new Date()) return null;
+  return { reason: user.suspensionReason, suspendedUntil: user.suspendedUntil };
+}
+
+function sendSuspended(res: Response, user: User) {
+  return res.status(403).json({
+    error: "Account suspended",
+    code: "ACCOUNT_SUSPENDED",
+    ...getActiveSuspension(user),
+  });
+}
 
+// Resolve a stored session ID to a live session and its user. Active sessions
+// slide their expiry forward; `renewed` is set when that happened on this call.
+export async function getSessionById(
+  sessionId: string
+): Promise<{ session: Session; user: User; renewed: boolean } | null> {
   const session = await storage.getSession(sessionId);
-  if (!session) return null;
+  if (!session) {
+    sessionEvents.emit("ended", sessionId);
+    return null;
+  }
 
   // Check if session is expired
   if (new Date(session.expiresAt) < new Date()) {
     await storage.deleteSession(sessionId);
+    sessionEvents.emit("ended", sessionId);
     return null;
   }
 
-  return storage.getUser(session.userId);
+  const user = await storage.getUser(session.userId);
+  if (!user) return null;
+
+  const lastActiveAt = session.lastActiveAt || session.createdAt;
+  const renewed = Date.now() - new Date(lastActiveAt).getTime() > SESSION_ACTIVITY_INTERVAL_MS;
+  if (renewed) {
+    session.lastActiveAt = new Date().toISOString();
+    session.expiresAt = new Date(Date.now() + SESSION_DURATION_MS).toISOString();
+    await storage.touchSession(session.id, session.lastActiveAt, session.expiresAt);
+  }
+
+  return { session, user, renewed };
+}
+
+// Resolve a session cookie value. Sessions are stored under the hash of their
+// token, like magic link tokens, so the sessions table can't be replayed as cookies.
+export async function getSessionUser(token: string) {
+  return getSessionById(hashToken(token));
+}
+
+// The stored ID of the session the request's cookie points at, if any
+function getRequestSessionId(req: Request): string | null {
+  const token = req.cookies?.[SESSION_COOKIE];
+  return token ? hashToken(token) : null;
+}
+
+// The session and user behind the request's cookie. The first middleware
+// resolves it and keeps it on the request; later middleware, requireAuth and
+// getCurrentUser reuse that instead of reading the session again.
+function getRequestSession(req: Request): ReturnType<typeof getSessionById> {
+  if (!(req as any).sessionLookup) {
+    const token = req.cookies?.[SESSION_COOKIE];
+    (req as any).sessionLookup = token ? getSessionUser(token) : Promise.resolve(null);
+  }
+  return (req as any).sessionLookup;
+}
+
+function setSessionCookie(res: Response, token: string, expiresAt: string) {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    expires: new Date(expiresAt),
+  });
+}
+
+// Device details recorded with a new session, shown on the owner's device list
+function getClientInfo(req: Request) {
+  return {
+    userAgent: req.get("user-agent")?.slice(0, 512) || null,
+    ipAddress: req.ip || null,
+  };
+}
+
+// Public identifier of a session, so the device list never reveals stored IDs
+function getSessionHandle(sessionId: string): string {
+  return hashToken(sessionId).slice(0, 32);
+}
+
+// Sign a user in on this request. Any session the request was already carrying
+// is ended, so a token planted before sign-in never becomes authenticated.
+async function startSession(req: Request, res: Response, userId: string): Promise<Session> {
+  const previousId = getRequestSessionId(req);
+  if (previousId) {
+    await storage.deleteSession(previousId);
+    sessionEvents.emit("ended", previousId);
+  }
+  // The request's earlier session lookup no longer applies
+  delete (req as any).sessionLookup;
+
+  const token = generateToken();
+  const now = new Date().toISOString();
+  const session = await storage.createSession({
+    id: hashToken(token),
+    userId,
+    expiresAt: new Date(Date.now() + SESSION_DURATION_MS).toISOString(),
+    createdAt: now,
+    lastActiveAt: now,
+    ...getClientInfo(req),
+  });
+
+  setSessionCookie(res, token, session.expiresAt);
+  return session;
+}
+
+// Re-issue the current session under a fresh token after a privilege change.
+// The device keeps its place in the device list and its open sockets.
+async function rotateSession(res: Response, session: Session) {
+  const token = generateToken();
+  const newId = hashToken(token);
+  const expiresAt = new Date(Date.now() + SESSION_DURATION_MS).toISOString();
+
+  await storage.rotateSession(session.id, newId, expiresAt);
+  sessionEvents.emit("rotated", session.id, newId);
+  setSessionCookie(res, token, expiresAt);
+}
+
+// Re-send the session cookie whenever the session's expiry slid forward,
+// so the browser keeps it for as long as the server does
+export async function refreshSessionCookie(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const result = await getRequestSession(req);
+    if (result?.renewed) {
+      setSessionCookie(res, req.cookies[SESSION_COOKIE], result.session.expiresAt);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Resolve the session from a raw HTTP request, e.g. a WebSocket upgrade
+export async function getSessionFromRequest(
+  req: IncomingMessage
+): Promise<{ session: Session; user: User } | null> {
+  const token = parseCookieHeader(req.headers.cookie)[SESSION_COOKIE];
+  if (!token) return null;
+
+  const result = await getSessionUser(token);
+  if (!result || getActiveSuspension(result.user)) return null;
+  return result;
+}
+
+// Middleware to get current user from session. Suspended accounts count as signed out.
+export async function getCurrentUser(req: Request): Promise<any | null> {
+  const result = await getRequestSession(req);
+  if (!result || getActiveSuspension(result.user)) return null;
+  return result.user;
 }
 
 // Auth middleware
@@ -53,14 +266,36 @@ export async function requireAuth(
   res: Response,
   next: NextFunction
 ) {
-  const user = await getCurrentUser(req);
-  if (!user) {
+  const result = await getRequestSession(req);
+  if (!result) {
     return res.status(401).json({ error: "Unauthorized" });
   }
-  (req as any).user = user;
+  if (getActiveSuspension(result.user)) {
+    return sendSuspended(res, result.user);
+  }
+  (req as any).user = result.user;
+  (req as any).authSession = result.session;
   next();
 }
 
+// Answer every request from a suspended account's session with a 403 that says
+// so, instead of the generic 401 routes give when getCurrentUser returns null
+export async function rejectSuspendedAccounts(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const result = await getRequestSession(req);
+    if (result && getActiveSuspension(result.user)) {
+      return sendSuspended(res, result.user);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
 // Check if user has completed profile
 export async function requireProfileComplete(
   req: Request,
@@ -76,8 +311,121 @@ export async function requireProfileComplete(
   next();
 }
 
+async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  return !!credential?.enabledAt;
+}
+
+// Hold a sign-in at the second step: no session yet, only a short-lived
+// challenge cookie that POST /2fa/challenge exchanges for one
+async function startTwoFactorChallenge(res: Response, userId: string) {
+  const token = generateToken();
+  const now = Date.now();
+  await storage.createTwoFactorChallenge({
+    id: hashToken(token),
+    userId,
+    attempts: 0,
+    expiresAt: new Date(now + TWO_FACTOR_CHALLENGE_MS).toISOString(),
+    createdAt: new Date(now).toISOString(),
+  });
+
+  res.cookie(TWO_FACTOR_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: TWO_FACTOR_CHALLENGE_MS,
+  });
+}
+
+// Check a second factor: a current authenticator code, or else an unused
+// backup code, which is used up. Either way a code only works once.
+async function verifySecondFactor(
+  userId: string,
+  { code, backupCode }: { code?: unknown; backupCode?: unknown }
+): Promise<boolean> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  if (!credential?.enabledAt) return false;
+
+  if (typeof code === "string" && code) {
+    const step = getTotpStep(credential.secret, code);
+    return step !== null && (await storage.claimTwoFactorStep(userId, step));
+  }
+  if (typeof backupCode === "string" && backupCode) {
+    return storage.consumeBackupCode(userId, hashToken(normalizeBackupCode(backupCode)));
+  }
+  return false;
+}
+
+// Replace a user's backup codes; the plain codes are only ever returned here
+async function issueBackupCodes(userId: string): Promise<string[]> {
+  const codes = generateBackupCodes();
+  await storage.replaceBackupCodes(userId, codes.map((code) => hashToken(normalizeBackupCode(code))));
+  return codes;
+}
+
+// The WebAuthn relying party. Passkeys are bound to the RP ID, so it has to stay
+// the same once members have registered keys: it follows BASE_URL (the public
+// address magic links use) unless WEBAUTHN_ORIGIN / WEBAUTHN_RP_ID are set.
+function getRelyingParty(req: Request) {
+  const origin =
+    process.env.WEBAUTHN_ORIGIN ||
+    (process.env.BASE_URL ? new URL(process.env.BASE_URL).origin : `${req.protocol}://${req.get("host")}`);
+  return {
+    rpName: "LocalLinkChat",
+    rpID: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname,
+    origin,
+  };
+}
+
+async function startPasskeyCeremony(res: Response, challenge: string, userId: string | null) {
+  const token = generateToken();
+  const now = Date.now();
+  await storage.createPasskeyChallenge({
+    id: hashToken(token),
+    userId,
+    challenge,
+    expiresAt: new Date(now + PASSKEY_CHALLENGE_MS).toISOString(),
+    createdAt: new Date(now).toISOString(),
+  });
+
+  res.cookie(PASSKEY_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: PASSKEY_CHALLENGE_MS,
+  });
+}
+
+// The ceremony the request's cookie belongs to. It is used up either way.
+async function takePasskeyCeremony(req: Request, res: Response): Promise<PasskeyChallenge | undefined> {
+  const token = req.cookies?.[PASSKEY_COOKIE];
+  res.clearCookie(PASSKEY_COOKIE);
+  return token ? storage.takePasskeyChallenge(hashToken(token)) : undefined;
+}
+
+function toPasskeyInfo(passkey: Passkey): PasskeyInfo {
+  return {
+    id: passkey.id,
+    name: passkey.name,
+    backedUp: !!passkey.backedUp,
+    createdAt: passkey.createdAt,
+    lastUsedAt: passkey.lastUsedAt,
+  };
+}
+
+function cleanPasskeyName(name: unknown): string | null {
+  if (typeof name !== "string") return null;
+  return name.trim().slice(0, PASSKEY_NAME_MAX_LENGTH) || null;
+}
+
+// Throttled per target address too, so no one can flood somebody else's inbox
+const magicLinkRateLimit = rateLimit(RATE_LIMITS.magicLink, (req) =>
+  typeof req.body?.email === "string" ? req.body.email.toLowerCase().trim() : null
+);
+const signInRateLimit = rateLimit(RATE_LIMITS.signIn, () => null);
+
 // Request Magic Link
-router.post("/magic-link", async (req: Request, res: Response) => {
+router.post("/magic-link", magicLinkRateLimit, async (req: Request, res: Response) => {
   try {
     const { email } = req.body;
 
@@ -175,6 +523,19 @@ router.get("/verify", async (req: Request, res: Response) => {
     // Find or create user
     let user = await storage.getUserByEmail(email.toLowerCase());
 
+    const suspension = user ? getActiveSuspension(user) : null;
+    if (suspension) {
+      const params = new URLSearchParams({ error: "account_suspended" });
+      if (suspension.suspendedUntil) params.set("until", suspension.suspendedUntil);
+      if (suspension.reason) params.set("reason", suspension.reason);
+      return res.redirect(`/login?${params}`);
+    }
+
+    if (user && (await isTwoFactorEnabled(user.id))) {
+      await startTwoFactorChallenge(res, user.id);
+      return res.redirect("/login?step=two_factor");
+    }
+
     if (!user) {
       // Create new user
       user = await storage.createUser({
@@ -194,22 +555,7 @@ router.get("/verify", async (req: Request, res: Response) => {
       });
     }
 
-    // Create session
-    const expiresAt = new Date(Date.now() + SESSION_DURATION_MS).toISOString();
-
-    const session = await storage.createSession({
-      userId: user.id,
-      expiresAt,
-      createdAt: new Date().toISOString(),
-    });
-
-    // Set session cookie using the session ID from database
-    res.cookie(SESSION_COOKIE, session.id, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: SESSION_DURATION_MS,
-    });
+    await startSession(req, res, user.id);
 
     // Redirect based on profile completion
     if (user.profileCompleted) {
@@ -224,7 +570,7 @@ router.get("/verify", async (req: Request, res: Response) => {
 });
 
 // Google OAuth callback handler (for client-side OAuth)
-router.post("/google", async (req: Request, res: Response) => {
+router.post("/google", signInRateLimit, async (req: Request, res: Response) => {
   try {
     const { credential, clientId } = req.body;
 
@@ -284,22 +630,17 @@ router.post("/google", async (req: Request, res: Response) => {
       user = await storage.getUser(user.id);
     }
 
-    // Create session
-    const expiresAt = new Date(Date.now() + SESSION_DURATION_MS).toISOString();
+    if (getActiveSuspension(user!)) {
+      return sendSuspended(res, user!);
+    }
 
-    const session = await storage.createSession({
-      userId: user!.id,
-      expiresAt,
-      createdAt: new Date().toISOString(),
-    });
+    if (await isTwoFactorEnabled(user!.id)) {
+      await startTwoFactorChallenge(res, user!.id);
+      return res.json({ success: false, twoFactorRequired: true });
+    }
 
-    // Set session cookie using the session ID from database
-    res.cookie(SESSION_COOKIE, session.id, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: SESSION_DURATION_MS,
-    });
+    // A fresh session also replaces the one held before linking Google
+    await startSession(req, res, user!.id);
 
     res.json({
       success: true,
@@ -315,11 +656,14 @@ router.post("/google", async (req: Request, res: Response) => {
 // Get current user
 router.get("/me", async (req: Request, res: Response) => {
   try {
-    const user = await getCurrentUser(req);
-    if (!user) {
+    const result = await getRequestSession(req);
+    if (!result) {
       return res.status(401).json({ error: "Not authenticated" });
     }
-    res.json(user);
+    if (getActiveSuspension(result.user)) {
+      return sendSuspended(res, result.user);
+    }
+    res.json(result.user);
   } catch (error) {
     res.status(500).json({ error: "Failed to get user" });
   }
@@ -328,13 +672,14 @@ router.get("/me", async (req: Request, res: Response) => {
 // Logout
 router.post("/logout", async (req: Request, res: Response) => {
   try {
-    const sessionId = req.cookies?.[SESSION_COOKIE];
+    const sessionId = getRequestSessionId(req);
     if (sessionId) {
       const session = await storage.getSession(sessionId);
       if (session) {
         await storage.setUserOnline(session.userId, false);
       }
       await storage.deleteSession(sessionId);
+      sessionEvents.emit("ended", sessionId);
     }
 
     res.clearCookie(SESSION_COOKIE);
@@ -344,6 +689,421 @@ router.post("/logout", async (req: Request, res: Response) => {
   }
 });
 
+// List the devices the current user is signed in on
+router.get("/sessions", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const currentId = getRequestSessionId(req);
+    const userSessions = await storage.getUserSessions(user.id);
+
+    const result: ActiveSession[] = userSessions.map((session) => ({
+      id: getSessionHandle(session.id),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastActiveAt: session.lastActiveAt || session.createdAt,
+      current: session.id === currentId,
+    }));
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get sessions" });
+  }
+});
+
+// Sign out every device except the current one
+router.delete("/sessions", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const currentId = getRequestSessionId(req);
+    const userSessions = await storage.getUserSessions(user.id);
+
+    let revoked = 0;
+    for (const session of userSessions) {
+      if (session.id === currentId) continue;
+      await storage.deleteSession(session.id);
+      sessionEvents.emit("ended", session.id);
+      revoked++;
+    }
+    res.json({ success: true, revoked });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to revoke sessions" });
+  }
+});
+
+// Sign out a single device. Revoking the current session works like logging out.
+router.delete("/sessions/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const userSessions = await storage.getUserSessions(user.id);
+    const session = userSessions.find((s) => getSessionHandle(s.id) === req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    await storage.deleteSession(session.id);
+    sessionEvents.emit("ended", session.id);
+    if (session.id === getRequestSessionId(req)) {
+      res.clearCookie(SESSION_COOKIE);
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to revoke session" });
+  }
+});
+
+// Finish a sign-in held for two-factor authentication
+router.post("/2fa/challenge", signInRateLimit, async (req: Request, res: Response) => {
+  try {
+    const token = req.cookies?.[TWO_FACTOR_COOKIE];
+    const challenge = token ? await storage.getTwoFactorChallenge(hashToken(token)) : undefined;
+    if (!challenge) {
+      res.clearCookie(TWO_FACTOR_COOKIE);
+      return res.status(401).json({ error: "Sign-in expired", code: "TWO_FACTOR_EXPIRED" });
+    }
+
+    const attempts = await storage.recordTwoFactorChallengeAttempt(challenge.id);
+    if (attempts > TWO_FACTOR_MAX_ATTEMPTS) {
+      await storage.deleteTwoFactorChallenge(challenge.id);
+      res.clearCookie(TWO_FACTOR_COOKIE);
+      return res.status(401).json({ error: "Too many attempts", code: "TWO_FACTOR_EXPIRED" });
+    }
+
+    const user = await storage.getUser(challenge.userId);
+    if (!user) {
+      await storage.deleteTwoFactorChallenge(challenge.id);
+      res.clearCookie(TWO_FACTOR_COOKIE);
+      return res.status(401).json({ error: "Sign-in expired", code: "TWO_FACTOR_EXPIRED" });
+    }
+
+    if (!(await verifySecondFactor(user.id, req.body ?? {}))) {
+      return res.status(400).json({
+        error: "Invalid code",
+        code: "INVALID_TWO_FACTOR_CODE",
+        attemptsRemaining: TWO_FACTOR_MAX_ATTEMPTS - attempts,
+      });
+    }
+
+    await storage.deleteTwoFactorChallenge(challenge.id);
+    res.clearCookie(TWO_FACTOR_COOKIE);
+
+    // Suspensions can start while the code is being typed
+    if (getActiveSuspension(user)) {
+      return sendSuspended(res, user);
+    }
+
+    await storage.updateUser(user.id, {
+      lastLoginAt: new Date().toISOString(),
+      isOnline: true,
+    });
+    await startSession(req, res, user.id);
+
+    res.json({ success: true, user, profileCompleted: user.profileCompleted });
+  } catch (error) {
+    console.error("Two-factor challenge error:", error);
+    res.status(500).json({ error: "Two-factor verification failed" });
+  }
+});
+
+// Whether the current user has two-factor authentication on
+router.get("/2fa", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const status: TwoFactorStatus = {
+      enabled: await isTwoFactorEnabled(user.id),
+      backupCodesRemaining: await storage.countUnusedBackupCodes(user.id),
+    };
+    res.json(status);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get two-factor status" });
+  }
+});
+
+// Start enrollment: a new secret and the QR code to scan it with.
+// Nothing changes for sign-in until /2fa/enable confirms a code from it.
+router.post("/2fa/setup", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    if (await isTwoFactorEnabled(user.id)) {
+      return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+    }
+
+    const secret = generateTotpSecret();
+    await storage.saveTwoFactorSecret(user.id, secret);
+
+    const otpauthUrl = buildOtpauthUrl(secret, user.email);
+    const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+    res.json({ secret, otpauthUrl, qrCode });
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    res.status(500).json({ error: "Failed to start two-factor setup" });
+  }
+});
+
+// Finish enrollment with a code from the authenticator app
+router.post("/2fa/enable", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const credential = await storage.getTwoFactorCredential(user.id);
+    if (!credential) {
+      return res.status(400).json({ error: "Two-factor setup has not been started" });
+    }
+    if (credential.enabledAt) {
+      return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+    }
+
+    const step = typeof req.body?.code === "string" ? getTotpStep(credential.secret, req.body.code) : null;
+    if (step === null) {
+      return res.status(400).json({ error: "Invalid code", code: "INVALID_TWO_FACTOR_CODE" });
+    }
+
+    await storage.enableTwoFactor(user.id, step);
+    const backupCodes = await issueBackupCodes(user.id);
+    await rotateSession(res, (req as any).authSession);
+
+    res.json({ success: true, backupCodes });
+  } catch (error) {
+    console.error("Two-factor enable error:", error);
+    res.status(500).json({ error: "Failed to enable two-factor authentication" });
+  }
+});
+
+// Replace the backup codes, e.g. after using some or losing the printout
+router.post("/2fa/backup-codes", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    if (!(await isTwoFactorEnabled(user.id))) {
+      return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+    }
+    if (!(await verifySecondFactor(user.id, req.body ?? {}))) {
+      return res.status(400).json({ error: "Invalid code", code: "INVALID_TWO_FACTOR_CODE" });
+    }
+
+    res.json({ success: true, backupCodes: await issueBackupCodes(user.id) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to regenerate backup codes" });
+  }
+});
+
+// Turn two-factor authentication off. Needs a current code or a backup code.
+router.post("/2fa/disable", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    if (!(await isTwoFactorEnabled(user.id))) {
+      return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+    }
+    if (!(await verifySecondFactor(user.id, req.body ?? {}))) {
+      return res.status(400).json({ error: "Invalid code", code: "INVALID_TWO_FACTOR_CODE" });
+    }
+
+    await storage.deleteTwoFactor(user.id);
+    await rotateSession(res, (req as any).authSession);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to disable two-factor authentication" });
+  }
+});
+
+// Options for adding a passkey to the current account
+router.post("/passkeys/register/options", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { rpName, rpID } = getRelyingParty(req);
+    const existing = await storage.getUserPasskeys(user.id);
+
+    const options = await generateRegistrationOptions({
+      rpName,
+      rpID,
+      userID: new TextEncoder().encode(user.id),
+      userName: user.email,
+      userDisplayName: user.fullName || user.name || user.email,
+      attestationType: "none",
+      // One passkey per authenticator
+      excludeCredentials: existing.map((passkey) => ({
+        id: passkey.credentialId,
+        transports: passkey.transports ?? undefined,
+      })),
+      // Discoverable so sign-in works without typing an email first
+      authenticatorSelection: { residentKey: "required", userVerification: "required" },
+    });
+
+    await startPasskeyCeremony(res, options.challenge, user.id);
+    res.json(options);
+  } catch (error) {
+    console.error("Passkey registration options error:", error);
+    res.status(500).json({ error: "Failed to start passkey registration" });
+  }
+});
+
+// Store a passkey the browser just created
+router.post("/passkeys/register/verify", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const ceremony = await takePasskeyCeremony(req, res);
+    if (!ceremony || ceremony.userId !== user.id) {
+      return res.status(400).json({ error: "Passkey registration expired" });
+    }
+
+    const { origin, rpID } = getRelyingParty(req);
+    let verification: VerifiedRegistrationResponse;
+    try {
+      verification = await verifyRegistrationResponse({
+        response: req.body?.response,
+        expectedChallenge: ceremony.challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+      });
+    } catch (error) {
+      return res.status(400).json({ error: "Passkey could not be verified" });
+    }
+    if (!verification.verified) {
+      return res.status(400).json({ error: "Passkey could not be verified" });
+    }
+
+    const { credential, credentialBackedUp } = verification.registrationInfo;
+    if (await storage.getPasskeyByCredentialId(credential.id)) {
+      return res.status(409).json({ error: "This passkey is already registered" });
+    }
+
+    const passkey = await storage.createPasskey({
+      userId: user.id,
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey).toString("base64url"),
+      counter: credential.counter,
+      transports: credential.transports ?? [],
+      backedUp: credentialBackedUp,
+      name: cleanPasskeyName(req.body?.name) || "Passkey",
+      createdAt: new Date().toISOString(),
+    });
+    res.json(toPasskeyInfo(passkey));
+  } catch (error) {
+    console.error("Passkey registration error:", error);
+    res.status(500).json({ error: "Failed to register passkey" });
+  }
+});
+
+// The current user's passkeys
+router.get("/passkeys", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const userPasskeys = await storage.getUserPasskeys(user.id);
+    res.json(userPasskeys.map(toPasskeyInfo));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get passkeys" });
+  }
+});
+
+// Rename a passkey
+router.patch("/passkeys/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const name = cleanPasskeyName(req.body?.name);
+    if (!name) {
+      return res.status(400).json({ error: "Name is required" });
+    }
+
+    const passkey = (await storage.getUserPasskeys(user.id)).find((p) => p.id === req.params.id);
+    if (!passkey) {
+      return res.status(404).json({ error: "Passkey not found" });
+    }
+
+    await storage.updatePasskey(passkey.id, { name });
+    res.json(toPasskeyInfo({ ...passkey, name }));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to rename passkey" });
+  }
+});
+
+// Revoke a passkey. Sessions it signed in stay until signed out from the device list.
+router.delete("/passkeys/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const passkey = (await storage.getUserPasskeys(user.id)).find((p) => p.id === req.params.id);
+    if (!passkey) {
+      return res.status(404).json({ error: "Passkey not found" });
+    }
+
+    await storage.deletePasskey(passkey.id);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to revoke passkey" });
+  }
+});
+
+// Options for signing in with any passkey registered for this site
+router.post("/passkeys/login/options", signInRateLimit, async (req: Request, res: Response) => {
+  try {
+    const { rpID } = getRelyingParty(req);
+    const options = await generateAuthenticationOptions({ rpID, userVerification: "required" });
+
+    await startPasskeyCeremony(res, options.challenge, null);
+    res.json(options);
+  } catch (error) {
+    console.error("Passkey sign-in options error:", error);
+    res.status(500).json({ error: "Failed to start passkey sign-in" });
+  }
+});
+
+// Sign in with a passkey. A passkey with user verification is already two
+// factors (the device and its PIN or biometric), so there is no TOTP step.
+router.post("/passkeys/login/verify", signInRateLimit, async (req: Request, res: Response) => {
+  try {
+    const ceremony = await takePasskeyCeremony(req, res);
+    if (!ceremony || ceremony.userId !== null) {
+      return res.status(400).json({ error: "Passkey sign-in expired" });
+    }
+
+    const response = req.body?.response;
+    const passkey = typeof response?.id === "string" ? await storage.getPasskeyByCredentialId(response.id) : undefined;
+    if (!passkey) {
+      return res.status(401).json({ error: "Unknown passkey" });
+    }
+
+    const { origin, rpID } = getRelyingParty(req);
+    let verification: VerifiedAuthenticationResponse;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: ceremony.challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        credential: {
+          id: passkey.credentialId,
+          publicKey: new Uint8Array(Buffer.from(passkey.publicKey, "base64url")),
+          counter: passkey.counter,
+          transports: passkey.transports ?? undefined,
+        },
+      });
+    } catch (error) {
+      return res.status(401).json({ error: "Passkey could not be verified" });
+    }
+    if (!verification.verified) {
+      return res.status(401).json({ error: "Passkey could not be verified" });
+    }
+
+    const user = await storage.getUser(passkey.userId);
+    if (!user) {
+      return res.status(401).json({ error: "Unknown passkey" });
+    }
+    if (getActiveSuspension(user)) {
+      return sendSuspended(res, user);
+    }
+
+    const now = new Date().toISOString();
+    await storage.updatePasskey(passkey.id, {
+      counter: verification.authenticationInfo.newCounter,
+      backedUp: verification.authenticationInfo.credentialBackedUp,
+      lastUsedAt: now,
+    });
+    await storage.updateUser(user.id, { lastLoginAt: now, isOnline: true });
+    await startSession(req, res, user.id);
+
+    res.json({ success: true, user, profileCompleted: user.profileCompleted });
+  } catch (error) {
+    console.error("Passkey sign-in error:", error);
+    res.status(500).json({ error: "Passkey sign-in failed" });
+  }
+});
+
 // Complete profile setup
 router.post("/setup", requireAuth, async (req: Request, res: Response) => {
   try {
@@ -375,6 +1135,9 @@ router.post("/setup", requireAuth, async (req: Request, res: Response) => {
       profileCompleted: true,
     });
 
+    // Finishing setup unlocks the app; don't let a pre-setup token carry over
+    await rotateSession(res, (req as any).authSession);
+
     // Create activity for new member
     await storage.createActivity({
       type: "new_member",
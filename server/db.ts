@@ -1,132 +1,57 @@
 import Database from "better-sqlite3";
-import { drizzle } from "drizzle-orm/better-sqlite3";
+import { drizzle, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
 import * as schema from "@shared/schema";
 import path from "path";
+import { getPendingMigrations, runMigrations } from "./migrate";
 
-const dbPath = path.join(process.cwd(), "locallinkchat.db");
-const sqlite = new Database(dbPath);
+export type SQLiteDatabase = BetterSQLite3Database<typeof schema>;
 
-// Enable WAL mode for better performance
-sqlite.pragma("journal_mode = WAL");
-
-export const db = drizzle(sqlite, { schema });
-
-// Initialize database tables
-export function initializeDatabase() {
-  sqlite.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id TEXT PRIMARY KEY,
-      email TEXT NOT NULL UNIQUE,
-      name TEXT,
-      full_name TEXT,
-      job_position TEXT,
-      bio TEXT,
-      seeking_description TEXT,
-      avatar_url TEXT,
-      interests TEXT DEFAULT '[]',
-      is_online INTEGER DEFAULT 0,
-      profile_completed INTEGER DEFAULT 0,
-      preferred_language TEXT DEFAULT 'en',
-      google_id TEXT,
-      created_at TEXT NOT NULL,
-      last_login_at TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS magic_link_tokens (
-      id TEXT PRIMARY KEY,
-      email TEXT NOT NULL,
-      token TEXT NOT NULL UNIQUE,
-      expires_at TEXT NOT NULL,
-      used INTEGER DEFAULT 0,
-      created_at TEXT NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS sessions (
-      id TEXT PRIMARY KEY,
-      user_id TEXT NOT NULL,
-      expires_at TEXT NOT NULL,
-      created_at TEXT NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS connections (
-      id TEXT PRIMARY KEY,
-      requester_id TEXT NOT NULL,
-      receiver_id TEXT NOT NULL,
-      status TEXT NOT NULL DEFAULT 'pending',
-      created_at TEXT NOT NULL,
-      updated_at TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS notifications (
-      id TEXT PRIMARY KEY,
-      user_id TEXT NOT NULL,
-      type TEXT NOT NULL,
-      from_user_id TEXT,
-      connection_id TEXT,
-      message TEXT,
-      read INTEGER DEFAULT 0,
-      created_at TEXT NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS chat_messages (
-      id TEXT PRIMARY KEY,
-      sender_id TEXT NOT NULL,
-      sender_name TEXT NOT NULL,
-      content TEXT NOT NULL,
-      is_support INTEGER DEFAULT 0,
-      timestamp TEXT NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS direct_messages (
-      id TEXT PRIMARY KEY,
-      sender_id TEXT NOT NULL,
-      receiver_id TEXT NOT NULL,
-      content TEXT NOT NULL,
-      timestamp TEXT NOT NULL,
-      is_read INTEGER DEFAULT 0
-    );
+// The SQLite file named by DATABASE_URL: a path (relative to the working
+// directory), a file: URL, or ":memory:" for a private in-memory database.
+// Defaults to locallinkchat.db in the working directory.
+export function getSqlitePath(databaseUrl = process.env.DATABASE_URL ?? ""): string {
+  if (databaseUrl === ":memory:") return databaseUrl;
+  if (databaseUrl.startsWith("file:")) databaseUrl = databaseUrl.replace(/^file:(\/\/)?/, "");
+  return path.resolve(process.cwd(), databaseUrl || "locallinkchat.db");
+}
 
-    CREATE TABLE IF NOT EXISTS posts (
-      id TEXT PRIMARY KEY,
-      user_id TEXT NOT NULL,
-      content TEXT NOT NULL,
-      image_url TEXT,
-      created_at TEXT NOT NULL,
-      updated_at TEXT
-    );
+export function openDatabase(dbPath: string): { sqlite: Database.Database; db: SQLiteDatabase } {
+  const sqlite = new Database(dbPath);
 
-    CREATE TABLE IF NOT EXISTS post_likes (
-      id TEXT PRIMARY KEY,
-      post_id TEXT NOT NULL,
-      user_id TEXT NOT NULL,
-      type TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      UNIQUE(post_id, user_id)
-    );
+  // Enable WAL mode for better performance
+  if (dbPath !== ":memory:") {
+    sqlite.pragma("journal_mode = WAL");
+  }
 
-    CREATE TABLE IF NOT EXISTS post_comments (
-      id TEXT PRIMARY KEY,
-      post_id TEXT NOT NULL,
-      user_id TEXT NOT NULL,
-      content TEXT NOT NULL,
-      created_at TEXT NOT NULL
-    );
+  return { sqlite, db: drizzle(sqlite, { schema }) };
+}
 
-    CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
-    CREATE INDEX IF NOT EXISTS idx_users_google_id ON users(google_id);
-    CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
-    CREATE INDEX IF NOT EXISTS idx_connections_requester ON connections(requester_id);
-    CREATE INDEX IF NOT EXISTS idx_connections_receiver ON connections(receiver_id);
-    CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id);
-    CREATE INDEX IF NOT EXISTS idx_direct_messages_sender ON direct_messages(sender_id);
-    CREATE INDEX IF NOT EXISTS idx_direct_messages_receiver ON direct_messages(receiver_id);
-    CREATE INDEX IF NOT EXISTS idx_posts_user ON posts(user_id);
-    CREATE INDEX IF NOT EXISTS idx_posts_created ON posts(created_at);
-    CREATE INDEX IF NOT EXISTS idx_post_likes_post ON post_likes(post_id);
-    CREATE INDEX IF NOT EXISTS idx_post_likes_user ON post_likes(user_id);
-    CREATE INDEX IF NOT EXISTS idx_post_comments_post ON post_comments(post_id);
-  `);
+// Bring the schema up to date and apply startup data fixes. With
+// MIGRATE_ON_START=false pending migrations stop the server instead, for
+// deployments that run `npm run db:migrate` as a separate release step.
+export function initializeDatabase(sqlite: Database.Database) {
+  if (process.env.MIGRATE_ON_START === "false") {
+    const pending = getPendingMigrations(sqlite);
+    if (pending.length > 0) {
+      throw new Error(
+        `Database has ${pending.length} pending migration(s) (${pending.map((m) => m.version).join(", ")}); run npm run db:migrate`
+      );
+    }
+  } else {
+    for (const migration of runMigrations(sqlite)) {
+      console.log(`Applied migration ${migration.version} (${migration.name})`);
+    }
+  }
+
+  // Bootstrap admins from the environment (comma-separated emails)
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (adminEmails.length > 0) {
+    const promote = sqlite.prepare(`UPDATE users SET role = 'admin' WHERE lower(email) = ?`);
+    for (const email of adminEmails) promote.run(email);
+  }
 
   console.log("Database initialized successfully");
 }
-
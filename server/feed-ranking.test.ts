@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { User } from "@shared/schema";
+import { MemStorage } from "./mem-storage";
+import {
+  FeedSnapshotStore,
+  decodeFeedCursor,
+  encodeFeedCursor,
+  getRankedFeedPage,
+  rankPosts,
+  scorePost,
+  type FeedRankingWeights,
+  type RankablePost,
+} from "./feed-ranking";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 2);
+
+function post(id: string, overrides: Partial<RankablePost> = {}): RankablePost {
+  return {
+    id,
+    userId: "author",
+    createdAt: new Date(NOW - HOUR).toISOString(),
+    likesCount: 0,
+    dislikesCount: 0,
+    commentsCount: 0,
+    user: { interests: [] },
+    ...overrides,
+  };
+}
+
+const noViewer = { connectionIds: [], interests: [] };
+
+describe("feed cursors", () => {
+  it("round-trips both kinds of cursor", () => {
+    const keyset = { id: "p1", createdAt: "2025-01-01T00:00:00.000Z" };
+    const ranked = { snapshot: "s1", offset: 20 };
+    expect(decodeFeedCursor(encodeFeedCursor(keyset))).toEqual(keyset);
+    expect(decodeFeedCursor(encodeFeedCursor(ranked))).toEqual(ranked);
+  });
+
+  it("rejects anything else", () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    expect(decodeFeedCursor("not a cursor")).toBeNull();
+    expect(decodeFeedCursor(Buffer.from("{").toString("base64url"))).toBeNull();
+    expect(decodeFeedCursor(encode({ id: "p1" }))).toBeNull();
+    expect(decodeFeedCursor(encode({ snapshot: "s1", offset: 0 }))).toBeNull();
+    expect(decodeFeedCursor(encode({ snapshot: "s1", offset: 2.5 }))).toBeNull();
+    expect(decodeFeedCursor(encode({ snapshot: 1, offset: 10 }))).toBeNull();
+    expect(decodeFeedCursor(encode(null))).toBeNull();
+  });
+
+  it("keeps only the cursor's own fields", () => {
+    expect(decodeFeedCursor(encodeFeedCursor({ snapshot: "s1", offset: 5, extra: true } as any))).toEqual({ snapshot: "s1", offset: 5 });
+  });
+});
+
+describe("rankPosts", () => {
+  it("breaks equal scores by newer post, then higher id", () => {
+    const older = post("b", { createdAt: new Date(NOW - 2 * HOUR).toISOString(), likesCount: 3 });
+    const newerLowId = post("a", { likesCount: 3 });
+    const newerHighId = post("c", { likesCount: 3 });
+    const best = post("d", { createdAt: new Date(NOW - 9 * HOUR).toISOString(), likesCount: 4 });
+
+    expect(rankPosts([older, newerLowId, best, newerHighId], "likes", noViewer, NOW).map((p) => p.id))
+      .toEqual(["d", "c", "a", "b"]);
+    // Same order whatever order the candidates arrive in
+    expect(rankPosts([newerHighId, best, older, newerLowId], "likes", noViewer, NOW).map((p) => p.id))
+      .toEqual(["d", "c", "a", "b"]);
+  });
+
+  it("weighs reactions, recency, connections and shared interests for top", () => {
+    const weights: FeedRankingWeights = {
+      likes: 1, dislikes: 1, comments: 2, recency: 10, recencyHalfLifeHours: 24, connection: 5, sharedInterest: 2,
+    };
+    const fresh = post("fresh", { createdAt: new Date(NOW).toISOString(), likesCount: 2, dislikesCount: 1, commentsCount: 1 });
+    expect(scorePost(fresh, noViewer, NOW, weights)).toBe(2 - 1 + 2 + 10);
+
+    const dayOld = post("old", { userId: "friend", createdAt: new Date(NOW - 24 * HOUR).toISOString(), user: { interests: ["Tech", "Art", "Music"] } });
+    const viewer = { connectionIds: ["friend"], interests: ["Tech", "Art"] };
+    expect(scorePost(dayOld, viewer, NOW, weights)).toBe(5 + 5 + 2 * 2);
+    expect(scorePost(dayOld, noViewer, NOW, weights)).toBe(5);
+  });
+});
+
+describe("FeedSnapshotStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns a snapshot only to its owner, until it expires", () => {
+    vi.useFakeTimers({ now: NOW });
+    const store = new FeedSnapshotStore();
+    const id = store.save("alice:top:all", ["p1", "p2"]);
+
+    expect(store.get(id, "alice:top:all")).toEqual(["p1", "p2"]);
+    expect(store.get(id, "bob:top:all")).toBeUndefined();
+    expect(store.get(id, "alice:likes:all")).toBeUndefined();
+    expect(store.get("missing", "alice:top:all")).toBeUndefined();
+
+    vi.setSystemTime(NOW + 31 * 60 * 1000);
+    expect(store.get(id, "alice:top:all")).toBeUndefined();
+  });
+
+  it("drops the oldest snapshots beyond its capacity", () => {
+    const store = new FeedSnapshotStore();
+    const first = store.save("owner", ["p1"]);
+    let last = first;
+    for (let i = 0; i < 1000; i++) last = store.save("owner", ["p1"]);
+
+    expect(store.get(first, "owner")).toBeUndefined();
+    expect(store.get(last, "owner")).toEqual(["p1"]);
+  });
+});
+
+describe("getRankedFeedPage", () => {
+  let storage: MemStorage;
+  let snapshots: FeedSnapshotStore;
+  let author: User;
+  let fans: User[];
+
+  const at = (minute: number) => new Date(NOW - HOUR + minute * 60 * 1000).toISOString();
+
+  const page = (cursor: string | null, owner = "viewer:top:all") => getRankedFeedPage({
+    sort: "top",
+    viewer: noViewer,
+    owner,
+    cursor: cursor ? decodeFeedCursor(cursor) as { snapshot: string; offset: number } : null,
+    limit: 4,
+    loadCandidates: () => storage.getPosts({ limit: 100 }),
+    loadPosts: (ids) => storage.getPosts({ ids }),
+    snapshots,
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+    storage = new MemStorage();
+    snapshots = new FeedSnapshotStore();
+    author = await storage.createUser({ email: "author@example.com", name: "author", createdAt: at(0) });
+    fans = [];
+    for (let i = 0; i < 6; i++) {
+      fans.push(await storage.createUser({ email: `fan${i}@example.com`, name: `fan${i}`, createdAt: at(0) }));
+    }
+    for (let i = 0; i < 10; i++) {
+      const created = await storage.createPost({ userId: author.id, content: `p${i}`, createdAt: at(i) });
+      for (let j = 0; j < i % 4; j++) {
+        await storage.createPostLike({ postId: created.id, userId: fans[j].id, type: "like", createdAt: at(i) });
+      }
+    }
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("pages through the first page's ranking without duplicates or gaps while the feed changes", async () => {
+    const expected = rankPosts(await storage.getPosts({ limit: 100 }), "top", noViewer).map((p) => p.content);
+    const seen: Awaited<ReturnType<MemStorage["getPosts"]>> = [];
+
+    let result = await page(null);
+    seen.push(...result!.posts);
+
+    // Between pages: the last-ranked post gains enough likes to top the feed,
+    // and a new post arrives
+    const last = (await storage.getPosts()).find((p) => p.content === expected[expected.length - 1])!;
+    for (const fan of fans) {
+      await storage.createPostLike({ postId: last.id, userId: fan.id, type: "like", createdAt: at(30) });
+    }
+    await storage.createPost({ userId: author.id, content: "new", createdAt: at(31) });
+
+    while (result!.nextCursor) {
+      result = await page(result!.nextCursor);
+      seen.push(...result!.posts);
+    }
+
+    expect(seen.map((p) => p.content)).toEqual(expected);
+    // Later pages show current counts, in the original order
+    expect(seen[seen.length - 1]).toMatchObject({ id: last.id, likesCount: last.likesCount + fans.length });
+  });
+
+  it("drops posts deleted since the first page", async () => {
+    const first = await page(null);
+    const second = await page(first!.nextCursor);
+    await storage.deletePost(second!.posts[1].id);
+
+    const again = await page(first!.nextCursor);
+    expect(again!.posts.map((p) => p.id)).toEqual([second!.posts[0].id, ...second!.posts.slice(2).map((p) => p.id)]);
+    expect(again!.nextCursor).toBe(second!.nextCursor);
+  });
+
+  it("refuses another viewer's or an expired snapshot", async () => {
+    const first = await page(null);
+    expect(await page(first!.nextCursor, "someone-else:top:all")).toBeNull();
+
+    vi.setSystemTime(NOW + 31 * 60 * 1000);
+    expect(await page(first!.nextCursor)).toBeNull();
+  });
+
+  it("returns a short feed in one page without a cursor", async () => {
+    const result = await getRankedFeedPage({
+      sort: "likes",
+      viewer: noViewer,
+      owner: "viewer:likes:all",
+      cursor: null,
+      limit: 20,
+      loadCandidates: () => storage.getPosts(),
+      loadPosts: (ids) => storage.getPosts({ ids }),
+      snapshots,
+    });
+    expect(result!.posts).toHaveLength(10);
+    expect(result!.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+import { randomUUID } from "crypto";
+
+// Ordering and paging for the posts feed. "newest" pages straight from
+// storage; "likes" and "top" score the newest FEED_RANKING_CANDIDATES visible
+// posts and page through them in score order.
+//
+// A post's "top" score adds up weighted likes (minus dislikes), comments, a
+// freshness bonus that halves after FEED_RECENCY_HALF_LIFE_HOURS, a bonus when
+// the author is one of the viewer's connections and one per shared interest.
+// Every weight can be overridden with its FEED_WEIGHT_* variable.
+
+export type FeedSort = 'newest' | 'likes' | 'top';
+
+export const FEED_SORTS: FeedSort[] = ['newest', 'likes', 'top'];
+
+export interface FeedRankingWeights {
+  likes: number;
+  dislikes: number;
+  comments: number;
+  // Bonus for a brand-new post; worth half as much after recencyHalfLifeHours
+  recency: number;
+  recencyHalfLifeHours: number;
+  // Bonus when the author is an accepted connection of the viewer
+  connection: number;
+  // Bonus per interest the author shares with the viewer
+  sharedInterest: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export const FEED_RANKING_WEIGHTS: FeedRankingWeights = {
+  likes: envNumber("FEED_WEIGHT_LIKES", 1),
+  dislikes: envNumber("FEED_WEIGHT_DISLIKES", 1),
+  comments: envNumber("FEED_WEIGHT_COMMENTS", 2),
+  recency: envNumber("FEED_WEIGHT_RECENCY", 10),
+  recencyHalfLifeHours: envNumber("FEED_RECENCY_HALF_LIFE_HOURS", 24) || 24,
+  connection: envNumber("FEED_WEIGHT_CONNECTION", 5),
+  sharedInterest: envNumber("FEED_WEIGHT_SHARED_INTEREST", 2),
+};
+
+// How many of the newest posts the ranked feeds choose from
+export const FEED_RANKING_CANDIDATES = Math.floor(envNumber("FEED_RANKING_CANDIDATES", 1000)) || 1000;
+
+export interface RankablePost {
+  id: string;
+  userId: string;
+  createdAt: string;
+  likesCount: number;
+  dislikesCount: number;
+  commentsCount: number;
+  user: { interests: string[] | null };
+}
+
+export interface FeedViewer {
+  connectionIds: string[];
+  interests: string[];
+}
+
+// Where the next page starts, handed to clients as an opaque string. The
+// newest feed pages by (createdAt, id); ranked feeds by position in a snapshot.
+export type FeedCursor =
+  | { id: string; createdAt: string }
+  | { snapshot: string; offset: number };
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeFeedCursor(value: string): FeedCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (typeof cursor?.id === "string" && typeof cursor.createdAt === "string") {
+      return { id: cursor.id, createdAt: cursor.createdAt };
+    }
+    if (typeof cursor?.snapshot === "string" && Number.isInteger(cursor.offset) && cursor.offset > 0) {
+      return { snapshot: cursor.snapshot, offset: cursor.offset };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export function scorePost(
+  post: RankablePost,
+  viewer: FeedViewer,
+  asOf: number,
+  weights: FeedRankingWeights = FEED_RANKING_WEIGHTS
+): number {
+  const ageHours = Math.max(0, (asOf - new Date(post.createdAt).getTime()) / (60 * 60 * 1000));
+  const sharedInterests = (post.user.interests ?? []).filter((interest) => viewer.interests.includes(interest)).length;
+
+  return weights.likes * post.likesCount
+    - weights.dislikes * post.dislikesCount
+    + weights.comments * post.commentsCount
+    + weights.recency * weights.recencyHalfLifeHours / (weights.recencyHalfLifeHours + ageHours)
+    + (viewer.connectionIds.includes(post.userId) ? weights.connection : 0)
+    + weights.sharedInterest * sharedInterests;
+}
+
+// Highest score first; ties go to the newer post, then the higher id
+function compareRanked(a: { score: number; createdAt: string; id: string }, b: { score: number; createdAt: string; id: string }): number {
+  if (a.score !== b.score) return b.score - a.score;
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? 1 : -1;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+export function rankPosts<T extends RankablePost>(
+  posts: T[],
+  sort: 'likes' | 'top',
+  viewer: FeedViewer,
+  asOf = Date.now()
+): T[] {
+  return posts
+    .map((post) => ({
+      post,
+      id: post.id,
+      createdAt: post.createdAt,
+      score: sort === 'likes' ? post.likesCount : scorePost(post, viewer, asOf),
+    }))
+    .sort(compareRanked)
+    .map((entry) => entry.post);
+}
+
+// How long a ranked feed's order is kept for paging through it
+const FEED_SNAPSHOT_TTL_MS = 30 * 60 * 1000;
+// Snapshots kept at once; the oldest are dropped first
+const MAX_FEED_SNAPSHOTS = 1000;
+
+// Ranked feeds are ranked once, on the first page, and the order kept here so
+// later pages are slices of the same list: reactions and new posts arriving
+// meanwhile can't move a post across a page boundary. Like socket state, the
+// snapshots live in this process's memory.
+export class FeedSnapshotStore {
+  private snapshots = new Map<string, { owner: string; ids: string[]; expiresAt: number }>();
+
+  // owner ties the snapshot to the viewer and feed it was ranked for
+  save(owner: string, ids: string[]): string {
+    const now = Date.now();
+    this.snapshots.forEach((snapshot, id) => {
+      if (snapshot.expiresAt <= now) this.snapshots.delete(id);
+    });
+    while (this.snapshots.size >= MAX_FEED_SNAPSHOTS) {
+      this.snapshots.delete(this.snapshots.keys().next().value!);
+    }
+
+    const id = randomUUID();
+    this.snapshots.set(id, { owner, ids, expiresAt: now + FEED_SNAPSHOT_TTL_MS });
+    return id;
+  }
+
+  get(id: string, owner: string): string[] | undefined {
+    const snapshot = this.snapshots.get(id);
+    if (!snapshot || snapshot.owner !== owner || snapshot.expiresAt <= Date.now()) return undefined;
+    return snapshot.ids;
+  }
+}
+
+export const feedSnapshots = new FeedSnapshotStore();
+
+// One page of a ranked feed and the cursor for the next (null at the end).
+// The first page ranks loadCandidates(); later pages load their slice of the
+// snapshot with loadPosts, dropping posts deleted or hidden since. Returns
+// null when the cursor's snapshot has expired.
+export async function getRankedFeedPage<T extends RankablePost>(options: {
+  sort: 'likes' | 'top';
+  viewer: FeedViewer;
+  owner: string;
+  cursor: { snapshot: string; offset: number } | null;
+  limit: number;
+  loadCandidates: () => Promise<T[]>;
+  loadPosts: (ids: string[]) => Promise<T[]>;
+  snapshots?: FeedSnapshotStore;
+}): Promise<{ posts: T[]; nextCursor: string | null } | null> {
+  const { sort, viewer, owner, cursor, limit, snapshots = feedSnapshots } = options;
+
+  let ids: string[];
+  let snapshot: string;
+  let page: T[];
+  if (cursor) {
+    const saved = snapshots.get(cursor.snapshot, owner);
+    if (!saved) return null;
+    ids = saved;
+    snapshot = cursor.snapshot;
+    const pageIds = ids.slice(cursor.offset, cursor.offset + limit);
+    const loaded = new Map((await options.loadPosts(pageIds)).map((post) => [post.id, post]));
+    page = pageIds.map((id) => loaded.get(id)).filter((post): post is T => post !== undefined);
+  } else {
+    const ranked = rankPosts(await options.loadCandidates(), sort, viewer);
+    if (ranked.length <= limit) return { posts: ranked, nextCursor: null };
+    ids = ranked.map((post) => post.id);
+    snapshot = snapshots.save(owner, ids);
+    page = ranked.slice(0, limit);
+  }
+
+  const offset = (cursor?.offset ?? 0) + limit;
+  return {
+    posts: page,
+    nextCursor: offset < ids.length ? encodeFeedCursor({ snapshot, offset }) : null,
+  };
+}
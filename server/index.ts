@@ -3,10 +3,17 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
+import { TRUST_PROXY_HOPS } from "./rate-limit";
+import { initializeStorage } from "./storage";
 
 const app = express();
 const httpServer = createServer(app);
 
+// Behind a reverse proxy, take req.ip from X-Forwarded-For so per-IP limits see real clients
+if (TRUST_PROXY_HOPS > 0) {
+  app.set("trust proxy", TRUST_PROXY_HOPS);
+}
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -87,6 +94,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initializeStorage();
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
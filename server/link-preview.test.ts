@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import {
+  LinkPreviewService,
+  createSafeFetcher,
+  isPrivateAddress,
+  parseOpenGraph,
+  type FetchOptions,
+  type ResourceFetcher,
+} from "./link-preview";
+
+// The fetcher and preview service against a local fixture server. The
+// fixture listens on 127.0.0.1, which only the test fetchers are allowed to reach.
+
+const PNG = Buffer.from("89504e470d0a1a0a0000000d49484452000000010000000108060000001f15c489", "hex");
+const html = (head: string) => `<!doctype html><html><head>${head}</head><body>Hello</body></html>`;
+
+const pages: Record<string, (req: http.IncomingMessage, res: http.ServerResponse) => void> = {
+  "/og": (_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(html(`
+      <meta property="og:title" content="Open &amp; Graph">
+      <meta property="og:description" content="OG description">
+      <meta property="og:site_name" content="Fixture">
+      <meta property="og:image" content="/image.png">
+      <title>Ignored title</title>`));
+  },
+  "/image.png": (_req, res) => {
+    res.writeHead(200, { "Content-Type": "image/png" });
+    res.end(PNG);
+  },
+  "/not-html": (_req, res) => {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end("{}");
+  },
+  "/declared-large": (_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/html", "Content-Length": String(64 * 1024) });
+    res.end("x".repeat(64 * 1024));
+  },
+  "/chunked-large": (_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/html" });
+    for (let i = 0; i < 16; i++) res.write("y".repeat(4096));
+    res.end();
+  },
+  // Headers never arrive
+  "/hang": () => {},
+  // Headers arrive, then the body trickles in forever
+  "/trickle": (_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/html" });
+    const timer = setInterval(() => res.write("z"), 20);
+    res.on("close", () => clearInterval(timer));
+  },
+  "/to-private": (_req, res) => {
+    res.writeHead(302, { Location: "http://169.254.169.254/latest/meta-data" });
+    res.end();
+  },
+};
+
+let server: http.Server;
+let base: string;
+let fetcher: ResourceFetcher;
+
+const textOptions: FetchOptions = { maxBytes: 1024 * 1024, accept: "text/html" };
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://fixture");
+    // /redirect/3 -> /redirect/2 -> /redirect/1 -> /redirect/0 -> /og
+    const hops = url.pathname.match(/^\/redirect\/(\d+)$/);
+    if (hops) {
+      const left = Number(hops[1]);
+      res.writeHead(302, { Location: left > 0 ? `/redirect/${left - 1}` : "/og" });
+      return res.end();
+    }
+    const page = pages[url.pathname];
+    if (!page) {
+      res.writeHead(404);
+      return res.end();
+    }
+    page(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  fetcher = createSafeFetcher({ timeoutMs: 500, maxRedirects: 3, allowPrivateNetworks: ["127.0.0.1"] });
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("parseOpenGraph", () => {
+  it("prefers Open Graph tags and resolves the image against the page", () => {
+    expect(parseOpenGraph(html(`
+      <meta property="og:title" content="OG title">
+      <meta name="twitter:title" content="Twitter title">
+      <meta content='OG description' property='og:description'>
+      <meta property="og:image" content="../img/a.png">
+      <title>Title tag</title>`), "https://www.example.com/posts/1")).toEqual({
+      title: "OG title",
+      description: "OG description",
+      siteName: "example.com",
+      imageUrl: "https://www.example.com/img/a.png",
+    });
+  });
+
+  it("falls back to Twitter card tags", () => {
+    expect(parseOpenGraph(html(`
+      <meta name="twitter:title" content="Card title">
+      <meta name="twitter:description" content="Card description">
+      <meta name="twitter:image:src" content="https://cdn.example.com/card.jpg">
+      <title>Title tag</title>`), "https://example.com/")).toMatchObject({
+      title: "Card title",
+      description: "Card description",
+      imageUrl: "https://cdn.example.com/card.jpg",
+    });
+  });
+
+  it("falls back to the title tag and meta description", () => {
+    expect(parseOpenGraph(html(`
+      <title>
+        Caf&eacute; &#8211; menu
+      </title>
+      <meta name="description" content="Fresh &quot;coffee&quot;">`), "https://cafe.example.org/menu")).toEqual({
+      title: "Café – menu",
+      description: 'Fresh "coffee"',
+      siteName: "cafe.example.org",
+      imageUrl: null,
+    });
+  });
+});
+
+describe("createSafeFetcher", () => {
+  it("fetches a page", async () => {
+    const page = await fetcher(`${base}/og`, textOptions);
+    expect(page).toMatchObject({ url: `${base}/og`, status: 200, contentType: "text/html" });
+    expect(page.body.toString()).toContain("og:title");
+  });
+
+  it("rejects bodies over the size cap, or truncates them when asked", async () => {
+    const small = { maxBytes: 10 * 1024, accept: "text/html" };
+    await expect(fetcher(`${base}/declared-large`, small)).rejects.toThrow("Response too large");
+    await expect(fetcher(`${base}/chunked-large`, small)).rejects.toThrow("Response too large");
+
+    const truncated = await fetcher(`${base}/chunked-large`, { ...small, truncate: true });
+    expect(truncated.body.length).toBe(10 * 1024);
+  });
+
+  it("gives up at the deadline, even while data keeps arriving", async () => {
+    const started = Date.now();
+    await expect(fetcher(`${base}/hang`, textOptions)).rejects.toThrow("Request timed out");
+    await expect(fetcher(`${base}/trickle`, textOptions)).rejects.toThrow("Request timed out");
+    expect(Date.now() - started).toBeLessThan(3000);
+  });
+
+  it("follows redirects up to the limit", async () => {
+    const page = await fetcher(`${base}/redirect/2`, textOptions);
+    expect(page.url).toBe(`${base}/og`);
+    await expect(fetcher(`${base}/redirect/3`, textOptions)).rejects.toThrow("Too many redirects");
+  });
+
+  it("refuses a redirect to a private address", async () => {
+    await expect(fetcher(`${base}/to-private`, textOptions)).rejects.toThrow("Blocked private address");
+  });
+
+  it("refuses private addresses and odd ports unless allowed", async () => {
+    const strict = createSafeFetcher({ timeoutMs: 500 });
+    await expect(strict(`${base}/og`, textOptions)).rejects.toThrow("Non-standard ports are not allowed");
+    await expect(strict("http://127.0.0.1/og", textOptions)).rejects.toThrow("Blocked private address");
+    await expect(strict("http://[::1]/og", textOptions)).rejects.toThrow("Blocked private address");
+    await expect(strict("http://[::127.0.0.1]/og", textOptions)).rejects.toThrow("Blocked private address");
+    await expect(strict("http://[2002:7f00:1::1]/og", textOptions)).rejects.toThrow("Blocked private address");
+    await expect(strict("ftp://example.com/", textOptions)).rejects.toThrow("Unsupported protocol");
+    expect(isPrivateAddress("10.1.2.3")).toBe(true);
+    expect(isPrivateAddress("::127.0.0.1")).toBe(true);
+    expect(isPrivateAddress("::a00:1")).toBe(true);
+    expect(isPrivateAddress("2002:7f00:1::1")).toBe(true);
+    expect(isPrivateAddress("2002:a00:1::")).toBe(true);
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+    expect(isPrivateAddress("2606:2800:220:1::")).toBe(false);
+  });
+});
+
+describe("LinkPreviewService", () => {
+  const imageDir = fs.mkdtempSync(path.join(os.tmpdir(), "link-preview-test-"));
+  let calls: string[];
+  let service: LinkPreviewService;
+
+  beforeAll(() => {
+    calls = [];
+    service = new LinkPreviewService((url, options) => {
+      calls.push(new URL(url).pathname);
+      return fetcher(url, options);
+    }, imageDir);
+  });
+
+  afterAll(() => {
+    fs.rmSync(imageDir, { recursive: true, force: true });
+  });
+
+  it("unfurls a page once and serves later requests from the cache", async () => {
+    const preview = await service.getPreview(`${base}/og#comments`);
+    expect(preview).toMatchObject({
+      url: `${base}/og`,
+      status: "ok",
+      title: "Open & Graph",
+      description: "OG description",
+      siteName: "Fixture",
+    });
+    expect(calls).toEqual(["/og", "/image.png"]);
+    expect(fs.readFileSync(service.getImagePath(preview!)!)).toEqual(PNG);
+
+    const again = await service.getPreview(`${base}/og`);
+    expect(again?.id).toBe(preview!.id);
+    expect(calls).toEqual(["/og", "/image.png"]);
+  });
+
+  it("shares one unfurl between concurrent requests", async () => {
+    calls.length = 0;
+    const [first, second] = await Promise.all([
+      service.getPreview(`${base}/redirect/0`),
+      service.getPreview(`${base}/redirect/0`),
+    ]);
+    expect(first?.id).toBe(second?.id);
+    expect(calls.filter((call) => call === "/redirect/0")).toHaveLength(1);
+  });
+
+  it("caches failures too", async () => {
+    calls.length = 0;
+    expect(await service.getPreview(`${base}/not-html`)).toBeNull();
+    expect(await service.getPreview(`${base}/not-html`)).toBeNull();
+    expect(calls).toEqual(["/not-html"]);
+    expect(await service.getPreview("javascript:alert(1)")).toBeNull();
+  });
+});
@@ -0,0 +1,401 @@
+import http from "http";
+import https from "https";
+import dns from "dns";
+import net from "net";
+import path from "path";
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import type { LinkPreview, LinkPreviewInfo } from "@shared/schema";
+
+// Unfurls URLs found in posts and messages: fetches the page, reads its
+// Open Graph / Twitter card tags, caches the result in SQLite and keeps a
+// local copy of the thumbnail so clients never load third-party images.
+
+const PREVIEW_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const FAILED_PREVIEW_TTL_MS = 60 * 60 * 1000; // retry failed unfurls after an hour
+const MAX_HTML_BYTES = 1024 * 1024; // only the first 1MB of a page is parsed
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_URL_LENGTH = 2048;
+
+const PREVIEW_IMAGE_TYPES: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+};
+
+export const linkPreviewImagesDir = path.join(process.cwd(), "link_preview_images");
+
+if (!fs.existsSync(linkPreviewImagesDir)) {
+  fs.mkdirSync(linkPreviewImagesDir, { recursive: true });
+}
+
+export interface FetchOptions {
+  maxBytes: number;
+  accept: string;
+  // Return the first maxBytes instead of failing when the body is larger
+  truncate?: boolean;
+}
+
+export interface FetchedResource {
+  url: string; // final URL after redirects
+  status: number;
+  contentType: string;
+  body: Buffer;
+}
+
+// Anything that can download a URL. The default is createSafeFetcher();
+// tests can pass their own (or one allowing private networks) to run against
+// a local fixture server.
+export type ResourceFetcher = (url: string, options: FetchOptions) => Promise<FetchedResource>;
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  // Unspecified, and IPv4-compatible addresses like ::127.0.0.1
+  ["::", 96],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  // 6to4, which embeds an IPv4 address (2002:7f00:1:: is 127.0.0.1)
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+class UnfurlError extends Error {}
+
+interface SafeFetcherOptions {
+  timeoutMs?: number;
+  maxRedirects?: number;
+  // Only for tests against a local fixture server: true allows every private
+  // address, a list just those addresses. Either also allows any port.
+  allowPrivateNetworks?: boolean | string[];
+}
+
+// Fetcher that refuses private addresses (checked on the resolved IP that is
+// actually connected to, so DNS rebinding can't bypass it), only speaks
+// http/https on the default ports, and enforces a deadline and size cap.
+export function createSafeFetcher({
+  timeoutMs = 5000,
+  maxRedirects = 3,
+  allowPrivateNetworks = false,
+}: SafeFetcherOptions = {}): ResourceFetcher {
+  const isBlocked = (address: string) =>
+    allowPrivateNetworks !== true &&
+    isPrivateAddress(address) &&
+    !(Array.isArray(allowPrivateNetworks) && allowPrivateNetworks.includes(address));
+
+  const lookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) return (callback as any)(err);
+      const list = addresses as dns.LookupAddress[];
+      if (list.some((a) => isBlocked(a.address))) {
+        return (callback as any)(new UnfurlError(`Blocked private address for ${hostname}`));
+      }
+      if ((options as dns.LookupOptions).all) return (callback as any)(null, list);
+      (callback as any)(null, list[0].address, list[0].family);
+    });
+  };
+
+  const request = (url: URL, options: FetchOptions, deadline: number): Promise<FetchedResource & { location?: string }> =>
+    new Promise((resolve, reject) => {
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        return reject(new UnfurlError("Unsupported protocol"));
+      }
+      if (url.username || url.password) {
+        return reject(new UnfurlError("Credentials in URL are not allowed"));
+      }
+      if (!allowPrivateNetworks && url.port && url.port !== "80" && url.port !== "443") {
+        return reject(new UnfurlError("Non-standard ports are not allowed"));
+      }
+      // IP literals skip DNS, so check them directly
+      const host = url.hostname.replace(/^\[|\]$/g, "");
+      if (net.isIP(host) && isBlocked(host)) {
+        return reject(new UnfurlError("Blocked private address"));
+      }
+
+      const client = url.protocol === "https:" ? https : http;
+      const req = client.get(url, {
+        lookup,
+        timeout: Math.max(1, deadline - Date.now()),
+        headers: {
+          "User-Agent": "LocalLinkChatBot/1.0 (+link preview)",
+          "Accept": options.accept,
+          "Accept-Encoding": "identity",
+        },
+      }, (res) => {
+        const status = res.statusCode || 0;
+        const contentType = String(res.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+
+        if (status >= 300 && status < 400 && res.headers.location) {
+          res.resume();
+          return resolve({ url: url.toString(), status, contentType, body: Buffer.alloc(0), location: res.headers.location });
+        }
+
+        const declaredLength = Number(res.headers["content-length"] || 0);
+        if (!options.truncate && declaredLength > options.maxBytes) {
+          res.destroy();
+          return reject(new UnfurlError("Response too large"));
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        res.on("data", (chunk: Buffer) => {
+          if (received > options.maxBytes) return;
+          received += chunk.length;
+          if (received > options.maxBytes) {
+            // Settle before destroying, which emits "aborted"
+            if (options.truncate) {
+              chunks.push(chunk.subarray(0, chunk.length - (received - options.maxBytes)));
+              resolve({ url: url.toString(), status, contentType, body: Buffer.concat(chunks) });
+            } else {
+              reject(new UnfurlError("Response too large"));
+            }
+            res.destroy();
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on("end", () => resolve({ url: url.toString(), status, contentType, body: Buffer.concat(chunks) }));
+        res.on("error", reject);
+        res.on("aborted", () => reject(new UnfurlError("Request timed out")));
+      });
+
+      // The socket timeout only covers idle periods; also cap the total time
+      const timer = setTimeout(() => req.destroy(new UnfurlError("Request timed out")), Math.max(1, deadline - Date.now()));
+      req.on("close", () => clearTimeout(timer));
+      req.on("timeout", () => req.destroy(new UnfurlError("Request timed out")));
+      req.on("error", reject);
+    });
+
+  return async (rawUrl, options) => {
+    const deadline = Date.now() + timeoutMs;
+    let url = new URL(rawUrl);
+
+    for (let redirects = 0; ; redirects++) {
+      const result = await request(url, options, deadline);
+      if (!result.location) return result;
+      if (redirects >= maxRedirects) throw new UnfurlError("Too many redirects");
+      url = new URL(result.location, url);
+    }
+  };
+}
+
+interface ParsedPreview {
+  title: string | null;
+  description: string | null;
+  siteName: string | null;
+  imageUrl: string | null;
+}
+
+// Named entities common in page titles; numeric references cover the rest
+const NAMED_ENTITIES: Record<string, string> = {
+  quot: '"', apos: "'", lt: "<", gt: ">", nbsp: " ", amp: "&",
+  hellip: "…", mdash: "—", ndash: "–", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+  laquo: "«", raquo: "»", copy: "©", reg: "®", trade: "™", euro: "€", middot: "·",
+  aacute: "á", eacute: "é", iacute: "í", oacute: "ó", uacute: "ú",
+  Aacute: "Á", Eacute: "É", Iacute: "Í", Oacute: "Ó", Uacute: "Ú",
+  auml: "ä", ouml: "ö", uuml: "ü", Auml: "Ä", Ouml: "Ö", Uuml: "Ü", szlig: "ß",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const codePoint = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[name] ?? entity;
+  });
+}
+
+function clean(value: string | undefined, maxLength: number) {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, " ").trim();
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+// Read Open Graph and Twitter card tags, falling back to <title> and the meta description
+export function parseOpenGraph(html: string, pageUrl: string): ParsedPreview {
+  const tags: Record<string, string> = {};
+  for (const [tag] of Array.from(html.matchAll(/<meta\b[^>]*>/gi))) {
+    const attributes: Record<string, string> = {};
+    for (const match of Array.from(tag.matchAll(/([a-zA-Z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g))) {
+      attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? "";
+    }
+    const key = (attributes.property || attributes.name || "").toLowerCase();
+    if (key && attributes.content !== undefined && !(key in tags)) {
+      tags[key] = attributes.content;
+    }
+  }
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const image = tags["og:image"] || tags["og:image:url"] || tags["og:image:secure_url"] ||
+    tags["twitter:image"] || tags["twitter:image:src"];
+
+  let imageUrl: string | null = null;
+  if (image) {
+    try {
+      imageUrl = new URL(decodeEntities(image.trim()), pageUrl).toString();
+    } catch {
+      imageUrl = null;
+    }
+  }
+
+  return {
+    title: clean(tags["og:title"] || tags["twitter:title"] || titleTag, 200),
+    description: clean(tags["og:description"] || tags["twitter:description"] || tags["description"], 300),
+    siteName: clean(tags["og:site_name"], 100) || new URL(pageUrl).hostname.replace(/^www\./, ""),
+    imageUrl,
+  };
+}
+
+// Canonical form used as the cache key; null for anything we won't unfurl
+export function normalizePreviewUrl(rawUrl: string): string | null {
+  if (rawUrl.length > MAX_URL_LENGTH) return null;
+  try {
+    const url = new URL(rawUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+export function toLinkPreviewInfo(preview: LinkPreview): LinkPreviewInfo {
+  return {
+    url: preview.url,
+    title: preview.title,
+    description: preview.description,
+    siteName: preview.siteName,
+    imageUrl: preview.imageFile ? `/api/link-previews/${preview.id}/image` : null,
+  };
+}
+
+export class LinkPreviewService {
+  // Concurrent requests for the same URL share one unfurl
+  private inFlight = new Map<string, Promise<LinkPreview>>();
+
+  constructor(
+    private fetcher: ResourceFetcher = createSafeFetcher(),
+    private imageDir: string = linkPreviewImagesDir
+  ) {}
+
+  async getPreview(rawUrl: string): Promise<LinkPreview | null> {
+    const url = normalizePreviewUrl(rawUrl);
+    if (!url) return null;
+
+    const cached = await storage.getLinkPreviewByUrl(url);
+    if (cached) {
+      const ttl = cached.status === "ok" ? PREVIEW_TTL_MS : FAILED_PREVIEW_TTL_MS;
+      if (Date.now() - new Date(cached.fetchedAt).getTime() < ttl) {
+        return cached.status === "ok" ? cached : null;
+      }
+    }
+
+    let pending = this.inFlight.get(url);
+    if (!pending) {
+      pending = this.unfurl(url, cached).finally(() => this.inFlight.delete(url));
+      this.inFlight.set(url, pending);
+    }
+    const preview = await pending;
+    return preview.status === "ok" ? preview : null;
+  }
+
+  getImagePath(preview: LinkPreview): string | null {
+    return preview.imageFile ? path.join(this.imageDir, preview.imageFile) : null;
+  }
+
+  private async unfurl(url: string, cached: LinkPreview | undefined): Promise<LinkPreview> {
+    const id = cached?.id || randomUUID();
+    const fetchedAt = new Date().toISOString();
+
+    try {
+      const page = await this.fetcher(url, {
+        maxBytes: MAX_HTML_BYTES,
+        accept: "text/html,application/xhtml+xml",
+        truncate: true,
+      });
+      if (page.status < 200 || page.status >= 300 || !/html/.test(page.contentType)) {
+        throw new UnfurlError(`Not an HTML page (${page.status} ${page.contentType})`);
+      }
+
+      const parsed = parseOpenGraph(page.body.toString("utf8"), page.url);
+      if (!parsed.title && !parsed.description) {
+        throw new UnfurlError("No preview metadata");
+      }
+
+      const imageFile = parsed.imageUrl ? await this.downloadImage(id, parsed.imageUrl) : null;
+      if (cached?.imageFile && cached.imageFile !== imageFile) {
+        fs.unlink(path.join(this.imageDir, cached.imageFile), () => {});
+      }
+
+      return await storage.saveLinkPreview({ id, url, status: "ok", ...parsed, imageFile, fetchedAt });
+    } catch (error) {
+      if (!(error instanceof UnfurlError)) {
+        console.warn(`Link preview failed for ${url}:`, (error as Error).message);
+      }
+      if (cached?.imageFile) {
+        fs.unlink(path.join(this.imageDir, cached.imageFile), () => {});
+      }
+      return storage.saveLinkPreview({
+        id,
+        url,
+        status: "failed",
+        title: null,
+        description: null,
+        siteName: null,
+        imageUrl: null,
+        imageFile: null,
+        fetchedAt,
+      });
+    }
+  }
+
+  // Keep a local copy of the thumbnail; previews without one are still shown
+  private async downloadImage(id: string, imageUrl: string): Promise<string | null> {
+    try {
+      const image = await this.fetcher(imageUrl, { maxBytes: MAX_IMAGE_BYTES, accept: "image/*" });
+      const extension = PREVIEW_IMAGE_TYPES[image.contentType];
+      if (image.status < 200 || image.status >= 300 || !extension) return null;
+
+      const fileName = `${id}${extension}`;
+      await fs.promises.writeFile(path.join(this.imageDir, fileName), image.body);
+      return fileName;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const linkPreviewService = new LinkPreviewService();
@@ -0,0 +1,1520 @@
+import {
+  type User,
+  type InsertUser,
+  type MagicLinkToken,
+  type InsertMagicLinkToken,
+  type Session,
+  type InsertSession,
+  type TwoFactorCredential,
+  type TwoFactorChallenge,
+  type Passkey,
+  type InsertPasskey,
+  type PasskeyChallenge,
+  type Connection,
+  type InsertConnection,
+  type Report,
+  type InsertReport,
+  type ModerationAction,
+  type InsertModerationAction,
+  type ModerationReport,
+  type ModerationAuditEntry,
+  type NotificationWithSender,
+  type Notification,
+  type InsertNotification,
+  type ChatMessage,
+  type InsertChatMessage,
+  type DirectMessage,
+  type InsertDirectMessage,
+  type MessageReaction,
+  type InsertMessageReaction,
+  type MessageReadReceipt,
+  type InsertMessageReadReceipt,
+  type MessageEdit,
+  type MessageAttachment,
+  type LinkPreview,
+  type InsertLinkPreview,
+  type UserEvent,
+  type InsertMessageAttachment,
+  type Post,
+  type InsertPost,
+  type PostLike,
+  type InsertPostLike,
+  type PostComment,
+  type InsertPostComment,
+  type Short,
+  type InsertShort,
+  type ShortLike,
+  type InsertShortLike,
+  type ShortComment,
+  type InsertShortComment,
+  type Group,
+  type InsertGroup,
+  type GroupMember,
+  type InsertGroupMember,
+  type GroupMessage,
+  type InsertGroupMessage,
+  type ActivityItem,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+} from "@shared/schema";
+import { randomUUID } from "crypto";
+import type { IStorage, MessagePageOptions } from "./storage";
+
+type TwoFactorBackupCode = { id: string; userId: string; codeHash: string; usedAt: string | null };
+type UserBlock = { blockerId: string; blockedId: string; createdAt: string };
+type UserMute = { muterId: string; mutedId: string; createdAt: string };
+type VoiceMessagePlay = { attachmentId: string; userId: string; playedAt: string };
+
+// Build a stored row the way an INSERT would: columns left undefined take
+// their defaults
+function row<T extends object>(defaults: T, values: object): T {
+  const result = { ...defaults } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result as T;
+}
+
+// Apply an UPDATE's set: undefined values leave the column unchanged
+function assignDefined<T extends object>(target: T, updates: object): void {
+  for (const [key, value] of Object.entries(updates)) {
+    if (value !== undefined) (target as Record<string, unknown>)[key] = value;
+  }
+}
+
+// Rows in (timestamp, id) order, the conversation order used by the SQL storages
+function compareByTimestamp(a: { timestamp: string; id: string }, b: { timestamp: string; id: string }): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// One page of a conversation, mirroring SQLiteStorage.getDirectMessages
+function pageMessages<T extends { timestamp: string; id: string }>(
+  messages: T[],
+  cursor: T | undefined,
+  options: MessagePageOptions
+): T[] {
+  let rows = messages.slice().sort(compareByTimestamp);
+  if (cursor) {
+    rows = rows.filter((m) => options.before
+      ? compareByTimestamp(m, cursor) < 0
+      : compareByTimestamp(m, cursor) > 0);
+  }
+
+  // Unless paging forward, the newest messages are wanted
+  const newestFirst = !options.after || !!options.before;
+  if (options.limit) {
+    rows = newestFirst ? rows.slice(-options.limit) : rows.slice(0, options.limit);
+  }
+  return rows;
+}
+
+// Message search: the same text the SQL search indexes see (inline image/GIF
+// payloads dropped), split into words and folded like SQLite's unicode61 tokenizer
+const WORD_PATTERN = /[0-9A-Za-z_\u00C0-\uFFFF]+/g;
+
+function searchableText(content: string): string {
+  if (content.startsWith("[IMAGE]")) return content.slice(content.indexOf("[/IMAGE]") + 8);
+  if (content.startsWith("[GIF]")) return content.slice(content.indexOf("[/GIF]") + 6);
+  return content;
+}
+
+function foldWord(word: string): string {
+  return word.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+// The text with every word matching a query prefix highlighted, or null
+// unless each query word matched something
+function highlightMatches(text: string, prefixes: string[]): string | null {
+  const matched = new Set<string>();
+  const highlighted = text.replace(WORD_PATTERN, (word) => {
+    const folded = foldWord(word);
+    const hits = prefixes.filter((prefix) => folded.startsWith(prefix));
+    if (hits.length === 0) return word;
+    hits.forEach((prefix) => matched.add(prefix));
+    return `${SEARCH_HIGHLIGHT_START}${word}${SEARCH_HIGHLIGHT_END}`;
+  });
+  return prefixes.every((prefix) => matched.has(prefix)) ? highlighted : null;
+}
+
+// IStorage kept entirely in memory, for tests and throwaway instances
+// (DATABASE_URL=memory). Behaviour follows SQLiteStorage; nothing persists
+// past the process.
+export class MemStorage implements IStorage {
+  private activities: Map<string, ActivityItem> = new Map();
+  private users: Map<string, User> = new Map();
+  private magicLinkTokens: Map<string, MagicLinkToken> = new Map();
+  private sessions: Map<string, Session> = new Map();
+  private twoFactorCredentials: Map<string, TwoFactorCredential> = new Map();
+  private twoFactorBackupCodes: TwoFactorBackupCode[] = [];
+  private twoFactorChallenges: Map<string, TwoFactorChallenge> = new Map();
+  private passkeys: Map<string, Passkey> = new Map();
+  private passkeyChallenges: Map<string, PasskeyChallenge> = new Map();
+  private connections: Map<string, Connection> = new Map();
+  private userBlocks: UserBlock[] = [];
+  private userMutes: UserMute[] = [];
+  private reports: Map<string, Report> = new Map();
+  private moderationActions: Map<string, ModerationAction> = new Map();
+  private notifications: Map<string, Notification> = new Map();
+  private chatMessages: Map<string, ChatMessage> = new Map();
+  private directMessages: Map<string, DirectMessage> = new Map();
+  private messageEdits: Map<string, MessageEdit> = new Map();
+  private messageAttachments: Map<string, MessageAttachment> = new Map();
+  private voiceMessagePlays: VoiceMessagePlay[] = [];
+  private linkPreviews: Map<string, LinkPreview> = new Map();
+  private userEvents: UserEvent[] = [];
+  private nextEventSeq = 1;
+  private posts: Map<string, Post> = new Map();
+  private postLikes: Map<string, PostLike> = new Map();
+  private postComments: Map<string, PostComment> = new Map();
+  private shorts: Map<string, Short> = new Map();
+  private shortLikes: Map<string, ShortLike> = new Map();
+  private shortComments: Map<string, ShortComment> = new Map();
+  private groups: Map<string, Group> = new Map();
+  private groupMembers: Map<string, GroupMember> = new Map();
+  private groupMessages: Map<string, GroupMessage> = new Map();
+  private messageReactions: Map<string, MessageReaction> = new Map();
+  private messageReadReceipts: Map<string, MessageReadReceipt> = new Map();
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && { ...user };
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find((u) => u.email === email.toLowerCase());
+    return user && { ...user };
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find((u) => u.googleId === googleId);
+    return user && { ...user };
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).filter((u) => u.profileCompleted === true).map((u) => ({ ...u }));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user = row<User>({
+      id: randomUUID(),
+      email: insertUser.email.toLowerCase(),
+      name: null,
+      fullName: null,
+      jobPosition: null,
+      bio: null,
+      seekingDescription: null,
+      avatarUrl: null,
+      interests: [],
+      isOnline: false,
+      profileCompleted: false,
+      preferredLanguage: "en",
+      googleId: null,
+      role: "member",
+      suspendedAt: null,
+      suspendedUntil: null,
+      suspensionReason: null,
+      createdAt: insertUser.createdAt,
+      lastLoginAt: null,
+    }, { ...insertUser, email: insertUser.email.toLowerCase(), interests: insertUser.interests ? [...insertUser.interests] : [] });
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    assignDefined(user, updates.interests ? { ...updates, interests: [...updates.interests] } : updates);
+    return this.getUser(id);
+  }
+
+  async getUsersByInterests(interests: string[]): Promise<User[]> {
+    const allUsers = await this.getAllUsers();
+    if (interests.length === 0) return allUsers;
+    return allUsers.filter((user) =>
+      user.interests?.some((interest) => interests.includes(interest))
+    );
+  }
+
+  async setUserOnline(id: string, isOnline: boolean): Promise<void> {
+    const user = this.users.get(id);
+    if (user) user.isOnline = isOnline;
+  }
+
+  // Accounts under a suspension that hasn't ended yet
+  async getSuspendedUserIds(): Promise<string[]> {
+    const now = new Date().toISOString();
+    return Array.from(this.users.values())
+      .filter((u) => u.suspendedAt !== null && (u.suspendedUntil === null || u.suspendedUntil > now))
+      .map((u) => u.id);
+  }
+
+  // Magic Link Tokens
+  async createMagicLinkToken(insertToken: InsertMagicLinkToken): Promise<MagicLinkToken> {
+    const token = row<MagicLinkToken>({ ...insertToken, id: randomUUID(), used: false }, insertToken);
+    this.magicLinkTokens.set(token.id, token);
+    return { ...token };
+  }
+
+  async getMagicLinkToken(token: string): Promise<MagicLinkToken | undefined> {
+    const found = Array.from(this.magicLinkTokens.values()).find((t) => t.token === token && t.used === false);
+    return found && { ...found };
+  }
+
+  async markMagicLinkTokenUsed(id: string): Promise<void> {
+    const token = this.magicLinkTokens.get(id);
+    if (token) token.used = true;
+  }
+
+  // Sessions
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const session = row<Session>({ ...insertSession, userAgent: null, ipAddress: null, lastActiveAt: null }, insertSession);
+    this.sessions.set(session.id, session);
+    return { ...session };
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const session = this.sessions.get(id);
+    if (session && new Date(session.expiresAt) < new Date()) {
+      await this.deleteSession(id);
+      return undefined;
+    }
+    return session && { ...session };
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    Array.from(this.sessions.values())
+      .filter((s) => s.userId === userId)
+      .forEach((s) => this.sessions.delete(s.id));
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    const now = new Date().toISOString();
+    const lastSeen = (s: Session) => s.lastActiveAt ?? s.createdAt;
+    return Array.from(this.sessions.values())
+      .filter((s) => s.userId === userId && s.expiresAt > now)
+      .sort((a, b) => lastSeen(b).localeCompare(lastSeen(a)))
+      .map((s) => ({ ...s }));
+  }
+
+  async touchSession(id: string, lastActiveAt: string, expiresAt: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session) Object.assign(session, { lastActiveAt, expiresAt });
+  }
+
+  async rotateSession(id: string, newId: string, expiresAt: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.sessions.delete(id);
+    this.sessions.set(newId, { ...session, id: newId, expiresAt });
+  }
+
+  // Two-factor authentication
+  async getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined> {
+    const credential = this.twoFactorCredentials.get(userId);
+    return credential && { ...credential };
+  }
+
+  async saveTwoFactorSecret(userId: string, secret: string): Promise<void> {
+    this.twoFactorCredentials.set(userId, { userId, secret, enabledAt: null, lastUsedStep: null, createdAt: new Date().toISOString() });
+  }
+
+  async enableTwoFactor(userId: string, step: number): Promise<void> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (credential) Object.assign(credential, { enabledAt: new Date().toISOString(), lastUsedStep: step });
+  }
+
+  // Record a code's time step as used; false when it (or a later one) already was
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential || (credential.lastUsedStep !== null && credential.lastUsedStep >= step)) return false;
+    credential.lastUsedStep = step;
+    return true;
+  }
+
+  async deleteTwoFactor(userId: string): Promise<void> {
+    this.twoFactorCredentials.delete(userId);
+    this.twoFactorBackupCodes = this.twoFactorBackupCodes.filter((c) => c.userId !== userId);
+    Array.from(this.twoFactorChallenges.values())
+      .filter((c) => c.userId === userId)
+      .forEach((c) => this.twoFactorChallenges.delete(c.id));
+  }
+
+  async replaceBackupCodes(userId: string, codeHashes: string[]): Promise<void> {
+    this.twoFactorBackupCodes = this.twoFactorBackupCodes.filter((c) => c.userId !== userId);
+    for (const codeHash of codeHashes) {
+      this.twoFactorBackupCodes.push({ id: randomUUID(), userId, codeHash, usedAt: null });
+    }
+  }
+
+  async consumeBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    const code = this.twoFactorBackupCodes.find((c) => c.userId === userId && c.codeHash === codeHash && c.usedAt === null);
+    if (!code) return false;
+    code.usedAt = new Date().toISOString();
+    return true;
+  }
+
+  async countUnusedBackupCodes(userId: string): Promise<number> {
+    return this.twoFactorBackupCodes.filter((c) => c.userId === userId && c.usedAt === null).length;
+  }
+
+  async createTwoFactorChallenge(challenge: TwoFactorChallenge): Promise<void> {
+    this.twoFactorChallenges.set(challenge.id, { ...challenge });
+  }
+
+  async getTwoFactorChallenge(id: string): Promise<TwoFactorChallenge | undefined> {
+    const challenge = this.twoFactorChallenges.get(id);
+    if (challenge && new Date(challenge.expiresAt) < new Date()) {
+      await this.deleteTwoFactorChallenge(id);
+      return undefined;
+    }
+    return challenge && { ...challenge };
+  }
+
+  // Count a code attempt against a challenge; returns the attempts made so far
+  async recordTwoFactorChallengeAttempt(id: string): Promise<number> {
+    const challenge = this.twoFactorChallenges.get(id);
+    if (!challenge) return 0;
+    challenge.attempts += 1;
+    return challenge.attempts;
+  }
+
+  async deleteTwoFactorChallenge(id: string): Promise<void> {
+    this.twoFactorChallenges.delete(id);
+  }
+
+  // Passkeys
+  async getUserPasskeys(userId: string): Promise<Passkey[]> {
+    return Array.from(this.passkeys.values())
+      .filter((p) => p.userId === userId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((p) => ({ ...p }));
+  }
+
+  async getPasskeyByCredentialId(credentialId: string): Promise<Passkey | undefined> {
+    const passkey = Array.from(this.passkeys.values()).find((p) => p.credentialId === credentialId);
+    return passkey && { ...passkey };
+  }
+
+  async createPasskey(insertPasskey: InsertPasskey): Promise<Passkey> {
+    const passkey = row<Passkey>({
+      ...insertPasskey,
+      id: randomUUID(),
+      counter: 0,
+      transports: [],
+      backedUp: false,
+      lastUsedAt: null,
+    }, { ...insertPasskey, transports: insertPasskey.transports ? [...insertPasskey.transports] : [] });
+    this.passkeys.set(passkey.id, passkey);
+    return { ...passkey };
+  }
+
+  async updatePasskey(id: string, updates: Partial<Pick<Passkey, "name" | "counter" | "backedUp" | "lastUsedAt">>): Promise<void> {
+    const passkey = this.passkeys.get(id);
+    if (passkey) assignDefined(passkey, updates);
+  }
+
+  async deletePasskey(id: string): Promise<void> {
+    this.passkeys.delete(id);
+  }
+
+  async createPasskeyChallenge(challenge: PasskeyChallenge): Promise<void> {
+    // Expired ceremonies are never taken; clear them out as new ones start
+    const now = new Date().toISOString();
+    Array.from(this.passkeyChallenges.values())
+      .filter((c) => c.expiresAt < now)
+      .forEach((c) => this.passkeyChallenges.delete(c.id));
+    this.passkeyChallenges.set(challenge.id, { ...challenge });
+  }
+
+  async takePasskeyChallenge(id: string): Promise<PasskeyChallenge | undefined> {
+    const challenge = this.passkeyChallenges.get(id);
+    this.passkeyChallenges.delete(id);
+    if (!challenge || new Date(challenge.expiresAt) < new Date()) return undefined;
+    return challenge;
+  }
+
+  // Connections
+  async getConnection(id: string): Promise<Connection | undefined> {
+    const connection = this.connections.get(id);
+    return connection && { ...connection };
+  }
+
+  async getConnectionsByUser(userId: string): Promise<Connection[]> {
+    return Array.from(this.connections.values())
+      .filter((c) => c.requesterId === userId || c.receiverId === userId)
+      .map((c) => ({ ...c }));
+  }
+
+  async getConnectionBetweenUsers(userId1: string, userId2: string): Promise<Connection | undefined> {
+    const connection = Array.from(this.connections.values()).find((c) =>
+      (c.requesterId === userId1 && c.receiverId === userId2) ||
+      (c.requesterId === userId2 && c.receiverId === userId1)
+    );
+    return connection && { ...connection };
+  }
+
+  async createConnection(insertConnection: InsertConnection): Promise<Connection> {
+    const connection = row<Connection>({
+      ...insertConnection,
+      id: randomUUID(),
+      status: "pending",
+      createdAt: new Date().toISOString(),
+      updatedAt: null,
+    }, { ...insertConnection, createdAt: new Date().toISOString() });
+    this.connections.set(connection.id, connection);
+    return { ...connection };
+  }
+
+  async updateConnectionStatus(id: string, status: string): Promise<Connection | undefined> {
+    const connection = this.connections.get(id);
+    if (connection) Object.assign(connection, { status, updatedAt: new Date().toISOString() });
+    return this.getConnection(id);
+  }
+
+  async getAcceptedConnectionsCount(userId: string): Promise<number> {
+    const userConnections = await this.getConnectionsByUser(userId);
+    return userConnections.filter((c) => c.status === "accepted").length;
+  }
+
+  async deleteConnection(id: string): Promise<void> {
+    // Also delete related notifications
+    Array.from(this.notifications.values())
+      .filter((n) => n.connectionId === id)
+      .forEach((n) => this.notifications.delete(n.id));
+    this.connections.delete(id);
+  }
+
+  // Blocks and mutes
+  async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    if (!this.userBlocks.some((b) => b.blockerId === blockerId && b.blockedId === blockedId)) {
+      this.userBlocks.push({ blockerId, blockedId, createdAt: new Date().toISOString() });
+    }
+    // A block ends any connection or pending request between the two
+    const connection = await this.getConnectionBetweenUsers(blockerId, blockedId);
+    if (connection) {
+      await this.deleteConnection(connection.id);
+    }
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    this.userBlocks = this.userBlocks.filter((b) => !(b.blockerId === blockerId && b.blockedId === blockedId));
+  }
+
+  async getBlockedUsers(blockerId: string): Promise<User[]> {
+    return this.userBlocks
+      .filter((b) => b.blockerId === blockerId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((b) => this.users.get(b.blockedId))
+      .filter((u): u is User => !!u)
+      .map((u) => ({ ...u }));
+  }
+
+  // Users blocked by, or blocking, the given user
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    return this.userBlocks
+      .filter((b) => b.blockerId === userId || b.blockedId === userId)
+      .map((b) => (b.blockerId === userId ? b.blockedId : b.blockerId));
+  }
+
+  async isBlockedBetween(userId1: string, userId2: string): Promise<boolean> {
+    return this.userBlocks.some((b) =>
+      (b.blockerId === userId1 && b.blockedId === userId2) ||
+      (b.blockerId === userId2 && b.blockedId === userId1)
+    );
+  }
+
+  async muteUser(muterId: string, mutedId: string): Promise<void> {
+    if (!this.userMutes.some((m) => m.muterId === muterId && m.mutedId === mutedId)) {
+      this.userMutes.push({ muterId, mutedId, createdAt: new Date().toISOString() });
+    }
+  }
+
+  async unmuteUser(muterId: string, mutedId: string): Promise<void> {
+    this.userMutes = this.userMutes.filter((m) => !(m.muterId === muterId && m.mutedId === mutedId));
+  }
+
+  async getMutedUsers(muterId: string): Promise<User[]> {
+    return this.userMutes
+      .filter((m) => m.muterId === muterId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((m) => this.users.get(m.mutedId))
+      .filter((u): u is User => !!u)
+      .map((u) => ({ ...u }));
+  }
+
+  async getMutedUserIds(muterId: string): Promise<string[]> {
+    return this.userMutes.filter((m) => m.muterId === muterId).map((m) => m.mutedId);
+  }
+
+  // Reports and moderation
+  async createReport(insertReport: InsertReport): Promise<Report> {
+    const report: Report = {
+      id: randomUUID(),
+      ...insertReport,
+      targetUserId: insertReport.targetUserId ?? null,
+      details: insertReport.details ?? null,
+      contentSnapshot: insertReport.contentSnapshot ?? null,
+      status: insertReport.status ?? "open",
+      resolvedById: null,
+      resolvedAt: null,
+    };
+    this.reports.set(report.id, report);
+    return { ...report };
+  }
+
+  async getReport(id: string): Promise<Report | undefined> {
+    const report = this.reports.get(id);
+    return report && { ...report };
+  }
+
+  async getOpenReportByReporter(reporterId: string, targetType: string, targetId: string): Promise<Report | undefined> {
+    const report = Array.from(this.reports.values()).find((r) =>
+      r.reporterId === reporterId && r.targetType === targetType && r.targetId === targetId && r.status === "open"
+    );
+    return report && { ...report };
+  }
+
+  // Open reports oldest first (the queue); resolved ones most recent first
+  async getModerationReports(status: 'open' | 'resolved'): Promise<ModerationReport[]> {
+    const all = Array.from(this.reports.values());
+    const rows = status === 'open'
+      ? all.filter((r) => r.status === "open").sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      : all.filter((r) => r.status !== "open").sort((a, b) => (b.resolvedAt ?? "").localeCompare(a.resolvedAt ?? "")).slice(0, 200);
+
+    const openCounts = new Map<string, number>();
+    if (status === 'open') {
+      for (const r of rows) {
+        const key = `${r.targetType}:${r.targetId}`;
+        openCounts.set(key, (openCounts.get(key) ?? 0) + 1);
+      }
+    }
+
+    return rows.map((r) => ({
+      ...r,
+      reporter: this.users.get(r.reporterId) ?? null,
+      targetUser: r.targetUserId ? this.users.get(r.targetUserId) ?? null : null,
+      relatedOpenCount: Math.max((openCounts.get(`${r.targetType}:${r.targetId}`) ?? 0) - 1, 0),
+    }));
+  }
+
+  async getOpenReportsCount(): Promise<number> {
+    return Array.from(this.reports.values()).filter((r) => r.status === "open").length;
+  }
+
+  async resolveReports(ids: string[], status: 'dismissed' | 'actioned', resolvedById: string): Promise<void> {
+    const resolvedAt = new Date().toISOString();
+    for (const id of ids) {
+      const report = this.reports.get(id);
+      if (report && report.status === "open") Object.assign(report, { status, resolvedById, resolvedAt });
+    }
+  }
+
+  async getOpenReportIdsForTarget(targetType: string, targetId: string): Promise<string[]> {
+    return Array.from(this.reports.values())
+      .filter((r) => r.targetType === targetType && r.targetId === targetId && r.status === "open")
+      .map((r) => r.id);
+  }
+
+  async createModerationAction(insertAction: InsertModerationAction): Promise<ModerationAction> {
+    const action: ModerationAction = {
+      id: randomUUID(),
+      ...insertAction,
+      reportId: insertAction.reportId ?? null,
+      targetType: insertAction.targetType ?? null,
+      targetId: insertAction.targetId ?? null,
+      targetUserId: insertAction.targetUserId ?? null,
+      note: insertAction.note ?? null,
+    };
+    this.moderationActions.set(action.id, action);
+    return { ...action };
+  }
+
+  async getModerationActions(limit: number): Promise<ModerationAuditEntry[]> {
+    return Array.from(this.moderationActions.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map((r) => ({
+        ...r,
+        moderator: this.users.get(r.moderatorId) ?? null,
+        targetUser: r.targetUserId ? this.users.get(r.targetUserId) ?? null : null,
+      }));
+  }
+
+  // Notifications
+  async getNotifications(userId: string): Promise<NotificationWithSender[]> {
+    const notifications = Array.from(this.notifications.values())
+      .filter((n) => n.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return Promise.all(notifications.map(async (n) => {
+      const fromUser = n.fromUserId ? this.users.get(n.fromUserId) : undefined;
+      return {
+        ...n,
+        fromUser: fromUser ? { ...fromUser, connectionsCount: await this.getAcceptedConnectionsCount(fromUser.id) } : null,
+      };
+    }));
+  }
+
+  async getUnreadNotificationsCount(userId: string): Promise<number> {
+    return Array.from(this.notifications.values()).filter((n) => n.userId === userId && n.read === false).length;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const notification = row<Notification>({
+      ...insertNotification,
+      id: randomUUID(),
+      fromUserId: null,
+      connectionId: null,
+      message: null,
+      read: false,
+    }, insertNotification);
+    this.notifications.set(notification.id, notification);
+    return { ...notification };
+  }
+
+  async markNotificationRead(id: string): Promise<void> {
+    const notification = this.notifications.get(id);
+    if (notification) notification.read = true;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    Array.from(this.notifications.values())
+      .filter((n) => n.userId === userId)
+      .forEach((n) => { n.read = true; });
+  }
+
+  async deleteNotificationByConnectionId(connectionId: string): Promise<void> {
+    Array.from(this.notifications.values())
+      .filter((n) => n.connectionId === connectionId && n.type === "connection_request")
+      .forEach((n) => this.notifications.delete(n.id));
+  }
+
+  // Chat messages
+  async getChatMessages(): Promise<ChatMessage[]> {
+    return Array.from(this.chatMessages.values())
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map((m) => ({ ...m }));
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const message = row<ChatMessage>({ ...insertMessage, id: randomUUID(), isSupport: false }, insertMessage);
+    this.chatMessages.set(message.id, message);
+    return { ...message };
+  }
+
+  // Direct messages
+  async getDirectMessages(userId: string, otherUserId: string, options: MessagePageOptions = {}): Promise<DirectMessage[]> {
+    const conversation = Array.from(this.directMessages.values()).filter((m) =>
+      (m.senderId === userId && m.receiverId === otherUserId) ||
+      (m.senderId === otherUserId && m.receiverId === userId)
+    );
+
+    const cursorId = options.before ?? options.after;
+    const cursor = cursorId ? this.directMessages.get(cursorId) : undefined;
+    if (cursorId && !cursor) return [];
+
+    return pageMessages(conversation, cursor, options).map((m) => ({ ...m }));
+  }
+
+  async getDirectMessage(messageId: string): Promise<DirectMessage | undefined> {
+    const message = this.directMessages.get(messageId);
+    return message && { ...message };
+  }
+
+  async getDirectMessageConversations(userId: string): Promise<Array<{
+    oderId: string;
+    otherUser: User;
+    lastMessage?: string;
+    lastTimestamp?: string;
+    unreadCount: number
+  }>> {
+    const messages = Array.from(this.directMessages.values())
+      .filter((m) => m.senderId === userId || m.receiverId === userId)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    const conversations = new Map<string, {
+      oderId: string;
+      otherUser: User;
+      lastMessage?: string;
+      lastTimestamp?: string;
+      unreadCount: number
+    }>();
+
+    for (const msg of messages) {
+      const otherUserId = msg.senderId === userId ? msg.receiverId : msg.senderId;
+      if (!conversations.has(otherUserId)) {
+        const otherUser = await this.getUser(otherUserId);
+        if (otherUser) {
+          conversations.set(otherUserId, {
+            oderId: otherUserId,
+            otherUser,
+            lastMessage: msg.content,
+            lastTimestamp: msg.timestamp,
+            unreadCount: 0,
+          });
+        }
+      }
+      const conv = conversations.get(otherUserId);
+      if (conv && msg.receiverId === userId && !msg.isRead) {
+        conv.unreadCount++;
+      }
+    }
+
+    return Array.from(conversations.values());
+  }
+
+  async createDirectMessage(insertMessage: InsertDirectMessage): Promise<DirectMessage> {
+    const message = row<DirectMessage>({
+      ...insertMessage,
+      id: randomUUID(),
+      isRead: false,
+      editedAt: null,
+      parentId: null,
+      deliveredAt: null,
+      readAt: null,
+      clientId: null,
+    }, insertMessage);
+    this.directMessages.set(message.id, message);
+    return { ...message };
+  }
+
+  async editDirectMessage(messageId: string, content: string, editedById: string): Promise<DirectMessage | undefined> {
+    const existing = this.directMessages.get(messageId);
+    if (!existing) return undefined;
+
+    const editedAt = new Date().toISOString();
+    const editId = randomUUID();
+    this.messageEdits.set(editId, { id: editId, messageId, messageType: 'direct', previousContent: existing.content, editedById, editedAt });
+    Object.assign(existing, { content, editedAt });
+    return { ...existing };
+  }
+
+  async getDirectMessageReplies(parentId: string): Promise<DirectMessage[]> {
+    return Array.from(this.directMessages.values())
+      .filter((m) => m.parentId === parentId)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map((m) => ({ ...m }));
+  }
+
+  async deleteDirectMessage(messageId: string): Promise<void> {
+    this.directMessages.delete(messageId);
+    Array.from(this.messageEdits.values())
+      .filter((e) => e.messageId === messageId && e.messageType === 'direct')
+      .forEach((e) => this.messageEdits.delete(e.id));
+    const attachmentIds = (await this.getMessageAttachments(messageId, 'direct')).map((a) => a.id);
+    this.voiceMessagePlays = this.voiceMessagePlays.filter((p) => !attachmentIds.includes(p.attachmentId));
+    attachmentIds.forEach((id) => this.messageAttachments.delete(id));
+  }
+
+  async markDirectMessageAsRead(messageId: string): Promise<DirectMessage | undefined> {
+    const message = this.directMessages.get(messageId);
+    if (!message) return undefined;
+    const now = new Date().toISOString();
+    Object.assign(message, { isRead: true, readAt: message.readAt ?? now, deliveredAt: message.deliveredAt ?? now });
+    return { ...message };
+  }
+
+  // Returns the messages that were newly marked as read
+  async markMessagesFromUserAsRead(receiverId: string, senderId: string): Promise<DirectMessage[]> {
+    const now = new Date().toISOString();
+    return Array.from(this.directMessages.values())
+      .filter((m) => m.receiverId === receiverId && m.senderId === senderId && m.isRead === false)
+      .map((m) => {
+        Object.assign(m, { isRead: true, readAt: now, deliveredAt: m.deliveredAt ?? now });
+        return { ...m };
+      });
+  }
+
+  // Returns the messages that were newly marked as delivered
+  async markDirectMessagesDelivered(receiverId: string, messageIds: string[]): Promise<DirectMessage[]> {
+    const deliveredAt = new Date().toISOString();
+    return messageIds
+      .map((id) => this.directMessages.get(id))
+      .filter((m): m is DirectMessage => !!m && m.receiverId === receiverId && m.deliveredAt === null)
+      .map((m) => {
+        m.deliveredAt = deliveredAt;
+        return { ...m };
+      });
+  }
+
+  async getUndeliveredDirectMessages(receiverId: string): Promise<DirectMessage[]> {
+    return Array.from(this.directMessages.values())
+      .filter((m) => m.receiverId === receiverId && m.deliveredAt === null)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map((m) => ({ ...m }));
+  }
+
+  async getDirectMessageByClientId(senderId: string, clientId: string): Promise<DirectMessage | undefined> {
+    const message = Array.from(this.directMessages.values()).find((m) => m.senderId === senderId && m.clientId === clientId);
+    return message && { ...message };
+  }
+
+  async getDirectMessageCount(userId: string): Promise<number> {
+    return Array.from(this.directMessages.values()).filter((m) => m.senderId === userId).length;
+  }
+
+  async getUnreadDirectMessageCount(userId: string): Promise<number> {
+    return Array.from(this.directMessages.values()).filter((m) => m.receiverId === userId && m.isRead === false).length;
+  }
+
+  // Activities
+  async getActivities(): Promise<ActivityItem[]> {
+    return Array.from(this.activities.values()).sort(
+      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+  }
+
+  async createActivity(activity: Omit<ActivityItem, "id">): Promise<ActivityItem> {
+    const id = randomUUID();
+    const newActivity: ActivityItem = { ...activity, id };
+    this.activities.set(id, newActivity);
+    return newActivity;
+  }
+
+  // Posts
+  async getPosts(options?: { ids?: string[]; connectionIds?: string[]; currentUserId?: string; excludeUserIds?: string[]; limit?: number; before?: { id: string; createdAt: string } }): Promise<Array<Post & { user: User; likesCount: number; dislikesCount: number; commentsCount: number; userReaction?: 'like' | 'dislike' | null }>> {
+    // Newest first, in the (createdAt, id) order the cursor pages through
+    const position = (post: { createdAt: string; id: string }) => ({ timestamp: post.createdAt, id: post.id });
+    let allPosts = Array.from(this.posts.values()).sort((a, b) => compareByTimestamp(position(b), position(a)));
+
+    // Only these posts, e.g. the next page of a ranked feed
+    if (options?.ids) {
+      const ids = new Set(options.ids);
+      allPosts = allPosts.filter((post) => ids.has(post.id));
+    }
+
+    // Filter by connections if specified
+    if (options?.connectionIds && options.connectionIds.length > 0) {
+      allPosts = allPosts.filter((post) => options.connectionIds!.includes(post.userId));
+    }
+
+    // Hide blocked and muted authors
+    if (options?.excludeUserIds && options.excludeUserIds.length > 0) {
+      allPosts = allPosts.filter((post) => !options.excludeUserIds!.includes(post.userId));
+    }
+
+    // Older than the cursor, for paging newest first
+    if (options?.before) {
+      const before = position(options.before);
+      allPosts = allPosts.filter((post) => compareByTimestamp(position(post), before) < 0);
+    }
+    if (options?.limit) {
+      allPosts = allPosts.slice(0, options.limit);
+    }
+
+    return Promise.all(allPosts.map(async (post) => {
+      const likeCounts = await this.getPostLikesCount(post.id);
+      const reaction = options?.currentUserId ? await this.getPostLike(post.id, options.currentUserId) : undefined;
+      return {
+        ...post,
+        user: (await this.getUser(post.userId))!,
+        likesCount: likeCounts.likes,
+        dislikesCount: likeCounts.dislikes,
+        commentsCount: Array.from(this.postComments.values()).filter((c) => c.postId === post.id).length,
+        userReaction: options?.currentUserId ? (reaction?.type as 'like' | 'dislike' | undefined) ?? null : null,
+      };
+    }));
+  }
+
+  async getPost(id: string): Promise<Post | undefined> {
+    const post = this.posts.get(id);
+    return post && { ...post };
+  }
+
+  async getPostsByUserId(userId: string): Promise<Array<Post & { user: User }>> {
+    const user = await this.getUser(userId);
+    if (!user) return [];
+    return Array.from(this.posts.values())
+      .filter((p) => p.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((post) => ({ ...post, user }));
+  }
+
+  async createPost(insertPost: InsertPost): Promise<Post> {
+    const post = row<Post>({ ...insertPost, id: randomUUID(), imageUrl: null, updatedAt: null }, insertPost);
+    this.posts.set(post.id, post);
+    return { ...post };
+  }
+
+  async deletePost(id: string): Promise<void> {
+    // Delete all related likes and comments first
+    Array.from(this.postLikes.values()).filter((l) => l.postId === id).forEach((l) => this.postLikes.delete(l.id));
+    Array.from(this.postComments.values()).filter((c) => c.postId === id).forEach((c) => this.postComments.delete(c.id));
+    this.posts.delete(id);
+  }
+
+  // Post likes
+  async getPostLike(postId: string, userId: string): Promise<PostLike | undefined> {
+    const like = Array.from(this.postLikes.values()).find((l) => l.postId === postId && l.userId === userId);
+    return like && { ...like };
+  }
+
+  async createPostLike(insertLike: InsertPostLike): Promise<PostLike> {
+    const like: PostLike = { ...insertLike, id: randomUUID() };
+    this.postLikes.set(like.id, like);
+    return { ...like };
+  }
+
+  async updatePostLike(id: string, type: 'like' | 'dislike'): Promise<PostLike | undefined> {
+    const like = this.postLikes.get(id);
+    if (!like) return undefined;
+    like.type = type;
+    return { ...like };
+  }
+
+  async deletePostLike(postId: string, userId: string): Promise<void> {
+    Array.from(this.postLikes.values())
+      .filter((l) => l.postId === postId && l.userId === userId)
+      .forEach((l) => this.postLikes.delete(l.id));
+  }
+
+  async getPostLikesCount(postId: string): Promise<{ likes: number; dislikes: number }> {
+    const allLikes = Array.from(this.postLikes.values()).filter((l) => l.postId === postId);
+    const likes = allLikes.filter((l) => l.type === 'like').length;
+    const dislikes = allLikes.filter((l) => l.type === 'dislike').length;
+    return { likes, dislikes };
+  }
+
+  // Post comments
+  async getPostComments(postId: string): Promise<Array<PostComment & { user: User }>> {
+    return Array.from(this.postComments.values())
+      .filter((c) => c.postId === postId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((comment) => ({ ...comment, user: { ...this.users.get(comment.userId)! } }));
+  }
+
+  async getPostComment(id: string): Promise<PostComment | undefined> {
+    const comment = this.postComments.get(id);
+    return comment && { ...comment };
+  }
+
+  async createPostComment(insertComment: InsertPostComment): Promise<PostComment> {
+    const comment: PostComment = { ...insertComment, id: randomUUID() };
+    this.postComments.set(comment.id, comment);
+    return { ...comment };
+  }
+
+  async deletePostComment(id: string): Promise<void> {
+    this.postComments.delete(id);
+  }
+
+  // Shorts
+  async getShorts(options?: { limit?: number; offset?: number; random?: boolean; excludeUserIds?: string[] }): Promise<{ shorts: Array<Short & { user: User }>; total: number; hasMore: boolean }> {
+    let allShorts = Array.from(this.shorts.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    // Hide blocked and muted authors
+    if (options?.excludeUserIds && options.excludeUserIds.length > 0) {
+      allShorts = allShorts.filter((short) => !options.excludeUserIds!.includes(short.userId));
+    }
+    const total = allShorts.length;
+
+    // Shuffle if random is requested
+    if (options?.random) {
+      allShorts = allShorts.sort(() => Math.random() - 0.5);
+    }
+
+    // Apply offset and limit for pagination
+    const offset = options?.offset ?? 0;
+    const limit = options?.limit;
+
+    if (limit) {
+      allShorts = allShorts.slice(offset, offset + limit);
+    } else if (offset > 0) {
+      allShorts = allShorts.slice(offset);
+    }
+
+    const hasMore = limit ? (offset + limit) < total : false;
+    const enrichedShorts = allShorts.map((short) => ({ ...short, user: { ...this.users.get(short.userId)! } }));
+    return { shorts: enrichedShorts, total, hasMore };
+  }
+
+  async getShort(id: string): Promise<Short | undefined> {
+    const short = this.shorts.get(id);
+    return short && { ...short };
+  }
+
+  async getShortsByUserId(userId: string): Promise<Array<Short & { user: User }>> {
+    const user = await this.getUser(userId);
+    if (!user) return [];
+    return Array.from(this.shorts.values())
+      .filter((s) => s.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((short) => ({ ...short, user }));
+  }
+
+  async createShort(insertShort: InsertShort): Promise<Short> {
+    const short = row<Short>({
+      ...insertShort,
+      id: randomUUID(),
+      title: null,
+      description: null,
+      thumbnailUrl: null,
+      duration: null,
+      viewCount: 0,
+    }, insertShort);
+    this.shorts.set(short.id, short);
+    return { ...short };
+  }
+
+  async deleteShort(id: string): Promise<void> {
+    this.shorts.delete(id);
+  }
+
+  async incrementShortViewCount(id: string): Promise<void> {
+    const short = this.shorts.get(id);
+    if (short) short.viewCount = (short.viewCount ?? 0) + 1;
+  }
+
+  // Short likes
+  async getShortLike(shortId: string, userId: string): Promise<ShortLike | undefined> {
+    const like = Array.from(this.shortLikes.values()).find((l) => l.shortId === shortId && l.userId === userId);
+    return like && { ...like };
+  }
+
+  async createShortLike(insertLike: InsertShortLike): Promise<ShortLike> {
+    const like: ShortLike = { ...insertLike, id: randomUUID() };
+    this.shortLikes.set(like.id, like);
+    return { ...like };
+  }
+
+  async updateShortLike(id: string, type: 'like' | 'dislike'): Promise<ShortLike | undefined> {
+    const like = this.shortLikes.get(id);
+    if (!like) return undefined;
+    like.type = type;
+    return { ...like };
+  }
+
+  async deleteShortLike(shortId: string, userId: string): Promise<void> {
+    Array.from(this.shortLikes.values())
+      .filter((l) => l.shortId === shortId && l.userId === userId)
+      .forEach((l) => this.shortLikes.delete(l.id));
+  }
+
+  async getShortLikesCount(shortId: string): Promise<{ likes: number; dislikes: number }> {
+    const allLikes = Array.from(this.shortLikes.values()).filter((l) => l.shortId === shortId);
+    const likes = allLikes.filter((l) => l.type === 'like').length;
+    const dislikes = allLikes.filter((l) => l.type === 'dislike').length;
+    return { likes, dislikes };
+  }
+
+  // Short comments
+  async getShortComments(shortId: string): Promise<Array<ShortComment & { user: User }>> {
+    return Array.from(this.shortComments.values())
+      .filter((c) => c.shortId === shortId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((comment) => ({ ...comment, user: { ...this.users.get(comment.userId)! } }));
+  }
+
+  async getShortComment(id: string): Promise<ShortComment | undefined> {
+    const comment = this.shortComments.get(id);
+    return comment && { ...comment };
+  }
+
+  async createShortComment(insertComment: InsertShortComment): Promise<ShortComment> {
+    const comment: ShortComment = { ...insertComment, id: randomUUID() };
+    this.shortComments.set(comment.id, comment);
+    return { ...comment };
+  }
+
+  async deleteShortComment(id: string): Promise<void> {
+    this.shortComments.delete(id);
+  }
+
+  // Groups
+  async getGroup(id: string): Promise<Group | undefined> {
+    const group = this.groups.get(id);
+    return group && { ...group };
+  }
+
+  async getGroupsByUser(userId: string): Promise<Array<Group & { memberCount: number }>> {
+    const members = Array.from(this.groupMembers.values()).filter((m) => m.status === "accepted");
+    return members
+      .filter((m) => m.userId === userId && this.groups.has(m.groupId))
+      .map((m) => ({
+        ...this.groups.get(m.groupId)!,
+        memberCount: members.filter((other) => other.groupId === m.groupId).length,
+      }));
+  }
+
+  async createGroup(insertGroup: InsertGroup): Promise<Group> {
+    const group = row<Group>({ ...insertGroup, id: randomUUID(), description: null, avatarUrl: null }, insertGroup);
+    this.groups.set(group.id, group);
+    return { ...group };
+  }
+
+  async deleteGroup(id: string): Promise<void> {
+    // Delete all members and messages first
+    Array.from(this.groupMembers.values()).filter((m) => m.groupId === id).forEach((m) => this.groupMembers.delete(m.id));
+    Array.from(this.groupMessages.values()).filter((m) => m.groupId === id).forEach((m) => this.groupMessages.delete(m.id));
+    this.groups.delete(id);
+  }
+
+  // Group members
+  async getGroupMember(groupId: string, userId: string): Promise<GroupMember | undefined> {
+    const member = Array.from(this.groupMembers.values()).find((m) => m.groupId === groupId && m.userId === userId);
+    return member && { ...member };
+  }
+
+  async getGroupMembers(groupId: string): Promise<Array<GroupMember & { user: User }>> {
+    return Array.from(this.groupMembers.values())
+      .filter((m) => m.groupId === groupId)
+      .map((member) => ({ ...member, user: { ...this.users.get(member.userId)! } }));
+  }
+
+  async getGroupInvitations(userId: string): Promise<Array<GroupMember & { group: Group; invitedBy: User | null }>> {
+    return Array.from(this.groupMembers.values())
+      .filter((m) => m.userId === userId && m.status === "pending")
+      .map((invitation) => ({
+        ...invitation,
+        group: { ...this.groups.get(invitation.groupId)! },
+        invitedBy: invitation.invitedById ? this.users.get(invitation.invitedById) ?? null : null,
+      }));
+  }
+
+  async createGroupMember(insertMember: InsertGroupMember): Promise<GroupMember> {
+    const member = row<GroupMember>({
+      ...insertMember,
+      id: randomUUID(),
+      role: "member",
+      status: "pending",
+      invitedById: null,
+      joinedAt: null,
+    }, insertMember);
+    this.groupMembers.set(member.id, member);
+    return { ...member };
+  }
+
+  async updateGroupMemberStatus(id: string, status: string, joinedAt?: string): Promise<GroupMember | undefined> {
+    const member = this.groupMembers.get(id);
+    if (!member) return undefined;
+    member.status = status;
+    if (joinedAt) {
+      member.joinedAt = joinedAt;
+    }
+    return { ...member };
+  }
+
+  async deleteGroupMember(groupId: string, userId: string): Promise<void> {
+    Array.from(this.groupMembers.values())
+      .filter((m) => m.groupId === groupId && m.userId === userId)
+      .forEach((m) => this.groupMembers.delete(m.id));
+  }
+
+  // Group messages
+  async getGroupMessages(groupId: string, options: MessagePageOptions = {}): Promise<Array<GroupMessage & { sender: User }>> {
+    const messages = Array.from(this.groupMessages.values()).filter((m) => m.groupId === groupId);
+
+    const cursorId = options.before ?? options.after;
+    const cursor = cursorId ? this.groupMessages.get(cursorId) : undefined;
+    if (cursorId && !cursor) return [];
+
+    return pageMessages(messages, cursor, options)
+      .map((message) => ({ ...message, sender: { ...this.users.get(message.senderId)! } }));
+  }
+
+  async getGroupMessage(messageId: string): Promise<GroupMessage | undefined> {
+    const message = this.groupMessages.get(messageId);
+    return message && { ...message };
+  }
+
+  async createGroupMessage(insertMessage: InsertGroupMessage): Promise<GroupMessage> {
+    const message = row<GroupMessage>({
+      ...insertMessage,
+      id: randomUUID(),
+      editedAt: null,
+      parentId: null,
+      clientId: null,
+    }, insertMessage);
+    this.groupMessages.set(message.id, message);
+    return { ...message };
+  }
+
+  async getGroupMessageByClientId(senderId: string, clientId: string): Promise<GroupMessage | undefined> {
+    const message = Array.from(this.groupMessages.values()).find((m) => m.senderId === senderId && m.clientId === clientId);
+    return message && { ...message };
+  }
+
+  async editGroupMessage(messageId: string, content: string, editedById: string): Promise<GroupMessage | undefined> {
+    const existing = this.groupMessages.get(messageId);
+    if (!existing) return undefined;
+
+    const editedAt = new Date().toISOString();
+    const editId = randomUUID();
+    this.messageEdits.set(editId, { id: editId, messageId, messageType: 'group', previousContent: existing.content, editedById, editedAt });
+    Object.assign(existing, { content, editedAt });
+    return { ...existing };
+  }
+
+  async getGroupMessageReplies(parentId: string): Promise<Array<GroupMessage & { sender: User }>> {
+    return Array.from(this.groupMessages.values())
+      .filter((m) => m.parentId === parentId)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map((reply) => ({ ...reply, sender: { ...this.users.get(reply.senderId)! } }));
+  }
+
+  // Threads
+  async getReplyCounts(parentIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, number>> {
+    const messages: Array<{ parentId: string | null }> = messageType === 'group'
+      ? Array.from(this.groupMessages.values())
+      : Array.from(this.directMessages.values());
+
+    const counts: Record<string, number> = {};
+    for (const message of messages) {
+      if (message.parentId && parentIds.includes(message.parentId)) {
+        counts[message.parentId] = (counts[message.parentId] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  // Message attachments
+  async createMessageAttachment(insertAttachment: InsertMessageAttachment): Promise<MessageAttachment> {
+    const attachment = row<MessageAttachment>({
+      ...insertAttachment,
+      id: randomUUID(),
+      messageId: null,
+      messageType: null,
+      durationMs: null,
+      waveform: null,
+    }, insertAttachment);
+    this.messageAttachments.set(attachment.id, attachment);
+    return { ...attachment };
+  }
+
+  async getMessageAttachment(id: string): Promise<MessageAttachment | undefined> {
+    const attachment = this.messageAttachments.get(id);
+    return attachment && { ...attachment };
+  }
+
+  async getMessageAttachments(messageId: string, messageType: 'direct' | 'group'): Promise<MessageAttachment[]> {
+    return Array.from(this.messageAttachments.values())
+      .filter((a) => a.messageId === messageId && a.messageType === messageType)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((a) => ({ ...a }));
+  }
+
+  async getAttachmentsForMessages(messageIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, MessageAttachment[]>> {
+    const attachments: Record<string, MessageAttachment[]> = {};
+    for (const messageId of messageIds) {
+      const rows = await this.getMessageAttachments(messageId, messageType);
+      if (rows.length > 0) attachments[messageId] = rows;
+    }
+    return attachments;
+  }
+
+  async attachFilesToMessage(attachmentIds: string[], messageId: string, messageType: 'direct' | 'group'): Promise<void> {
+    for (const id of attachmentIds) {
+      const attachment = this.messageAttachments.get(id);
+      if (attachment) Object.assign(attachment, { messageId, messageType });
+    }
+  }
+
+  async getGroupAttachments(groupId: string): Promise<{ attachment: MessageAttachment; uploader: User | null }[]> {
+    return Array.from(this.messageAttachments.values())
+      .filter((a) => a.messageType === 'group' && !!a.messageId && this.groupMessages.get(a.messageId)?.groupId === groupId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((attachment) => ({ attachment: { ...attachment }, uploader: this.users.get(attachment.uploaderId) ?? null }));
+  }
+
+  // Returns false if the user had already played it
+  async markVoiceMessagePlayed(attachmentId: string, userId: string): Promise<boolean> {
+    if (this.voiceMessagePlays.some((p) => p.attachmentId === attachmentId && p.userId === userId)) return false;
+    this.voiceMessagePlays.push({ attachmentId, userId, playedAt: new Date().toISOString() });
+    return true;
+  }
+
+  async getVoiceMessagePlays(attachmentIds: string[]): Promise<Record<string, string[]>> {
+    const plays: Record<string, string[]> = {};
+    for (const play of this.voiceMessagePlays) {
+      if (attachmentIds.includes(play.attachmentId)) {
+        (plays[play.attachmentId] ||= []).push(play.userId);
+      }
+    }
+    return plays;
+  }
+
+  // Link preview cache
+  async getLinkPreviewByUrl(url: string): Promise<LinkPreview | undefined> {
+    const preview = Array.from(this.linkPreviews.values()).find((p) => p.url === url);
+    return preview && { ...preview };
+  }
+
+  async getLinkPreview(id: string): Promise<LinkPreview | undefined> {
+    const preview = this.linkPreviews.get(id);
+    return preview && { ...preview };
+  }
+
+  // Insert or refresh the cached preview for a URL
+  async saveLinkPreview(preview: InsertLinkPreview): Promise<LinkPreview> {
+    const existing = Array.from(this.linkPreviews.values()).find((p) => p.url === preview.url);
+    const saved = row<LinkPreview>({
+      ...preview,
+      title: null,
+      description: null,
+      siteName: null,
+      imageUrl: null,
+      imageFile: null,
+    }, { ...preview, id: existing?.id ?? preview.id });
+    this.linkPreviews.set(saved.id, saved);
+    return { ...saved };
+  }
+
+  // WebSocket event log
+  async appendUserEvent(userId: string, type: string, payload: string): Promise<number> {
+    const seq = this.nextEventSeq++;
+    this.userEvents.push({ seq, userId, type, payload, createdAt: new Date().toISOString() });
+    return seq;
+  }
+
+  async getUserEventsAfter(userId: string, afterSeq: number, limit: number): Promise<UserEvent[]> {
+    return this.userEvents
+      .filter((e) => e.userId === userId && e.seq > afterSeq)
+      .slice(0, limit)
+      .map((e) => ({ ...e }));
+  }
+
+  async getLatestUserEventSeq(userId: string): Promise<number> {
+    const events = this.userEvents.filter((e) => e.userId === userId);
+    return events.length > 0 ? events[events.length - 1].seq : 0;
+  }
+
+  async getOldestUserEventSeq(userId: string): Promise<number | null> {
+    const oldest = this.userEvents.find((e) => e.userId === userId);
+    return oldest ? oldest.seq : null;
+  }
+
+  async pruneUserEvents(before: string): Promise<void> {
+    this.userEvents = this.userEvents.filter((e) => e.createdAt >= before);
+  }
+
+  // Message search
+  async searchMessages(userId: string, filters: MessageSearchFilters): Promise<MessageSearchResult[]> {
+    // Punctuation separates words, as in the tokenizer, so "number:" looks up "number"
+    const words = filters.query.trim().split(/\s+/).filter(Boolean).slice(0, 10);
+    const prefixes = ([] as string[]).concat(...words.map((word) => word.match(WORD_PATTERN) ?? [])).map(foldWord);
+    if (prefixes.length === 0) return [];
+
+    const limit = Math.min(Math.max(filters.limit ?? 50, 1), 100);
+    const inRange = (timestamp: string) =>
+      (!filters.from || timestamp >= filters.from) && (!filters.to || timestamp <= filters.to);
+    const results: MessageSearchResult[] = [];
+    // Leave out anyone the user has blocked or been blocked by
+    const blocked = new Set(await this.getBlockedUserIds(userId));
+
+    // Direct messages the user sent or received (skipped when filtering by group)
+    if (!filters.groupId) {
+      for (const m of Array.from(this.directMessages.values())) {
+        if (m.senderId !== userId && m.receiverId !== userId) continue;
+        if (filters.withUserId && m.senderId !== filters.withUserId && m.receiverId !== filters.withUserId) continue;
+        if (blocked.has(m.senderId === userId ? m.receiverId : m.senderId)) continue;
+        if (!inRange(m.timestamp)) continue;
+        const snippet = highlightMatches(searchableText(m.content), prefixes);
+        if (snippet === null) continue;
+        results.push({ messageId: m.id, messageType: 'direct', senderId: m.senderId, receiverId: m.receiverId, groupId: null, timestamp: m.timestamp, snippet });
+      }
+    }
+
+    // Messages in groups the user is currently an accepted member of
+    const memberOf = new Set(Array.from(this.groupMembers.values())
+      .filter((gm) => gm.userId === userId && gm.status === "accepted")
+      .map((gm) => gm.groupId));
+    for (const m of Array.from(this.groupMessages.values())) {
+      if (!memberOf.has(m.groupId)) continue;
+      if (filters.groupId && m.groupId !== filters.groupId) continue;
+      if (filters.withUserId && m.senderId !== filters.withUserId) continue;
+      if (blocked.has(m.senderId)) continue;
+      if (!inRange(m.timestamp)) continue;
+      const snippet = highlightMatches(searchableText(m.content), prefixes);
+      if (snippet === null) continue;
+      results.push({ messageId: m.id, messageType: 'group', senderId: m.senderId, receiverId: null, groupId: m.groupId, timestamp: m.timestamp, snippet });
+    }
+
+    return results.sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, limit);
+  }
+
+  // Message edit history
+  async getMessageEdits(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageEdit & { editedBy: User }>> {
+    return Array.from(this.messageEdits.values())
+      .filter((e) => e.messageId === messageId && e.messageType === messageType)
+      .sort((a, b) => a.editedAt.localeCompare(b.editedAt))
+      .map((edit) => ({ ...edit, editedBy: { ...this.users.get(edit.editedById)! } }));
+  }
+
+  // Message reactions
+  async getMessageReactions(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageReaction & { user: User }>> {
+    return Array.from(this.messageReactions.values())
+      .filter((r) => r.messageId === messageId && r.messageType === messageType)
+      .map((reaction) => ({ ...reaction, user: { ...this.users.get(reaction.userId)! } }));
+  }
+
+  async getReactionsForMessages(messageIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, Array<MessageReaction & { user: User }>>> {
+    const reactions: Record<string, Array<MessageReaction & { user: User }>> = {};
+    for (const messageId of messageIds) {
+      const rows = await this.getMessageReactions(messageId, messageType);
+      if (rows.length > 0) reactions[messageId] = rows;
+    }
+    return reactions;
+  }
+
+  async getMessageReaction(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<MessageReaction | undefined> {
+    const reaction = Array.from(this.messageReactions.values()).find((r) =>
+      r.messageId === messageId && r.messageType === messageType && r.userId === userId
+    );
+    return reaction && { ...reaction };
+  }
+
+  async createMessageReaction(insertReaction: InsertMessageReaction): Promise<MessageReaction> {
+    const reaction: MessageReaction = { ...insertReaction, id: randomUUID() };
+    this.messageReactions.set(reaction.id, reaction);
+    return { ...reaction };
+  }
+
+  async deleteMessageReaction(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<void> {
+    Array.from(this.messageReactions.values())
+      .filter((r) => r.messageId === messageId && r.messageType === messageType && r.userId === userId)
+      .forEach((r) => this.messageReactions.delete(r.id));
+  }
+
+  // Message read receipts
+  async getMessageReadReceipts(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageReadReceipt & { user: User }>> {
+    return Array.from(this.messageReadReceipts.values())
+      .filter((r) => r.messageId === messageId && r.messageType === messageType)
+      .map((receipt) => ({ ...receipt, user: { ...this.users.get(receipt.userId)! } }));
+  }
+
+  async getMessageReadReceipt(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<MessageReadReceipt | undefined> {
+    const receipt = Array.from(this.messageReadReceipts.values()).find((r) =>
+      r.messageId === messageId && r.messageType === messageType && r.userId === userId
+    );
+    return receipt && { ...receipt };
+  }
+
+  async createMessageReadReceipt(insertReceipt: InsertMessageReadReceipt): Promise<MessageReadReceipt> {
+    const receipt: MessageReadReceipt = { ...insertReceipt, id: randomUUID() };
+    this.messageReadReceipts.set(receipt.id, receipt);
+    return { ...receipt };
+  }
+
+  async markMessagesAsReadByUser(userId: string, messageIds: string[], messageType: 'direct' | 'group'): Promise<void> {
+    const now = new Date().toISOString();
+    for (const messageId of messageIds) {
+      const existing = await this.getMessageReadReceipt(messageId, messageType, userId);
+      if (!existing) {
+        await this.createMessageReadReceipt({
+          messageId,
+          messageType,
+          userId,
+          readAt: now,
+        });
+      }
+    }
+  }
+}
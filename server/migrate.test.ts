@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { MIGRATIONS, type Migration } from "./migrations";
+import { getAppliedMigrations, getPendingMigrations, runMigrations } from "./migrate";
+
+const createTable = (version: number, table: string): Migration => ({
+  version,
+  name: `create_${table}`,
+  up: (sqlite) => sqlite.exec(`CREATE TABLE ${table} (id INTEGER PRIMARY KEY)`),
+});
+
+const tables = (sqlite: Database.Database) =>
+  (sqlite.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`).all() as { name: string }[])
+    .map((row) => row.name);
+
+let sqlite: Database.Database;
+
+beforeEach(() => {
+  sqlite = new Database(":memory:");
+});
+
+afterEach(() => {
+  sqlite.close();
+});
+
+describe("runMigrations", () => {
+  it("applies pending migrations in version order and records them", () => {
+    const applied = runMigrations(sqlite, [createTable(2, "b"), createTable(1, "a")]);
+    expect(applied.map((migration) => migration.version)).toEqual([1, 2]);
+    expect(tables(sqlite)).toEqual(["a", "b", "schema_migrations"]);
+    expect(getAppliedMigrations(sqlite).map(({ version, name }) => ({ version, name }))).toEqual([
+      { version: 1, name: "create_a" },
+      { version: 2, name: "create_b" },
+    ]);
+  });
+
+  it("applies nothing the second time, and only new migrations later", () => {
+    runMigrations(sqlite, [createTable(1, "a")]);
+    expect(runMigrations(sqlite, [createTable(1, "a")])).toEqual([]);
+
+    const applied = runMigrations(sqlite, [createTable(1, "a"), createTable(2, "b")]);
+    expect(applied.map((migration) => migration.version)).toEqual([2]);
+  });
+
+  it("rolls a failed migration back and keeps the earlier ones", () => {
+    const broken: Migration = {
+      version: 2,
+      name: "broken",
+      up: (db) => {
+        db.exec(`CREATE TABLE half_done (id INTEGER PRIMARY KEY)`);
+        db.exec(`ALTER TABLE missing ADD COLUMN x TEXT`);
+      },
+    };
+
+    expect(() => runMigrations(sqlite, [createTable(1, "a"), broken, createTable(3, "c")]))
+      .toThrow("Migration 2 (broken) failed: no such table: missing");
+    expect(tables(sqlite)).toEqual(["a", "schema_migrations"]);
+    expect(getAppliedMigrations(sqlite).map((migration) => migration.version)).toEqual([1]);
+  });
+
+  it("refuses a database migrated by a newer build", () => {
+    runMigrations(sqlite, [createTable(1, "a"), createTable(2, "b")]);
+    expect(() => getPendingMigrations(sqlite, [createTable(1, "a")]))
+      .toThrow("Database has migration 2 applied, but this build only knows up to 1");
+    expect(() => runMigrations(sqlite, [createTable(1, "a")])).toThrow("only knows up to 1");
+  });
+
+  it("brings an empty database up to the latest schema", () => {
+    expect(runMigrations(sqlite)).toHaveLength(MIGRATIONS.length);
+    expect(getPendingMigrations(sqlite)).toEqual([]);
+    expect(tables(sqlite)).toEqual(expect.arrayContaining(["users", "chat_messages", "schema_migrations"]));
+  });
+});
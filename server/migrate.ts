@@ -0,0 +1,152 @@
+import type Database from "better-sqlite3";
+import type { Pool, PoolClient } from "pg";
+import { MIGRATIONS, type Migration } from "./migrations";
+import { POSTGRES_MIGRATIONS, type PostgresMigration } from "./migrations/postgres";
+
+// Applies the numbered migrations in server/migrations. Applied versions are
+// recorded in schema_migrations; each migration and its record commit together,
+// so a failure leaves the database at the last good version.
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+function ensureMigrationsTable(sqlite: Database.Database) {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+export function getAppliedMigrations(sqlite: Database.Database): AppliedMigration[] {
+  ensureMigrationsTable(sqlite);
+  return sqlite
+    .prepare(`SELECT version, name, applied_at AS appliedAt FROM schema_migrations ORDER BY version`)
+    .all() as AppliedMigration[];
+}
+
+// Migrations not yet applied, oldest first. A database migrated by a newer build
+// is refused rather than run against a schema this code doesn't know.
+export function getPendingMigrations(
+  sqlite: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] {
+  const applied = new Set(getAppliedMigrations(sqlite).map((migration) => migration.version));
+  const latest = Math.max(0, ...migrations.map((migration) => migration.version));
+  const unknown = Array.from(applied).filter((version) => version > latest);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Database has migration ${Math.max(...unknown)} applied, but this build only knows up to ${latest}`
+    );
+  }
+
+  return migrations
+    .filter((migration) => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version);
+}
+
+// Apply every pending migration, each in its own transaction. Returns what was applied.
+export function runMigrations(
+  sqlite: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] {
+  const pending = getPendingMigrations(sqlite, migrations);
+  const record = sqlite.prepare(`INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)`);
+
+  for (const migration of pending) {
+    try {
+      sqlite.transaction(() => {
+        migration.up(sqlite);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+    } catch (error) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return pending;
+}
+
+type PostgresQueryable = Pool | PoolClient;
+
+async function ensurePostgresMigrationsTable(pg: PostgresQueryable) {
+  await pg.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+export async function getAppliedPostgresMigrations(pg: PostgresQueryable): Promise<AppliedMigration[]> {
+  await ensurePostgresMigrationsTable(pg);
+  const { rows } = await pg.query<AppliedMigration>(
+    `SELECT version, name, applied_at AS "appliedAt" FROM schema_migrations ORDER BY version`
+  );
+  return rows;
+}
+
+// Postgres counterpart of getPendingMigrations
+export async function getPendingPostgresMigrations(
+  pg: PostgresQueryable,
+  migrations: PostgresMigration[] = POSTGRES_MIGRATIONS
+): Promise<PostgresMigration[]> {
+  const applied = new Set((await getAppliedPostgresMigrations(pg)).map((migration) => migration.version));
+  const latest = Math.max(0, ...migrations.map((migration) => migration.version));
+  const unknown = Array.from(applied).filter((version) => version > latest);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Database has migration ${Math.max(...unknown)} applied, but this build only knows up to ${latest}`
+    );
+  }
+
+  return migrations
+    .filter((migration) => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version);
+}
+
+// Postgres counterpart of runMigrations. Everything runs in one transaction
+// under an advisory lock, so app instances starting together apply each
+// migration once and a failure leaves the schema untouched.
+export async function runPostgresMigrations(
+  pool: Pool,
+  migrations: PostgresMigration[] = POSTGRES_MIGRATIONS
+): Promise<PostgresMigration[]> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query("SELECT pg_advisory_xact_lock(hashtext('schema_migrations'))");
+    const pending = await getPendingPostgresMigrations(client, migrations);
+    const appliedAt = new Date().toISOString();
+
+    for (const migration of pending) {
+      try {
+        await client.query(migration.sql);
+        await client.query(
+          `INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)`,
+          [migration.version, migration.name, appliedAt]
+        );
+      } catch (error) {
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    await client.query("COMMIT");
+    return pending;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
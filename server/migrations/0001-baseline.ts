@@ -0,0 +1,330 @@
+import type Database from "better-sqlite3";
+import { createHash } from "crypto";
+import { addColumnIfMissing, ensureMessageSearchTriggers } from "./helpers";
+
+// The schema as initializeDatabase used to build it on every start, before
+// versioned migrations. Every statement is idempotent, so databases created by
+// that code are brought up to date and then continue from migration 2.
+export function up(sqlite: Database.Database) {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      name TEXT,
+      full_name TEXT,
+      job_position TEXT,
+      bio TEXT,
+      seeking_description TEXT,
+      avatar_url TEXT,
+      interests TEXT DEFAULT '[]',
+      is_online INTEGER DEFAULT 0,
+      profile_completed INTEGER DEFAULT 0,
+      preferred_language TEXT DEFAULT 'en',
+      google_id TEXT,
+      role TEXT DEFAULT 'member',
+      suspended_at TEXT,
+      suspended_until TEXT,
+      suspension_reason TEXT,
+      created_at TEXT NOT NULL,
+      last_login_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS magic_link_tokens (
+      id TEXT PRIMARY KEY,
+      email TEXT NOT NULL,
+      token TEXT NOT NULL UNIQUE,
+      expires_at TEXT NOT NULL,
+      used INTEGER DEFAULT 0,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      user_agent TEXT,
+      ip_address TEXT,
+      last_active_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS two_factor_credentials (
+      user_id TEXT PRIMARY KEY,
+      secret TEXT NOT NULL,
+      enabled_at TEXT,
+      last_used_step INTEGER,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS two_factor_backup_codes (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      code_hash TEXT NOT NULL,
+      used_at TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS two_factor_challenges (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS passkeys (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      credential_id TEXT NOT NULL UNIQUE,
+      public_key TEXT NOT NULL,
+      counter INTEGER NOT NULL DEFAULT 0,
+      transports TEXT DEFAULT '[]',
+      backed_up INTEGER DEFAULT 0,
+      name TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      last_used_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS passkey_challenges (
+      id TEXT PRIMARY KEY,
+      user_id TEXT,
+      challenge TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS connections (
+      id TEXT PRIMARY KEY,
+      requester_id TEXT NOT NULL,
+      receiver_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      created_at TEXT NOT NULL,
+      updated_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS user_blocks (
+      id TEXT PRIMARY KEY,
+      blocker_id TEXT NOT NULL,
+      blocked_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      UNIQUE(blocker_id, blocked_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS user_mutes (
+      id TEXT PRIMARY KEY,
+      muter_id TEXT NOT NULL,
+      muted_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      UNIQUE(muter_id, muted_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS reports (
+      id TEXT PRIMARY KEY,
+      reporter_id TEXT NOT NULL,
+      target_type TEXT NOT NULL,
+      target_id TEXT NOT NULL,
+      target_user_id TEXT,
+      reason TEXT NOT NULL,
+      details TEXT,
+      content_snapshot TEXT,
+      status TEXT NOT NULL DEFAULT 'open',
+      resolved_by_id TEXT,
+      resolved_at TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS moderation_actions (
+      id TEXT PRIMARY KEY,
+      moderator_id TEXT NOT NULL,
+      action TEXT NOT NULL,
+      report_id TEXT,
+      target_type TEXT,
+      target_id TEXT,
+      target_user_id TEXT,
+      note TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS notifications (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      from_user_id TEXT,
+      connection_id TEXT,
+      message TEXT,
+      read INTEGER DEFAULT 0,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS chat_messages (
+      id TEXT PRIMARY KEY,
+      sender_id TEXT NOT NULL,
+      sender_name TEXT NOT NULL,
+      content TEXT NOT NULL,
+      is_support INTEGER DEFAULT 0,
+      timestamp TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS direct_messages (
+      id TEXT PRIMARY KEY,
+      sender_id TEXT NOT NULL,
+      receiver_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      is_read INTEGER DEFAULT 0,
+      edited_at TEXT,
+      parent_id TEXT,
+      delivered_at TEXT,
+      read_at TEXT,
+      client_id TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS posts (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      image_url TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS post_likes (
+      id TEXT PRIMARY KEY,
+      post_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      UNIQUE(post_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS post_comments (
+      id TEXT PRIMARY KEY,
+      post_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS message_edits (
+      id TEXT PRIMARY KEY,
+      message_id TEXT NOT NULL,
+      message_type TEXT NOT NULL,
+      previous_content TEXT NOT NULL,
+      edited_by_id TEXT NOT NULL,
+      edited_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS message_attachments (
+      id TEXT PRIMARY KEY,
+      uploader_id TEXT NOT NULL,
+      message_id TEXT,
+      message_type TEXT,
+      file_name TEXT NOT NULL,
+      original_name TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      duration_ms INTEGER,
+      waveform TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS link_previews (
+      id TEXT PRIMARY KEY,
+      url TEXT NOT NULL UNIQUE,
+      status TEXT NOT NULL,
+      title TEXT,
+      description TEXT,
+      site_name TEXT,
+      image_url TEXT,
+      image_file TEXT,
+      fetched_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS voice_message_plays (
+      id TEXT PRIMARY KEY,
+      attachment_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      played_at TEXT NOT NULL,
+      UNIQUE(attachment_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS user_events (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+    CREATE INDEX IF NOT EXISTS idx_users_google_id ON users(google_id);
+    CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+    CREATE INDEX IF NOT EXISTS idx_two_factor_backup_codes_user ON two_factor_backup_codes(user_id);
+    CREATE INDEX IF NOT EXISTS idx_passkeys_user ON passkeys(user_id);
+    CREATE INDEX IF NOT EXISTS idx_connections_requester ON connections(requester_id);
+    CREATE INDEX IF NOT EXISTS idx_connections_receiver ON connections(receiver_id);
+    CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);
+    CREATE INDEX IF NOT EXISTS idx_reports_status ON reports(status, created_at);
+    CREATE INDEX IF NOT EXISTS idx_reports_target ON reports(target_type, target_id);
+    CREATE INDEX IF NOT EXISTS idx_moderation_actions_created ON moderation_actions(created_at);
+    CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id);
+    CREATE INDEX IF NOT EXISTS idx_direct_messages_sender ON direct_messages(sender_id);
+    CREATE INDEX IF NOT EXISTS idx_direct_messages_receiver ON direct_messages(receiver_id);
+    CREATE INDEX IF NOT EXISTS idx_posts_user ON posts(user_id);
+    CREATE INDEX IF NOT EXISTS idx_posts_created ON posts(created_at);
+    CREATE INDEX IF NOT EXISTS idx_post_likes_post ON post_likes(post_id);
+    CREATE INDEX IF NOT EXISTS idx_post_likes_user ON post_likes(user_id);
+    CREATE INDEX IF NOT EXISTS idx_post_comments_post ON post_comments(post_id);
+    CREATE INDEX IF NOT EXISTS idx_message_edits_message ON message_edits(message_id, message_type);
+    CREATE INDEX IF NOT EXISTS idx_message_attachments_message ON message_attachments(message_id, message_type);
+    CREATE INDEX IF NOT EXISTS idx_user_events_user ON user_events(user_id, seq);
+    CREATE INDEX IF NOT EXISTS idx_user_events_created ON user_events(created_at);
+  `);
+
+  // Columns added after the original tables were created
+  addColumnIfMissing(sqlite, "users", "role", "TEXT DEFAULT 'member'");
+  addColumnIfMissing(sqlite, "users", "suspended_at", "TEXT");
+  addColumnIfMissing(sqlite, "users", "suspended_until", "TEXT");
+  addColumnIfMissing(sqlite, "users", "suspension_reason", "TEXT");
+  addColumnIfMissing(sqlite, "sessions", "user_agent", "TEXT");
+  addColumnIfMissing(sqlite, "sessions", "ip_address", "TEXT");
+  addColumnIfMissing(sqlite, "sessions", "last_active_at", "TEXT");
+
+  // Sessions used to be stored under the raw cookie value (a UUID). Store the
+  // SHA-256 of it instead, which is how they are looked up now, so existing
+  // cookies keep working while the table no longer holds usable tokens.
+  const rawSessionIds = sqlite
+    .prepare(`SELECT id FROM sessions WHERE length(id) != 64`)
+    .all() as { id: string }[];
+  if (rawSessionIds.length > 0) {
+    const rehash = sqlite.prepare(`UPDATE sessions SET id = ? WHERE id = ?`);
+    for (const { id } of rawSessionIds) {
+      rehash.run(createHash("sha256").update(id).digest("hex"), id);
+    }
+  }
+  addColumnIfMissing(sqlite, "direct_messages", "edited_at", "TEXT");
+  addColumnIfMissing(sqlite, "direct_messages", "parent_id", "TEXT");
+  addColumnIfMissing(sqlite, "message_attachments", "duration_ms", "INTEGER");
+  addColumnIfMissing(sqlite, "message_attachments", "waveform", "TEXT");
+  if (addColumnIfMissing(sqlite, "direct_messages", "delivered_at", "TEXT")) {
+    // Existing history was already shown to its receivers; don't queue it for redelivery
+    sqlite.exec(`UPDATE direct_messages SET delivered_at = timestamp`);
+  }
+  if (addColumnIfMissing(sqlite, "direct_messages", "read_at", "TEXT")) {
+    sqlite.exec(`UPDATE direct_messages SET read_at = timestamp WHERE is_read = 1`);
+  }
+  sqlite.exec(`CREATE INDEX IF NOT EXISTS idx_direct_messages_undelivered ON direct_messages(receiver_id, delivered_at)`);
+  addColumnIfMissing(sqlite, "direct_messages", "client_id", "TEXT");
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_direct_messages_client_id ON direct_messages(sender_id, client_id)`);
+
+  // Full-text search over direct and group messages
+  sqlite.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS message_search USING fts5(
+      content,
+      message_id UNINDEXED,
+      message_type UNINDEXED,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+  `);
+  ensureMessageSearchTriggers(sqlite, "direct_messages", "direct");
+}
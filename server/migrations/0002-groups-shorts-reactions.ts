@@ -0,0 +1,103 @@
+import type Database from "better-sqlite3";
+import { addColumnIfMissing, ensureMessageSearchTriggers } from "./helpers";
+
+// Tables defined in shared/schema.ts that the baseline never created, so they
+// only existed on databases set up with `drizzle-kit push`. Those databases
+// keep their tables and just gain the columns added since.
+export function up(sqlite: Database.Database) {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS shorts (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      title TEXT,
+      description TEXT,
+      video_url TEXT NOT NULL,
+      thumbnail_url TEXT,
+      duration INTEGER,
+      view_count INTEGER DEFAULT 0,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS short_likes (
+      id TEXT PRIMARY KEY,
+      short_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS short_comments (
+      id TEXT PRIMARY KEY,
+      short_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS groups (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      avatar_url TEXT,
+      created_by_id TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS group_members (
+      id TEXT PRIMARY KEY,
+      group_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'member',
+      status TEXT NOT NULL DEFAULT 'pending',
+      invited_by_id TEXT,
+      created_at TEXT NOT NULL,
+      joined_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS group_messages (
+      id TEXT PRIMARY KEY,
+      group_id TEXT NOT NULL,
+      sender_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      edited_at TEXT,
+      parent_id TEXT,
+      client_id TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS message_reactions (
+      id TEXT PRIMARY KEY,
+      message_id TEXT NOT NULL,
+      message_type TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      emoji TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS message_read_receipts (
+      id TEXT PRIMARY KEY,
+      message_id TEXT NOT NULL,
+      message_type TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      read_at TEXT NOT NULL
+    );
+  `);
+
+  addColumnIfMissing(sqlite, "group_messages", "edited_at", "TEXT");
+  addColumnIfMissing(sqlite, "group_messages", "parent_id", "TEXT");
+  addColumnIfMissing(sqlite, "group_messages", "client_id", "TEXT");
+
+  sqlite.exec(`
+    CREATE INDEX IF NOT EXISTS idx_shorts_user ON shorts(user_id);
+    CREATE INDEX IF NOT EXISTS idx_short_likes_short ON short_likes(short_id);
+    CREATE INDEX IF NOT EXISTS idx_short_comments_short ON short_comments(short_id);
+    CREATE INDEX IF NOT EXISTS idx_group_members_group ON group_members(group_id);
+    CREATE INDEX IF NOT EXISTS idx_group_members_user ON group_members(user_id);
+    CREATE INDEX IF NOT EXISTS idx_group_messages_group ON group_messages(group_id, timestamp);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_group_messages_client_id ON group_messages(sender_id, client_id);
+    CREATE INDEX IF NOT EXISTS idx_message_reactions_message ON message_reactions(message_id, message_type);
+    CREATE INDEX IF NOT EXISTS idx_message_read_receipts_message ON message_read_receipts(message_id, message_type);
+  `);
+
+  ensureMessageSearchTriggers(sqlite, "group_messages", "group");
+}
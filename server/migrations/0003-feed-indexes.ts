@@ -0,0 +1,13 @@
+import type Database from "better-sqlite3";
+
+// Indexes for the aggregated feed and listing queries: per-post like counts
+// and the viewer's own reaction, the shorts feed order and the notification list
+export function up(sqlite: Database.Database) {
+  sqlite.exec(`
+    DROP INDEX IF EXISTS idx_post_likes_post;
+    CREATE INDEX IF NOT EXISTS idx_post_likes_post_user ON post_likes(post_id, user_id, type);
+    CREATE INDEX IF NOT EXISTS idx_shorts_created ON shorts(created_at);
+    DROP INDEX IF EXISTS idx_notifications_user;
+    CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at);
+  `);
+}
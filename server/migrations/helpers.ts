@@ -0,0 +1,61 @@
+import type Database from "better-sqlite3";
+
+// Building blocks shared by migrations
+
+export function tableExists(sqlite: Database.Database, table: string) {
+  return !!sqlite
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?")
+    .get(table);
+}
+
+// Add a column to an existing table (CREATE TABLE IF NOT EXISTS won't alter it).
+// Tables that don't exist yet are skipped. Returns true when the column was added.
+export function addColumnIfMissing(sqlite: Database.Database, table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (columns.length > 0 && !columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+  return false;
+}
+
+// Text that goes into the search index: inline image/GIF payloads are dropped
+// so only the caption is searchable
+function searchableContent(column: string) {
+  return `CASE
+      WHEN ${column} LIKE '[IMAGE]%' THEN substr(${column}, instr(${column}, '[/IMAGE]') + 8)
+      WHEN ${column} LIKE '[GIF]%' THEN substr(${column}, instr(${column}, '[/GIF]') + 6)
+      ELSE ${column}
+    END`;
+}
+
+// Keep the message_search FTS5 index in sync with a message table. The first
+// time the triggers are created the existing rows are indexed as well.
+export function ensureMessageSearchTriggers(sqlite: Database.Database, table: string, messageType: "direct" | "group") {
+  if (!tableExists(sqlite, table)) return;
+
+  const hasTriggers = sqlite
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'trigger' AND name = ?")
+    .get(`${table}_search_insert`);
+  if (hasTriggers) return;
+
+  sqlite.exec(`
+    CREATE TRIGGER ${table}_search_insert AFTER INSERT ON ${table} BEGIN
+      INSERT INTO message_search (content, message_id, message_type)
+      VALUES (${searchableContent("new.content")}, new.id, '${messageType}');
+    END;
+
+    CREATE TRIGGER ${table}_search_update AFTER UPDATE OF content ON ${table} BEGIN
+      UPDATE message_search SET content = ${searchableContent("new.content")}
+      WHERE message_id = new.id AND message_type = '${messageType}';
+    END;
+
+    CREATE TRIGGER ${table}_search_delete AFTER DELETE ON ${table} BEGIN
+      DELETE FROM message_search WHERE message_id = old.id AND message_type = '${messageType}';
+    END;
+
+    DELETE FROM message_search WHERE message_type = '${messageType}';
+    INSERT INTO message_search (content, message_id, message_type)
+      SELECT ${searchableContent("content")}, id, '${messageType}' FROM ${table};
+  `);
+}
@@ -0,0 +1,18 @@
+import type Database from "better-sqlite3";
+import * as baseline from "./0001-baseline";
+import * as groupsShortsReactions from "./0002-groups-shorts-reactions";
+import * as feedIndexes from "./0003-feed-indexes";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (sqlite: Database.Database) => void;
+}
+
+// Every schema change, in order. Append new migrations with the next version
+// number; never edit or renumber one that has shipped.
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: "baseline", up: baseline.up },
+  { version: 2, name: "groups_shorts_reactions", up: groupsShortsReactions.up },
+  { version: 3, name: "feed_indexes", up: feedIndexes.up },
+];
@@ -0,0 +1,404 @@
+// Schema migrations for PostgresStorage, applied by runPostgresMigrations.
+// Postgres databases start from the schema SQLite reached at its migration 2,
+// so the version numbers of the two lists are independent. A schema change
+// needs a migration in both.
+
+export interface PostgresMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export const POSTGRES_MIGRATIONS: PostgresMigration[] = [
+  {
+    version: 1,
+    name: "initial",
+    sql: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT,
+        full_name TEXT,
+        job_position TEXT,
+        bio TEXT,
+        seeking_description TEXT,
+        avatar_url TEXT,
+        interests JSONB DEFAULT '[]',
+        is_online BOOLEAN DEFAULT FALSE,
+        profile_completed BOOLEAN DEFAULT FALSE,
+        preferred_language TEXT DEFAULT 'en',
+        google_id TEXT,
+        role TEXT DEFAULT 'member',
+        suspended_at TEXT,
+        suspended_until TEXT,
+        suspension_reason TEXT,
+        created_at TEXT NOT NULL,
+        last_login_at TEXT
+      );
+
+      CREATE TABLE magic_link_tokens (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL,
+        token TEXT NOT NULL UNIQUE,
+        expires_at TEXT NOT NULL,
+        used BOOLEAN DEFAULT FALSE,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        user_agent TEXT,
+        ip_address TEXT,
+        last_active_at TEXT
+      );
+
+      CREATE TABLE two_factor_credentials (
+        user_id TEXT PRIMARY KEY,
+        secret TEXT NOT NULL,
+        enabled_at TEXT,
+        last_used_step INTEGER,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE two_factor_backup_codes (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        code_hash TEXT NOT NULL,
+        used_at TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE two_factor_challenges (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE passkeys (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        credential_id TEXT NOT NULL UNIQUE,
+        public_key TEXT NOT NULL,
+        counter INTEGER NOT NULL DEFAULT 0,
+        transports JSONB DEFAULT '[]',
+        backed_up BOOLEAN DEFAULT FALSE,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT
+      );
+
+      CREATE TABLE passkey_challenges (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        challenge TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE connections (
+        id TEXT PRIMARY KEY,
+        requester_id TEXT NOT NULL,
+        receiver_id TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at TEXT NOT NULL,
+        updated_at TEXT
+      );
+
+      CREATE TABLE user_blocks (
+        id TEXT PRIMARY KEY,
+        blocker_id TEXT NOT NULL,
+        blocked_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE(blocker_id, blocked_id)
+      );
+
+      CREATE TABLE user_mutes (
+        id TEXT PRIMARY KEY,
+        muter_id TEXT NOT NULL,
+        muted_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE(muter_id, muted_id)
+      );
+
+      CREATE TABLE reports (
+        id TEXT PRIMARY KEY,
+        reporter_id TEXT NOT NULL,
+        target_type TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        target_user_id TEXT,
+        reason TEXT NOT NULL,
+        details TEXT,
+        content_snapshot TEXT,
+        status TEXT NOT NULL DEFAULT 'open',
+        resolved_by_id TEXT,
+        resolved_at TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE moderation_actions (
+        id TEXT PRIMARY KEY,
+        moderator_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        report_id TEXT,
+        target_type TEXT,
+        target_id TEXT,
+        target_user_id TEXT,
+        note TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE notifications (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        from_user_id TEXT,
+        connection_id TEXT,
+        message TEXT,
+        read BOOLEAN DEFAULT FALSE,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE chat_messages (
+        id TEXT PRIMARY KEY,
+        sender_id TEXT NOT NULL,
+        sender_name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        is_support BOOLEAN DEFAULT FALSE,
+        timestamp TEXT NOT NULL
+      );
+
+      CREATE TABLE direct_messages (
+        id TEXT PRIMARY KEY,
+        sender_id TEXT NOT NULL,
+        receiver_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        is_read BOOLEAN DEFAULT FALSE,
+        edited_at TEXT,
+        parent_id TEXT,
+        delivered_at TEXT,
+        read_at TEXT,
+        client_id TEXT
+      );
+
+      CREATE TABLE posts (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        image_url TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT
+      );
+
+      CREATE TABLE post_likes (
+        id TEXT PRIMARY KEY,
+        post_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE(post_id, user_id)
+      );
+
+      CREATE TABLE post_comments (
+        id TEXT PRIMARY KEY,
+        post_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE message_edits (
+        id TEXT PRIMARY KEY,
+        message_id TEXT NOT NULL,
+        message_type TEXT NOT NULL,
+        previous_content TEXT NOT NULL,
+        edited_by_id TEXT NOT NULL,
+        edited_at TEXT NOT NULL
+      );
+
+      CREATE TABLE message_attachments (
+        id TEXT PRIMARY KEY,
+        uploader_id TEXT NOT NULL,
+        message_id TEXT,
+        message_type TEXT,
+        file_name TEXT NOT NULL,
+        original_name TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        duration_ms INTEGER,
+        waveform TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE link_previews (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL UNIQUE,
+        status TEXT NOT NULL,
+        title TEXT,
+        description TEXT,
+        site_name TEXT,
+        image_url TEXT,
+        image_file TEXT,
+        fetched_at TEXT NOT NULL
+      );
+
+      CREATE TABLE voice_message_plays (
+        id TEXT PRIMARY KEY,
+        attachment_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        played_at TEXT NOT NULL,
+        UNIQUE(attachment_id, user_id)
+      );
+
+      CREATE TABLE user_events (
+        seq SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE shorts (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        title TEXT,
+        description TEXT,
+        video_url TEXT NOT NULL,
+        thumbnail_url TEXT,
+        duration INTEGER,
+        view_count INTEGER DEFAULT 0,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE short_likes (
+        id TEXT PRIMARY KEY,
+        short_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE short_comments (
+        id TEXT PRIMARY KEY,
+        short_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE groups (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        avatar_url TEXT,
+        created_by_id TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE group_members (
+        id TEXT PRIMARY KEY,
+        group_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'member',
+        status TEXT NOT NULL DEFAULT 'pending',
+        invited_by_id TEXT,
+        created_at TEXT NOT NULL,
+        joined_at TEXT
+      );
+
+      CREATE TABLE group_messages (
+        id TEXT PRIMARY KEY,
+        group_id TEXT NOT NULL,
+        sender_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        edited_at TEXT,
+        parent_id TEXT,
+        client_id TEXT
+      );
+
+      CREATE TABLE message_reactions (
+        id TEXT PRIMARY KEY,
+        message_id TEXT NOT NULL,
+        message_type TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        emoji TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE message_read_receipts (
+        id TEXT PRIMARY KEY,
+        message_id TEXT NOT NULL,
+        message_type TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        read_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_users_google_id ON users(google_id);
+      CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+      CREATE INDEX idx_two_factor_backup_codes_user ON two_factor_backup_codes(user_id);
+      CREATE INDEX idx_passkeys_user ON passkeys(user_id);
+      CREATE INDEX idx_connections_requester ON connections(requester_id);
+      CREATE INDEX idx_connections_receiver ON connections(receiver_id);
+      CREATE INDEX idx_user_blocks_blocked ON user_blocks(blocked_id);
+      CREATE INDEX idx_reports_status ON reports(status, created_at);
+      CREATE INDEX idx_reports_target ON reports(target_type, target_id);
+      CREATE INDEX idx_moderation_actions_created ON moderation_actions(created_at);
+      CREATE INDEX idx_notifications_user ON notifications(user_id);
+      CREATE INDEX idx_direct_messages_sender ON direct_messages(sender_id);
+      CREATE INDEX idx_direct_messages_receiver ON direct_messages(receiver_id);
+      CREATE INDEX idx_direct_messages_undelivered ON direct_messages(receiver_id, delivered_at);
+      CREATE UNIQUE INDEX idx_direct_messages_client_id ON direct_messages(sender_id, client_id);
+      CREATE INDEX idx_posts_user ON posts(user_id);
+      CREATE INDEX idx_posts_created ON posts(created_at);
+      CREATE INDEX idx_post_likes_post ON post_likes(post_id);
+      CREATE INDEX idx_post_likes_user ON post_likes(user_id);
+      CREATE INDEX idx_post_comments_post ON post_comments(post_id);
+      CREATE INDEX idx_message_edits_message ON message_edits(message_id, message_type);
+      CREATE INDEX idx_message_attachments_message ON message_attachments(message_id, message_type);
+      CREATE INDEX idx_user_events_user ON user_events(user_id, seq);
+      CREATE INDEX idx_user_events_created ON user_events(created_at);
+      CREATE INDEX idx_shorts_user ON shorts(user_id);
+      CREATE INDEX idx_short_likes_short ON short_likes(short_id);
+      CREATE INDEX idx_short_comments_short ON short_comments(short_id);
+      CREATE INDEX idx_group_members_group ON group_members(group_id);
+      CREATE INDEX idx_group_members_user ON group_members(user_id);
+      CREATE INDEX idx_group_messages_group ON group_messages(group_id, timestamp);
+      CREATE UNIQUE INDEX idx_group_messages_client_id ON group_messages(sender_id, client_id);
+      CREATE INDEX idx_message_reactions_message ON message_reactions(message_id, message_type);
+      CREATE INDEX idx_message_read_receipts_message ON message_read_receipts(message_id, message_type);
+
+      -- Message search: the same searchable text as SQLite's message_search
+      -- index (inline image/GIF payloads dropped), indexed for full-text queries
+      CREATE FUNCTION message_search_text(content TEXT) RETURNS TEXT
+        LANGUAGE SQL IMMUTABLE PARALLEL SAFE AS $$
+          SELECT CASE
+            WHEN content LIKE '[IMAGE]%' THEN substr(content, strpos(content, '[/IMAGE]') + 8)
+            WHEN content LIKE '[GIF]%' THEN substr(content, strpos(content, '[/GIF]') + 6)
+            ELSE content
+          END
+        $$;
+
+      CREATE INDEX idx_direct_messages_search ON direct_messages
+        USING GIN (to_tsvector('simple', message_search_text(content)));
+      CREATE INDEX idx_group_messages_search ON group_messages
+        USING GIN (to_tsvector('simple', message_search_text(content)));
+    `,
+  },
+  {
+    version: 2,
+    name: "feed_indexes",
+    sql: `
+      DROP INDEX idx_post_likes_post;
+      CREATE INDEX idx_post_likes_post_user ON post_likes(post_id, user_id, type);
+      CREATE INDEX idx_shorts_created ON shorts(created_at);
+      DROP INDEX idx_notifications_user;
+      CREATE INDEX idx_notifications_user_created ON notifications(user_id, created_at);
+    `,
+  },
+];
@@ -0,0 +1,327 @@
+import { pgTable, text, integer, boolean, jsonb, serial } from "drizzle-orm/pg-core";
+
+// The tables of shared/schema.ts for PostgresStorage. Names, columns and row
+// types match the SQLite definitions exactly, so both storages return the same
+// shapes; only the column types differ (real booleans, jsonb for JSON arrays).
+// Keep this file in step with shared/schema.ts and server/migrations/postgres.ts.
+
+export const users = pgTable("users", {
+  id: text("id").primaryKey(),
+  email: text("email").notNull().unique(),
+  name: text("name"),
+  fullName: text("full_name"),
+  jobPosition: text("job_position"),
+  bio: text("bio"),
+  seekingDescription: text("seeking_description"),
+  avatarUrl: text("avatar_url"),
+  interests: jsonb("interests").$type<string[]>().default([]),
+  isOnline: boolean("is_online").default(false),
+  profileCompleted: boolean("profile_completed").default(false),
+  preferredLanguage: text("preferred_language").default("en"),
+  googleId: text("google_id"),
+  role: text("role").default("member"),
+  suspendedAt: text("suspended_at"),
+  suspendedUntil: text("suspended_until"),
+  suspensionReason: text("suspension_reason"),
+  createdAt: text("created_at").notNull(),
+  lastLoginAt: text("last_login_at"),
+});
+
+export const magicLinkTokens = pgTable("magic_link_tokens", {
+  id: text("id").primaryKey(),
+  email: text("email").notNull(),
+  token: text("token").notNull().unique(),
+  expiresAt: text("expires_at").notNull(),
+  used: boolean("used").default(false),
+  createdAt: text("created_at").notNull(),
+});
+
+export const sessions = pgTable("sessions", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  expiresAt: text("expires_at").notNull(),
+  createdAt: text("created_at").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  lastActiveAt: text("last_active_at"),
+});
+
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  userId: text("user_id").primaryKey(),
+  secret: text("secret").notNull(),
+  enabledAt: text("enabled_at"),
+  lastUsedStep: integer("last_used_step"),
+  createdAt: text("created_at").notNull(),
+});
+
+export const twoFactorBackupCodes = pgTable("two_factor_backup_codes", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: text("used_at"),
+  createdAt: text("created_at").notNull(),
+});
+
+export const twoFactorChallenges = pgTable("two_factor_challenges", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: text("expires_at").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const passkeys = pgTable("passkeys", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  credentialId: text("credential_id").notNull().unique(),
+  publicKey: text("public_key").notNull(),
+  counter: integer("counter").notNull().default(0),
+  transports: jsonb("transports").$type<string[]>().default([]),
+  backedUp: boolean("backed_up").default(false),
+  name: text("name").notNull(),
+  createdAt: text("created_at").notNull(),
+  lastUsedAt: text("last_used_at"),
+});
+
+export const passkeyChallenges = pgTable("passkey_challenges", {
+  id: text("id").primaryKey(),
+  userId: text("user_id"),
+  challenge: text("challenge").notNull(),
+  expiresAt: text("expires_at").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const connections = pgTable("connections", {
+  id: text("id").primaryKey(),
+  requesterId: text("requester_id").notNull(),
+  receiverId: text("receiver_id").notNull(),
+  status: text("status").notNull().default("pending"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at"),
+});
+
+export const userBlocks = pgTable("user_blocks", {
+  id: text("id").primaryKey(),
+  blockerId: text("blocker_id").notNull(),
+  blockedId: text("blocked_id").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const userMutes = pgTable("user_mutes", {
+  id: text("id").primaryKey(),
+  muterId: text("muter_id").notNull(),
+  mutedId: text("muted_id").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const reports = pgTable("reports", {
+  id: text("id").primaryKey(),
+  reporterId: text("reporter_id").notNull(),
+  targetType: text("target_type").notNull(),
+  targetId: text("target_id").notNull(),
+  targetUserId: text("target_user_id"),
+  reason: text("reason").notNull(),
+  details: text("details"),
+  contentSnapshot: text("content_snapshot"),
+  status: text("status").notNull().default("open"),
+  resolvedById: text("resolved_by_id"),
+  resolvedAt: text("resolved_at"),
+  createdAt: text("created_at").notNull(),
+});
+
+export const moderationActions = pgTable("moderation_actions", {
+  id: text("id").primaryKey(),
+  moderatorId: text("moderator_id").notNull(),
+  action: text("action").notNull(),
+  reportId: text("report_id"),
+  targetType: text("target_type"),
+  targetId: text("target_id"),
+  targetUserId: text("target_user_id"),
+  note: text("note"),
+  createdAt: text("created_at").notNull(),
+});
+
+export const notifications = pgTable("notifications", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  type: text("type").notNull(),
+  fromUserId: text("from_user_id"),
+  connectionId: text("connection_id"),
+  message: text("message"),
+  read: boolean("read").default(false),
+  createdAt: text("created_at").notNull(),
+});
+
+export const chatMessages = pgTable("chat_messages", {
+  id: text("id").primaryKey(),
+  senderId: text("sender_id").notNull(),
+  senderName: text("sender_name").notNull(),
+  content: text("content").notNull(),
+  isSupport: boolean("is_support").default(false),
+  timestamp: text("timestamp").notNull(),
+});
+
+export const directMessages = pgTable("direct_messages", {
+  id: text("id").primaryKey(),
+  senderId: text("sender_id").notNull(),
+  receiverId: text("receiver_id").notNull(),
+  content: text("content").notNull(),
+  timestamp: text("timestamp").notNull(),
+  isRead: boolean("is_read").default(false),
+  editedAt: text("edited_at"),
+  parentId: text("parent_id"),
+  deliveredAt: text("delivered_at"),
+  readAt: text("read_at"),
+  clientId: text("client_id"),
+});
+
+export const userEvents = pgTable("user_events", {
+  seq: serial("seq").primaryKey(),
+  userId: text("user_id").notNull(),
+  type: text("type").notNull(),
+  payload: text("payload").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const messageReactions = pgTable("message_reactions", {
+  id: text("id").primaryKey(),
+  messageId: text("message_id").notNull(),
+  messageType: text("message_type").notNull(),
+  userId: text("user_id").notNull(),
+  emoji: text("emoji").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const messageReadReceipts = pgTable("message_read_receipts", {
+  id: text("id").primaryKey(),
+  messageId: text("message_id").notNull(),
+  messageType: text("message_type").notNull(),
+  userId: text("user_id").notNull(),
+  readAt: text("read_at").notNull(),
+});
+
+export const messageAttachments = pgTable("message_attachments", {
+  id: text("id").primaryKey(),
+  uploaderId: text("uploader_id").notNull(),
+  messageId: text("message_id"),
+  messageType: text("message_type"),
+  fileName: text("file_name").notNull(),
+  originalName: text("original_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  durationMs: integer("duration_ms"),
+  waveform: text("waveform"),
+  createdAt: text("created_at").notNull(),
+});
+
+export const voiceMessagePlays = pgTable("voice_message_plays", {
+  id: text("id").primaryKey(),
+  attachmentId: text("attachment_id").notNull(),
+  userId: text("user_id").notNull(),
+  playedAt: text("played_at").notNull(),
+});
+
+export const linkPreviews = pgTable("link_previews", {
+  id: text("id").primaryKey(),
+  url: text("url").notNull().unique(),
+  status: text("status").notNull(),
+  title: text("title"),
+  description: text("description"),
+  siteName: text("site_name"),
+  imageUrl: text("image_url"),
+  imageFile: text("image_file"),
+  fetchedAt: text("fetched_at").notNull(),
+});
+
+export const messageEdits = pgTable("message_edits", {
+  id: text("id").primaryKey(),
+  messageId: text("message_id").notNull(),
+  messageType: text("message_type").notNull(),
+  previousContent: text("previous_content").notNull(),
+  editedById: text("edited_by_id").notNull(),
+  editedAt: text("edited_at").notNull(),
+});
+
+export const posts = pgTable("posts", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  content: text("content").notNull(),
+  imageUrl: text("image_url"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at"),
+});
+
+export const postLikes = pgTable("post_likes", {
+  id: text("id").primaryKey(),
+  postId: text("post_id").notNull(),
+  userId: text("user_id").notNull(),
+  type: text("type").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const postComments = pgTable("post_comments", {
+  id: text("id").primaryKey(),
+  postId: text("post_id").notNull(),
+  userId: text("user_id").notNull(),
+  content: text("content").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const shorts = pgTable("shorts", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  title: text("title"),
+  description: text("description"),
+  videoUrl: text("video_url").notNull(),
+  thumbnailUrl: text("thumbnail_url"),
+  duration: integer("duration"),
+  viewCount: integer("view_count").default(0),
+  createdAt: text("created_at").notNull(),
+});
+
+export const shortLikes = pgTable("short_likes", {
+  id: text("id").primaryKey(),
+  shortId: text("short_id").notNull(),
+  userId: text("user_id").notNull(),
+  type: text("type").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const shortComments = pgTable("short_comments", {
+  id: text("id").primaryKey(),
+  shortId: text("short_id").notNull(),
+  userId: text("user_id").notNull(),
+  content: text("content").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const groups = pgTable("groups", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  avatarUrl: text("avatar_url"),
+  createdById: text("created_by_id").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const groupMembers = pgTable("group_members", {
+  id: text("id").primaryKey(),
+  groupId: text("group_id").notNull(),
+  userId: text("user_id").notNull(),
+  role: text("role").notNull().default("member"),
+  status: text("status").notNull().default("pending"),
+  invitedById: text("invited_by_id"),
+  createdAt: text("created_at").notNull(),
+  joinedAt: text("joined_at"),
+});
+
+export const groupMessages = pgTable("group_messages", {
+  id: text("id").primaryKey(),
+  groupId: text("group_id").notNull(),
+  senderId: text("sender_id").notNull(),
+  content: text("content").notNull(),
+  timestamp: text("timestamp").notNull(),
+  editedAt: text("edited_at"),
+  parentId: text("parent_id"),
+  clientId: text("client_id"),
+});
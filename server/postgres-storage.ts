@@ -0,0 +1,1702 @@
+import { Pool } from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as pgSchema from "./postgres-schema";
+import {
+  users,
+  magicLinkTokens,
+  sessions,
+  twoFactorCredentials,
+  twoFactorBackupCodes,
+  twoFactorChallenges,
+  passkeys,
+  passkeyChallenges,
+  connections,
+  userBlocks,
+  userMutes,
+  reports,
+  moderationActions,
+  notifications,
+  chatMessages,
+  directMessages,
+  messageReactions,
+  messageReadReceipts,
+  messageEdits,
+  messageAttachments,
+  voiceMessagePlays,
+  linkPreviews,
+  userEvents,
+  posts,
+  postLikes,
+  postComments,
+  shorts,
+  shortLikes,
+  shortComments,
+  groups,
+  groupMembers,
+  groupMessages,
+} from "./postgres-schema";
+import {
+  type User,
+  type InsertUser,
+  type MagicLinkToken,
+  type InsertMagicLinkToken,
+  type Session,
+  type InsertSession,
+  type TwoFactorCredential,
+  type TwoFactorChallenge,
+  type Passkey,
+  type InsertPasskey,
+  type PasskeyChallenge,
+  type Connection,
+  type InsertConnection,
+  type Report,
+  type InsertReport,
+  type ModerationAction,
+  type InsertModerationAction,
+  type ModerationReport,
+  type ModerationAuditEntry,
+  type NotificationWithSender,
+  type Notification,
+  type InsertNotification,
+  type ChatMessage,
+  type InsertChatMessage,
+  type DirectMessage,
+  type InsertDirectMessage,
+  type MessageReaction,
+  type InsertMessageReaction,
+  type MessageReadReceipt,
+  type InsertMessageReadReceipt,
+  type MessageEdit,
+  type MessageAttachment,
+  type LinkPreview,
+  type InsertLinkPreview,
+  type UserEvent,
+  type InsertMessageAttachment,
+  type Post,
+  type InsertPost,
+  type PostLike,
+  type InsertPostLike,
+  type PostComment,
+  type InsertPostComment,
+  type Short,
+  type InsertShort,
+  type ShortLike,
+  type InsertShortLike,
+  type ShortComment,
+  type InsertShortComment,
+  type Group,
+  type InsertGroup,
+  type GroupMember,
+  type InsertGroupMember,
+  type GroupMessage,
+  type InsertGroupMessage,
+  type ActivityItem,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+} from "@shared/schema";
+import { eq, and, or, desc, sql, inArray, notInArray, isNull, lt, gt, type SQL } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { cursorCondition, type IStorage, type MessagePageOptions } from "./storage";
+import { getPendingPostgresMigrations, runPostgresMigrations } from "./migrate";
+
+// Turn free text into a tsquery: every word must match, as a prefix. Operator
+// and quote characters are dropped so user input can't change the query.
+function toTsQuery(text: string): string {
+  const words = text.trim().split(/\s+/)
+    .map((word) => word.replace(/[&|!():*<>'"\\]/g, ""))
+    .filter(Boolean)
+    .slice(0, 10);
+  return words.map((word) => `${word}:*`).join(" & ");
+}
+
+// IStorage on PostgreSQL, selected when DATABASE_URL is a postgres:// URL.
+// Queries mirror SQLiteStorage; the tables come from server/postgres-schema.ts
+// and the schema is managed by the migrations in server/migrations/postgres.ts.
+export class PostgresStorage implements IStorage {
+  private activities: Map<string, ActivityItem> = new Map();
+  private pool: Pool;
+  private db: NodePgDatabase<typeof pgSchema>;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString });
+    this.db = drizzle(this.pool, { schema: pgSchema });
+  }
+
+  // Postgres counterpart of initializeDatabase: migrate (or, with
+  // MIGRATE_ON_START=false, refuse to start on pending migrations) and
+  // bootstrap admins from ADMIN_EMAILS
+  async initialize(): Promise<void> {
+    if (process.env.MIGRATE_ON_START === "false") {
+      const pending = await getPendingPostgresMigrations(this.pool);
+      if (pending.length > 0) {
+        throw new Error(
+          `Database has ${pending.length} pending migration(s) (${pending.map((m) => m.version).join(", ")}); run npm run db:migrate`
+        );
+      }
+    } else {
+      for (const migration of await runPostgresMigrations(this.pool)) {
+        console.log(`Applied migration ${migration.version} (${migration.name})`);
+      }
+    }
+
+    const adminEmails = (process.env.ADMIN_EMAILS || "")
+      .split(",")
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean);
+    if (adminEmails.length > 0) {
+      await this.db.update(users).set({ role: "admin" }).where(inArray(sql`lower(${users.email})`, adminEmails));
+    }
+
+    console.log("Database initialized successfully");
+  }
+
+  // Release the connection pool, for scripts and tests that finish with the store
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.email, email.toLowerCase())).limit(1);
+    return result[0];
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.googleId, googleId)).limit(1);
+    return result[0];
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.profileCompleted, true));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const interests = insertUser.interests ? [...insertUser.interests] : [];
+    const user = { 
+      ...insertUser, 
+      id,
+      email: insertUser.email.toLowerCase(),
+      interests,
+    };
+    await this.db.insert(users).values(user as any);
+    return user as User;
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const updateData = { ...updates };
+    if (updates.interests) {
+      updateData.interests = [...updates.interests];
+    }
+    await this.db.update(users).set(updateData as any).where(eq(users.id, id));
+    return this.getUser(id);
+  }
+
+  async getUsersByInterests(interests: string[]): Promise<User[]> {
+    if (interests.length === 0) {
+      return this.getAllUsers();
+    }
+    
+    const allUsers = await this.getAllUsers();
+    return allUsers.filter((user) =>
+      user.interests?.some((interest) => interests.includes(interest))
+    );
+  }
+
+  async setUserOnline(id: string, isOnline: boolean): Promise<void> {
+    await this.db.update(users).set({ isOnline }).where(eq(users.id, id));
+  }
+
+  // Magic Link Tokens
+  async createMagicLinkToken(insertToken: InsertMagicLinkToken): Promise<MagicLinkToken> {
+    const id = randomUUID();
+    const token = { ...insertToken, id };
+    await this.db.insert(magicLinkTokens).values(token);
+    return token as MagicLinkToken;
+  }
+
+  async getMagicLinkToken(token: string): Promise<MagicLinkToken | undefined> {
+    const result = await this.db.select().from(magicLinkTokens)
+      .where(and(
+        eq(magicLinkTokens.token, token),
+        eq(magicLinkTokens.used, false)
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  async markMagicLinkTokenUsed(id: string): Promise<void> {
+    await this.db.update(magicLinkTokens).set({ used: true }).where(eq(magicLinkTokens.id, id));
+  }
+
+  // Sessions
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    await this.db.insert(sessions).values(insertSession);
+    return insertSession as Session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const result = await this.db.select().from(sessions).where(eq(sessions.id, id)).limit(1);
+    if (result[0]) {
+      // Check if session is expired
+      if (new Date(result[0].expiresAt) < new Date()) {
+        await this.deleteSession(id);
+        return undefined;
+      }
+    }
+    return result[0];
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.db.delete(sessions).where(eq(sessions.id, id));
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    await this.db.delete(sessions).where(eq(sessions.userId, userId));
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    return this.db.select().from(sessions)
+      .where(and(eq(sessions.userId, userId), gt(sessions.expiresAt, new Date().toISOString())))
+      .orderBy(desc(sql`coalesce(${sessions.lastActiveAt}, ${sessions.createdAt})`));
+  }
+
+  async touchSession(id: string, lastActiveAt: string, expiresAt: string): Promise<void> {
+    await this.db.update(sessions).set({ lastActiveAt, expiresAt }).where(eq(sessions.id, id));
+  }
+
+  async rotateSession(id: string, newId: string, expiresAt: string): Promise<void> {
+    await this.db.update(sessions).set({ id: newId, expiresAt }).where(eq(sessions.id, id));
+  }
+
+  // Two-factor authentication
+  async getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined> {
+    const result = await this.db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId)).limit(1);
+    return result[0];
+  }
+
+  async saveTwoFactorSecret(userId: string, secret: string): Promise<void> {
+    const values = { userId, secret, enabledAt: null, lastUsedStep: null, createdAt: new Date().toISOString() };
+    await this.db.insert(twoFactorCredentials).values(values)
+      .onConflictDoUpdate({ target: twoFactorCredentials.userId, set: values });
+  }
+
+  async enableTwoFactor(userId: string, step: number): Promise<void> {
+    await this.db.update(twoFactorCredentials)
+      .set({ enabledAt: new Date().toISOString(), lastUsedStep: step })
+      .where(eq(twoFactorCredentials.userId, userId));
+  }
+
+  // Record a code's time step as used; false when it (or a later one) already was
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const result = await this.db.update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), lt(twoFactorCredentials.lastUsedStep, step))
+      ))
+      .returning({ userId: twoFactorCredentials.userId });
+    return result.length > 0;
+  }
+
+  async deleteTwoFactor(userId: string): Promise<void> {
+    await this.db.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    await this.db.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+    await this.db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.userId, userId));
+  }
+
+  async replaceBackupCodes(userId: string, codeHashes: string[]): Promise<void> {
+    const createdAt = new Date().toISOString();
+    await this.db.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+    if (codeHashes.length > 0) {
+      await this.db.insert(twoFactorBackupCodes).values(
+        codeHashes.map((codeHash) => ({ id: randomUUID(), userId, codeHash, createdAt }))
+      );
+    }
+  }
+
+  async consumeBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.db.update(twoFactorBackupCodes)
+      .set({ usedAt: new Date().toISOString() })
+      .where(and(
+        eq(twoFactorBackupCodes.userId, userId),
+        eq(twoFactorBackupCodes.codeHash, codeHash),
+        isNull(twoFactorBackupCodes.usedAt)
+      ))
+      .returning({ id: twoFactorBackupCodes.id });
+    return result.length > 0;
+  }
+
+  async countUnusedBackupCodes(userId: string): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)::int` }).from(twoFactorBackupCodes)
+      .where(and(eq(twoFactorBackupCodes.userId, userId), isNull(twoFactorBackupCodes.usedAt)));
+    return Number(result[0]?.count ?? 0);
+  }
+
+  async createTwoFactorChallenge(challenge: TwoFactorChallenge): Promise<void> {
+    await this.db.insert(twoFactorChallenges).values(challenge);
+  }
+
+  async getTwoFactorChallenge(id: string): Promise<TwoFactorChallenge | undefined> {
+    const result = await this.db.select().from(twoFactorChallenges).where(eq(twoFactorChallenges.id, id)).limit(1);
+    if (result[0] && new Date(result[0].expiresAt) < new Date()) {
+      await this.deleteTwoFactorChallenge(id);
+      return undefined;
+    }
+    return result[0];
+  }
+
+  // Count a code attempt against a challenge; returns the attempts made so far
+  async recordTwoFactorChallengeAttempt(id: string): Promise<number> {
+    const result = await this.db.update(twoFactorChallenges)
+      .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+      .where(eq(twoFactorChallenges.id, id))
+      .returning({ attempts: twoFactorChallenges.attempts });
+    return result[0]?.attempts ?? 0;
+  }
+
+  async deleteTwoFactorChallenge(id: string): Promise<void> {
+    await this.db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.id, id));
+  }
+
+  // Passkeys
+  async getUserPasskeys(userId: string): Promise<Passkey[]> {
+    return this.db.select().from(passkeys).where(eq(passkeys.userId, userId)).orderBy(passkeys.createdAt);
+  }
+
+  async getPasskeyByCredentialId(credentialId: string): Promise<Passkey | undefined> {
+    const result = await this.db.select().from(passkeys).where(eq(passkeys.credentialId, credentialId)).limit(1);
+    return result[0];
+  }
+
+  async createPasskey(insertPasskey: InsertPasskey): Promise<Passkey> {
+    const transports = insertPasskey.transports ? [...insertPasskey.transports] : [];
+    const result = await this.db.insert(passkeys).values({ ...insertPasskey, id: randomUUID(), transports }).returning();
+    return result[0];
+  }
+
+  async updatePasskey(id: string, updates: Partial<Pick<Passkey, "name" | "counter" | "backedUp" | "lastUsedAt">>): Promise<void> {
+    await this.db.update(passkeys).set(updates).where(eq(passkeys.id, id));
+  }
+
+  async deletePasskey(id: string): Promise<void> {
+    await this.db.delete(passkeys).where(eq(passkeys.id, id));
+  }
+
+  async createPasskeyChallenge(challenge: PasskeyChallenge): Promise<void> {
+    // Expired ceremonies are never taken; clear them out as new ones start
+    await this.db.delete(passkeyChallenges).where(lt(passkeyChallenges.expiresAt, new Date().toISOString()));
+    await this.db.insert(passkeyChallenges).values(challenge);
+  }
+
+  async takePasskeyChallenge(id: string): Promise<PasskeyChallenge | undefined> {
+    const result = await this.db.delete(passkeyChallenges).where(eq(passkeyChallenges.id, id)).returning();
+    const challenge = result[0];
+    if (!challenge || new Date(challenge.expiresAt) < new Date()) return undefined;
+    return challenge;
+  }
+
+  // Connections
+  async getConnection(id: string): Promise<Connection | undefined> {
+    const result = await this.db.select().from(connections).where(eq(connections.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getConnectionsByUser(userId: string): Promise<Connection[]> {
+    return this.db.select().from(connections)
+      .where(or(
+        eq(connections.requesterId, userId),
+        eq(connections.receiverId, userId)
+      ));
+  }
+
+  async getConnectionBetweenUsers(userId1: string, userId2: string): Promise<Connection | undefined> {
+    const result = await this.db.select().from(connections)
+      .where(or(
+        and(eq(connections.requesterId, userId1), eq(connections.receiverId, userId2)),
+        and(eq(connections.requesterId, userId2), eq(connections.receiverId, userId1))
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  async createConnection(insertConnection: InsertConnection): Promise<Connection> {
+    const id = randomUUID();
+    const connection = { 
+      ...insertConnection, 
+      id,
+      createdAt: new Date().toISOString()
+    };
+    await this.db.insert(connections).values(connection);
+    return connection as Connection;
+  }
+
+  async updateConnectionStatus(id: string, status: string): Promise<Connection | undefined> {
+    await this.db.update(connections)
+      .set({ status, updatedAt: new Date().toISOString() })
+      .where(eq(connections.id, id));
+    return this.getConnection(id);
+  }
+
+  async getAcceptedConnectionsCount(userId: string): Promise<number> {
+    const userConnections = await this.getConnectionsByUser(userId);
+    return userConnections.filter(c => c.status === "accepted").length;
+  }
+
+  async deleteConnection(id: string): Promise<void> {
+    // Also delete related notifications
+    await this.db.delete(notifications).where(eq(notifications.connectionId, id));
+    await this.db.delete(connections).where(eq(connections.id, id));
+  }
+
+  // Blocks and mutes
+  async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    await this.db.insert(userBlocks)
+      .values({ id: randomUUID(), blockerId, blockedId, createdAt: new Date().toISOString() })
+      .onConflictDoNothing();
+    // A block ends any connection or pending request between the two
+    const connection = await this.getConnectionBetweenUsers(blockerId, blockedId);
+    if (connection) {
+      await this.deleteConnection(connection.id);
+    }
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    await this.db.delete(userBlocks)
+      .where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId)));
+  }
+
+  async getBlockedUsers(blockerId: string): Promise<User[]> {
+    return this.db.select({ user: users })
+      .from(userBlocks)
+      .innerJoin(users, eq(users.id, userBlocks.blockedId))
+      .where(eq(userBlocks.blockerId, blockerId))
+      .orderBy(desc(userBlocks.createdAt))
+      .then((rows) => rows.map((r) => r.user));
+  }
+
+  // Users blocked by, or blocking, the given user
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    const rows = await this.db.select().from(userBlocks)
+      .where(or(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, userId)));
+    return rows.map((r) => (r.blockerId === userId ? r.blockedId : r.blockerId));
+  }
+
+  async isBlockedBetween(userId1: string, userId2: string): Promise<boolean> {
+    const result = await this.db.select({ id: userBlocks.id }).from(userBlocks)
+      .where(or(
+        and(eq(userBlocks.blockerId, userId1), eq(userBlocks.blockedId, userId2)),
+        and(eq(userBlocks.blockerId, userId2), eq(userBlocks.blockedId, userId1))
+      ))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async muteUser(muterId: string, mutedId: string): Promise<void> {
+    await this.db.insert(userMutes)
+      .values({ id: randomUUID(), muterId, mutedId, createdAt: new Date().toISOString() })
+      .onConflictDoNothing();
+  }
+
+  async unmuteUser(muterId: string, mutedId: string): Promise<void> {
+    await this.db.delete(userMutes)
+      .where(and(eq(userMutes.muterId, muterId), eq(userMutes.mutedId, mutedId)));
+  }
+
+  async getMutedUsers(muterId: string): Promise<User[]> {
+    return this.db.select({ user: users })
+      .from(userMutes)
+      .innerJoin(users, eq(users.id, userMutes.mutedId))
+      .where(eq(userMutes.muterId, muterId))
+      .orderBy(desc(userMutes.createdAt))
+      .then((rows) => rows.map((r) => r.user));
+  }
+
+  async getMutedUserIds(muterId: string): Promise<string[]> {
+    const rows = await this.db.select({ mutedId: userMutes.mutedId }).from(userMutes)
+      .where(eq(userMutes.muterId, muterId));
+    return rows.map((r) => r.mutedId);
+  }
+
+  // Accounts under a suspension that hasn't ended yet
+  async getSuspendedUserIds(): Promise<string[]> {
+    const rows = await this.db.select({ id: users.id }).from(users)
+      .where(and(
+        sql`${users.suspendedAt} IS NOT NULL`,
+        or(isNull(users.suspendedUntil), gt(users.suspendedUntil, new Date().toISOString()))
+      ));
+    return rows.map((r) => r.id);
+  }
+
+  // Reports and moderation
+  async createReport(insertReport: InsertReport): Promise<Report> {
+    const id = randomUUID();
+    const report: Report = {
+      id,
+      ...insertReport,
+      targetUserId: insertReport.targetUserId ?? null,
+      details: insertReport.details ?? null,
+      contentSnapshot: insertReport.contentSnapshot ?? null,
+      status: insertReport.status ?? "open",
+      resolvedById: null,
+      resolvedAt: null,
+    };
+    await this.db.insert(reports).values(report);
+    return report;
+  }
+
+  async getReport(id: string): Promise<Report | undefined> {
+    const result = await this.db.select().from(reports).where(eq(reports.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getOpenReportByReporter(reporterId: string, targetType: string, targetId: string): Promise<Report | undefined> {
+    const result = await this.db.select().from(reports)
+      .where(and(
+        eq(reports.reporterId, reporterId),
+        eq(reports.targetType, targetType),
+        eq(reports.targetId, targetId),
+        eq(reports.status, "open")
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  // Open reports oldest first (the queue); resolved ones most recent first
+  async getModerationReports(status: 'open' | 'resolved'): Promise<ModerationReport[]> {
+    const rows = status === 'open'
+      ? await this.db.select().from(reports).where(eq(reports.status, "open")).orderBy(reports.createdAt)
+      : await this.db.select().from(reports).where(sql`${reports.status} != 'open'`).orderBy(desc(reports.resolvedAt)).limit(200);
+
+    const userIds = Array.from(new Set(rows.flatMap((r) => [r.reporterId, r.targetUserId]).filter((id): id is string => !!id)));
+    const userRows = userIds.length > 0 ? await this.db.select().from(users).where(inArray(users.id, userIds)) : [];
+    const usersById = new Map(userRows.map((u) => [u.id, u]));
+
+    const openCounts = new Map<string, number>();
+    if (status === 'open') {
+      for (const r of rows) {
+        const key = `${r.targetType}:${r.targetId}`;
+        openCounts.set(key, (openCounts.get(key) ?? 0) + 1);
+      }
+    }
+
+    return rows.map((r) => ({
+      ...r,
+      reporter: usersById.get(r.reporterId) ?? null,
+      targetUser: r.targetUserId ? usersById.get(r.targetUserId) ?? null : null,
+      relatedOpenCount: Math.max((openCounts.get(`${r.targetType}:${r.targetId}`) ?? 0) - 1, 0),
+    }));
+  }
+
+  async getOpenReportsCount(): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)::int` }).from(reports)
+      .where(eq(reports.status, "open"));
+    return result[0]?.count ?? 0;
+  }
+
+  async resolveReports(ids: string[], status: 'dismissed' | 'actioned', resolvedById: string): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.update(reports)
+      .set({ status, resolvedById, resolvedAt: new Date().toISOString() })
+      .where(and(inArray(reports.id, ids), eq(reports.status, "open")));
+  }
+
+  async getOpenReportIdsForTarget(targetType: string, targetId: string): Promise<string[]> {
+    const rows = await this.db.select({ id: reports.id }).from(reports)
+      .where(and(eq(reports.targetType, targetType), eq(reports.targetId, targetId), eq(reports.status, "open")));
+    return rows.map((r) => r.id);
+  }
+
+  async createModerationAction(insertAction: InsertModerationAction): Promise<ModerationAction> {
+    const id = randomUUID();
+    const action: ModerationAction = {
+      id,
+      ...insertAction,
+      reportId: insertAction.reportId ?? null,
+      targetType: insertAction.targetType ?? null,
+      targetId: insertAction.targetId ?? null,
+      targetUserId: insertAction.targetUserId ?? null,
+      note: insertAction.note ?? null,
+    };
+    await this.db.insert(moderationActions).values(action);
+    return action;
+  }
+
+  async getModerationActions(limit: number): Promise<ModerationAuditEntry[]> {
+    const rows = await this.db.select().from(moderationActions)
+      .orderBy(desc(moderationActions.createdAt))
+      .limit(limit);
+
+    const userIds = Array.from(new Set(rows.flatMap((r) => [r.moderatorId, r.targetUserId]).filter((id): id is string => !!id)));
+    const userRows = userIds.length > 0 ? await this.db.select().from(users).where(inArray(users.id, userIds)) : [];
+    const usersById = new Map(userRows.map((u) => [u.id, u]));
+
+    return rows.map((r) => ({
+      ...r,
+      moderator: usersById.get(r.moderatorId) ?? null,
+      targetUser: r.targetUserId ? usersById.get(r.targetUserId) ?? null : null,
+    }));
+  }
+
+  // Notifications
+  // Each notification with its sender and the sender's accepted connection count
+  async getNotifications(userId: string): Promise<NotificationWithSender[]> {
+    const rows = await this.db.select({
+      notification: notifications,
+      fromUser: users,
+      connectionsCount: sql<number>`(
+        SELECT count(*)::int FROM ${connections}
+        WHERE ${connections.status} = 'accepted'
+          AND (${connections.requesterId} = ${users.id} OR ${connections.receiverId} = ${users.id})
+      )`,
+    })
+      .from(notifications)
+      .leftJoin(users, eq(users.id, notifications.fromUserId))
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt));
+
+    return rows.map((row) => ({
+      ...row.notification,
+      fromUser: row.fromUser ? { ...row.fromUser, connectionsCount: row.connectionsCount } : null,
+    }));
+  }
+
+  async getUnreadNotificationsCount(userId: string): Promise<number> {
+    const result = await this.db.select().from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.read, false)
+      ));
+    return result.length;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = randomUUID();
+    const notification = { ...insertNotification, id };
+    await this.db.insert(notifications).values(notification);
+    return notification as Notification;
+  }
+
+  async markNotificationRead(id: string): Promise<void> {
+    await this.db.update(notifications).set({ read: true }).where(eq(notifications.id, id));
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await this.db.update(notifications).set({ read: true }).where(eq(notifications.userId, userId));
+  }
+
+  async deleteNotificationByConnectionId(connectionId: string): Promise<void> {
+    await this.db.delete(notifications).where(
+      and(
+        eq(notifications.connectionId, connectionId),
+        eq(notifications.type, "connection_request")
+      )
+    );
+  }
+
+  // Chat messages
+  async getChatMessages(): Promise<ChatMessage[]> {
+    return this.db.select().from(chatMessages).orderBy(chatMessages.timestamp);
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const id = randomUUID();
+    const message = { ...insertMessage, id };
+    await this.db.insert(chatMessages).values(message);
+    return message as ChatMessage;
+  }
+
+  // Direct messages
+  async getDirectMessages(userId: string, otherUserId: string, options: MessagePageOptions = {}): Promise<DirectMessage[]> {
+    const conditions = [or(
+      and(eq(directMessages.senderId, userId), eq(directMessages.receiverId, otherUserId)),
+      and(eq(directMessages.senderId, otherUserId), eq(directMessages.receiverId, userId))
+    )];
+
+    const cursorId = options.before ?? options.after;
+    if (cursorId) {
+      const cursor = await this.getDirectMessage(cursorId);
+      if (!cursor) return [];
+      conditions.push(cursorCondition(directMessages.timestamp, directMessages.id, cursor, options.before ? 'before' : 'after'));
+    }
+
+    // Unless paging forward, the newest messages are wanted: read newest first and flip
+    const newestFirst = !options.after || !!options.before;
+    const query = this.db.select().from(directMessages)
+      .where(and(...conditions))
+      .orderBy(...(newestFirst
+        ? [desc(directMessages.timestamp), desc(directMessages.id)]
+        : [directMessages.timestamp, directMessages.id]))
+      .$dynamic();
+    const rows = await (options.limit ? query.limit(options.limit) : query);
+    return newestFirst ? rows.reverse() : rows;
+  }
+
+  async getDirectMessage(messageId: string): Promise<DirectMessage | undefined> {
+    const result = await this.db.select().from(directMessages).where(eq(directMessages.id, messageId)).limit(1);
+    return result[0];
+  }
+
+  async getDirectMessageConversations(userId: string): Promise<Array<{ 
+    oderId: string; 
+    otherUser: User;
+    lastMessage?: string; 
+    lastTimestamp?: string; 
+    unreadCount: number 
+  }>> {
+    const messages = await this.db.select().from(directMessages)
+      .where(or(
+        eq(directMessages.senderId, userId),
+        eq(directMessages.receiverId, userId)
+      ))
+      .orderBy(desc(directMessages.timestamp));
+
+    const conversations = new Map<string, { 
+      oderId: string;
+      otherUser: User;
+      lastMessage?: string; 
+      lastTimestamp?: string; 
+      unreadCount: number 
+    }>();
+
+    for (const msg of messages) {
+      const otherUserId = msg.senderId === userId ? msg.receiverId : msg.senderId;
+      if (!conversations.has(otherUserId)) {
+        const otherUser = await this.getUser(otherUserId);
+        if (otherUser) {
+          conversations.set(otherUserId, {
+            oderId: otherUserId,
+            otherUser,
+            lastMessage: msg.content,
+            lastTimestamp: msg.timestamp,
+            unreadCount: 0,
+          });
+        }
+      }
+      const conv = conversations.get(otherUserId);
+      if (conv && msg.receiverId === userId && !msg.isRead) {
+        conv.unreadCount++;
+      }
+    }
+
+    return Array.from(conversations.values());
+  }
+
+  async createDirectMessage(insertMessage: InsertDirectMessage): Promise<DirectMessage> {
+    const id = randomUUID();
+    const message = { deliveredAt: null, readAt: null, clientId: null, ...insertMessage, id };
+    await this.db.insert(directMessages).values(message);
+    return message as DirectMessage;
+  }
+
+  async editDirectMessage(messageId: string, content: string, editedById: string): Promise<DirectMessage | undefined> {
+    const existing = await this.getDirectMessage(messageId);
+    if (!existing) return undefined;
+
+    const editedAt = new Date().toISOString();
+    // The history entry and the new content are written together
+    await this.db.transaction(async (tx) => {
+      await tx.insert(messageEdits).values({
+        id: randomUUID(),
+        messageId,
+        messageType: 'direct',
+        previousContent: existing.content,
+        editedById,
+        editedAt,
+      });
+      await tx.update(directMessages).set({ content, editedAt }).where(eq(directMessages.id, messageId));
+    });
+    return { ...existing, content, editedAt };
+  }
+
+  async getDirectMessageReplies(parentId: string): Promise<DirectMessage[]> {
+    return this.db.select().from(directMessages)
+      .where(eq(directMessages.parentId, parentId))
+      .orderBy(directMessages.timestamp);
+  }
+
+  async deleteDirectMessage(messageId: string): Promise<void> {
+    await this.db.delete(directMessages).where(eq(directMessages.id, messageId));
+    await this.db.delete(messageEdits)
+      .where(and(eq(messageEdits.messageId, messageId), eq(messageEdits.messageType, 'direct')));
+    const attachments = await this.getMessageAttachments(messageId, 'direct');
+    if (attachments.length > 0) {
+      await this.db.delete(voiceMessagePlays)
+        .where(inArray(voiceMessagePlays.attachmentId, attachments.map((a) => a.id)));
+    }
+    await this.db.delete(messageAttachments)
+      .where(and(eq(messageAttachments.messageId, messageId), eq(messageAttachments.messageType, 'direct')));
+  }
+
+  async markDirectMessageAsRead(messageId: string): Promise<DirectMessage | undefined> {
+    const now = new Date().toISOString();
+    await this.db.update(directMessages)
+      .set({ isRead: true, readAt: sql`coalesce(${directMessages.readAt}, ${now})`, deliveredAt: sql`coalesce(${directMessages.deliveredAt}, ${now})` })
+      .where(eq(directMessages.id, messageId));
+    const result = await this.db.select().from(directMessages).where(eq(directMessages.id, messageId)).limit(1);
+    return result[0];
+  }
+
+  // Returns the messages that were newly marked as read
+  async markMessagesFromUserAsRead(receiverId: string, senderId: string): Promise<DirectMessage[]> {
+    const now = new Date().toISOString();
+    return this.db.update(directMessages)
+      .set({ isRead: true, readAt: now, deliveredAt: sql`coalesce(${directMessages.deliveredAt}, ${now})` })
+      .where(and(
+        eq(directMessages.receiverId, receiverId),
+        eq(directMessages.senderId, senderId),
+        eq(directMessages.isRead, false)
+      ))
+      .returning();
+  }
+
+  // Returns the messages that were newly marked as delivered
+  async markDirectMessagesDelivered(receiverId: string, messageIds: string[]): Promise<DirectMessage[]> {
+    if (messageIds.length === 0) return [];
+    return this.db.update(directMessages)
+      .set({ deliveredAt: new Date().toISOString() })
+      .where(and(
+        eq(directMessages.receiverId, receiverId),
+        inArray(directMessages.id, messageIds),
+        isNull(directMessages.deliveredAt)
+      ))
+      .returning();
+  }
+
+  async getUndeliveredDirectMessages(receiverId: string): Promise<DirectMessage[]> {
+    return this.db.select().from(directMessages)
+      .where(and(eq(directMessages.receiverId, receiverId), isNull(directMessages.deliveredAt)))
+      .orderBy(directMessages.timestamp);
+  }
+
+  async getDirectMessageByClientId(senderId: string, clientId: string): Promise<DirectMessage | undefined> {
+    const result = await this.db.select().from(directMessages)
+      .where(and(eq(directMessages.senderId, senderId), eq(directMessages.clientId, clientId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getDirectMessageCount(userId: string): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)::int` })
+      .from(directMessages)
+      .where(eq(directMessages.senderId, userId));
+    return result[0]?.count || 0;
+  }
+
+  async getUnreadDirectMessageCount(userId: string): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)::int` })
+      .from(directMessages)
+      .where(and(
+        eq(directMessages.receiverId, userId),
+        eq(directMessages.isRead, false)
+      ));
+    return result[0]?.count || 0;
+  }
+
+  // Activities
+  async getActivities(): Promise<ActivityItem[]> {
+    return Array.from(this.activities.values()).sort(
+      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+  }
+
+  async createActivity(activity: Omit<ActivityItem, "id">): Promise<ActivityItem> {
+    const id = randomUUID();
+    const newActivity: ActivityItem = { ...activity, id };
+    this.activities.set(id, newActivity);
+    return newActivity;
+  }
+
+  // Posts
+  async getPosts(options?: { ids?: string[]; connectionIds?: string[]; currentUserId?: string; excludeUserIds?: string[]; limit?: number; before?: { id: string; createdAt: string } }): Promise<Array<Post & { user: User; likesCount: number; dislikesCount: number; commentsCount: number; userReaction?: 'like' | 'dislike' | null }>> {
+    const conditions = [];
+
+    // Only these posts, e.g. the next page of a ranked feed
+    if (options?.ids) {
+      if (options.ids.length === 0) return [];
+      conditions.push(inArray(posts.id, options.ids));
+    }
+
+    // Filter by connections if specified
+    if (options?.connectionIds && options.connectionIds.length > 0) {
+      conditions.push(inArray(posts.userId, options.connectionIds));
+    }
+
+    // Hide blocked and muted authors
+    if (options?.excludeUserIds && options.excludeUserIds.length > 0) {
+      conditions.push(notInArray(posts.userId, options.excludeUserIds));
+    }
+
+    // Older than the cursor, for paging newest first
+    if (options?.before) {
+      conditions.push(cursorCondition(posts.createdAt, posts.id, { id: options.before.id, timestamp: options.before.createdAt }, 'before'));
+    }
+
+    // Totals for just the posts being returned, each looked up through the
+    // post_id indexes rather than aggregating the whole likes and comments tables
+    const reactionCount = (type: 'like' | 'dislike') => sql<number>`(
+      SELECT count(*)::int FROM ${postLikes}
+      WHERE ${postLikes.postId} = ${posts.id} AND ${postLikes.type} = ${type}
+    )`;
+
+    const query = this.db.select({
+      post: posts,
+      user: users,
+      likesCount: reactionCount('like'),
+      dislikesCount: reactionCount('dislike'),
+      commentsCount: sql<number>`(SELECT count(*)::int FROM ${postComments} WHERE ${postComments.postId} = ${posts.id})`,
+      userReaction: sql<'like' | 'dislike' | null>`(
+        SELECT ${postLikes.type} FROM ${postLikes}
+        WHERE ${postLikes.postId} = ${posts.id} AND ${postLikes.userId} = ${options?.currentUserId ?? null}
+        LIMIT 1
+      )`,
+    })
+      .from(posts)
+      .leftJoin(users, eq(users.id, posts.userId))
+      .where(and(...conditions))
+      .orderBy(desc(posts.createdAt), desc(posts.id))
+      .$dynamic();
+    const rows = await (options?.limit ? query.limit(options.limit) : query);
+
+    return rows.map((row) => ({
+      ...row.post,
+      user: row.user!,
+      likesCount: row.likesCount,
+      dislikesCount: row.dislikesCount,
+      commentsCount: row.commentsCount,
+      userReaction: row.userReaction,
+    }));
+  }
+
+  async getPost(id: string): Promise<Post | undefined> {
+    const result = await this.db.select().from(posts).where(eq(posts.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getPostsByUserId(userId: string): Promise<Array<Post & { user: User }>> {
+    const userPosts = await this.db.select()
+      .from(posts)
+      .where(eq(posts.userId, userId))
+      .orderBy(desc(posts.createdAt));
+    
+    const user = await this.getUser(userId);
+    if (!user) return [];
+    
+    return userPosts.map(post => ({
+      ...post,
+      user,
+    }));
+  }
+
+  async createPost(insertPost: InsertPost): Promise<Post> {
+    const id = randomUUID();
+    const post = { ...insertPost, id };
+    await this.db.insert(posts).values(post);
+    return post as Post;
+  }
+
+  async deletePost(id: string): Promise<void> {
+    // Delete all related likes and comments first
+    await this.db.delete(postLikes).where(eq(postLikes.postId, id));
+    await this.db.delete(postComments).where(eq(postComments.postId, id));
+    await this.db.delete(posts).where(eq(posts.id, id));
+  }
+
+  // Post likes
+  async getPostLike(postId: string, userId: string): Promise<PostLike | undefined> {
+    const result = await this.db.select().from(postLikes)
+      .where(and(eq(postLikes.postId, postId), eq(postLikes.userId, userId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createPostLike(insertLike: InsertPostLike): Promise<PostLike> {
+    const id = randomUUID();
+    const like = { ...insertLike, id };
+    await this.db.insert(postLikes).values(like);
+    return like as PostLike;
+  }
+
+  async updatePostLike(id: string, type: 'like' | 'dislike'): Promise<PostLike | undefined> {
+    await this.db.update(postLikes).set({ type }).where(eq(postLikes.id, id));
+    const result = await this.db.select().from(postLikes).where(eq(postLikes.id, id)).limit(1);
+    return result[0];
+  }
+
+  async deletePostLike(postId: string, userId: string): Promise<void> {
+    await this.db.delete(postLikes)
+      .where(and(eq(postLikes.postId, postId), eq(postLikes.userId, userId)));
+  }
+
+  async getPostLikesCount(postId: string): Promise<{ likes: number; dislikes: number }> {
+    const allLikes = await this.db.select().from(postLikes).where(eq(postLikes.postId, postId));
+    const likes = allLikes.filter(l => l.type === 'like').length;
+    const dislikes = allLikes.filter(l => l.type === 'dislike').length;
+    return { likes, dislikes };
+  }
+
+  // Post comments
+  async getPostComments(postId: string): Promise<Array<PostComment & { user: User }>> {
+    const comments = await this.db.select().from(postComments)
+      .where(eq(postComments.postId, postId))
+      .orderBy(postComments.createdAt);
+    
+    return Promise.all(comments.map(async (comment) => {
+      const user = await this.getUser(comment.userId);
+      return { ...comment, user: user! };
+    }));
+  }
+
+  async createPostComment(insertComment: InsertPostComment): Promise<PostComment> {
+    const id = randomUUID();
+    const comment = { ...insertComment, id };
+    await this.db.insert(postComments).values(comment);
+    return comment as PostComment;
+  }
+
+  async getPostComment(id: string): Promise<PostComment | undefined> {
+    const result = await this.db.select().from(postComments).where(eq(postComments.id, id)).limit(1);
+    return result[0];
+  }
+
+  async deletePostComment(id: string): Promise<void> {
+    await this.db.delete(postComments).where(eq(postComments.id, id));
+  }
+
+  // Shorts
+  async getShorts(options?: { limit?: number; offset?: number; random?: boolean; excludeUserIds?: string[] }): Promise<{ shorts: Array<Short & { user: User }>; total: number; hasMore: boolean }> {
+    // Hide blocked and muted authors
+    const visible = options?.excludeUserIds && options.excludeUserIds.length > 0
+      ? notInArray(shorts.userId, options.excludeUserIds)
+      : undefined;
+    const [{ total }] = await this.db.select({ total: sql<number>`count(*)::int` }).from(shorts).where(visible);
+
+    // Apply offset and limit for pagination; random order is reshuffled on every request
+    const offset = options?.offset && options.offset > 0 ? options.offset : 0;
+    const limit = options?.limit;
+    const query = this.db.select({ short: shorts, user: users })
+      .from(shorts)
+      .leftJoin(users, eq(users.id, shorts.userId))
+      .where(visible)
+      .orderBy(options?.random ? sql`random()` : desc(shorts.createdAt))
+      .offset(offset)
+      .$dynamic();
+    const rows = await (limit ? query.limit(limit) : query);
+
+    const hasMore = limit ? (offset + limit) < total : false;
+    return { shorts: rows.map((row) => ({ ...row.short, user: row.user! })), total, hasMore };
+  }
+
+  async getShort(id: string): Promise<Short | undefined> {
+    const result = await this.db.select().from(shorts).where(eq(shorts.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getShortsByUserId(userId: string): Promise<Array<Short & { user: User }>> {
+    const userShorts = await this.db.select()
+      .from(shorts)
+      .where(eq(shorts.userId, userId))
+      .orderBy(desc(shorts.createdAt));
+    
+    const user = await this.getUser(userId);
+    if (!user) return [];
+    
+    return userShorts.map(short => ({
+      ...short,
+      user,
+    }));
+  }
+
+  async createShort(insertShort: InsertShort): Promise<Short> {
+    const id = randomUUID();
+    const short = { ...insertShort, id };
+    await this.db.insert(shorts).values(short);
+    return short as Short;
+  }
+
+  async deleteShort(id: string): Promise<void> {
+    await this.db.delete(shorts).where(eq(shorts.id, id));
+  }
+
+  async incrementShortViewCount(id: string): Promise<void> {
+    await this.db.update(shorts)
+      .set({ viewCount: sql`${shorts.viewCount} + 1` })
+      .where(eq(shorts.id, id));
+  }
+
+  // Short likes
+  async getShortLike(shortId: string, userId: string): Promise<ShortLike | undefined> {
+    const result = await this.db.select().from(shortLikes)
+      .where(and(eq(shortLikes.shortId, shortId), eq(shortLikes.userId, userId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createShortLike(insertLike: InsertShortLike): Promise<ShortLike> {
+    const id = randomUUID();
+    const like = { ...insertLike, id };
+    await this.db.insert(shortLikes).values(like);
+    return like as ShortLike;
+  }
+
+  async updateShortLike(id: string, type: 'like' | 'dislike'): Promise<ShortLike | undefined> {
+    await this.db.update(shortLikes).set({ type }).where(eq(shortLikes.id, id));
+    const result = await this.db.select().from(shortLikes).where(eq(shortLikes.id, id)).limit(1);
+    return result[0];
+  }
+
+  async deleteShortLike(shortId: string, userId: string): Promise<void> {
+    await this.db.delete(shortLikes)
+      .where(and(eq(shortLikes.shortId, shortId), eq(shortLikes.userId, userId)));
+  }
+
+  async getShortLikesCount(shortId: string): Promise<{ likes: number; dislikes: number }> {
+    const allLikes = await this.db.select().from(shortLikes).where(eq(shortLikes.shortId, shortId));
+    const likes = allLikes.filter(l => l.type === 'like').length;
+    const dislikes = allLikes.filter(l => l.type === 'dislike').length;
+    return { likes, dislikes };
+  }
+
+  // Short comments
+  async getShortComments(shortId: string): Promise<Array<ShortComment & { user: User }>> {
+    const comments = await this.db.select().from(shortComments)
+      .where(eq(shortComments.shortId, shortId))
+      .orderBy(shortComments.createdAt);
+    
+    return Promise.all(comments.map(async (comment) => {
+      const user = await this.getUser(comment.userId);
+      return { ...comment, user: user! };
+    }));
+  }
+
+  async createShortComment(insertComment: InsertShortComment): Promise<ShortComment> {
+    const id = randomUUID();
+    const comment = { ...insertComment, id };
+    await this.db.insert(shortComments).values(comment);
+    return comment as ShortComment;
+  }
+
+  async getShortComment(id: string): Promise<ShortComment | undefined> {
+    const result = await this.db.select().from(shortComments).where(eq(shortComments.id, id)).limit(1);
+    return result[0];
+  }
+
+  async deleteShortComment(id: string): Promise<void> {
+    await this.db.delete(shortComments).where(eq(shortComments.id, id));
+  }
+
+  // Groups
+  async getGroup(id: string): Promise<Group | undefined> {
+    const result = await this.db.select().from(groups).where(eq(groups.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getGroupsByUser(userId: string): Promise<Array<Group & { memberCount: number }>> {
+    // Get all groups where user is an accepted member
+    const memberships = await this.db.select().from(groupMembers)
+      .where(and(
+        eq(groupMembers.userId, userId),
+        eq(groupMembers.status, "accepted")
+      ));
+    
+    const userGroups: Array<Group & { memberCount: number }> = [];
+    
+    for (const membership of memberships) {
+      const group = await this.getGroup(membership.groupId);
+      if (group) {
+        const members = await this.db.select().from(groupMembers)
+          .where(and(
+            eq(groupMembers.groupId, group.id),
+            eq(groupMembers.status, "accepted")
+          ));
+        userGroups.push({
+          ...group,
+          memberCount: members.length,
+        });
+      }
+    }
+    
+    return userGroups;
+  }
+
+  async createGroup(insertGroup: InsertGroup): Promise<Group> {
+    const id = randomUUID();
+    const group = { ...insertGroup, id };
+    await this.db.insert(groups).values(group);
+    return group as Group;
+  }
+
+  async deleteGroup(id: string): Promise<void> {
+    // Delete all members and messages first
+    await this.db.delete(groupMembers).where(eq(groupMembers.groupId, id));
+    await this.db.delete(groupMessages).where(eq(groupMessages.groupId, id));
+    await this.db.delete(groups).where(eq(groups.id, id));
+  }
+
+  // Group members
+  async getGroupMember(groupId: string, userId: string): Promise<GroupMember | undefined> {
+    const result = await this.db.select().from(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getGroupMembers(groupId: string): Promise<Array<GroupMember & { user: User }>> {
+    const rows = await this.db.select({ member: groupMembers, user: users })
+      .from(groupMembers)
+      .leftJoin(users, eq(users.id, groupMembers.userId))
+      .where(eq(groupMembers.groupId, groupId));
+    return rows.map((row) => ({ ...row.member, user: row.user! }));
+  }
+
+  async getGroupInvitations(userId: string): Promise<Array<GroupMember & { group: Group; invitedBy: User | null }>> {
+    const invitations = await this.db.select().from(groupMembers)
+      .where(and(
+        eq(groupMembers.userId, userId),
+        eq(groupMembers.status, "pending")
+      ));
+    
+    return Promise.all(invitations.map(async (invitation) => {
+      const group = await this.getGroup(invitation.groupId);
+      const invitedBy = invitation.invitedById ? await this.getUser(invitation.invitedById) : null;
+      return { ...invitation, group: group!, invitedBy: invitedBy ?? null };
+    }));
+  }
+
+  async createGroupMember(insertMember: InsertGroupMember): Promise<GroupMember> {
+    const id = randomUUID();
+    const member = { ...insertMember, id };
+    await this.db.insert(groupMembers).values(member);
+    return member as GroupMember;
+  }
+
+  async updateGroupMemberStatus(id: string, status: string, joinedAt?: string): Promise<GroupMember | undefined> {
+    const updates: any = { status };
+    if (joinedAt) {
+      updates.joinedAt = joinedAt;
+    }
+    await this.db.update(groupMembers).set(updates).where(eq(groupMembers.id, id));
+    const result = await this.db.select().from(groupMembers).where(eq(groupMembers.id, id)).limit(1);
+    return result[0];
+  }
+
+  async deleteGroupMember(groupId: string, userId: string): Promise<void> {
+    await this.db.delete(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
+  }
+
+  // Group messages
+  async getGroupMessages(groupId: string, options: MessagePageOptions = {}): Promise<Array<GroupMessage & { sender: User }>> {
+    const conditions = [eq(groupMessages.groupId, groupId)];
+
+    const cursorId = options.before ?? options.after;
+    if (cursorId) {
+      const cursor = await this.getGroupMessage(cursorId);
+      if (!cursor) return [];
+      conditions.push(cursorCondition(groupMessages.timestamp, groupMessages.id, cursor, options.before ? 'before' : 'after'));
+    }
+
+    // Unless paging forward, the newest messages are wanted: read newest first and flip
+    const newestFirst = !options.after || !!options.before;
+    const query = this.db.select({ message: groupMessages, sender: users })
+      .from(groupMessages)
+      .leftJoin(users, eq(users.id, groupMessages.senderId))
+      .where(and(...conditions))
+      .orderBy(...(newestFirst
+        ? [desc(groupMessages.timestamp), desc(groupMessages.id)]
+        : [groupMessages.timestamp, groupMessages.id]))
+      .$dynamic();
+    const rows = await (options.limit ? query.limit(options.limit) : query);
+
+    const messages = rows.map((row) => ({ ...row.message, sender: row.sender! }));
+    return newestFirst ? messages.reverse() : messages;
+  }
+
+  async getGroupMessage(messageId: string): Promise<GroupMessage | undefined> {
+    const result = await this.db.select().from(groupMessages).where(eq(groupMessages.id, messageId)).limit(1);
+    return result[0];
+  }
+
+  async createGroupMessage(insertMessage: InsertGroupMessage): Promise<GroupMessage> {
+    const id = randomUUID();
+    const message = { ...insertMessage, id };
+    await this.db.insert(groupMessages).values(message);
+    return message as GroupMessage;
+  }
+
+  async getGroupMessageByClientId(senderId: string, clientId: string): Promise<GroupMessage | undefined> {
+    const result = await this.db.select().from(groupMessages)
+      .where(and(eq(groupMessages.senderId, senderId), eq(groupMessages.clientId, clientId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async editGroupMessage(messageId: string, content: string, editedById: string): Promise<GroupMessage | undefined> {
+    const existing = await this.getGroupMessage(messageId);
+    if (!existing) return undefined;
+
+    const editedAt = new Date().toISOString();
+    // The history entry and the new content are written together
+    await this.db.transaction(async (tx) => {
+      await tx.insert(messageEdits).values({
+        id: randomUUID(),
+        messageId,
+        messageType: 'group',
+        previousContent: existing.content,
+        editedById,
+        editedAt,
+      });
+      await tx.update(groupMessages).set({ content, editedAt }).where(eq(groupMessages.id, messageId));
+    });
+    return { ...existing, content, editedAt };
+  }
+
+  async getGroupMessageReplies(parentId: string): Promise<Array<GroupMessage & { sender: User }>> {
+    const replies = await this.db.select().from(groupMessages)
+      .where(eq(groupMessages.parentId, parentId))
+      .orderBy(groupMessages.timestamp);
+
+    return Promise.all(replies.map(async (reply) => {
+      const sender = await this.getUser(reply.senderId);
+      return { ...reply, sender: sender! };
+    }));
+  }
+
+  // Threads
+  async getReplyCounts(parentIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, number>> {
+    if (parentIds.length === 0) return {};
+
+    const table = messageType === 'group' ? groupMessages : directMessages;
+    const rows = await this.db.select({ parentId: table.parentId, count: sql<number>`count(*)::int` })
+      .from(table)
+      .where(inArray(table.parentId, parentIds))
+      .groupBy(table.parentId);
+
+    const counts: Record<string, number> = {};
+    for (const row of rows) {
+      if (row.parentId) counts[row.parentId] = Number(row.count);
+    }
+    return counts;
+  }
+
+  // Message attachments
+  async createMessageAttachment(insertAttachment: InsertMessageAttachment): Promise<MessageAttachment> {
+    const id = randomUUID();
+    const attachment = { ...insertAttachment, id };
+    await this.db.insert(messageAttachments).values(attachment);
+    return attachment as MessageAttachment;
+  }
+
+  async getMessageAttachment(id: string): Promise<MessageAttachment | undefined> {
+    const result = await this.db.select().from(messageAttachments).where(eq(messageAttachments.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getMessageAttachments(messageId: string, messageType: 'direct' | 'group'): Promise<MessageAttachment[]> {
+    return this.db.select().from(messageAttachments)
+      .where(and(
+        eq(messageAttachments.messageId, messageId),
+        eq(messageAttachments.messageType, messageType)
+      ))
+      .orderBy(messageAttachments.createdAt);
+  }
+
+  // Attachments of several messages at once, keyed by message id
+  async getAttachmentsForMessages(messageIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, MessageAttachment[]>> {
+    if (messageIds.length === 0) return {};
+    const rows = await this.db.select().from(messageAttachments)
+      .where(and(
+        inArray(messageAttachments.messageId, messageIds),
+        eq(messageAttachments.messageType, messageType)
+      ))
+      .orderBy(messageAttachments.createdAt);
+
+    const attachments: Record<string, MessageAttachment[]> = {};
+    for (const row of rows) {
+      (attachments[row.messageId!] ||= []).push(row);
+    }
+    return attachments;
+  }
+
+  async attachFilesToMessage(attachmentIds: string[], messageId: string, messageType: 'direct' | 'group'): Promise<void> {
+    if (attachmentIds.length === 0) return;
+    await this.db.update(messageAttachments)
+      .set({ messageId, messageType })
+      .where(inArray(messageAttachments.id, attachmentIds));
+  }
+
+  async getGroupAttachments(groupId: string): Promise<{ attachment: MessageAttachment; uploader: User | null }[]> {
+    return this.db.select({ attachment: messageAttachments, uploader: users })
+      .from(messageAttachments)
+      .innerJoin(groupMessages, eq(messageAttachments.messageId, groupMessages.id))
+      .leftJoin(users, eq(messageAttachments.uploaderId, users.id))
+      .where(and(
+        eq(messageAttachments.messageType, 'group'),
+        eq(groupMessages.groupId, groupId)
+      ))
+      .orderBy(desc(messageAttachments.createdAt));
+  }
+
+  // Returns false if the user had already played it
+  async markVoiceMessagePlayed(attachmentId: string, userId: string): Promise<boolean> {
+    const existing = await this.db.select().from(voiceMessagePlays)
+      .where(and(
+        eq(voiceMessagePlays.attachmentId, attachmentId),
+        eq(voiceMessagePlays.userId, userId)
+      ))
+      .limit(1);
+    if (existing.length > 0) return false;
+
+    await this.db.insert(voiceMessagePlays).values({
+      id: randomUUID(),
+      attachmentId,
+      userId,
+      playedAt: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  async getVoiceMessagePlays(attachmentIds: string[]): Promise<Record<string, string[]>> {
+    if (attachmentIds.length === 0) return {};
+    const rows = await this.db.select().from(voiceMessagePlays)
+      .where(inArray(voiceMessagePlays.attachmentId, attachmentIds));
+
+    const plays: Record<string, string[]> = {};
+    for (const row of rows) {
+      (plays[row.attachmentId] ||= []).push(row.userId);
+    }
+    return plays;
+  }
+
+  // Link preview cache
+  async getLinkPreviewByUrl(url: string): Promise<LinkPreview | undefined> {
+    const result = await this.db.select().from(linkPreviews).where(eq(linkPreviews.url, url)).limit(1);
+    return result[0];
+  }
+
+  async getLinkPreview(id: string): Promise<LinkPreview | undefined> {
+    const result = await this.db.select().from(linkPreviews).where(eq(linkPreviews.id, id)).limit(1);
+    return result[0];
+  }
+
+  // Insert or refresh the cached preview for a URL
+  async saveLinkPreview(preview: InsertLinkPreview): Promise<LinkPreview> {
+    await this.db.insert(linkPreviews).values(preview)
+      .onConflictDoUpdate({
+        target: linkPreviews.url,
+        set: {
+          status: preview.status,
+          title: preview.title,
+          description: preview.description,
+          siteName: preview.siteName,
+          imageUrl: preview.imageUrl,
+          imageFile: preview.imageFile,
+          fetchedAt: preview.fetchedAt,
+        },
+      });
+    return (await this.getLinkPreviewByUrl(preview.url))!;
+  }
+
+  // WebSocket event log
+  async appendUserEvent(userId: string, type: string, payload: string): Promise<number> {
+    const result = await this.db.insert(userEvents)
+      .values({ userId, type, payload, createdAt: new Date().toISOString() })
+      .returning({ seq: userEvents.seq });
+    return result[0].seq;
+  }
+
+  async getUserEventsAfter(userId: string, afterSeq: number, limit: number): Promise<UserEvent[]> {
+    return this.db.select().from(userEvents)
+      .where(and(eq(userEvents.userId, userId), gt(userEvents.seq, afterSeq)))
+      .orderBy(userEvents.seq)
+      .limit(limit);
+  }
+
+  async getLatestUserEventSeq(userId: string): Promise<number> {
+    const result = await this.db.select({ seq: sql<number | null>`max(${userEvents.seq})` })
+      .from(userEvents)
+      .where(eq(userEvents.userId, userId));
+    return result[0]?.seq ?? 0;
+  }
+
+  async getOldestUserEventSeq(userId: string): Promise<number | null> {
+    const result = await this.db.select({ seq: sql<number | null>`min(${userEvents.seq})` })
+      .from(userEvents)
+      .where(eq(userEvents.userId, userId));
+    return result[0]?.seq ?? null;
+  }
+
+  async pruneUserEvents(before: string): Promise<void> {
+    await this.db.delete(userEvents).where(lt(userEvents.createdAt, before));
+  }
+
+  // Message search
+  async searchMessages(userId: string, filters: MessageSearchFilters): Promise<MessageSearchResult[]> {
+    const tsQuery = toTsQuery(filters.query);
+    if (!tsQuery) return [];
+
+    const limit = Math.min(Math.max(filters.limit ?? 50, 1), 100);
+    const document = sql`to_tsvector('simple', message_search_text(m.content))`;
+    const query = sql`to_tsquery('simple', ${tsQuery})`;
+    const headline = sql`ts_headline('simple', message_search_text(m.content), ${query},
+      ${`StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=12, MinWords=4`})`;
+    const dateFilter = sql.join([
+      filters.from ? sql` AND m.timestamp >= ${filters.from}` : sql``,
+      filters.to ? sql` AND m.timestamp <= ${filters.to}` : sql``,
+    ]);
+
+    // Leave out anyone the user has blocked or been blocked by
+    const notBlocked = (otherUserId: SQL) => sql`
+      AND NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE (b.blocker_id = ${userId} AND b.blocked_id = ${otherUserId})
+          OR (b.blocked_id = ${userId} AND b.blocker_id = ${otherUserId})
+      )`;
+
+    // Direct messages the user sent or received (skipped when filtering by group)
+    const directBranch = filters.groupId ? null : sql`
+      SELECT m.id AS "messageId", 'direct'::text AS "messageType", m.sender_id AS "senderId",
+        m.receiver_id AS "receiverId", NULL::text AS "groupId", m.timestamp AS timestamp, ${headline} AS snippet
+      FROM direct_messages m
+      WHERE ${document} @@ ${query}
+        AND (m.sender_id = ${userId} OR m.receiver_id = ${userId})
+        ${filters.withUserId ? sql`AND (m.sender_id = ${filters.withUserId} OR m.receiver_id = ${filters.withUserId})` : sql``}
+        ${notBlocked(sql`CASE WHEN m.sender_id = ${userId} THEN m.receiver_id ELSE m.sender_id END`)}
+        ${dateFilter}`;
+
+    // Messages in groups the user is currently an accepted member of
+    const groupBranch = sql`
+      SELECT m.id AS "messageId", 'group'::text AS "messageType", m.sender_id AS "senderId",
+        NULL::text AS "receiverId", m.group_id AS "groupId", m.timestamp AS timestamp, ${headline} AS snippet
+      FROM group_messages m
+      JOIN group_members gm ON gm.group_id = m.group_id AND gm.user_id = ${userId} AND gm.status = 'accepted'
+      WHERE ${document} @@ ${query}
+        ${filters.groupId ? sql`AND m.group_id = ${filters.groupId}` : sql``}
+        ${filters.withUserId ? sql`AND m.sender_id = ${filters.withUserId}` : sql``}
+        ${notBlocked(sql`m.sender_id`)}
+        ${dateFilter}`;
+
+    const union = directBranch ? sql`${directBranch} UNION ALL ${groupBranch}` : groupBranch;
+    const result = await this.db.execute(sql`${union} ORDER BY timestamp DESC LIMIT ${limit}`);
+    return result.rows as unknown as MessageSearchResult[];
+  }
+
+  // Message edit history
+  async getMessageEdits(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageEdit & { editedBy: User }>> {
+    const rows = await this.db.select({ edit: messageEdits, editedBy: users })
+      .from(messageEdits)
+      .leftJoin(users, eq(users.id, messageEdits.editedById))
+      .where(and(
+        eq(messageEdits.messageId, messageId),
+        eq(messageEdits.messageType, messageType)
+      ))
+      .orderBy(messageEdits.editedAt);
+
+    return rows.map((row) => ({ ...row.edit, editedBy: row.editedBy! }));
+  }
+
+  // Message reactions
+  async getMessageReactions(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageReaction & { user: User }>> {
+    const reactions = await this.getReactionsForMessages([messageId], messageType);
+    return reactions[messageId] ?? [];
+  }
+
+  // Reactions (with who reacted) on several messages at once, keyed by message id
+  async getReactionsForMessages(messageIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, Array<MessageReaction & { user: User }>>> {
+    if (messageIds.length === 0) return {};
+    const rows = await this.db.select({ reaction: messageReactions, user: users })
+      .from(messageReactions)
+      .leftJoin(users, eq(users.id, messageReactions.userId))
+      .where(and(
+        inArray(messageReactions.messageId, messageIds),
+        eq(messageReactions.messageType, messageType)
+      ));
+
+    const reactions: Record<string, Array<MessageReaction & { user: User }>> = {};
+    for (const row of rows) {
+      (reactions[row.reaction.messageId] ||= []).push({ ...row.reaction, user: row.user! });
+    }
+    return reactions;
+  }
+
+  async getMessageReaction(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<MessageReaction | undefined> {
+    const result = await this.db.select().from(messageReactions)
+      .where(and(
+        eq(messageReactions.messageId, messageId),
+        eq(messageReactions.messageType, messageType),
+        eq(messageReactions.userId, userId)
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  async createMessageReaction(insertReaction: InsertMessageReaction): Promise<MessageReaction> {
+    const id = randomUUID();
+    const reaction = { ...insertReaction, id };
+    await this.db.insert(messageReactions).values(reaction);
+    return reaction as MessageReaction;
+  }
+
+  async deleteMessageReaction(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<void> {
+    await this.db.delete(messageReactions)
+      .where(and(
+        eq(messageReactions.messageId, messageId),
+        eq(messageReactions.messageType, messageType),
+        eq(messageReactions.userId, userId)
+      ));
+  }
+
+  // Message read receipts
+  async getMessageReadReceipts(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageReadReceipt & { user: User }>> {
+    const receipts = await this.db.select().from(messageReadReceipts)
+      .where(and(
+        eq(messageReadReceipts.messageId, messageId),
+        eq(messageReadReceipts.messageType, messageType)
+      ));
+    
+    return Promise.all(receipts.map(async (receipt) => {
+      const user = await this.getUser(receipt.userId);
+      return { ...receipt, user: user! };
+    }));
+  }
+
+  async getMessageReadReceipt(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<MessageReadReceipt | undefined> {
+    const result = await this.db.select().from(messageReadReceipts)
+      .where(and(
+        eq(messageReadReceipts.messageId, messageId),
+        eq(messageReadReceipts.messageType, messageType),
+        eq(messageReadReceipts.userId, userId)
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  async createMessageReadReceipt(insertReceipt: InsertMessageReadReceipt): Promise<MessageReadReceipt> {
+    const id = randomUUID();
+    const receipt = { ...insertReceipt, id };
+    await this.db.insert(messageReadReceipts).values(receipt);
+    return receipt as MessageReadReceipt;
+  }
+
+  async markMessagesAsReadByUser(userId: string, messageIds: string[], messageType: 'direct' | 'group'): Promise<void> {
+    const now = new Date().toISOString();
+    for (const messageId of messageIds) {
+      const existing = await this.getMessageReadReceipt(messageId, messageType, userId);
+      if (!existing) {
+        await this.createMessageReadReceipt({
+          messageId,
+          messageType,
+          userId,
+          readAt: now,
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { Request, Response } from "express";
+import type { IncomingMessage } from "http";
+import {
+  MemoryRateLimitStore,
+  consumeRateLimit,
+  getClientIp,
+  rateLimit,
+  setRateLimitStore,
+  type RateLimit,
+} from "./rate-limit";
+
+const NOW = Date.UTC(2025, 0, 1, 12);
+const limit: RateLimit = { name: "test", windowMs: 60 * 1000, perIp: 3, perSubject: 2 };
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("MemoryRateLimitStore", () => {
+  it("counts hits per key until the window ends", async () => {
+    const store = new MemoryRateLimitStore();
+    expect(await store.increment("a", 1000)).toEqual({ count: 1, resetAt: NOW + 1000 });
+    expect(await store.increment("a", 1000)).toEqual({ count: 2, resetAt: NOW + 1000 });
+    expect(await store.increment("b", 1000)).toEqual({ count: 1, resetAt: NOW + 1000 });
+
+    vi.setSystemTime(NOW + 1000);
+    expect(await store.increment("a", 1000)).toEqual({ count: 1, resetAt: NOW + 2000 });
+  });
+});
+
+describe("consumeRateLimit", () => {
+  it("refuses once the IP bucket is full, until the window resets", async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await consumeRateLimit(limit, { ip: "1.2.3.4" })).toEqual({ allowed: true, retryAfterS: 0 });
+    }
+    vi.setSystemTime(NOW + 15 * 1000);
+    expect(await consumeRateLimit(limit, { ip: "1.2.3.4" })).toEqual({ allowed: false, retryAfterS: 45 });
+    expect((await consumeRateLimit(limit, { ip: "5.6.7.8" })).allowed).toBe(true);
+
+    vi.setSystemTime(NOW + 60 * 1000);
+    expect((await consumeRateLimit(limit, { ip: "1.2.3.4" })).allowed).toBe(true);
+  });
+
+  it("refuses when the subject bucket is full, whatever the IP", async () => {
+    expect((await consumeRateLimit(limit, { ip: "1.1.1.1", subject: "alice" })).allowed).toBe(true);
+    expect((await consumeRateLimit(limit, { ip: "2.2.2.2", subject: "alice" })).allowed).toBe(true);
+    expect(await consumeRateLimit(limit, { ip: "3.3.3.3", subject: "alice" })).toEqual({ allowed: false, retryAfterS: 60 });
+    expect((await consumeRateLimit(limit, { ip: "3.3.3.3", subject: "bob" })).allowed).toBe(true);
+  });
+
+  it("keeps limits with different names apart", async () => {
+    const other: RateLimit = { ...limit, name: "other" };
+    await consumeRateLimit(limit, { subject: "alice" });
+    await consumeRateLimit(limit, { subject: "alice" });
+    expect((await consumeRateLimit(other, { subject: "alice" })).allowed).toBe(true);
+  });
+});
+
+describe("rateLimit middleware", () => {
+  const call = async (middleware: ReturnType<typeof rateLimit>, req: Partial<Request>) => {
+    const res = {
+      headers: {} as Record<string, string>,
+      statusCode: 200,
+      body: undefined as unknown,
+      set(name: string, value: string) { this.headers[name] = value; return this; },
+      status(code: number) { this.statusCode = code; return this; },
+      json(body: unknown) { this.body = body; return this; },
+    };
+    const next = vi.fn();
+    await middleware(req as Request, res as unknown as Response, next);
+    return { res, next };
+  };
+
+  it("passes requests through, then answers 429 with Retry-After", async () => {
+    const middleware = rateLimit(limit);
+    const req = { ip: "1.2.3.4", user: { id: "alice" } } as Partial<Request>;
+
+    expect((await call(middleware, req)).next).toHaveBeenCalledWith();
+    expect((await call(middleware, req)).next).toHaveBeenCalledWith();
+    const { res, next } = await call(middleware, req);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(429);
+    expect(res.headers["Retry-After"]).toBe("60");
+    expect(res.body).toMatchObject({ retryAfter: 60 });
+  });
+
+  it("takes the subject from the given function", async () => {
+    const middleware = rateLimit(limit, (req) => req.body.email);
+    for (const ip of ["1.1.1.1", "2.2.2.2"]) {
+      await call(middleware, { ip, body: { email: "a@example.com" } });
+    }
+    expect((await call(middleware, { ip: "3.3.3.3", body: { email: "a@example.com" } })).res.statusCode).toBe(429);
+    expect((await call(middleware, { ip: "3.3.3.3", body: { email: "b@example.com" } })).next).toHaveBeenCalledWith();
+  });
+
+  it("hands store errors to Express", async () => {
+    const error = new Error("store down");
+    setRateLimitStore({ increment: () => Promise.reject(error) });
+    expect((await call(rateLimit(limit), { ip: "1.2.3.4" })).next).toHaveBeenCalledWith(error);
+  });
+});
+
+describe("getClientIp", () => {
+  const request = (remoteAddress: string, forwardedFor?: string) =>
+    ({ socket: { remoteAddress }, headers: forwardedFor ? { "x-forwarded-for": forwardedFor } : {} }) as unknown as IncomingMessage;
+
+  it("uses the socket address and ignores X-Forwarded-For without TRUST_PROXY", () => {
+    expect(getClientIp(request("10.0.0.1"))).toBe("10.0.0.1");
+    expect(getClientIp(request("10.0.0.1", "6.6.6.6"))).toBe("10.0.0.1");
+  });
+});
@@ -0,0 +1,158 @@
+import type { Request, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+
+// Fixed-window request throttling for HTTP routes and WebSocket frames.
+// Each limit counts hits in two buckets: one per client IP address and one per
+// subject (the signed-in account, or e.g. the target address of a magic link).
+// A request is refused with 429 and Retry-After as soon as either bucket is full.
+
+export interface RateLimit {
+  // Bucket key prefix, also used for the RATE_LIMIT_<NAME>_* overrides
+  name: string;
+  windowMs: number;
+  perIp: number;
+  perSubject: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the fullest bucket empties; 0 when allowed
+  retryAfterS: number;
+}
+
+// Where hit counts live. The default keeps them in this process's memory;
+// a deployment running several server processes can plug in a shared store.
+export interface RateLimitStore {
+  // Count one hit against a key and return the hits so far in the current window
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+  private lastPruneAt = Date.now();
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+
+    return { count: window.count, resetAt: window.resetAt };
+  }
+
+  // Drop finished windows once a minute so idle keys don't pile up
+  private prune(now: number) {
+    if (now - this.lastPruneAt < 60 * 1000) return;
+    this.lastPruneAt = now;
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) this.windows.delete(key);
+    });
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+// RATE_LIMIT_ENABLED=false turns throttling off, e.g. for load tests
+const RATE_LIMIT_ENABLED = process.env.RATE_LIMIT_ENABLED !== "false";
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// A limit with defaults that RATE_LIMIT_<NAME>_PER_IP, _PER_SUBJECT and _WINDOW_S can override
+function defineLimit(name: string, defaults: { windowS: number; perIp: number; perSubject: number }): RateLimit {
+  const prefix = `RATE_LIMIT_${name.toUpperCase()}`;
+  return {
+    name,
+    windowMs: envNumber(`${prefix}_WINDOW_S`, defaults.windowS) * 1000,
+    perIp: envNumber(`${prefix}_PER_IP`, defaults.perIp),
+    perSubject: envNumber(`${prefix}_PER_SUBJECT`, defaults.perSubject),
+  };
+}
+
+export const RATE_LIMITS = {
+  // Subject: the email address a link is sent to, so no inbox can be flooded
+  magicLink: defineLimit("magic_link", { windowS: 15 * 60, perIp: 20, perSubject: 5 }),
+  // Google, passkey and two-factor sign-in attempts. Subject: none, IP only.
+  signIn: defineLimit("sign_in", { windowS: 15 * 60, perIp: 60, perSubject: 60 }),
+  connectionRequests: defineLimit("connection_requests", { windowS: 60 * 60, perIp: 200, perSubject: 50 }),
+  // Direct and group messages, whether sent over HTTP or the WebSocket
+  messages: defineLimit("messages", { windowS: 60, perIp: 300, perSubject: 60 }),
+  uploads: defineLimit("uploads", { windowS: 60 * 60, perIp: 300, perSubject: 100 }),
+  // Every frame a socket sends, including typing indicators and receipts
+  socketFrames: defineLimit("socket_frames", { windowS: 10, perIp: 500, perSubject: 100 }),
+} satisfies Record<string, RateLimit>;
+
+// Count one hit for a client IP and/or subject against a limit
+export async function consumeRateLimit(
+  limit: RateLimit,
+  client: { ip?: string | null; subject?: string | null }
+): Promise<RateLimitResult> {
+  if (!RATE_LIMIT_ENABLED) return { allowed: true, retryAfterS: 0 };
+
+  const buckets: [string, number][] = [];
+  if (client.ip) buckets.push([`${limit.name}:ip:${client.ip}`, limit.perIp]);
+  if (client.subject) buckets.push([`${limit.name}:subject:${client.subject}`, limit.perSubject]);
+
+  const now = Date.now();
+  let retryAfterS = 0;
+  for (const [key, max] of buckets) {
+    const { count, resetAt } = await store.increment(key, limit.windowMs);
+    if (count > max) {
+      retryAfterS = Math.max(retryAfterS, Math.ceil((resetAt - now) / 1000));
+    }
+  }
+
+  return { allowed: retryAfterS === 0, retryAfterS };
+}
+
+// Number of reverse proxies in front of the server (TRUST_PROXY). Their
+// X-Forwarded-For entries are trusted so limits apply to the real client address.
+export const TRUST_PROXY_HOPS = Math.max(0, parseInt(process.env.TRUST_PROXY || "0", 10) || 0);
+
+// Client address of a raw request such as a WebSocket upgrade, resolved the
+// same way Express resolves req.ip with "trust proxy" set to TRUST_PROXY_HOPS
+export function getClientIp(req: IncomingMessage): string | null {
+  const forwarded = req.headers["x-forwarded-for"];
+  const chain = [
+    req.socket.remoteAddress,
+    ...(typeof forwarded === "string" ? forwarded.split(",").map((address) => address.trim()).reverse() : []),
+  ].filter(Boolean);
+  return chain[Math.min(TRUST_PROXY_HOPS, chain.length - 1)] || null;
+}
+
+export function sendRateLimited(res: Response, retryAfterS: number) {
+  res.set("Retry-After", String(retryAfterS));
+  return res.status(429).json({ error: "Too many requests, please try again later", retryAfter: retryAfterS });
+}
+
+// Middleware throttling a route by client IP and by subject, which defaults to
+// the account requireAuth put on the request
+export function rateLimit(
+  limit: RateLimit,
+  getSubject: (req: Request) => string | null | undefined | Promise<string | null | undefined> = (req) =>
+    (req as any).user?.id
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subject = await getSubject(req);
+      const result = await consumeRateLimit(limit, { ip: req.ip, subject });
+      if (!result.allowed) {
+        return sendRateLimited(res, result.retryAfterS);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,13 +1,86 @@
 import type { Express, Request, Response } from "express";
-import { type Server } from "http";
+import { type Server, type IncomingMessage } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import cookieParser from "cookie-parser";
 import express from "express";
 import path from "path";
 import { storage } from "./storage";
-import authRouter, { requireAuth, getCurrentUser } from "./auth";
-import uploadRouter from "./upload";
+import authRouter, {
+  requireAuth,
+  getCurrentUser,
+  getSessionFromRequest,
+  getSessionById,
+  getActiveSuspension,
+  rejectSuspendedAccounts,
+  refreshSessionCookie,
+  sessionEvents,
+} from "./auth";
+import uploadRouter, { messageAttachmentsDir } from "./upload";
+import { RATE_LIMITS, consumeRateLimit, getClientIp, rateLimit, type RateLimit } from "./rate-limit";
+import { linkPreviewService, toLinkPreviewInfo } from "./link-preview";
+import {
+  FEED_RANKING_CANDIDATES,
+  FEED_SORTS,
+  decodeFeedCursor,
+  encodeFeedCursor,
+  getRankedFeedPage,
+  rankPosts,
+  type FeedCursor,
+  type FeedSort,
+} from "./feed-ranking";
 import { randomUUID } from "crypto";
+import fs from "fs";
+import {
+  REPORT_REASONS,
+  REPORT_TARGET_TYPES,
+  USER_ROLES,
+  type DirectMessage,
+  type DirectMessageStatus,
+  type MessageAttachment,
+  type MessageAttachmentInfo,
+  type ParentPreview,
+  type PublicUser,
+  type ReportTargetType,
+  type User,
+} from "@shared/schema";
+
+// Conversation history page sizes (?limit=)
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+const MAX_MESSAGE_PAGE_SIZE = 100;
+
+// Posts feed page sizes (?limit=)
+const DEFAULT_POST_PAGE_SIZE = 20;
+const MAX_POST_PAGE_SIZE = 50;
+
+// Close code sent when a socket's session is logged out, revoked or expired
+const WS_CLOSE_SESSION_ENDED = 4401;
+const WS_SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Frames logged per user so a reconnecting client can resume from its last seen seq
+const RESUMABLE_EVENT_TYPES = new Set([
+  "direct_message",
+  "direct_message_sent",
+  "direct_message_status",
+  "group_message",
+  "thread_reply",
+  "message_edited",
+  "voice_message_played",
+  "notification",
+  "connection_request",
+  "connection_accepted",
+  "new_connection",
+  "group_invitation",
+]);
+const USER_EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const USER_EVENT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// Beyond this many missed events the client is told to refetch instead
+const RESUME_REPLAY_LIMIT = 500;
+// Sockets that never send "resume" start receiving live events after this long
+const RESUME_TIMEOUT_MS = 10 * 1000;
+
+// What members see of a suspended account's posts, REALS, comments and profile:
+// "hide" (default) removes them for everyone but moderators, "keep" leaves them up
+const SUSPENDED_CONTENT_POLICY = process.env.SUSPENDED_CONTENT_POLICY === "keep" ? "keep" : "hide";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -19,9 +92,15 @@ export async function registerRoutes(
   // Serve profile pictures statically
   app.use("/profile_pictures", express.static(path.join(process.cwd(), "profile_pictures")));
   
+  // Keep the session cookie's expiry in step with the sliding server-side expiry
+  app.use("/api", refreshSessionCookie);
+
   // Auth routes
   app.use("/api/auth", authRouter);
 
+  // Everything else is off limits to suspended accounts
+  app.use("/api", rejectSuspendedAccounts);
+
   // Public config endpoint (for runtime environment variables)
   app.get("/api/config", (_req: Request, res: Response) => {
     res.json({
@@ -32,41 +111,179 @@ export async function registerRoutes(
   // Upload routes
   app.use("/api/upload", uploadRouter);
 
-  // WebSocket server for live chat and direct messages
-  const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
-  
+  // Throttle a route per client IP and per signed-in account
+  function userRateLimit(limit: RateLimit) {
+    return rateLimit(limit, async (req) => (await getCurrentUser(req))?.id);
+  }
+
+  // WebSocket server state
   const clients = new Set<WebSocket>();
-  const userConnections = new Map<string, WebSocket>();
+  const userConnections = new Map<string, Set<WebSocket>>();
+  const socketSessions = new Map<WebSocket, string>();
+  const socketAuth = new WeakMap<IncomingMessage, { userId: string; sessionId: string }>();
+  // Live events held back from a socket until its "resume" replay has been sent
+  const resumingSockets = new Map<WebSocket, { pending: any[]; started: boolean; timeout: NodeJS.Timeout }>();
+
+  // WebSocket server for live chat and direct messages.
+  // Sockets are authenticated from the session cookie during the upgrade handshake;
+  // the user is never taken from a client-supplied frame.
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: "/ws",
+    verifyClient: (info, done) => {
+      getSessionFromRequest(info.req)
+        .then((result) => {
+          if (!result) {
+            done(false, 401, "Unauthorized");
+            return;
+          }
+          socketAuth.set(info.req, {
+            userId: result.user.id,
+            sessionId: result.session.id,
+          });
+          done(true);
+        })
+        .catch((error) => {
+          console.error("WebSocket auth error:", error);
+          done(false, 500, "Internal Server Error");
+        });
+    },
+  });
+
+  // Close every socket opened with the given session
+  function closeSessionSockets(sessionId: string) {
+    socketSessions.forEach((socketSessionId, socket) => {
+      if (socketSessionId === sessionId) {
+        socket.close(WS_CLOSE_SESSION_ENDED, "Session ended");
+      }
+    });
+  }
+
+  // Close every socket of a user, e.g. when the account is suspended
+  function closeUserSockets(userId: string) {
+    userConnections.get(userId)?.forEach((socket) => {
+      socket.close(WS_CLOSE_SESSION_ENDED, "Session ended");
+    });
+  }
+
+  // A rotated session keeps its sockets under the new ID
+  function renameSessionSockets(sessionId: string, newSessionId: string) {
+    socketSessions.forEach((socketSessionId, socket) => {
+      if (socketSessionId === sessionId) {
+        socketSessions.set(socket, newSessionId);
+      }
+    });
+  }
+
+  sessionEvents.on("ended", closeSessionSockets);
+  sessionEvents.on("rotated", renameSessionSockets);
+
+  // Periodically drop sockets whose session has expired or been removed
+  const sessionSweep = setInterval(async () => {
+    const sessionIds = new Set(socketSessions.values());
+    for (const sessionId of Array.from(sessionIds)) {
+      try {
+        const result = await getSessionById(sessionId);
+        if (!result || getActiveSuspension(result.user)) {
+          closeSessionSockets(sessionId);
+        }
+      } catch (error) {
+        console.error("WebSocket session sweep error:", error);
+      }
+    }
+  }, WS_SESSION_SWEEP_INTERVAL_MS);
+
+  const eventPrune = setInterval(async () => {
+    try {
+      await storage.pruneUserEvents(new Date(Date.now() - USER_EVENT_RETENTION_MS).toISOString());
+    } catch (error) {
+      console.error("User event prune error:", error);
+    }
+  }, USER_EVENT_PRUNE_INTERVAL_MS);
+
+  wss.on("close", () => {
+    clearInterval(sessionSweep);
+    clearInterval(eventPrune);
+    sessionEvents.off("ended", closeSessionSockets);
+    sessionEvents.off("rotated", renameSessionSockets);
+  });
+
+  wss.on("connection", async (ws, req) => {
+    const auth = socketAuth.get(req);
+    if (!auth) {
+      ws.close(WS_CLOSE_SESSION_ENDED, "Unauthorized");
+      return;
+    }
 
-  wss.on("connection", (ws) => {
-    let userId: string | null = null;
+    const userId: string = auth.userId;
+    const clientIp = getClientIp(req);
     clients.add(ws);
+    socketSessions.set(ws, auth.sessionId);
+    resumingSockets.set(ws, {
+      pending: [],
+      started: false,
+      timeout: setTimeout(() => resumeSocket(ws, userId, null), RESUME_TIMEOUT_MS),
+    });
+
+    // A user can be connected from several tabs/devices at once
+    let userSockets = userConnections.get(userId);
+    const isFirstSocket = !userSockets || userSockets.size === 0;
+    if (!userSockets) {
+      userSockets = new Set();
+      userConnections.set(userId, userSockets);
+    }
+    userSockets.add(ws);
+
+    // Frames over a limit are dropped with an "error" frame saying when to retry
+    const isRateLimited = async (limit: RateLimit) => {
+      const result = await consumeRateLimit(limit, { ip: clientIp, subject: userId });
+      if (result.allowed) return false;
+      ws.send(JSON.stringify({
+        type: "error",
+        code: "rate_limited",
+        message: "Too many requests, please try again later",
+        retryAfter: result.retryAfterS,
+      }));
+      return true;
+    };
 
     ws.on("message", async (message) => {
       try {
+        if (await isRateLimited(RATE_LIMITS.socketFrames)) return;
         const data = JSON.parse(message.toString());
         
-        if (data.type === "connect") {
-          userId = data.userId;
-          if (userId) {
-            userConnections.set(userId, ws);
-            await storage.setUserOnline(userId, true);
-            
-            // Broadcast online status
-            broadcastToAll({
-              type: "user_online",
-              userId,
-            });
-          }
+        if (data.type === "resume") {
+          await resumeSocket(ws, userId, typeof data.cursor === "number" ? data.cursor : null);
           return;
         }
         
-        if (data.type === "direct_message" && userId) {
-          const { receiverId, content } = data;
+        if (data.type === "direct_message") {
+          const { receiverId, content, parentId, attachmentIds } = data;
+          const clientId = getClientMessageId(data.clientId);
+          
+          // A retried send from the outbox: confirm the message that already exists
+          if (clientId) {
+            const existing = await storage.getDirectMessageByClientId(userId, clientId);
+            if (existing) {
+              const [dmMessage] = await withAttachments(await withThreadInfo([existing], 'direct'), 'direct');
+              ws.send(JSON.stringify({ type: "direct_message_sent", data: dmMessage }));
+              return;
+            }
+          }
+          
+          if (await isRateLimited(RATE_LIMITS.messages)) return;
+          
+          if (isInlineImage(content)) {
+            ws.send(JSON.stringify({
+              type: "error",
+              message: "Images must be sent as attachments",
+            }));
+            return;
+          }
           
           // Check if users are connected
           const connection = await storage.getConnectionBetweenUsers(userId, receiverId);
-          if (!connection || connection.status !== "accepted") {
+          if (!connection || connection.status !== "accepted" || await storage.isBlockedBetween(userId, receiverId)) {
             ws.send(JSON.stringify({
               type: "error",
               message: "You can only message users you are connected with",
@@ -74,36 +291,63 @@ export async function registerRoutes(
             return;
           }
           
+          if (parentId && !(await isValidDirectParent(parentId, userId, receiverId))) {
+            ws.send(JSON.stringify({
+              type: "error",
+              message: "Invalid parent message",
+            }));
+            return;
+          }
+          
+          const attachments = await getSendableAttachments(attachmentIds, userId);
+          if (!attachments) {
+            ws.send(JSON.stringify({
+              type: "error",
+              message: "Invalid attachments",
+            }));
+            return;
+          }
+          if (!content && attachments.length === 0) return;
+          
           const sender = await storage.getUser(userId);
-          const dmMessage = await storage.createDirectMessage({
+          const created = await storage.createDirectMessage({
             senderId: userId,
             receiverId,
-            content,
+            content: content || "",
             timestamp: new Date().toISOString(),
             isRead: false,
+            parentId: parentId || null,
+            clientId,
           });
+          await storage.attachFilesToMessage(attachments.map((a) => a.id), created.id, 'direct');
+          const parent = created.parentId ? await getParentPreview(created.parentId, 'direct') : null;
+          const dmMessage = { ...created, parent, replyCount: 0, attachments: attachments.map((a) => toAttachmentInfo(a)) };
           
           // Send to receiver if online
-          const recipientWs = userConnections.get(receiverId);
-          if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-            recipientWs.send(JSON.stringify({
-              type: "direct_message",
-              data: {
-                ...dmMessage,
-                sender,
-              },
-            }));
-          }
+          sendToUser(receiverId, {
+            type: "direct_message",
+            data: {
+              ...dmMessage,
+              sender,
+            },
+          });
           
-          // Send confirmation to sender
-          ws.send(JSON.stringify({
+          // Send confirmation to all of the sender's devices
+          sendToUser(userId, {
             type: "direct_message_sent",
             data: dmMessage,
-          }));
+          });
+          
+          if (dmMessage.parentId) {
+            const threadEvent = { type: "thread_reply", data: { messageType: "direct", parentId: dmMessage.parentId, message: dmMessage } };
+            sendToUser(receiverId, threadEvent);
+            sendToUser(userId, threadEvent);
+          }
           return;
         }
         
-        if (data.type === "chat" && userId) {
+        if (data.type === "chat") {
+          if (await isRateLimited(RATE_LIMITS.messages)) return;
           const sender = await storage.getUser(userId);
           if (!sender) return;
           
@@ -151,16 +395,28 @@ export async function registerRoutes(
           }, 1500);
         }
         
-        if (data.type === "typing" && userId) {
+        if (data.type === "message_delivered") {
+          // One of our sockets received direct messages; tell their senders
+          const messageIds = Array.isArray(data.messageIds)
+            ? data.messageIds.filter((id: unknown): id is string => typeof id === "string").slice(0, 100)
+            : [];
+          const delivered = await storage.markDirectMessagesDelivered(userId, messageIds);
+          notifyDirectMessageStatus(delivered, "delivered");
+          return;
+        }
+        
+        if (data.type === "typing") {
           const { receiverId, isTyping } = data;
-          const recipientWs = userConnections.get(receiverId);
-          if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-            recipientWs.send(JSON.stringify({
-              type: "typing",
-              userId,
-              isTyping,
-            }));
+          // Only to users this one could message, like direct_message above
+          const connection = await storage.getConnectionBetweenUsers(userId, receiverId);
+          if (!connection || connection.status !== "accepted" || await storage.isBlockedBetween(userId, receiverId)) {
+            return;
           }
+          sendToUser(receiverId, {
+            type: "typing",
+            userId,
+            isTyping,
+          });
         }
       } catch (error) {
         console.error("WebSocket message error:", error);
@@ -169,19 +425,161 @@ export async function registerRoutes(
 
     ws.on("close", async () => {
       clients.delete(ws);
-      if (userId) {
-        userConnections.delete(userId);
-        await storage.setUserOnline(userId, false);
-        
-        // Broadcast offline status
-        broadcastToAll({
-          type: "user_offline",
-          userId,
-        });
-      }
+      socketSessions.delete(ws);
+      const resuming = resumingSockets.get(ws);
+      if (resuming) {
+        clearTimeout(resuming.timeout);
+        resumingSockets.delete(ws);
+      }
+
+      const remainingSockets = userConnections.get(userId);
+      remainingSockets?.delete(ws);
+      if (remainingSockets && remainingSockets.size > 0) {
+        // Still connected from another tab/device
+        return;
+      }
+      userConnections.delete(userId);
+      await storage.setUserOnline(userId, false);
+      
+      // Broadcast offline status
+      broadcastToAll({
+        type: "user_offline",
+        userId,
+      });
     });
+
+    if (isFirstSocket) {
+      await storage.setUserOnline(userId, true);
+      
+      // Broadcast online status
+      broadcastToAll({
+        type: "user_online",
+        userId,
+      });
+    }
   });
 
+  // Send a message to every open socket of a user. Resumable events are logged
+  // first and carry their position in the user's event log as `seq`.
+  function sendToUser(userId: string, message: any) {
+    if (!RESUMABLE_EVENT_TYPES.has(message.type)) {
+      deliverToUser(userId, message);
+      return;
+    }
+    storage.appendUserEvent(userId, message.type, JSON.stringify(message))
+      .then((seq) => deliverToUser(userId, { ...message, seq }))
+      .catch((error) => console.error("Error logging user event:", error));
+  }
+
+  function deliverToUser(userId: string, message: any) {
+    const sockets = userConnections.get(userId);
+    if (!sockets) return;
+
+    const messageStr = JSON.stringify(message);
+    sockets.forEach((socket) => {
+      const resuming = resumingSockets.get(socket);
+      if (resuming) {
+        resuming.pending.push(message);
+      } else if (socket.readyState === WebSocket.OPEN) {
+        socket.send(messageStr);
+      }
+    });
+  }
+
+  // Bring a newly connected socket up to date: replay the logged events after
+  // the client's cursor (or ask it to refetch if too much was missed), release
+  // the live events held back meanwhile, then deliver queued direct messages.
+  async function resumeSocket(ws: WebSocket, userId: string, cursor: number | null) {
+    const resuming = resumingSockets.get(ws);
+    if (!resuming || resuming.started) return;
+    resuming.started = true;
+    clearTimeout(resuming.timeout);
+
+    let sentUpTo = 0;
+    const replayedMessageIds = new Set<string>();
+    try {
+      const latest = await storage.getLatestUserEventSeq(userId);
+      sentUpTo = latest;
+      if (cursor === null || cursor === latest) {
+        ws.send(JSON.stringify({ type: "resumed", cursor: latest }));
+      } else {
+        const oldest = await storage.getOldestUserEventSeq(userId);
+        const events = cursor < latest
+          ? await storage.getUserEventsAfter(userId, cursor, RESUME_REPLAY_LIMIT + 1)
+          : [];
+        // Too far behind, events already pruned, or a cursor from a different log.
+        // Pruning goes oldest first, so once the event at the cursor is gone the
+        // ones after it may be too.
+        if (cursor > latest || events.length > RESUME_REPLAY_LIMIT || (oldest !== null && cursor < oldest)) {
+          ws.send(JSON.stringify({ type: "resync_required", cursor: latest }));
+        } else {
+          for (const event of events) {
+            const message = JSON.parse(event.payload);
+            if (message.type === "direct_message") replayedMessageIds.add(message.data.id);
+            ws.send(JSON.stringify({ ...message, seq: event.seq }));
+          }
+          ws.send(JSON.stringify({ type: "resumed", cursor: latest }));
+        }
+      }
+    } catch (error) {
+      console.error("Error resuming socket:", error);
+    } finally {
+      resumingSockets.delete(ws);
+    }
+
+    for (const message of resuming.pending) {
+      if (message.seq !== undefined && message.seq <= sentUpTo) continue;
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+    }
+
+    try {
+      await sendQueuedDirectMessages(ws, userId, replayedMessageIds);
+    } catch (error) {
+      console.error("Error delivering queued messages:", error);
+    }
+  }
+
+  // Tell each sender that their direct messages were delivered to or read by the receiver
+  function notifyDirectMessageStatus(messages: DirectMessage[], status: DirectMessageStatus) {
+    const bySender = new Map<string, DirectMessage[]>();
+    for (const msg of messages) {
+      bySender.set(msg.senderId, [...(bySender.get(msg.senderId) || []), msg]);
+    }
+    bySender.forEach((senderMessages, senderId) => {
+      const last = senderMessages[senderMessages.length - 1];
+      sendToUser(senderId, {
+        type: "direct_message_status",
+        data: {
+          status,
+          receiverId: last.receiverId,
+          messageIds: senderMessages.map((m) => m.id),
+          deliveredAt: last.deliveredAt,
+          readAt: last.readAt,
+        },
+      });
+    });
+  }
+
+  // Replay undelivered direct messages to a newly connected socket; its
+  // "message_delivered" acknowledgement marks them as delivered
+  async function sendQueuedDirectMessages(ws: WebSocket, userId: string, skipIds: Set<string>) {
+    const queued = (await storage.getUndeliveredDirectMessages(userId)).filter((m) => !skipIds.has(m.id));
+    if (queued.length === 0) return;
+
+    const messages = await withAttachments(await withThreadInfo(queued, 'direct'), 'direct');
+    const senders = new Map<string, User | undefined>();
+    for (const msg of messages) {
+      if (!senders.has(msg.senderId)) {
+        senders.set(msg.senderId, await storage.getUser(msg.senderId));
+      }
+      if (ws.readyState !== WebSocket.OPEN) return;
+      ws.send(JSON.stringify({
+        type: "direct_message",
+        data: { ...msg, sender: senders.get(msg.senderId) },
+      }));
+    }
+  }
+
   function broadcastToAll(message: any) {
     const messageStr = JSON.stringify(message);
     clients.forEach((client) => {
@@ -191,6 +589,154 @@ export async function registerRoutes(
     });
   }
 
+  // Suspended accounts whose content is hidden from the viewer (see SUSPENDED_CONTENT_POLICY)
+  async function getHiddenSuspendedUserIds(viewer: User | null) {
+    if (SUSPENDED_CONTENT_POLICY === "keep" || (viewer && isModerator(viewer))) return [];
+    return storage.getSuspendedUserIds();
+  }
+
+  // Users whose content is hidden from the viewer: blocked either way, muted by
+  // the viewer, or suspended
+  async function getHiddenUserIds(viewer: User | null) {
+    const [blocked, muted, suspended] = await Promise.all([
+      viewer ? storage.getBlockedUserIds(viewer.id) : [],
+      viewer ? storage.getMutedUserIds(viewer.id) : [],
+      getHiddenSuspendedUserIds(viewer),
+    ]);
+    return Array.from(new Set([...blocked, ...muted, ...suspended]));
+  }
+
+  // Just the fields of a user that PublicUser exposes
+  function toPublicUser(user: User): PublicUser {
+    return { id: user.id, name: user.name, fullName: user.fullName, avatarUrl: user.avatarUrl };
+  }
+
+  // Inline base64 images ("[IMAGE]data:...") from before attachments existed.
+  // Clients render one anywhere in the content, so any occurrence is refused;
+  // images have to be uploaded as attachments now.
+  function isInlineImage(content: unknown) {
+    return typeof content === "string" && content.includes("[IMAGE]data:");
+  }
+
+  // Client-generated message id used to make retried sends idempotent
+  function getClientMessageId(value: unknown) {
+    return typeof value === "string" && value.length > 0 && value.length <= 64 ? value : null;
+  }
+
+  // Read ?before=, ?after= and ?limit= for a page of conversation history
+  function getMessagePageOptions(req: Request) {
+    const { before, after, limit } = req.query;
+    const parsedLimit = parseInt(limit as string);
+    return {
+      before: typeof before === "string" && before ? before : undefined,
+      after: typeof after === "string" && after ? after : undefined,
+      limit: parsedLimit > 0 ? Math.min(parsedLimit, MAX_MESSAGE_PAGE_SIZE) : DEFAULT_MESSAGE_PAGE_SIZE,
+    };
+  }
+
+  // Short form of a replied-to message, shown quoted above the reply
+  async function getParentPreview(parentId: string, messageType: 'direct' | 'group'): Promise<ParentPreview | null> {
+    const parent = messageType === 'group'
+      ? await storage.getGroupMessage(parentId)
+      : await storage.getDirectMessage(parentId);
+    if (!parent) return null;
+
+    const sender = await storage.getUser(parent.senderId);
+    return {
+      id: parent.id,
+      senderId: parent.senderId,
+      senderName: sender?.fullName || sender?.name || "",
+      content: parent.content,
+    };
+  }
+
+  // Attach the quoted parent and the number of replies to each message
+  async function withThreadInfo<T extends { id: string; parentId: string | null }>(
+    messages: T[],
+    messageType: 'direct' | 'group'
+  ) {
+    const replyCounts = await storage.getReplyCounts(messages.map((m) => m.id), messageType);
+
+    return Promise.all(messages.map(async (msg) => {
+      const parent = msg.parentId ? await getParentPreview(msg.parentId, messageType) : null;
+      return { ...msg, parent, replyCount: replyCounts[msg.id] || 0 };
+    }));
+  }
+
+  // Public shape of an attachment, served through GET /api/attachments/:id
+  function toAttachmentInfo(attachment: MessageAttachment, playedBy: string[] = []): MessageAttachmentInfo {
+    const info: MessageAttachmentInfo = {
+      id: attachment.id,
+      originalName: attachment.originalName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      url: `/api/attachments/${attachment.id}`,
+    };
+    if (attachment.mimeType.startsWith("audio/")) {
+      info.durationMs = attachment.durationMs;
+      info.waveform = attachment.waveform ? JSON.parse(attachment.waveform) : null;
+      info.playedBy = playedBy;
+    }
+    return info;
+  }
+
+  async function withAttachments<T extends { id: string }>(messages: T[], messageType: 'direct' | 'group') {
+    const attachmentsByMessage = await storage.getAttachmentsForMessages(messages.map((m) => m.id), messageType);
+    const voiceIds = Object.values(attachmentsByMessage).flat()
+      .filter((a) => a.mimeType.startsWith("audio/"))
+      .map((a) => a.id);
+    const plays = await storage.getVoiceMessagePlays(voiceIds);
+
+    return messages.map((msg) => ({
+      ...msg,
+      attachments: (attachmentsByMessage[msg.id] ?? []).map((a) => toAttachmentInfo(a, plays[a.id])),
+    }));
+  }
+
+  async function withReactions<T extends { id: string }>(messages: T[], messageType: 'direct' | 'group') {
+    const reactions = await storage.getReactionsForMessages(messages.map((m) => m.id), messageType);
+    return messages.map((msg) => ({ ...msg, reactions: reactions[msg.id] ?? [] }));
+  }
+
+  // Participants of the conversation an attachment was sent in (only the uploader before it is sent)
+  async function canAccessAttachment(attachment: MessageAttachment, userId: string) {
+    if (attachment.uploaderId === userId) return true;
+    if (!attachment.messageId) return false;
+
+    if (attachment.messageType === 'group') {
+      const message = await storage.getGroupMessage(attachment.messageId);
+      const membership = message ? await storage.getGroupMember(message.groupId, userId) : undefined;
+      return membership?.status === "accepted";
+    }
+
+    const message = await storage.getDirectMessage(attachment.messageId);
+    return !!message && (message.senderId === userId || message.receiverId === userId);
+  }
+
+  // Attachments can only be sent by their uploader, and only once.
+  // Returns the validated attachments, or null if any id is unusable.
+  async function getSendableAttachments(attachmentIds: unknown, userId: string) {
+    if (attachmentIds === undefined || attachmentIds === null) return [];
+    if (!Array.isArray(attachmentIds) || attachmentIds.length > 10) return null;
+
+    const attachments: MessageAttachment[] = [];
+    for (const id of Array.from(new Set(attachmentIds))) {
+      if (typeof id !== "string") return null;
+      const attachment = await storage.getMessageAttachment(id);
+      if (!attachment || attachment.uploaderId !== userId || attachment.messageId) return null;
+      attachments.push(attachment);
+    }
+    return attachments;
+  }
+
+  // A direct reply must point at a message in the same conversation
+  async function isValidDirectParent(parentId: string, userId: string, otherUserId: string) {
+    const parent = await storage.getDirectMessage(parentId);
+    if (!parent) return false;
+    return (parent.senderId === userId && parent.receiverId === otherUserId) ||
+      (parent.senderId === otherUserId && parent.receiverId === userId);
+  }
+
   // Get current user
   app.get("/api/users/me", async (req: Request, res: Response) => {
     try {
@@ -211,7 +757,8 @@ export async function registerRoutes(
       if (!user) {
         return res.status(401).json({ error: "Not authenticated" });
       }
-      const updates = req.body;
+      // Role and suspension can only be changed through the moderation API
+      const { role, suspendedAt, suspendedUntil, suspensionReason, ...updates } = req.body;
       const updatedUser = await storage.updateUser(user.id, updates);
       if (!updatedUser) {
         return res.status(404).json({ error: "User not found" });
@@ -225,6 +772,7 @@ export async function registerRoutes(
   // Get all users (only completed profiles)
   app.get("/api/users", async (req: Request, res: Response) => {
     try {
+      const currentUser = await getCurrentUser(req);
       const interests = req.query.interests as string | undefined;
       const search = req.query.search as string | undefined;
       
@@ -232,6 +780,12 @@ export async function registerRoutes(
         ? await storage.getUsersByInterests(interests.split(","))
         : await storage.getAllUsers();
 
+      const hiddenIds = [
+        ...(currentUser ? await storage.getBlockedUserIds(currentUser.id) : []),
+        ...(await getHiddenSuspendedUserIds(currentUser)),
+      ];
+      users = users.filter((user) => !hiddenIds.includes(user.id));
+
       if (search) {
         const searchLower = search.toLowerCase();
         users = users.filter(
@@ -252,6 +806,13 @@ export async function registerRoutes(
   // Get posts by user ID - MUST be before :id route
   app.get("/api/users/:userId/posts", async (req: Request, res: Response) => {
     try {
+      const currentUser = await getCurrentUser(req);
+      if (currentUser && await storage.isBlockedBetween(currentUser.id, req.params.userId)) {
+        return res.json([]);
+      }
+      if ((await getHiddenSuspendedUserIds(currentUser)).includes(req.params.userId)) {
+        return res.json([]);
+      }
       const posts = await storage.getPostsByUserId(req.params.userId);
       res.json(posts);
     } catch (error) {
@@ -262,6 +823,13 @@ export async function registerRoutes(
   // Get REALS by user ID - MUST be before :id route
   app.get("/api/users/:userId/reals", async (req: Request, res: Response) => {
     try {
+      const currentUser = await getCurrentUser(req);
+      if (currentUser && await storage.isBlockedBetween(currentUser.id, req.params.userId)) {
+        return res.json([]);
+      }
+      if ((await getHiddenSuspendedUserIds(currentUser)).includes(req.params.userId)) {
+        return res.json([]);
+      }
       const reals = await storage.getShortsByUserId(req.params.userId);
       res.json(reals);
     } catch (error) {
@@ -278,8 +846,12 @@ export async function registerRoutes(
 
       let users = await storage.getAllUsers();
       
-      // Filter out current user
-      users = users.filter((u) => u.id !== currentUser.id);
+      // Filter out current user, blocked users and hidden suspended accounts
+      const hiddenIds = [
+        ...(await storage.getBlockedUserIds(currentUser.id)),
+        ...(await getHiddenSuspendedUserIds(currentUser)),
+      ];
+      users = users.filter((u) => u.id !== currentUser.id && !hiddenIds.includes(u.id));
 
       // Sort by number of shared interests
       users.sort((a, b) => {
@@ -305,7 +877,28 @@ export async function registerRoutes(
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      res.json(user);
+
+      const currentUser = await getCurrentUser(req);
+      if (currentUser?.id === user.id) {
+        return res.json(user);
+      }
+      if ((await getHiddenSuspendedUserIds(currentUser)).includes(user.id)) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (!currentUser) {
+        return res.json(user);
+      }
+
+      // Someone who blocked the viewer looks like they don't exist
+      const [blockedByViewer, mutedIds] = await Promise.all([
+        storage.getBlockedUsers(currentUser.id),
+        storage.getMutedUserIds(currentUser.id),
+      ]);
+      const isBlocked = blockedByViewer.some((u) => u.id === user.id);
+      if (!isBlocked && await storage.isBlockedBetween(currentUser.id, user.id)) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({ ...user, isBlocked, isMuted: mutedIds.includes(user.id) });
     } catch (error) {
       res.status(500).json({ error: "Failed to get user" });
     }
@@ -384,7 +977,7 @@ export async function registerRoutes(
   });
 
   // Create connection request
-  app.post("/api/connections", async (req: Request, res: Response) => {
+  app.post("/api/connections", userRateLimit(RATE_LIMITS.connectionRequests), async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
@@ -397,6 +990,10 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Receiver ID is required" });
       }
 
+      if (await storage.isBlockedBetween(currentUser.id, receiverId)) {
+        return res.status(403).json({ error: "You cannot connect with this user" });
+      }
+
       // Check if connection already exists
       const existing = await storage.getConnectionBetweenUsers(currentUser.id, receiverId);
       if (existing) {
@@ -422,17 +1019,14 @@ export async function registerRoutes(
       });
 
       // Notify via WebSocket if user is online
-      const receiverWs = userConnections.get(receiverId);
-      if (receiverWs && receiverWs.readyState === WebSocket.OPEN) {
-        receiverWs.send(JSON.stringify({
-          type: "notification",
-          data: {
-            type: "connection_request",
-            fromUser: currentUser,
-            connectionId: connection.id,
-          },
-        }));
-      }
+      sendToUser(receiverId, {
+        type: "notification",
+        data: {
+          type: "connection_request",
+          fromUser: currentUser,
+          connectionId: connection.id,
+        },
+      });
 
       res.json(connection);
     } catch (error) {
@@ -497,17 +1091,14 @@ export async function registerRoutes(
         }
 
         // Notify via WebSocket
-        const requesterWs = userConnections.get(connection.requesterId);
-        if (requesterWs && requesterWs.readyState === WebSocket.OPEN) {
-          requesterWs.send(JSON.stringify({
-            type: "notification",
-            data: {
-              type: "connection_accepted",
-              fromUser: currentUser,
-              connectionId: connection.id,
-            },
-          }));
-        }
+        sendToUser(connection.requesterId, {
+          type: "notification",
+          data: {
+            type: "connection_accepted",
+            fromUser: currentUser,
+            connectionId: connection.id,
+          },
+        });
       }
 
       res.json(updatedConnection);
@@ -541,195 +1132,1001 @@ export async function registerRoutes(
     }
   });
 
-  // Get notifications
-  app.get("/api/notifications", async (req: Request, res: Response) => {
+  // ==================== BLOCKS AND MUTES API ====================
+
+  // Users the current user has blocked
+  app.get("/api/blocks", async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ error: "Not authenticated" });
       }
-      
-      const notifications = await storage.getNotifications(currentUser.id);
-      
-      // Populate with user data
-      const notificationsWithUsers = await Promise.all(
-        notifications.map(async (notification) => {
-          if (notification.fromUserId) {
-            const fromUser = await storage.getUser(notification.fromUserId);
-            const connectionsCount = fromUser 
-              ? await storage.getAcceptedConnectionsCount(fromUser.id)
-              : 0;
-            return {
-              ...notification,
-              fromUser: fromUser ? {
-                ...fromUser,
-                connectionsCount,
-              } : null,
-            };
-          }
-          return notification;
-        })
-      );
-      
-      res.json(notificationsWithUsers);
+      res.json(await storage.getBlockedUsers(currentUser.id));
     } catch (error) {
-      res.status(500).json({ error: "Failed to get notifications" });
+      res.status(500).json({ error: "Failed to get blocked users" });
     }
   });
 
-  // Mark notification as read
-  app.patch("/api/notifications/:id/read", async (req: Request, res: Response) => {
+  // Block a user. Removes any connection between the two; the blocked user is not told.
+  app.post("/api/users/:id/block", async (req: Request, res: Response) => {
     try {
-      await storage.markNotificationRead(req.params.id);
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (target.id === currentUser.id) {
+        return res.status(400).json({ error: "You cannot block yourself" });
+      }
+
+      await storage.blockUser(currentUser.id, target.id);
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to mark notification as read" });
+      res.status(500).json({ error: "Failed to block user" });
     }
   });
 
-  // Mark all notifications as read
-  app.post("/api/notifications/read-all", async (req: Request, res: Response) => {
+  app.delete("/api/users/:id/block", async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ error: "Not authenticated" });
       }
-      await storage.markAllNotificationsRead(currentUser.id);
+      await storage.unblockUser(currentUser.id, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to unblock user" });
+    }
+  });
+
+  // Users the current user has muted
+  app.get("/api/mutes", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      res.json(await storage.getMutedUsers(currentUser.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get muted users" });
+    }
+  });
+
+  // Mute a user: hides their posts, REALS and comments from the current user only
+  app.post("/api/users/:id/mute", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (target.id === currentUser.id) {
+        return res.status(400).json({ error: "You cannot mute yourself" });
+      }
+
+      await storage.muteUser(currentUser.id, target.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to mute user" });
+    }
+  });
+
+  app.delete("/api/users/:id/mute", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      await storage.unmuteUser(currentUser.id, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to unmute user" });
+    }
+  });
+
+  // ==================== REPORTS AND MODERATION API ====================
+
+  function isModerator(user: User) {
+    return user.role === "moderator" || user.role === "admin";
+  }
+
+  // The author and a text snapshot of a reportable item, or null if it doesn't
+  // exist or (for direct messages) the viewer wasn't part of the conversation
+  async function getReportTarget(
+    targetType: ReportTargetType,
+    targetId: string,
+    viewerId?: string
+  ): Promise<{ userId: string; snapshot: string | null } | null> {
+    switch (targetType) {
+      case "post": {
+        const post = await storage.getPost(targetId);
+        return post ? { userId: post.userId, snapshot: post.content } : null;
+      }
+      case "post_comment": {
+        const comment = await storage.getPostComment(targetId);
+        return comment ? { userId: comment.userId, snapshot: comment.content } : null;
+      }
+      case "short": {
+        const short = await storage.getShort(targetId);
+        if (!short) return null;
+        return { userId: short.userId, snapshot: [short.title, short.description].filter(Boolean).join("\n") || null };
+      }
+      case "short_comment": {
+        const comment = await storage.getShortComment(targetId);
+        return comment ? { userId: comment.userId, snapshot: comment.content } : null;
+      }
+      case "direct_message": {
+        const message = await storage.getDirectMessage(targetId);
+        if (!message) return null;
+        if (viewerId && message.senderId !== viewerId && message.receiverId !== viewerId) return null;
+        return { userId: message.senderId, snapshot: message.content };
+      }
+      case "user": {
+        const user = await storage.getUser(targetId);
+        if (!user) return null;
+        return { userId: user.id, snapshot: [user.fullName || user.name, user.jobPosition, user.bio].filter(Boolean).join("\n") || null };
+      }
+    }
+  }
+
+  // Remove reported content. Profiles can't be deleted, only suspended.
+  async function deleteReportTarget(targetType: ReportTargetType, targetId: string) {
+    switch (targetType) {
+      case "post":
+        await storage.deletePost(targetId);
+        break;
+      case "post_comment":
+        await storage.deletePostComment(targetId);
+        break;
+      case "short":
+        await storage.deleteShort(targetId);
+        break;
+      case "short_comment":
+        await storage.deleteShortComment(targetId);
+        break;
+      case "direct_message": {
+        const attachments = await storage.getMessageAttachments(targetId, 'direct');
+        await storage.deleteDirectMessage(targetId);
+        for (const attachment of attachments) {
+          fs.unlink(path.join(messageAttachmentsDir, attachment.fileName), () => {});
+        }
+        break;
+      }
+    }
+  }
+
+  // Lock an account out. Its sessions are kept so the member is shown the
+  // reason and end date; every request is refused until the suspension ends.
+  async function suspendUser(userId: string, until: string | null, reason: string | null) {
+    await storage.updateUser(userId, {
+      suspendedAt: new Date().toISOString(),
+      suspendedUntil: until,
+      suspensionReason: reason,
+    });
+    closeUserSockets(userId);
+  }
+
+  // End of a suspension from `until` (a date) or `days`; null means until lifted
+  function getSuspensionEnd(body: any): string | null | undefined {
+    if (body?.until) {
+      const until = new Date(body.until);
+      if (isNaN(until.getTime()) || until <= new Date()) return undefined;
+      return until.toISOString();
+    }
+    const days = Number(body?.days);
+    return Number.isFinite(days) && days > 0
+      ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+  }
+
+  // Report a post, comment, REAL, direct message or profile
+  app.post("/api/reports", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const { targetType, targetId, reason } = req.body;
+      const details = typeof req.body.details === "string" ? req.body.details.trim().slice(0, 1000) : "";
+      if (!REPORT_TARGET_TYPES.includes(targetType) || typeof targetId !== "string" || !targetId) {
+        return res.status(400).json({ error: "Invalid report target" });
+      }
+      if (!REPORT_REASONS.includes(reason)) {
+        return res.status(400).json({ error: "Invalid report reason" });
+      }
+
+      const target = await getReportTarget(targetType, targetId, currentUser.id);
+      if (!target) {
+        return res.status(404).json({ error: "Reported content not found" });
+      }
+      if (target.userId === currentUser.id) {
+        return res.status(400).json({ error: "You cannot report your own content" });
+      }
+      if (await storage.getOpenReportByReporter(currentUser.id, targetType, targetId)) {
+        return res.status(409).json({ error: "You have already reported this" });
+      }
+
+      const report = await storage.createReport({
+        reporterId: currentUser.id,
+        targetType,
+        targetId,
+        targetUserId: target.userId,
+        reason,
+        details: details || null,
+        contentSnapshot: target.snapshot,
+        status: "open",
+        createdAt: new Date().toISOString(),
+      });
+      res.json({ id: report.id });
+    } catch (error) {
+      console.error("Error creating report:", error);
+      res.status(500).json({ error: "Failed to submit report" });
+    }
+  });
+
+  // Moderation queue (?status=open|resolved)
+  app.get("/api/moderation/reports", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      if (!isModerator(currentUser)) {
+        return res.status(403).json({ error: "Moderators only" });
+      }
+      const status = req.query.status === "resolved" ? "resolved" : "open";
+      res.json(await storage.getModerationReports(status));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get reports" });
+    }
+  });
+
+  app.get("/api/moderation/reports/count", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      if (!isModerator(currentUser)) {
+        return res.status(403).json({ error: "Moderators only" });
+      }
+      res.json({ count: await storage.getOpenReportsCount() });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get report count" });
+    }
+  });
+
+  // Act on an open report: dismiss it, delete the content, warn the author or
+  // suspend the account. Acting on the content resolves every open report on it.
+  app.post("/api/moderation/reports/:id/action", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      if (!isModerator(currentUser)) {
+        return res.status(403).json({ error: "Moderators only" });
+      }
+
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      if (report.status !== "open") {
+        return res.status(409).json({ error: "Report has already been resolved" });
+      }
+
+      const { action } = req.body;
+      const note = typeof req.body.note === "string" ? req.body.note.trim().slice(0, 1000) || null : null;
+      const targetType = report.targetType as ReportTargetType;
+      const author = report.targetUserId ? await storage.getUser(report.targetUserId) : undefined;
+
+      if (action === "dismiss") {
+        await storage.resolveReports([report.id], "dismissed", currentUser.id);
+      } else if (action === "delete_content") {
+        if (targetType === "user") {
+          return res.status(400).json({ error: "Profiles cannot be deleted; suspend the account instead" });
+        }
+        const ids = await storage.getOpenReportIdsForTarget(targetType, report.targetId);
+        await deleteReportTarget(targetType, report.targetId);
+        await storage.resolveReports(ids, "actioned", currentUser.id);
+      } else if (action === "warn") {
+        if (!author) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        await storage.createNotification({
+          userId: author.id,
+          type: "moderation_warning",
+          fromUserId: null,
+          connectionId: null,
+          message: note,
+          read: false,
+          createdAt: new Date().toISOString(),
+        });
+        sendToUser(author.id, {
+          type: "notification",
+          data: { type: "moderation_warning", message: note },
+        });
+        const ids = await storage.getOpenReportIdsForTarget(targetType, report.targetId);
+        await storage.resolveReports(ids, "actioned", currentUser.id);
+      } else if (action === "suspend") {
+        if (!author) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        if (author.id === currentUser.id || (isModerator(author) && currentUser.role !== "admin")) {
+          return res.status(403).json({ error: "You cannot suspend this account" });
+        }
+        const until = getSuspensionEnd(req.body);
+        if (until === undefined) {
+          return res.status(400).json({ error: "Invalid suspension end date" });
+        }
+        await suspendUser(author.id, until, note);
+        const ids = await storage.getOpenReportIdsForTarget(targetType, report.targetId);
+        await storage.resolveReports(ids, "actioned", currentUser.id);
+      } else {
+        return res.status(400).json({ error: "Invalid action" });
+      }
+
+      await storage.createModerationAction({
+        moderatorId: currentUser.id,
+        action,
+        reportId: report.id,
+        targetType: report.targetType,
+        targetId: report.targetId,
+        targetUserId: report.targetUserId,
+        note,
+        createdAt: new Date().toISOString(),
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error applying moderation action:", error);
+      res.status(500).json({ error: "Failed to apply moderation action" });
+    }
+  });
+
+  // Suspend (with an end date) or ban (without one) an account directly, e.g. from its profile
+  app.post("/api/moderation/users/:id/suspend", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      if (!isModerator(currentUser)) {
+        return res.status(403).json({ error: "Moderators only" });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (target.id === currentUser.id || (isModerator(target) && currentUser.role !== "admin")) {
+        return res.status(403).json({ error: "You cannot suspend this account" });
+      }
+      const until = getSuspensionEnd(req.body);
+      if (until === undefined) {
+        return res.status(400).json({ error: "Invalid suspension end date" });
+      }
+
+      const reason = typeof req.body.reason === "string" ? req.body.reason.trim().slice(0, 1000) || null : null;
+      await suspendUser(target.id, until, reason);
+      await storage.createModerationAction({
+        moderatorId: currentUser.id,
+        action: "suspend",
+        targetType: "user",
+        targetId: target.id,
+        targetUserId: target.id,
+        note: reason,
+        createdAt: new Date().toISOString(),
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to suspend account" });
+    }
+  });
+
+  // Lift a suspension early
+  app.post("/api/moderation/users/:id/unsuspend", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      if (!isModerator(currentUser)) {
+        return res.status(403).json({ error: "Moderators only" });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      await storage.updateUser(target.id, { suspendedAt: null, suspendedUntil: null, suspensionReason: null });
+      await storage.createModerationAction({
+        moderatorId: currentUser.id,
+        action: "unsuspend",
+        targetType: "user",
+        targetId: target.id,
+        targetUserId: target.id,
+        note: typeof req.body?.note === "string" ? req.body.note.trim().slice(0, 1000) || null : null,
+        createdAt: new Date().toISOString(),
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to lift suspension" });
+    }
+  });
+
+  // Grant or revoke the moderator role (admins only)
+  app.patch("/api/moderation/users/:id/role", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      if (currentUser.role !== "admin") {
+        return res.status(403).json({ error: "Admins only" });
+      }
+
+      const { role } = req.body;
+      if (!USER_ROLES.includes(role)) {
+        return res.status(400).json({ error: "Invalid role" });
+      }
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (target.id === currentUser.id) {
+        return res.status(400).json({ error: "You cannot change your own role" });
+      }
+
+      await storage.updateUser(target.id, { role });
+      await storage.createModerationAction({
+        moderatorId: currentUser.id,
+        action: "set_role",
+        targetType: "user",
+        targetId: target.id,
+        targetUserId: target.id,
+        note: role,
+        createdAt: new Date().toISOString(),
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update role" });
+    }
+  });
+
+  // Account recovery for members who lost both their authenticator and
+  // backup codes: an admin turns two-factor off so they can sign in again
+  app.delete("/api/moderation/users/:id/two-factor", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      if (currentUser.role !== "admin") {
+        return res.status(403).json({ error: "Admins only" });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const credential = await storage.getTwoFactorCredential(target.id);
+      if (!credential?.enabledAt) {
+        return res.status(400).json({ error: "Two-factor authentication is not enabled for this user" });
+      }
+
+      await storage.deleteTwoFactor(target.id);
+      await storage.createModerationAction({
+        moderatorId: currentUser.id,
+        action: "reset_two_factor",
+        targetType: "user",
+        targetId: target.id,
+        targetUserId: target.id,
+        note: typeof req.body?.note === "string" ? req.body.note.trim().slice(0, 1000) || null : null,
+        createdAt: new Date().toISOString(),
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Audit trail of moderation actions, most recent first
+  app.get("/api/moderation/audit", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      if (!isModerator(currentUser)) {
+        return res.status(403).json({ error: "Moderators only" });
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 100, 1), 500);
+      res.json(await storage.getModerationActions(limit));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get audit log" });
+    }
+  });
+
+  // Get notifications
+  app.get("/api/notifications", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      // Senders and their connection counts come back with the notifications
+      const notifications = await storage.getNotifications(currentUser.id);
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get notifications" });
+    }
+  });
+
+  // Mark notification as read
+  app.patch("/api/notifications/:id/read", async (req: Request, res: Response) => {
+    try {
+      await storage.markNotificationRead(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to mark notification as read" });
+    }
+  });
+
+  // Mark all notifications as read
+  app.post("/api/notifications/read-all", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      await storage.markAllNotificationsRead(currentUser.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to mark notifications as read" });
+    }
+  });
+
+  // Get unread notifications count
+  app.get("/api/notifications/unread-count", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      const count = await storage.getUnreadNotificationsCount(currentUser.id);
+      res.json({ count });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get unread count" });
+    }
+  });
+
+  // Get activities
+  app.get("/api/activities", async (req: Request, res: Response) => {
+    try {
+      const activities = await storage.getActivities();
+      res.json(activities.slice(0, 10));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get activities" });
+    }
+  });
+
+  // Get conversations for current user
+  app.get("/api/messages/conversations", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      const conversations = await storage.getDirectMessageConversations(currentUser.id);
+      res.json(conversations);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get conversations" });
+    }
+  });
+
+  // Get unread messages count - MUST be before :userId route
+  app.get("/api/messages/unread-count", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      const count = await storage.getUnreadDirectMessageCount(currentUser.id);
+      res.json({ count });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get unread count" });
+    }
+  });
+
+  // Search messages in the current user's conversations
+  app.get("/api/messages/search", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.status(400).json({ error: "Search query is required" });
+      }
+
+      const { withUserId, groupId, from, to } = req.query;
+      for (const date of [from, to]) {
+        if (date !== undefined && (typeof date !== "string" || isNaN(Date.parse(date)))) {
+          return res.status(400).json({ error: "Invalid date" });
+        }
+      }
+
+      const results = await storage.searchMessages(currentUser.id, {
+        query,
+        withUserId: typeof withUserId === "string" && withUserId ? withUserId : undefined,
+        groupId: typeof groupId === "string" && groupId ? groupId : undefined,
+        from: from ? new Date(from as string).toISOString() : undefined,
+        to: to ? new Date(to as string).toISOString() : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) || undefined : undefined,
+      });
+
+      // Add the sender and the conversation the message belongs to
+      const enriched = await Promise.all(results.map(async (result) => {
+        const senderUser = await storage.getUser(result.senderId);
+        const sender = senderUser && toPublicUser(senderUser);
+        if (result.messageType === "group") {
+          const group = result.groupId ? await storage.getGroup(result.groupId) : undefined;
+          return { ...result, sender, group };
+        }
+        const otherUserId = result.senderId === currentUser.id ? result.receiverId : result.senderId;
+        const otherUser = otherUserId ? await storage.getUser(otherUserId) : undefined;
+        return { ...result, sender, otherUser: otherUser && toPublicUser(otherUser) };
+      }));
+
+      res.json(enriched);
+    } catch (error) {
+      console.error("Error searching messages:", error);
+      res.status(500).json({ error: "Failed to search messages" });
+    }
+  });
+
+  // Get messages between current user and another user
+  app.get("/api/messages/:userId", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const otherUserId = req.params.userId;
+      
+      // Check if users are connected
+      const connection = await storage.getConnectionBetweenUsers(currentUser.id, otherUserId);
+      if (!connection || connection.status !== "accepted") {
+        return res.status(403).json({ error: "You can only view messages with connected users" });
+      }
+      
+      const messages = await storage.getDirectMessages(currentUser.id, otherUserId, getMessagePageOptions(req));
+      
+      // Opening the conversation marks everything from the other user as read
+      notifyDirectMessageStatus(await storage.markMessagesFromUserAsRead(currentUser.id, otherUserId), "read");
+      
+      res.json(await withReactions(await withAttachments(await withThreadInfo(messages, 'direct'), 'direct'), 'direct'));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get messages" });
+    }
+  });
+
+  // Mark messages from a user as read
+  app.post("/api/messages/:userId/mark-read", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const otherUserId = req.params.userId;
+      notifyDirectMessageStatus(await storage.markMessagesFromUserAsRead(currentUser.id, otherUserId), "read");
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to mark messages as read" });
+    }
+  });
+
+  // Delete direct message (only own messages)
+  app.delete("/api/messages/:messageId", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const messageId = req.params.messageId;
+      const message = await storage.getDirectMessage(messageId);
+      
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      // Only the sender can delete their own message
+      if (message.senderId !== currentUser.id) {
+        return res.status(403).json({ error: "You can only delete your own messages" });
+      }
+
+      const attachments = await storage.getMessageAttachments(messageId, 'direct');
+      await storage.deleteDirectMessage(messageId);
+      for (const attachment of attachments) {
+        fs.unlink(path.join(messageAttachmentsDir, attachment.fileName), () => {});
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete message" });
+    }
+  });
+
+  // Download a message attachment (conversation participants only)
+  app.get("/api/attachments/:id", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const attachment = await storage.getMessageAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      if (!(await canAccessAttachment(attachment, currentUser.id))) {
+        return res.status(403).json({ error: "You do not have access to this attachment" });
+      }
+
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.type(attachment.mimeType);
+      // Images and voice messages play inline; everything else is downloaded under its original name
+      const isInline = attachment.mimeType.startsWith("image/") || attachment.mimeType.startsWith("audio/");
+      if (!isInline || req.query.download) {
+        res.attachment(attachment.originalName);
+      }
+      res.sendFile(path.join(messageAttachmentsDir, attachment.fileName), (err) => {
+        if (err && !res.headersSent) {
+          res.status(404).json({ error: "Attachment not found" });
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get attachment" });
+    }
+  });
+
+  // Mark a voice message as played by the current user
+  app.post("/api/attachments/:id/played", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const attachment = await storage.getMessageAttachment(req.params.id);
+      if (!attachment || !attachment.messageId || !attachment.mimeType.startsWith("audio/")) {
+        return res.status(404).json({ error: "Voice message not found" });
+      }
+
+      if (!(await canAccessAttachment(attachment, currentUser.id))) {
+        return res.status(403).json({ error: "You do not have access to this attachment" });
+      }
+
+      // The sender listening to their own message doesn't count
+      if (attachment.uploaderId === currentUser.id) {
+        return res.json({ success: true });
+      }
+
+      const isNewPlay = await storage.markVoiceMessagePlayed(attachment.id, currentUser.id);
+      if (isNewPlay) {
+        const message = attachment.messageType === 'group'
+          ? await storage.getGroupMessage(attachment.messageId)
+          : await storage.getDirectMessage(attachment.messageId);
+        const playedEvent = {
+          type: "voice_message_played",
+          data: {
+            messageType: attachment.messageType,
+            attachmentId: attachment.id,
+            userId: currentUser.id,
+            message,
+          },
+        };
+        // Tell the sender, and keep the listener's other devices in sync
+        sendToUser(attachment.uploaderId, playedEvent);
+        sendToUser(currentUser.id, playedEvent);
+      }
+
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to mark notifications as read" });
+      res.status(500).json({ error: "Failed to mark voice message as played" });
     }
   });
 
-  // Get unread notifications count
-  app.get("/api/notifications/unread-count", async (req: Request, res: Response) => {
+  // Unfurl a URL from a post or message into a preview card
+  app.get("/api/link-previews", async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ error: "Not authenticated" });
       }
-      const count = await storage.getUnreadNotificationsCount(currentUser.id);
-      res.json({ count });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to get unread count" });
-    }
-  });
 
-  // Get activities
-  app.get("/api/activities", async (req: Request, res: Response) => {
-    try {
-      const activities = await storage.getActivities();
-      res.json(activities.slice(0, 10));
+      const { url } = req.query;
+      if (typeof url !== "string" || !url) {
+        return res.status(400).json({ error: "URL is required" });
+      }
+
+      const preview = await linkPreviewService.getPreview(url);
+      res.json(preview ? toLinkPreviewInfo(preview) : null);
     } catch (error) {
-      res.status(500).json({ error: "Failed to get activities" });
+      res.status(500).json({ error: "Failed to get link preview" });
     }
   });
 
-  // Get conversations for current user
-  app.get("/api/messages/conversations", async (req: Request, res: Response) => {
+  // Thumbnail of a link preview, served from our own copy
+  app.get("/api/link-previews/:id/image", async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ error: "Not authenticated" });
       }
-      const conversations = await storage.getDirectMessageConversations(currentUser.id);
-      res.json(conversations);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to get conversations" });
-    }
-  });
 
-  // Get unread messages count - MUST be before :userId route
-  app.get("/api/messages/unread-count", async (req: Request, res: Response) => {
-    try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ error: "Not authenticated" });
+      const preview = await storage.getLinkPreview(req.params.id);
+      const imagePath = preview && preview.status === "ok" ? linkPreviewService.getImagePath(preview) : null;
+      if (!imagePath) {
+        return res.status(404).json({ error: "Image not found" });
       }
-      const count = await storage.getUnreadDirectMessageCount(currentUser.id);
-      res.json({ count });
+
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.sendFile(imagePath, (err) => {
+        if (err && !res.headersSent) {
+          res.status(404).json({ error: "Image not found" });
+        }
+      });
     } catch (error) {
-      res.status(500).json({ error: "Failed to get unread count" });
+      res.status(500).json({ error: "Failed to get link preview image" });
     }
   });
 
-  // Get messages between current user and another user
-  app.get("/api/messages/:userId", async (req: Request, res: Response) => {
+  // Edit a direct message
+  app.patch("/api/messages/:messageId", async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ error: "Not authenticated" });
       }
-      
-      const otherUserId = req.params.userId;
-      
-      // Check if users are connected
-      const connection = await storage.getConnectionBetweenUsers(currentUser.id, otherUserId);
-      if (!connection || connection.status !== "accepted") {
-        return res.status(403).json({ error: "You can only view messages with connected users" });
+
+      const messageId = req.params.messageId;
+      const { content } = req.body;
+
+      if (typeof content !== "string" || content.trim() === "") {
+        return res.status(400).json({ error: "Content is required" });
       }
-      
-      const messages = await storage.getDirectMessages(currentUser.id, otherUserId);
-      
-      // Mark messages as read
-      for (const msg of messages) {
-        if (msg.receiverId === currentUser.id && !msg.isRead) {
-          await storage.markDirectMessageAsRead(msg.id);
-        }
+      if (isInlineImage(content)) {
+        return res.status(400).json({ error: "Images must be sent as attachments" });
       }
-      
-      // Fetch reactions for each message
-      const messagesWithReactions = await Promise.all(messages.map(async (msg) => {
-        const reactions = await storage.getMessageReactions(msg.id, 'direct');
-        return { ...msg, reactions };
-      }));
-      
-      res.json(messagesWithReactions);
+
+      const message = await storage.getDirectMessage(messageId);
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      // Only the sender can edit their own message
+      if (message.senderId !== currentUser.id) {
+        return res.status(403).json({ error: "You can only edit your own messages" });
+      }
+
+      // A block in either direction freezes the conversation, edits included
+      if (await storage.isBlockedBetween(currentUser.id, message.receiverId)) {
+        return res.status(403).json({ error: "You can only message users you are connected with" });
+      }
+
+      if (message.content === content.trim()) {
+        return res.json(message);
+      }
+
+      const updated = await storage.editDirectMessage(messageId, content.trim(), currentUser.id);
+      if (!updated) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      // Update the conversation in place on every device of both participants
+      const event = { type: "message_edited", data: { messageType: "direct", message: updated } };
+      sendToUser(updated.senderId, event);
+      sendToUser(updated.receiverId, event);
+
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ error: "Failed to get messages" });
+      console.error("Error editing message:", error);
+      res.status(500).json({ error: "Failed to edit message" });
     }
   });
 
-  // Mark messages from a user as read
-  app.post("/api/messages/:userId/mark-read", async (req: Request, res: Response) => {
+  // Get the edit history of a message (participants only)
+  app.get("/api/messages/:messageId/edits", async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ error: "Not authenticated" });
       }
-      
-      const otherUserId = req.params.userId;
-      await storage.markMessagesFromUserAsRead(currentUser.id, otherUserId);
-      res.json({ success: true });
+
+      const { messageId } = req.params;
+      const messageType = (req.query.type as string) || 'direct';
+
+      if (messageType === 'group') {
+        const message = await storage.getGroupMessage(messageId);
+        if (!message) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        const membership = await storage.getGroupMember(message.groupId, currentUser.id);
+        if (!membership || membership.status !== "accepted") {
+          return res.status(403).json({ error: "You are not a member of this group" });
+        }
+      } else {
+        const message = await storage.getDirectMessage(messageId);
+        if (!message) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        if (message.senderId !== currentUser.id && message.receiverId !== currentUser.id) {
+          return res.status(403).json({ error: "Not authorized" });
+        }
+      }
+
+      const edits = await storage.getMessageEdits(messageId, messageType as 'direct' | 'group');
+      res.json(edits);
     } catch (error) {
-      res.status(500).json({ error: "Failed to mark messages as read" });
+      res.status(500).json({ error: "Failed to get edit history" });
     }
   });
 
-  // Delete direct message (only own messages)
-  app.delete("/api/messages/:messageId", async (req: Request, res: Response) => {
+  // Get the thread of replies to a message (participants only)
+  app.get("/api/messages/:messageId/replies", async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ error: "Not authenticated" });
       }
 
-      const messageId = req.params.messageId;
+      const { messageId } = req.params;
+      const messageType = (req.query.type as string) || 'direct';
+
+      if (messageType === 'group') {
+        const message = await storage.getGroupMessage(messageId);
+        if (!message) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        const membership = await storage.getGroupMember(message.groupId, currentUser.id);
+        if (!membership || membership.status !== "accepted") {
+          return res.status(403).json({ error: "You are not a member of this group" });
+        }
+        const replies = await storage.getGroupMessageReplies(messageId);
+        return res.json(await withAttachments(await withThreadInfo(replies, 'group'), 'group'));
+      }
+
       const message = await storage.getDirectMessage(messageId);
-      
       if (!message) {
         return res.status(404).json({ error: "Message not found" });
       }
-
-      // Only the sender can delete their own message
-      if (message.senderId !== currentUser.id) {
-        return res.status(403).json({ error: "You can only delete your own messages" });
+      if (message.senderId !== currentUser.id && message.receiverId !== currentUser.id) {
+        return res.status(403).json({ error: "Not authorized" });
       }
-
-      await storage.deleteDirectMessage(messageId);
-      res.json({ success: true });
+      const replies = await storage.getDirectMessageReplies(messageId);
+      res.json(await withAttachments(await withThreadInfo(replies, 'direct'), 'direct'));
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete message" });
+      res.status(500).json({ error: "Failed to get replies" });
     }
   });
 
@@ -857,43 +2254,82 @@ export async function registerRoutes(
   });
 
   // Send direct message
-  app.post("/api/messages", async (req: Request, res: Response) => {
+  app.post("/api/messages", userRateLimit(RATE_LIMITS.messages), async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ error: "Not authenticated" });
       }
       
-      const { receiverId, content } = req.body;
+      const { receiverId, content, parentId, attachmentIds } = req.body;
+      const clientId = getClientMessageId(req.body.clientId);
+
+      if (!receiverId) {
+        return res.status(400).json({ error: "Receiver ID and content required" });
+      }
+
+      // A retried send from the outbox: return the message that already exists
+      if (clientId) {
+        const existing = await storage.getDirectMessageByClientId(currentUser.id, clientId);
+        if (existing) {
+          const [message] = await withAttachments(await withThreadInfo([existing], 'direct'), 'direct');
+          return res.json(message);
+        }
+      }
 
-      if (!receiverId || !content) {
+      const attachments = await getSendableAttachments(attachmentIds, currentUser.id);
+      if (!attachments) {
+        return res.status(400).json({ error: "Invalid attachments" });
+      }
+      if (!content && attachments.length === 0) {
         return res.status(400).json({ error: "Receiver ID and content required" });
       }
+      if (isInlineImage(content)) {
+        return res.status(400).json({ error: "Images must be sent as attachments" });
+      }
 
       // Check if users are connected
       const connection = await storage.getConnectionBetweenUsers(currentUser.id, receiverId);
-      if (!connection || connection.status !== "accepted") {
+      if (!connection || connection.status !== "accepted" || await storage.isBlockedBetween(currentUser.id, receiverId)) {
         return res.status(403).json({ error: "You can only message users you are connected with" });
       }
 
-      const message = await storage.createDirectMessage({
+      if (parentId && !(await isValidDirectParent(parentId, currentUser.id, receiverId))) {
+        return res.status(400).json({ error: "Invalid parent message" });
+      }
+
+      const created = await storage.createDirectMessage({
         senderId: currentUser.id,
         receiverId,
-        content,
+        content: content || "",
         timestamp: new Date().toISOString(),
         isRead: false,
+        parentId: parentId || null,
+        clientId,
       });
+      await storage.attachFilesToMessage(attachments.map((a) => a.id), created.id, 'direct');
+      const parent = created.parentId ? await getParentPreview(created.parentId, 'direct') : null;
+      const message = { ...created, parent, replyCount: 0, attachments: attachments.map((a) => toAttachmentInfo(a)) };
 
       // Notify via WebSocket if recipient is online
-      const recipientWs = userConnections.get(receiverId);
-      if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-        recipientWs.send(JSON.stringify({
-          type: "direct_message",
-          data: {
-            ...message,
-            sender: currentUser,
-          },
-        }));
+      sendToUser(receiverId, {
+        type: "direct_message",
+        data: {
+          ...message,
+          sender: currentUser,
+        },
+      });
+
+      // Keep the sender's other devices in sync
+      sendToUser(currentUser.id, {
+        type: "direct_message_sent",
+        data: message,
+      });
+
+      if (message.parentId) {
+        const threadEvent = { type: "thread_reply", data: { messageType: "direct", parentId: message.parentId, message } };
+        sendToUser(receiverId, threadEvent);
+        sendToUser(currentUser.id, threadEvent);
       }
 
       res.json(message);
@@ -998,32 +2434,88 @@ Language Instructions:
   // Serve post images statically
   app.use("/post_images", express.static(path.join(process.cwd(), "post_images")));
 
-  // Get all posts with optional filters
+  // Get posts with optional filters. sortBy is newest (default), likes or top
+  // (see feed-ranking.ts). With ?paginated=true or ?cursor= the response is
+  // { posts, nextCursor } and pages are ?limit= long; otherwise it's a plain
+  // array of up to ?limit= posts. A ranked feed's cursor expires after a
+  // while (410), and the client starts again from the first page.
   app.get("/api/posts", async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
-      const sortBy = req.query.sortBy as 'newest' | 'likes' | undefined;
+      const sortBy: FeedSort = FEED_SORTS.includes(req.query.sortBy as FeedSort) ? req.query.sortBy as FeedSort : 'newest';
       const filterBy = req.query.filterBy as 'all' | 'connections' | undefined;
+      const paginated = req.query.paginated === "true" || req.query.cursor !== undefined;
+      
+      let cursor: FeedCursor | null = null;
+      if (req.query.cursor !== undefined) {
+        cursor = typeof req.query.cursor === "string" ? decodeFeedCursor(req.query.cursor) : null;
+        if (!cursor) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+      }
       
-      let connectionIds: string[] | undefined;
+      const parsedLimit = parseInt(req.query.limit as string);
+      const limit = parsedLimit > 0
+        ? Math.min(parsedLimit, MAX_POST_PAGE_SIZE)
+        : paginated ? DEFAULT_POST_PAGE_SIZE : undefined;
       
-      if (filterBy === 'connections' && currentUser) {
-        const connections = await storage.getConnectionsByUser(currentUser.id);
-        const acceptedConnections = connections.filter(c => c.status === "accepted");
-        connectionIds = acceptedConnections.map(c => 
-          c.requesterId === currentUser.id ? c.receiverId : c.requesterId
-        );
-        // Include own posts when filtering by connections
-        connectionIds.push(currentUser.id);
+      const connectionIds = currentUser
+        ? (await storage.getConnectionsByUser(currentUser.id))
+            .filter(c => c.status === "accepted")
+            .map(c => c.requesterId === currentUser.id ? c.receiverId : c.requesterId)
+        : [];
+      
+      // A cursor only continues the kind of feed it came from
+      if (cursor && ('snapshot' in cursor) !== (sortBy !== 'newest')) {
+        return res.status(400).json({ error: "Invalid cursor" });
       }
       
-      const posts = await storage.getPosts({
-        sortBy: sortBy || 'newest',
-        connectionIds,
+      const options = {
+        // Include own posts when filtering by connections
+        connectionIds: filterBy === 'connections' && currentUser ? [...connectionIds, currentUser.id] : undefined,
         currentUserId: currentUser?.id,
-      });
+        excludeUserIds: await getHiddenUserIds(currentUser),
+      };
+      
+      let page: Awaited<ReturnType<typeof storage.getPosts>>;
+      let nextCursor: string | null = null;
+      
+      if (sortBy === 'newest') {
+        // One extra row tells whether another page follows
+        const rows = await storage.getPosts({
+          ...options,
+          limit: limit && limit + 1,
+          before: cursor && 'id' in cursor ? { id: cursor.id, createdAt: cursor.createdAt } : undefined,
+        });
+        page = limit ? rows.slice(0, limit) : rows;
+        const last = page[page.length - 1];
+        if (limit && rows.length > limit && last) {
+          nextCursor = encodeFeedCursor({ id: last.id, createdAt: last.createdAt });
+        }
+      } else {
+        const viewer = { connectionIds, interests: currentUser?.interests ?? [] };
+        const loadCandidates = () => storage.getPosts({ ...options, limit: FEED_RANKING_CANDIDATES });
+        
+        if (paginated) {
+          const result = await getRankedFeedPage({
+            sort: sortBy,
+            viewer,
+            owner: `${currentUser?.id ?? ""}:${sortBy}:${filterBy === 'connections' ? 'connections' : 'all'}`,
+            cursor: cursor && 'snapshot' in cursor ? cursor : null,
+            limit: limit!,
+            loadCandidates,
+            loadPosts: (ids) => storage.getPosts({ ...options, ids }),
+          });
+          if (!result) {
+            return res.status(410).json({ error: "Feed expired" });
+          }
+          ({ posts: page, nextCursor } = result);
+        } else {
+          page = rankPosts(await loadCandidates(), sortBy, viewer).slice(0, limit);
+        }
+      }
       
-      res.json(posts);
+      res.json(paginated ? { posts: page, nextCursor } : page);
     } catch (error) {
       console.error("Error fetching posts:", error);
       res.status(500).json({ error: "Failed to get posts" });
@@ -1179,8 +2671,10 @@ Language Instructions:
   // Get comments for a post
   app.get("/api/posts/:id/comments", async (req: Request, res: Response) => {
     try {
+      const currentUser = await getCurrentUser(req);
       const comments = await storage.getPostComments(req.params.id);
-      res.json(comments);
+      const hiddenIds = await getHiddenUserIds(currentUser);
+      res.json(comments.filter((c) => !hiddenIds.includes(c.userId)));
     } catch (error) {
       res.status(500).json({ error: "Failed to get comments" });
     }
@@ -1206,6 +2700,10 @@ Language Instructions:
         return res.status(404).json({ error: "Post not found" });
       }
       
+      if (await storage.isBlockedBetween(currentUser.id, post.userId)) {
+        return res.status(403).json({ error: "You cannot comment on this post" });
+      }
+      
       const comment = await storage.createPostComment({
         postId,
         userId: currentUser.id,
@@ -1251,8 +2749,14 @@ Language Instructions:
       const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
       const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
       const random = req.query.random === "true";
+      const currentUser = await getCurrentUser(req);
       
-      const result = await storage.getShorts({ limit, offset, random });
+      const result = await storage.getShorts({
+        limit,
+        offset,
+        random,
+        excludeUserIds: await getHiddenUserIds(currentUser),
+      });
       
       // For backwards compatibility with existing code that expects an array,
       // check if pagination params are explicitly used
@@ -1417,8 +2921,10 @@ Language Instructions:
   // Get comments for a short
   app.get("/api/shorts/:id/comments", async (req: Request, res: Response) => {
     try {
+      const currentUser = await getCurrentUser(req);
       const comments = await storage.getShortComments(req.params.id);
-      res.json(comments);
+      const hiddenIds = await getHiddenUserIds(currentUser);
+      res.json(comments.filter((c) => !hiddenIds.includes(c.userId)));
     } catch (error) {
       res.status(500).json({ error: "Failed to get comments" });
     }
@@ -1444,6 +2950,10 @@ Language Instructions:
         return res.status(404).json({ error: "Short not found" });
       }
       
+      if (await storage.isBlockedBetween(currentUser.id, short.userId)) {
+        return res.status(403).json({ error: "You cannot comment on this REAL" });
+      }
+      
       const comment = await storage.createShortComment({
         shortId,
         userId: currentUser.id,
@@ -1562,8 +3072,9 @@ Language Instructions:
       
       // Invite other members
       if (memberIds && Array.isArray(memberIds)) {
+        const blockedIds = await storage.getBlockedUserIds(currentUser.id);
         for (const memberId of memberIds) {
-          if (memberId !== currentUser.id) {
+          if (memberId !== currentUser.id && !blockedIds.includes(memberId)) {
             // Create pending membership
             await storage.createGroupMember({
               groupId: group.id,
@@ -1587,18 +3098,15 @@ Language Instructions:
             });
             
             // Notify via WebSocket if user is online
-            const recipientWs = userConnections.get(memberId);
-            if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-              recipientWs.send(JSON.stringify({
-                type: "notification",
-                data: {
-                  type: "group_invitation",
-                  fromUser: currentUser,
-                  groupId: group.id,
-                  groupName: group.name,
-                },
-              }));
-            }
+            sendToUser(memberId, {
+              type: "notification",
+              data: {
+                type: "group_invitation",
+                fromUser: currentUser,
+                groupId: group.id,
+                groupName: group.name,
+              },
+            });
           }
         }
       }
@@ -1761,22 +3269,44 @@ Language Instructions:
         return res.status(403).json({ error: "You are not a member of this group" });
       }
       
-      const messages = await storage.getGroupMessages(groupId);
+      const messages = await storage.getGroupMessages(groupId, getMessagePageOptions(req));
       
-      // Fetch reactions for each message
-      const messagesWithReactions = await Promise.all(messages.map(async (msg) => {
-        const reactions = await storage.getMessageReactions(msg.id, 'group');
-        return { ...msg, reactions };
-      }));
-      
-      res.json(messagesWithReactions);
+      res.json(await withReactions(await withAttachments(await withThreadInfo(messages, 'group'), 'group'), 'group'));
     } catch (error) {
       res.status(500).json({ error: "Failed to get messages" });
     }
   });
 
+  // Files shared in a group, newest first
+  app.get("/api/groups/:id/files", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const groupId = req.params.id;
+      
+      // Check if user is a member
+      const membership = await storage.getGroupMember(groupId, currentUser.id);
+      if (!membership || membership.status !== "accepted") {
+        return res.status(403).json({ error: "You are not a member of this group" });
+      }
+      
+      const files = await storage.getGroupAttachments(groupId);
+      res.json(files.map(({ attachment, uploader }) => ({
+        ...toAttachmentInfo(attachment),
+        messageId: attachment.messageId,
+        createdAt: attachment.createdAt,
+        uploader,
+      })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get group files" });
+    }
+  });
+
   // Send group message
-  app.post("/api/groups/:id/messages", async (req: Request, res: Response) => {
+  app.post("/api/groups/:id/messages", userRateLimit(RATE_LIMITS.messages), async (req: Request, res: Response) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
@@ -1784,11 +3314,29 @@ Language Instructions:
       }
       
       const groupId = req.params.id;
-      const { content } = req.body;
+      const { content, parentId, attachmentIds } = req.body;
+      const clientId = getClientMessageId(req.body.clientId);
+      
+      // A retried send from the outbox: return the message that already exists
+      if (clientId) {
+        const existing = await storage.getGroupMessageByClientId(currentUser.id, clientId);
+        if (existing && existing.groupId === groupId) {
+          const [message] = await withAttachments(await withThreadInfo([existing], 'group'), 'group');
+          return res.json({ ...message, sender: currentUser });
+        }
+      }
       
-      if (!content || content.trim() === "") {
+      const attachments = await getSendableAttachments(attachmentIds, currentUser.id);
+      if (!attachments) {
+        return res.status(400).json({ error: "Invalid attachments" });
+      }
+      
+      if ((!content || content.trim() === "") && attachments.length === 0) {
         return res.status(400).json({ error: "Content is required" });
       }
+      if (isInlineImage(content)) {
+        return res.status(400).json({ error: "Images must be sent as attachments" });
+      }
       
       // Check if user is a member
       const membership = await storage.getGroupMember(groupId, currentUser.id);
@@ -1796,28 +3344,48 @@ Language Instructions:
         return res.status(403).json({ error: "You are not a member of this group" });
       }
       
-      const message = await storage.createGroupMessage({
+      if (parentId) {
+        const parentMessage = await storage.getGroupMessage(parentId);
+        if (!parentMessage || parentMessage.groupId !== groupId) {
+          return res.status(400).json({ error: "Invalid parent message" });
+        }
+      }
+      
+      const created = await storage.createGroupMessage({
         groupId,
         senderId: currentUser.id,
-        content: content.trim(),
+        content: (content || "").trim(),
         timestamp: new Date().toISOString(),
+        parentId: parentId || null,
+        clientId,
       });
+      await storage.attachFilesToMessage(attachments.map((a) => a.id), created.id, 'group');
+      const parent = created.parentId ? await getParentPreview(created.parentId, 'group') : null;
+      const message = { ...created, parent, replyCount: 0, attachments: attachments.map((a) => toAttachmentInfo(a)) };
       
-      // Notify other group members via WebSocket
+      // Notify group members via WebSocket (including the sender's other devices)
       const members = await storage.getGroupMembers(groupId);
-      const acceptedMembers = members.filter(m => m.status === "accepted" && m.userId !== currentUser.id);
+      const acceptedMembers = members.filter(m => m.status === "accepted");
       
       for (const member of acceptedMembers) {
-        const memberWs = userConnections.get(member.userId);
-        if (memberWs && memberWs.readyState === WebSocket.OPEN) {
-          memberWs.send(JSON.stringify({
-            type: "group_message",
+        sendToUser(member.userId, {
+          type: "group_message",
+          data: {
+            ...message,
+            sender: currentUser,
+            groupId,
+          },
+        });
+        
+        if (message.parentId) {
+          sendToUser(member.userId, {
+            type: "thread_reply",
             data: {
-              ...message,
-              sender: currentUser,
-              groupId,
+              messageType: "group",
+              parentId: message.parentId,
+              message: { ...message, sender: currentUser },
             },
-          }));
+          });
         }
       }
       
@@ -1831,6 +3399,68 @@ Language Instructions:
     }
   });
 
+  // Edit group message
+  app.patch("/api/groups/:id/messages/:messageId", async (req: Request, res: Response) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const { id: groupId, messageId } = req.params;
+      const { content } = req.body;
+      
+      if (typeof content !== "string" || content.trim() === "") {
+        return res.status(400).json({ error: "Content is required" });
+      }
+      if (isInlineImage(content)) {
+        return res.status(400).json({ error: "Images must be sent as attachments" });
+      }
+      
+      const message = await storage.getGroupMessage(messageId);
+      if (!message || message.groupId !== groupId) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      
+      if (message.senderId !== currentUser.id) {
+        return res.status(403).json({ error: "You can only edit your own messages" });
+      }
+      
+      // Former members can no longer edit what they sent
+      const membership = await storage.getGroupMember(groupId, currentUser.id);
+      if (!membership || membership.status !== "accepted") {
+        return res.status(403).json({ error: "You are not a member of this group" });
+      }
+      
+      if (message.content === content.trim()) {
+        return res.json({ ...message, sender: currentUser });
+      }
+      
+      const updated = await storage.editGroupMessage(messageId, content.trim(), currentUser.id);
+      if (!updated) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      
+      const members = await storage.getGroupMembers(groupId);
+      const acceptedMembers = members.filter(m => m.status === "accepted");
+      
+      for (const member of acceptedMembers) {
+        sendToUser(member.userId, {
+          type: "message_edited",
+          data: {
+            messageType: "group",
+            message: { ...updated, sender: currentUser },
+          },
+        });
+      }
+      
+      res.json({ ...updated, sender: currentUser });
+    } catch (error) {
+      console.error("Error editing group message:", error);
+      res.status(500).json({ error: "Failed to edit message" });
+    }
+  });
+
   // Invite users to group
   app.post("/api/groups/:id/invite", async (req: Request, res: Response) => {
     try {
@@ -1858,8 +3488,13 @@ Language Instructions:
       }
       
       const invited: string[] = [];
+      const blockedIds = await storage.getBlockedUserIds(currentUser.id);
       
       for (const userId of userIds) {
+        if (blockedIds.includes(userId)) {
+          continue; // Blocked either way
+        }
+        
         // Check if user is already a member
         const existingMembership = await storage.getGroupMember(groupId, userId);
         if (existingMembership) {
@@ -1889,18 +3524,15 @@ Language Instructions:
         });
         
         // Notify via WebSocket
-        const recipientWs = userConnections.get(userId);
-        if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-          recipientWs.send(JSON.stringify({
-            type: "notification",
-            data: {
-              type: "group_invitation",
-              fromUser: currentUser,
-              groupId: group.id,
-              groupName: group.name,
-            },
-          }));
-        }
+        sendToUser(userId, {
+          type: "notification",
+          data: {
+            type: "group_invitation",
+            fromUser: currentUser,
+            groupId: group.id,
+            groupName: group.name,
+          },
+        });
         
         invited.push(userId);
       }
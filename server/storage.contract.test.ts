@@ -0,0 +1,478 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Pool } from "pg";
+import type { User } from "@shared/schema";
+import { SQLiteStorage, type IStorage } from "./storage";
+import { MemStorage } from "./mem-storage";
+import { PostgresStorage } from "./postgres-storage";
+
+// The behaviour every IStorage backend has to share. Each test gets a fresh,
+// empty store, so results can be compared exactly. PostgresStorage runs too
+// when TEST_DATABASE_URL names a scratch database; its tables are emptied
+// before every test.
+
+interface Backend {
+  name: string;
+  create: () => Promise<IStorage>;
+  destroy?: (storage: IStorage) => Promise<void>;
+}
+
+// Empty every table except the migration log
+async function resetPostgres(databaseUrl: string): Promise<void> {
+  const pool = new Pool({ connectionString: databaseUrl });
+  try {
+    const { rows } = await pool.query<{ table_name: string }>(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = current_schema() AND table_type = 'BASE TABLE' AND table_name <> 'schema_migrations'
+    `);
+    if (rows.length > 0) {
+      await pool.query(`TRUNCATE ${rows.map((row) => row.table_name).join(", ")} RESTART IDENTITY`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+
+const backends: Backend[] = [
+  { name: "MemStorage", create: async () => new MemStorage() },
+  { name: "SQLiteStorage", create: async () => new SQLiteStorage(":memory:") },
+];
+
+if (testDatabaseUrl) {
+  backends.push({
+    name: "PostgresStorage",
+    create: async () => {
+      const storage = new PostgresStorage(testDatabaseUrl);
+      await storage.initialize();
+      await resetPostgres(testDatabaseUrl);
+      return storage;
+    },
+    destroy: (storage) => (storage as PostgresStorage).close(),
+  });
+}
+
+// Fixed timestamps, one minute apart, so ordering never depends on the clock
+function at(minute: number): string {
+  return new Date(Date.UTC(2025, 0, 1, 12, minute)).toISOString();
+}
+
+describe.each(backends)("$name", ({ create, destroy }) => {
+  let storage: IStorage;
+  let alice: User;
+  let bob: User;
+  let carol: User;
+
+  const makeUser = (name: string, minute = 0) =>
+    storage.createUser({ email: `${name}@example.com`, name, interests: [], createdAt: at(minute) });
+
+  beforeEach(async () => {
+    storage = await create();
+    alice = await makeUser("alice");
+    bob = await makeUser("bob", 1);
+    carol = await makeUser("carol", 2);
+  });
+
+  afterEach(async () => {
+    await destroy?.(storage);
+  });
+
+  describe("users", () => {
+    it("finds users by id and email", async () => {
+      expect(await storage.getUser(alice.id)).toMatchObject({ id: alice.id, name: "alice" });
+      expect((await storage.getUserByEmail("bob@example.com"))?.id).toBe(bob.id);
+      expect(await storage.getUser("missing")).toBeUndefined();
+    });
+
+    it("updates only the fields given", async () => {
+      await storage.updateUser(alice.id, { bio: "Hello", interests: ["Tech"] });
+      expect(await storage.getUser(alice.id)).toMatchObject({ name: "alice", bio: "Hello", interests: ["Tech"] });
+    });
+  });
+
+  describe("two-factor", () => {
+    it("claims each code's time step once, and never an older one", async () => {
+      await storage.saveTwoFactorSecret(alice.id, "SECRET");
+      await storage.enableTwoFactor(alice.id, 100);
+
+      expect(await storage.claimTwoFactorStep(alice.id, 100)).toBe(false);
+      expect(await storage.claimTwoFactorStep(alice.id, 101)).toBe(true);
+      expect(await storage.claimTwoFactorStep(alice.id, 101)).toBe(false);
+      expect(await storage.claimTwoFactorStep(alice.id, 99)).toBe(false);
+      expect((await storage.getTwoFactorCredential(alice.id))?.lastUsedStep).toBe(101);
+      expect(await storage.claimTwoFactorStep(bob.id, 101)).toBe(false);
+    });
+
+    it("uses up each backup code once, and forgets replaced ones", async () => {
+      await storage.replaceBackupCodes(alice.id, ["h1", "h2"]);
+      await storage.replaceBackupCodes(bob.id, ["h3"]);
+
+      expect(await storage.consumeBackupCode(alice.id, "h1")).toBe(true);
+      expect(await storage.consumeBackupCode(alice.id, "h1")).toBe(false);
+      expect(await storage.consumeBackupCode(alice.id, "h3")).toBe(false);
+      expect(await storage.countUnusedBackupCodes(alice.id)).toBe(1);
+
+      await storage.replaceBackupCodes(alice.id, ["h4"]);
+      expect(await storage.consumeBackupCode(alice.id, "h2")).toBe(false);
+      expect(await storage.countUnusedBackupCodes(alice.id)).toBe(1);
+      expect(await storage.countUnusedBackupCodes(bob.id)).toBe(1);
+    });
+  });
+
+  describe("connections", () => {
+    it("finds a connection from either side and counts accepted ones", async () => {
+      const connection = await storage.createConnection({ requesterId: alice.id, receiverId: bob.id, status: "pending", createdAt: at(5) });
+      await storage.createConnection({ requesterId: carol.id, receiverId: alice.id, status: "accepted", createdAt: at(6) });
+
+      expect((await storage.getConnectionBetweenUsers(bob.id, alice.id))?.id).toBe(connection.id);
+      expect(await storage.getConnectionBetweenUsers(bob.id, carol.id)).toBeUndefined();
+      expect(await storage.getAcceptedConnectionsCount(alice.id)).toBe(1);
+
+      const accepted = await storage.updateConnectionStatus(connection.id, "accepted");
+      expect(accepted).toMatchObject({ id: connection.id, status: "accepted" });
+      expect(await storage.getAcceptedConnectionsCount(alice.id)).toBe(2);
+      expect((await storage.getConnectionsByUser(alice.id)).map((c) => c.id).sort())
+        .toEqual([connection.id, (await storage.getConnectionBetweenUsers(alice.id, carol.id))!.id].sort());
+    });
+
+    it("deletes connections", async () => {
+      const connection = await storage.createConnection({ requesterId: alice.id, receiverId: bob.id, status: "accepted", createdAt: at(5) });
+      await storage.deleteConnection(connection.id);
+      expect(await storage.getConnection(connection.id)).toBeUndefined();
+      expect(await storage.getConnectionsByUser(bob.id)).toEqual([]);
+    });
+  });
+
+  describe("direct messages", () => {
+    const send = (from: User, to: User, minute: number, extra: { clientId?: string; parentId?: string } = {}) =>
+      storage.createDirectMessage({ senderId: from.id, receiverId: to.id, content: `m${minute}`, timestamp: at(minute), isRead: false, ...extra });
+
+    it("pages a conversation oldest first with before and after cursors", async () => {
+      const sent = [];
+      for (let minute = 0; minute < 6; minute++) {
+        sent.push(await send(minute % 2 ? bob : alice, minute % 2 ? alice : bob, minute));
+      }
+      await send(alice, carol, 3);
+      const contents = (messages: { content: string }[]) => messages.map((m) => m.content);
+
+      expect(contents(await storage.getDirectMessages(alice.id, bob.id))).toEqual(["m0", "m1", "m2", "m3", "m4", "m5"]);
+      expect(contents(await storage.getDirectMessages(bob.id, alice.id, { limit: 2 }))).toEqual(["m4", "m5"]);
+      expect(contents(await storage.getDirectMessages(alice.id, bob.id, { before: sent[4].id, limit: 3 }))).toEqual(["m1", "m2", "m3"]);
+      expect(contents(await storage.getDirectMessages(alice.id, bob.id, { after: sent[1].id, limit: 2 }))).toEqual(["m2", "m3"]);
+      expect(await storage.getDirectMessages(alice.id, bob.id, { before: "missing" })).toEqual([]);
+    });
+
+    it("breaks timestamp ties by id when paging", async () => {
+      const first = await send(alice, bob, 1);
+      const second = await send(bob, alice, 1);
+      const [older, newer] = [first, second].sort((a, b) => a.id.localeCompare(b.id));
+
+      expect((await storage.getDirectMessages(alice.id, bob.id)).map((m) => m.id)).toEqual([older.id, newer.id]);
+      expect((await storage.getDirectMessages(alice.id, bob.id, { before: newer.id })).map((m) => m.id)).toEqual([older.id]);
+      expect((await storage.getDirectMessages(alice.id, bob.id, { after: older.id })).map((m) => m.id)).toEqual([newer.id]);
+    });
+
+    it("tracks delivered and read state for the receiver only", async () => {
+      const first = await send(alice, bob, 1);
+      const second = await send(alice, bob, 2);
+      const reply = await send(bob, alice, 3);
+
+      expect((await storage.getUndeliveredDirectMessages(bob.id)).map((m) => m.id)).toEqual([first.id, second.id]);
+
+      // Only bob can acknowledge messages sent to him, and only once
+      expect(await storage.markDirectMessagesDelivered(alice.id, [first.id])).toEqual([]);
+      const delivered = await storage.markDirectMessagesDelivered(bob.id, [first.id, reply.id]);
+      expect(delivered.map((m) => m.id)).toEqual([first.id]);
+      expect(delivered[0].deliveredAt).toEqual(expect.any(String));
+      expect(await storage.markDirectMessagesDelivered(bob.id, [first.id])).toEqual([]);
+      expect((await storage.getUndeliveredDirectMessages(bob.id)).map((m) => m.id)).toEqual([second.id]);
+
+      expect(await storage.getUnreadDirectMessageCount(bob.id)).toBe(2);
+      const read = await storage.markMessagesFromUserAsRead(bob.id, alice.id);
+      expect(read.map((m) => m.id).sort()).toEqual([first.id, second.id].sort());
+      expect(await storage.markMessagesFromUserAsRead(bob.id, alice.id)).toEqual([]);
+      expect(await storage.getUnreadDirectMessageCount(bob.id)).toBe(0);
+
+      // Reading implies delivery, and the earlier delivery time is kept
+      const afterRead = await storage.getDirectMessage(second.id);
+      expect(afterRead).toMatchObject({ isRead: true, readAt: expect.any(String), deliveredAt: expect.any(String) });
+      expect((await storage.getDirectMessage(first.id))?.deliveredAt).toBe(delivered[0].deliveredAt);
+      expect((await storage.getDirectMessage(reply.id))?.isRead).toBe(false);
+    });
+
+    it("lists conversations with the last message and unread count", async () => {
+      await send(alice, bob, 1);
+      await send(bob, alice, 2);
+      await send(bob, alice, 3);
+      await send(carol, alice, 4);
+
+      const conversations = await storage.getDirectMessageConversations(alice.id);
+      expect(conversations.map((c) => [c.otherUser.id, c.lastMessage, c.unreadCount])).toEqual([
+        [carol.id, "m4", 1],
+        [bob.id, "m3", 2],
+      ]);
+    });
+
+    it("finds messages by client id and counts replies", async () => {
+      const parent = await send(alice, bob, 1, { clientId: "client-1" });
+      await send(bob, alice, 2, { parentId: parent.id });
+      await send(alice, bob, 3, { parentId: parent.id });
+
+      expect((await storage.getDirectMessageByClientId(alice.id, "client-1"))?.id).toBe(parent.id);
+      expect(await storage.getDirectMessageByClientId(bob.id, "client-1")).toBeUndefined();
+      expect((await storage.getDirectMessageReplies(parent.id)).map((m) => m.content)).toEqual(["m2", "m3"]);
+      expect(await storage.getReplyCounts([parent.id, "missing"], "direct")).toEqual({ [parent.id]: 2 });
+    });
+
+    it("keeps the previous content when a message is edited", async () => {
+      const message = await send(alice, bob, 1);
+      const edited = await storage.editDirectMessage(message.id, "fixed", alice.id);
+
+      expect(edited).toMatchObject({ id: message.id, content: "fixed", editedAt: expect.any(String) });
+      expect((await storage.getDirectMessage(message.id))?.content).toBe("fixed");
+      const edits = await storage.getMessageEdits(message.id, "direct");
+      expect(edits.map((e) => [e.previousContent, e.editedBy.id])).toEqual([["m1", alice.id]]);
+      expect(await storage.editDirectMessage("missing", "x", alice.id)).toBeUndefined();
+    });
+  });
+
+  describe("groups", () => {
+    const makeGroup = async () => {
+      const group = await storage.createGroup({ name: "Hikers", createdById: alice.id, createdAt: at(1) });
+      await storage.createGroupMember({ groupId: group.id, userId: alice.id, role: "admin", status: "accepted", createdAt: at(1), joinedAt: at(1) });
+      await storage.createGroupMember({ groupId: group.id, userId: bob.id, role: "member", status: "accepted", createdAt: at(2), joinedAt: at(2) });
+      await storage.createGroupMember({ groupId: group.id, userId: carol.id, role: "member", status: "pending", invitedById: alice.id, createdAt: at(3) });
+      return group;
+    };
+
+    it("lists groups, members and invitations", async () => {
+      const group = await makeGroup();
+
+      expect((await storage.getGroupsByUser(bob.id)).map((g) => [g.id, g.memberCount])).toEqual([[group.id, 2]]);
+      expect(await storage.getGroupsByUser(carol.id)).toEqual([]);
+      expect((await storage.getGroupMembers(group.id)).map((m) => `${m.user.name}:${m.status}`).sort())
+        .toEqual(["alice:accepted", "bob:accepted", "carol:pending"]);
+
+      const invitations = await storage.getGroupInvitations(carol.id);
+      expect(invitations.map((i) => [i.group.id, i.invitedBy?.id])).toEqual([[group.id, alice.id]]);
+
+      const membership = await storage.getGroupMember(group.id, carol.id);
+      expect(await storage.updateGroupMemberStatus(membership!.id, "accepted", at(4))).toMatchObject({ status: "accepted", joinedAt: at(4) });
+      expect((await storage.getGroupsByUser(carol.id))[0].memberCount).toBe(3);
+      expect(await storage.getGroupInvitations(carol.id)).toEqual([]);
+
+      await storage.deleteGroupMember(group.id, bob.id);
+      expect(await storage.getGroupMember(group.id, bob.id)).toBeUndefined();
+    });
+
+    it("pages group messages with their senders", async () => {
+      const group = await makeGroup();
+      const sent = [];
+      for (let minute = 0; minute < 5; minute++) {
+        sent.push(await storage.createGroupMessage({ groupId: group.id, senderId: minute % 2 ? bob.id : alice.id, content: `g${minute}`, timestamp: at(minute) }));
+      }
+
+      const latest = await storage.getGroupMessages(group.id, { limit: 2 });
+      expect(latest.map((m) => [m.content, m.sender.id])).toEqual([["g3", bob.id], ["g4", alice.id]]);
+      expect((await storage.getGroupMessages(group.id, { before: sent[3].id, limit: 2 })).map((m) => m.content)).toEqual(["g1", "g2"]);
+      expect((await storage.getGroupMessages(group.id, { after: sent[2].id })).map((m) => m.content)).toEqual(["g3", "g4"]);
+
+      const reply = await storage.createGroupMessage({ groupId: group.id, senderId: bob.id, content: "reply", timestamp: at(6), parentId: sent[0].id, clientId: "c-1" });
+      expect((await storage.getGroupMessageReplies(sent[0].id)).map((m) => [m.id, m.sender.id])).toEqual([[reply.id, bob.id]]);
+      expect(await storage.getReplyCounts([sent[0].id], "group")).toEqual({ [sent[0].id]: 1 });
+      expect((await storage.getGroupMessageByClientId(bob.id, "c-1"))?.id).toBe(reply.id);
+    });
+
+    it("deletes a group with its members and messages", async () => {
+      const group = await makeGroup();
+      await storage.createGroupMessage({ groupId: group.id, senderId: alice.id, content: "hi", timestamp: at(5) });
+      await storage.deleteGroup(group.id);
+
+      expect(await storage.getGroup(group.id)).toBeUndefined();
+      expect(await storage.getGroupMembers(group.id)).toEqual([]);
+      expect(await storage.getGroupMessages(group.id)).toEqual([]);
+    });
+  });
+
+  describe("event log", () => {
+    it("tracks each user's events within the shared sequence", async () => {
+      const first = await storage.appendUserEvent(alice.id, "direct_message", "{}");
+      const second = await storage.appendUserEvent(bob.id, "direct_message", "{}");
+      const third = await storage.appendUserEvent(bob.id, "direct_message", "{}");
+
+      expect(second).toBeGreaterThan(first);
+      expect(third).toBeGreaterThan(second);
+      expect(await storage.getOldestUserEventSeq(bob.id)).toBe(second);
+      expect(await storage.getLatestUserEventSeq(bob.id)).toBe(third);
+      expect((await storage.getUserEventsAfter(bob.id, first, 10)).map((e) => e.seq)).toEqual([second, third]);
+      expect(await storage.getOldestUserEventSeq(carol.id)).toBeNull();
+      expect(await storage.getLatestUserEventSeq(carol.id)).toBe(0);
+    });
+  });
+
+  describe("message search", () => {
+    it("leaves out users blocked in either direction", async () => {
+      const group = await storage.createGroup({ name: "Orchard", createdById: alice.id, createdAt: at(0) });
+      for (const user of [alice, bob, carol]) {
+        await storage.createGroupMember({ groupId: group.id, userId: user.id, role: "member", status: "accepted", createdAt: at(0), joinedAt: at(0) });
+      }
+      await storage.createDirectMessage({ senderId: bob.id, receiverId: alice.id, content: "apple pie", timestamp: at(1) });
+      await storage.createDirectMessage({ senderId: alice.id, receiverId: carol.id, content: "apple tart", timestamp: at(2) });
+      await storage.createGroupMessage({ groupId: group.id, senderId: bob.id, content: "apple cider", timestamp: at(3) });
+      await storage.createGroupMessage({ groupId: group.id, senderId: carol.id, content: "apple juice", timestamp: at(4) });
+      const search = async () => (await storage.searchMessages(alice.id, { query: "apple" })).map((r) => r.senderId);
+
+      expect(await search()).toEqual([carol.id, bob.id, alice.id, bob.id]);
+      await storage.blockUser(alice.id, carol.id);
+      expect(await search()).toEqual([bob.id, bob.id]);
+      await storage.blockUser(bob.id, alice.id);
+      expect(await search()).toEqual([]);
+    });
+  });
+
+  describe("posts", () => {
+    it("lists posts newest first and honours author filters", async () => {
+      const first = await storage.createPost({ userId: alice.id, content: "first", createdAt: at(1) });
+      const second = await storage.createPost({ userId: bob.id, content: "second", createdAt: at(2) });
+      const third = await storage.createPost({ userId: carol.id, content: "third", createdAt: at(3) });
+
+      expect((await storage.getPosts()).map((p) => [p.id, p.user.id])).toEqual([[third.id, carol.id], [second.id, bob.id], [first.id, alice.id]]);
+      expect((await storage.getPosts({ connectionIds: [alice.id, bob.id] })).map((p) => p.id)).toEqual([second.id, first.id]);
+      expect((await storage.getPosts({ excludeUserIds: [bob.id] })).map((p) => p.id)).toEqual([third.id, first.id]);
+      expect((await storage.getPosts({ ids: [first.id, third.id, "missing"] })).map((p) => p.id)).toEqual([third.id, first.id]);
+      expect(await storage.getPosts({ ids: [] })).toEqual([]);
+    });
+
+    it("pages posts with a limit and a before cursor", async () => {
+      const created = [];
+      for (let minute = 0; minute < 5; minute++) {
+        created.push(await storage.createPost({ userId: alice.id, content: `p${minute}`, createdAt: at(minute) }));
+      }
+
+      const page = await storage.getPosts({ limit: 2 });
+      expect(page.map((p) => p.content)).toEqual(["p4", "p3"]);
+      const next = await storage.getPosts({ limit: 2, before: { id: page[1].id, createdAt: page[1].createdAt } });
+      expect(next.map((p) => p.content)).toEqual(["p2", "p1"]);
+    });
+
+    it("counts reactions and comments per post and reports the viewer's reaction", async () => {
+      const liked = await storage.createPost({ userId: alice.id, content: "liked", createdAt: at(1) });
+      const mixed = await storage.createPost({ userId: bob.id, content: "mixed", createdAt: at(2) });
+      const quiet = await storage.createPost({ userId: carol.id, content: "quiet", createdAt: at(3) });
+
+      await storage.createPostLike({ postId: liked.id, userId: bob.id, type: "like", createdAt: at(4) });
+      await storage.createPostLike({ postId: liked.id, userId: carol.id, type: "like", createdAt: at(4) });
+      await storage.createPostLike({ postId: mixed.id, userId: alice.id, type: "dislike", createdAt: at(4) });
+      await storage.createPostLike({ postId: mixed.id, userId: carol.id, type: "like", createdAt: at(4) });
+      await storage.createPostComment({ postId: mixed.id, userId: alice.id, content: "hm", createdAt: at(5) });
+      await storage.createPostComment({ postId: mixed.id, userId: carol.id, content: "ok", createdAt: at(5) });
+      await storage.createPostComment({ postId: liked.id, userId: carol.id, content: "yes", createdAt: at(5) });
+
+      const summary = (feed: Awaited<ReturnType<IStorage["getPosts"]>>) =>
+        feed.map((p) => [p.content, p.likesCount, p.dislikesCount, p.commentsCount, p.userReaction ?? null]);
+
+      expect(summary(await storage.getPosts({ currentUserId: alice.id }))).toEqual([
+        ["quiet", 0, 0, 0, null],
+        ["mixed", 1, 1, 2, "dislike"],
+        ["liked", 2, 0, 1, null],
+      ]);
+      expect(summary(await storage.getPosts({ currentUserId: carol.id }))).toEqual([
+        ["quiet", 0, 0, 0, null],
+        ["mixed", 1, 1, 2, "like"],
+        ["liked", 2, 0, 1, "like"],
+      ]);
+      // A page only counts its own posts' rows
+      expect(summary(await storage.getPosts({ currentUserId: bob.id, limit: 1, before: { id: quiet.id, createdAt: quiet.createdAt } })))
+        .toEqual([["mixed", 1, 1, 2, null]]);
+      expect(summary(await storage.getPosts())[2]).toEqual(["liked", 2, 0, 1, null]);
+    });
+
+    it("removes a post with its likes and comments", async () => {
+      const post = await storage.createPost({ userId: alice.id, content: "bye", createdAt: at(1) });
+      await storage.createPostLike({ postId: post.id, userId: bob.id, type: "like", createdAt: at(2) });
+      await storage.createPostComment({ postId: post.id, userId: bob.id, content: "nice", createdAt: at(2) });
+      await storage.deletePost(post.id);
+
+      expect(await storage.getPost(post.id)).toBeUndefined();
+      expect(await storage.getPostLikesCount(post.id)).toEqual({ likes: 0, dislikes: 0 });
+      expect(await storage.getPostComments(post.id)).toEqual([]);
+    });
+  });
+
+  describe("shorts", () => {
+    it("pages shorts newest first with totals", async () => {
+      for (let minute = 0; minute < 5; minute++) {
+        await storage.createShort({ userId: minute % 2 ? bob.id : alice.id, videoUrl: `/short_videos/${minute}.mp4`, title: `s${minute}`, createdAt: at(minute) });
+      }
+
+      const first = await storage.getShorts({ limit: 2 });
+      expect([first.shorts.map((s) => s.title), first.total, first.hasMore]).toEqual([["s4", "s3"], 5, true]);
+      const last = await storage.getShorts({ limit: 2, offset: 4 });
+      expect([last.shorts.map((s) => s.title), last.hasMore]).toEqual([["s0"], false]);
+
+      const withoutBob = await storage.getShorts({ excludeUserIds: [bob.id] });
+      expect([withoutBob.shorts.map((s) => s.title), withoutBob.total]).toEqual([["s4", "s2", "s0"], 3]);
+      expect(withoutBob.shorts[0].user.id).toBe(alice.id);
+      expect((await storage.getShorts({ random: true })).shorts).toHaveLength(5);
+    });
+
+    it("counts views, likes and comments", async () => {
+      const short = await storage.createShort({ userId: alice.id, videoUrl: "/short_videos/a.mp4", createdAt: at(1) });
+      await storage.incrementShortViewCount(short.id);
+      await storage.incrementShortViewCount(short.id);
+      expect((await storage.getShort(short.id))?.viewCount).toBe(2);
+
+      const like = await storage.createShortLike({ shortId: short.id, userId: bob.id, type: "like", createdAt: at(2) });
+      await storage.createShortLike({ shortId: short.id, userId: carol.id, type: "dislike", createdAt: at(2) });
+      expect(await storage.getShortLikesCount(short.id)).toEqual({ likes: 1, dislikes: 1 });
+      await storage.updateShortLike(like.id, "dislike");
+      expect(await storage.getShortLikesCount(short.id)).toEqual({ likes: 0, dislikes: 2 });
+
+      await storage.createShortComment({ shortId: short.id, userId: bob.id, content: "wow", createdAt: at(3) });
+      expect((await storage.getShortComments(short.id)).map((c) => [c.content, c.user.id])).toEqual([["wow", bob.id]]);
+    });
+  });
+
+  describe("reactions", () => {
+    it("groups reactions by message with the reacting user", async () => {
+      const one = await storage.createDirectMessage({ senderId: alice.id, receiverId: bob.id, content: "one", timestamp: at(1) });
+      const two = await storage.createDirectMessage({ senderId: bob.id, receiverId: alice.id, content: "two", timestamp: at(2) });
+
+      await storage.createMessageReaction({ messageId: one.id, messageType: "direct", userId: bob.id, emoji: "👍", createdAt: at(3) });
+      await storage.createMessageReaction({ messageId: one.id, messageType: "direct", userId: alice.id, emoji: "❤", createdAt: at(4) });
+      await storage.createMessageReaction({ messageId: two.id, messageType: "direct", userId: alice.id, emoji: "😂", createdAt: at(5) });
+      // Same id, other message type: must not leak into direct messages
+      await storage.createMessageReaction({ messageId: one.id, messageType: "group", userId: carol.id, emoji: "😠", createdAt: at(6) });
+
+      const reactions = await storage.getReactionsForMessages([one.id, two.id, "missing"], "direct");
+      expect(Object.keys(reactions).sort()).toEqual([one.id, two.id].sort());
+      expect(reactions[one.id].map((r) => [r.user.id, r.emoji]).sort()).toEqual([[alice.id, "❤"], [bob.id, "👍"]].sort());
+      expect(reactions[two.id].map((r) => [r.user.id, r.emoji])).toEqual([[alice.id, "😂"]]);
+      expect(await storage.getReactionsForMessages([], "direct")).toEqual({});
+
+      expect((await storage.getMessageReaction(one.id, "direct", bob.id))?.emoji).toBe("👍");
+      await storage.deleteMessageReaction(one.id, "direct", bob.id);
+      expect(await storage.getMessageReaction(one.id, "direct", bob.id)).toBeUndefined();
+      expect((await storage.getMessageReactions(one.id, "direct")).map((r) => r.user.id)).toEqual([alice.id]);
+      expect((await storage.getMessageReactions(one.id, "group")).map((r) => r.user.id)).toEqual([carol.id]);
+    });
+  });
+
+  describe("read receipts", () => {
+    it("records one receipt per reader and message", async () => {
+      const group = await storage.createGroup({ name: "Readers", createdById: alice.id, createdAt: at(0) });
+      const one = await storage.createGroupMessage({ groupId: group.id, senderId: alice.id, content: "one", timestamp: at(1) });
+      const two = await storage.createGroupMessage({ groupId: group.id, senderId: alice.id, content: "two", timestamp: at(2) });
+
+      await storage.markMessagesAsReadByUser(bob.id, [one.id, two.id], "group");
+      await storage.markMessagesAsReadByUser(bob.id, [one.id], "group");
+      await storage.markMessagesAsReadByUser(carol.id, [one.id], "group");
+
+      const receipts = await storage.getMessageReadReceipts(one.id, "group");
+      expect(receipts.map((r) => r.user.id).sort()).toEqual([bob.id, carol.id].sort());
+      expect((await storage.getMessageReadReceipts(two.id, "group")).map((r) => r.userId)).toEqual([bob.id]);
+      expect(await storage.getMessageReadReceipt(two.id, "group", carol.id)).toBeUndefined();
+      expect(await storage.getMessageReadReceipt(one.id, "direct", bob.id)).toBeUndefined();
+    });
+  });
+});
@@ -1,14 +1,28 @@
-import { db, initializeDatabase } from "./db";
+import { getSqlitePath, initializeDatabase, openDatabase, type SQLiteDatabase } from "./db";
 import { 
   users, 
   magicLinkTokens, 
   sessions, 
+  twoFactorCredentials,
+  twoFactorBackupCodes,
+  twoFactorChallenges,
+  passkeys,
+  passkeyChallenges,
   connections, 
+  userBlocks,
+  userMutes,
+  reports,
+  moderationActions,
   notifications,
   chatMessages, 
   directMessages,
   messageReactions,
   messageReadReceipts,
+  messageEdits,
+  messageAttachments,
+  voiceMessagePlays,
+  linkPreviews,
+  userEvents,
   posts,
   postLikes,
   postComments,
@@ -24,8 +38,20 @@ import {
   type InsertMagicLinkToken,
   type Session,
   type InsertSession,
+  type TwoFactorCredential,
+  type TwoFactorChallenge,
+  type Passkey,
+  type InsertPasskey,
+  type PasskeyChallenge,
   type Connection, 
   type InsertConnection,
+  type Report,
+  type InsertReport,
+  type ModerationAction,
+  type InsertModerationAction,
+  type ModerationReport,
+  type ModerationAuditEntry,
+  type NotificationWithSender,
   type Notification,
   type InsertNotification,
   type ChatMessage,
@@ -36,6 +62,12 @@ import {
   type InsertMessageReaction,
   type MessageReadReceipt,
   type InsertMessageReadReceipt,
+  type MessageEdit,
+  type MessageAttachment,
+  type LinkPreview,
+  type InsertLinkPreview,
+  type UserEvent,
+  type InsertMessageAttachment,
   type Post,
   type InsertPost,
   type PostLike,
@@ -54,13 +86,44 @@ import {
   type InsertGroupMember,
   type GroupMessage,
   type InsertGroupMessage,
-  type ActivityItem
+  type ActivityItem,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
 } from "@shared/schema";
-import { eq, and, or, desc, sql, inArray } from "drizzle-orm";
+import { eq, and, or, desc, sql, inArray, notInArray, isNull, lt, gt, type AnyColumn, type SQL } from "drizzle-orm";
 import { randomUUID } from "crypto";
+import { PostgresStorage } from "./postgres-storage";
+import { MemStorage } from "./mem-storage";
 
-// Initialize database on module load
-initializeDatabase();
+// Turn free text into an FTS5 query: every word must match, as a prefix
+function toFtsQuery(text: string): string {
+  const words = text.trim().split(/\s+/).filter(Boolean).slice(0, 10);
+  return words.map((word) => `"${word.replace(/"/g, '""')}"*`).join(" ");
+}
+
+// Options for loading one page of a conversation. Cursors are message ids;
+// messages are ordered by (timestamp, id) and returned oldest first.
+export interface MessagePageOptions {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+// Rows strictly older (before) or newer (after) than the cursor message
+export function cursorCondition(
+  timestampColumn: AnyColumn,
+  idColumn: AnyColumn,
+  cursor: { id: string; timestamp: string },
+  direction: 'before' | 'after'
+) {
+  const compare = direction === 'before' ? lt : gt;
+  return or(
+    compare(timestampColumn, cursor.timestamp),
+    and(eq(timestampColumn, cursor.timestamp), compare(idColumn, cursor.id))
+  )!;
+}
 
 export interface IStorage {
   // Users
@@ -72,6 +135,7 @@ export interface IStorage {
   updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined>;
   getUsersByInterests(interests: string[]): Promise<User[]>;
   setUserOnline(id: string, isOnline: boolean): Promise<void>;
+  getSuspendedUserIds(): Promise<string[]>;
   
   // Magic Link Tokens
   createMagicLinkToken(token: InsertMagicLinkToken): Promise<MagicLinkToken>;
@@ -83,6 +147,33 @@ export interface IStorage {
   getSession(id: string): Promise<Session | undefined>;
   deleteSession(id: string): Promise<void>;
   deleteUserSessions(userId: string): Promise<void>;
+  getUserSessions(userId: string): Promise<Session[]>;
+  touchSession(id: string, lastActiveAt: string, expiresAt: string): Promise<void>;
+  rotateSession(id: string, newId: string, expiresAt: string): Promise<void>;
+
+  // Two-factor authentication
+  getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined>;
+  saveTwoFactorSecret(userId: string, secret: string): Promise<void>;
+  enableTwoFactor(userId: string, step: number): Promise<void>;
+  claimTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  deleteTwoFactor(userId: string): Promise<void>;
+  replaceBackupCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeBackupCode(userId: string, codeHash: string): Promise<boolean>;
+  countUnusedBackupCodes(userId: string): Promise<number>;
+  createTwoFactorChallenge(challenge: TwoFactorChallenge): Promise<void>;
+  getTwoFactorChallenge(id: string): Promise<TwoFactorChallenge | undefined>;
+  recordTwoFactorChallengeAttempt(id: string): Promise<number>;
+  deleteTwoFactorChallenge(id: string): Promise<void>;
+
+  // Passkeys
+  getUserPasskeys(userId: string): Promise<Passkey[]>;
+  getPasskeyByCredentialId(credentialId: string): Promise<Passkey | undefined>;
+  createPasskey(passkey: InsertPasskey): Promise<Passkey>;
+  updatePasskey(id: string, updates: Partial<Pick<Passkey, "name" | "counter" | "backedUp" | "lastUsedAt">>): Promise<void>;
+  deletePasskey(id: string): Promise<void>;
+  createPasskeyChallenge(challenge: PasskeyChallenge): Promise<void>;
+  // Returns the challenge and deletes it, so each one is used at most once
+  takePasskeyChallenge(id: string): Promise<PasskeyChallenge | undefined>;
   
   // Connections
   getConnection(id: string): Promise<Connection | undefined>;
@@ -93,8 +184,30 @@ export interface IStorage {
   getAcceptedConnectionsCount(userId: string): Promise<number>;
   deleteConnection(id: string): Promise<void>;
   
+  // Blocks and mutes
+  blockUser(blockerId: string, blockedId: string): Promise<void>;
+  unblockUser(blockerId: string, blockedId: string): Promise<void>;
+  getBlockedUsers(blockerId: string): Promise<User[]>;
+  getBlockedUserIds(userId: string): Promise<string[]>;
+  isBlockedBetween(userId1: string, userId2: string): Promise<boolean>;
+  muteUser(muterId: string, mutedId: string): Promise<void>;
+  unmuteUser(muterId: string, mutedId: string): Promise<void>;
+  getMutedUsers(muterId: string): Promise<User[]>;
+  getMutedUserIds(muterId: string): Promise<string[]>;
+  
+  // Reports and moderation
+  createReport(report: InsertReport): Promise<Report>;
+  getReport(id: string): Promise<Report | undefined>;
+  getOpenReportByReporter(reporterId: string, targetType: string, targetId: string): Promise<Report | undefined>;
+  getModerationReports(status: 'open' | 'resolved'): Promise<ModerationReport[]>;
+  getOpenReportsCount(): Promise<number>;
+  resolveReports(ids: string[], status: 'dismissed' | 'actioned', resolvedById: string): Promise<void>;
+  getOpenReportIdsForTarget(targetType: string, targetId: string): Promise<string[]>;
+  createModerationAction(action: InsertModerationAction): Promise<ModerationAction>;
+  getModerationActions(limit: number): Promise<ModerationAuditEntry[]>;
+  
   // Notifications
-  getNotifications(userId: string): Promise<Notification[]>;
+  getNotifications(userId: string): Promise<NotificationWithSender[]>;
   getUnreadNotificationsCount(userId: string): Promise<number>;
   createNotification(notification: InsertNotification): Promise<Notification>;
   markNotificationRead(id: string): Promise<void>;
@@ -106,7 +219,7 @@ export interface IStorage {
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
   
   // Direct messages
-  getDirectMessages(userId: string, otherUserId: string): Promise<DirectMessage[]>;
+  getDirectMessages(userId: string, otherUserId: string, options?: MessagePageOptions): Promise<DirectMessage[]>;
   getDirectMessage(messageId: string): Promise<DirectMessage | undefined>;
   getDirectMessageConversations(userId: string): Promise<Array<{ 
     oderId: string; 
@@ -116,9 +229,14 @@ export interface IStorage {
     unreadCount: number 
   }>>;
   createDirectMessage(message: InsertDirectMessage): Promise<DirectMessage>;
+  editDirectMessage(messageId: string, content: string, editedById: string): Promise<DirectMessage | undefined>;
+  getDirectMessageReplies(parentId: string): Promise<DirectMessage[]>;
   deleteDirectMessage(messageId: string): Promise<void>;
   markDirectMessageAsRead(messageId: string): Promise<DirectMessage | undefined>;
-  markMessagesFromUserAsRead(receiverId: string, senderId: string): Promise<void>;
+  markMessagesFromUserAsRead(receiverId: string, senderId: string): Promise<DirectMessage[]>;
+  markDirectMessagesDelivered(receiverId: string, messageIds: string[]): Promise<DirectMessage[]>;
+  getUndeliveredDirectMessages(receiverId: string): Promise<DirectMessage[]>;
+  getDirectMessageByClientId(senderId: string, clientId: string): Promise<DirectMessage | undefined>;
   getDirectMessageCount(userId: string): Promise<number>;
   getUnreadDirectMessageCount(userId: string): Promise<number>;
   
@@ -127,7 +245,7 @@ export interface IStorage {
   createActivity(activity: Omit<ActivityItem, "id">): Promise<ActivityItem>;
   
   // Posts
-  getPosts(options?: { sortBy?: 'newest' | 'likes'; connectionIds?: string[] }): Promise<Array<Post & { user: User; likesCount: number; dislikesCount: number; commentsCount: number; userReaction?: 'like' | 'dislike' | null }>>;
+  getPosts(options?: { ids?: string[]; connectionIds?: string[]; currentUserId?: string; excludeUserIds?: string[]; limit?: number; before?: { id: string; createdAt: string } }): Promise<Array<Post & { user: User; likesCount: number; dislikesCount: number; commentsCount: number; userReaction?: 'like' | 'dislike' | null }>>;
   getPost(id: string): Promise<Post | undefined>;
   getPostsByUserId(userId: string): Promise<Array<Post & { user: User }>>;
   createPost(post: InsertPost): Promise<Post>;
@@ -142,11 +260,12 @@ export interface IStorage {
   
   // Post comments
   getPostComments(postId: string): Promise<Array<PostComment & { user: User }>>;
+  getPostComment(id: string): Promise<PostComment | undefined>;
   createPostComment(comment: InsertPostComment): Promise<PostComment>;
   deletePostComment(id: string): Promise<void>;
 
   // Shorts
-  getShorts(options?: { limit?: number; offset?: number; random?: boolean }): Promise<{ shorts: Array<Short & { user: User }>; total: number; hasMore: boolean }>;
+  getShorts(options?: { limit?: number; offset?: number; random?: boolean; excludeUserIds?: string[] }): Promise<{ shorts: Array<Short & { user: User }>; total: number; hasMore: boolean }>;
   getShort(id: string): Promise<Short | undefined>;
   getShortsByUserId(userId: string): Promise<Array<Short & { user: User }>>;
   createShort(short: InsertShort): Promise<Short>;
@@ -162,6 +281,7 @@ export interface IStorage {
   
   // Short comments
   getShortComments(shortId: string): Promise<Array<ShortComment & { user: User }>>;
+  getShortComment(id: string): Promise<ShortComment | undefined>;
   createShortComment(comment: InsertShortComment): Promise<ShortComment>;
   deleteShortComment(id: string): Promise<void>;
   
@@ -180,11 +300,47 @@ export interface IStorage {
   deleteGroupMember(groupId: string, userId: string): Promise<void>;
   
   // Group messages
-  getGroupMessages(groupId: string): Promise<Array<GroupMessage & { sender: User }>>;
+  getGroupMessages(groupId: string, options?: MessagePageOptions): Promise<Array<GroupMessage & { sender: User }>>;
+  getGroupMessage(messageId: string): Promise<GroupMessage | undefined>;
   createGroupMessage(message: InsertGroupMessage): Promise<GroupMessage>;
+  getGroupMessageByClientId(senderId: string, clientId: string): Promise<GroupMessage | undefined>;
+  editGroupMessage(messageId: string, content: string, editedById: string): Promise<GroupMessage | undefined>;
+  getGroupMessageReplies(parentId: string): Promise<Array<GroupMessage & { sender: User }>>;
+  
+  // Threads
+  getReplyCounts(parentIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, number>>;
+  
+  // Message attachments
+  createMessageAttachment(attachment: InsertMessageAttachment): Promise<MessageAttachment>;
+  getMessageAttachment(id: string): Promise<MessageAttachment | undefined>;
+  getMessageAttachments(messageId: string, messageType: 'direct' | 'group'): Promise<MessageAttachment[]>;
+  getAttachmentsForMessages(messageIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, MessageAttachment[]>>;
+  attachFilesToMessage(attachmentIds: string[], messageId: string, messageType: 'direct' | 'group'): Promise<void>;
+  getGroupAttachments(groupId: string): Promise<{ attachment: MessageAttachment; uploader: User | null }[]>;
+  markVoiceMessagePlayed(attachmentId: string, userId: string): Promise<boolean>;
+  getVoiceMessagePlays(attachmentIds: string[]): Promise<Record<string, string[]>>;
+  
+  // Link preview cache
+  getLinkPreviewByUrl(url: string): Promise<LinkPreview | undefined>;
+  getLinkPreview(id: string): Promise<LinkPreview | undefined>;
+  saveLinkPreview(preview: InsertLinkPreview): Promise<LinkPreview>;
+  
+  // WebSocket event log (for resuming after a disconnect)
+  appendUserEvent(userId: string, type: string, payload: string): Promise<number>;
+  getUserEventsAfter(userId: string, afterSeq: number, limit: number): Promise<UserEvent[]>;
+  getLatestUserEventSeq(userId: string): Promise<number>;
+  getOldestUserEventSeq(userId: string): Promise<number | null>;
+  pruneUserEvents(before: string): Promise<void>;
+  
+  // Message search (only conversations the user belongs to, without blocked users)
+  searchMessages(userId: string, filters: MessageSearchFilters): Promise<MessageSearchResult[]>;
+  
+  // Message edit history
+  getMessageEdits(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageEdit & { editedBy: User }>>;
   
   // Message reactions
   getMessageReactions(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageReaction & { user: User }>>;
+  getReactionsForMessages(messageIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, Array<MessageReaction & { user: User }>>>;
   getMessageReaction(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<MessageReaction | undefined>;
   createMessageReaction(reaction: InsertMessageReaction): Promise<MessageReaction>;
   deleteMessageReaction(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<void>;
@@ -198,25 +354,33 @@ export interface IStorage {
 
 export class SQLiteStorage implements IStorage {
   private activities: Map<string, ActivityItem> = new Map();
+  private db: SQLiteDatabase;
+
+  // dbPath is a file path or ":memory:"; the schema is migrated on open
+  constructor(dbPath: string = getSqlitePath()) {
+    const { sqlite, db } = openDatabase(dbPath);
+    initializeDatabase(sqlite);
+    this.db = db;
+  }
 
   // Users
   async getUser(id: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
     return result[0];
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.email, email.toLowerCase())).limit(1);
+    const result = await this.db.select().from(users).where(eq(users.email, email.toLowerCase())).limit(1);
     return result[0];
   }
 
   async getUserByGoogleId(googleId: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.googleId, googleId)).limit(1);
+    const result = await this.db.select().from(users).where(eq(users.googleId, googleId)).limit(1);
     return result[0];
   }
 
   async getAllUsers(): Promise<User[]> {
-    return db.select().from(users).where(eq(users.profileCompleted, true));
+    return this.db.select().from(users).where(eq(users.profileCompleted, true));
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
@@ -228,7 +392,7 @@ export class SQLiteStorage implements IStorage {
       email: insertUser.email.toLowerCase(),
       interests,
     };
-    await db.insert(users).values(user as any);
+    await this.db.insert(users).values(user as any);
     return user as User;
   }
 
@@ -237,7 +401,7 @@ export class SQLiteStorage implements IStorage {
     if (updates.interests) {
       updateData.interests = [...updates.interests];
     }
-    await db.update(users).set(updateData as any).where(eq(users.id, id));
+    await this.db.update(users).set(updateData as any).where(eq(users.id, id));
     return this.getUser(id);
   }
 
@@ -253,19 +417,19 @@ export class SQLiteStorage implements IStorage {
   }
 
   async setUserOnline(id: string, isOnline: boolean): Promise<void> {
-    await db.update(users).set({ isOnline }).where(eq(users.id, id));
+    await this.db.update(users).set({ isOnline }).where(eq(users.id, id));
   }
 
   // Magic Link Tokens
   async createMagicLinkToken(insertToken: InsertMagicLinkToken): Promise<MagicLinkToken> {
     const id = randomUUID();
     const token = { ...insertToken, id };
-    await db.insert(magicLinkTokens).values(token);
+    await this.db.insert(magicLinkTokens).values(token);
     return token as MagicLinkToken;
   }
 
   async getMagicLinkToken(token: string): Promise<MagicLinkToken | undefined> {
-    const result = await db.select().from(magicLinkTokens)
+    const result = await this.db.select().from(magicLinkTokens)
       .where(and(
         eq(magicLinkTokens.token, token),
         eq(magicLinkTokens.used, false)
@@ -275,19 +439,17 @@ export class SQLiteStorage implements IStorage {
   }
 
   async markMagicLinkTokenUsed(id: string): Promise<void> {
-    await db.update(magicLinkTokens).set({ used: true }).where(eq(magicLinkTokens.id, id));
+    await this.db.update(magicLinkTokens).set({ used: true }).where(eq(magicLinkTokens.id, id));
   }
 
   // Sessions
   async createSession(insertSession: InsertSession): Promise<Session> {
-    const id = randomUUID();
-    const session = { ...insertSession, id };
-    await db.insert(sessions).values(session);
-    return session as Session;
+    await this.db.insert(sessions).values(insertSession);
+    return insertSession as Session;
   }
 
   async getSession(id: string): Promise<Session | undefined> {
-    const result = await db.select().from(sessions).where(eq(sessions.id, id)).limit(1);
+    const result = await this.db.select().from(sessions).where(eq(sessions.id, id)).limit(1);
     if (result[0]) {
       // Check if session is expired
       if (new Date(result[0].expiresAt) < new Date()) {
@@ -299,21 +461,160 @@ export class SQLiteStorage implements IStorage {
   }
 
   async deleteSession(id: string): Promise<void> {
-    await db.delete(sessions).where(eq(sessions.id, id));
+    await this.db.delete(sessions).where(eq(sessions.id, id));
   }
 
   async deleteUserSessions(userId: string): Promise<void> {
-    await db.delete(sessions).where(eq(sessions.userId, userId));
+    await this.db.delete(sessions).where(eq(sessions.userId, userId));
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    return this.db.select().from(sessions)
+      .where(and(eq(sessions.userId, userId), gt(sessions.expiresAt, new Date().toISOString())))
+      .orderBy(desc(sql`coalesce(${sessions.lastActiveAt}, ${sessions.createdAt})`));
+  }
+
+  async touchSession(id: string, lastActiveAt: string, expiresAt: string): Promise<void> {
+    await this.db.update(sessions).set({ lastActiveAt, expiresAt }).where(eq(sessions.id, id));
+  }
+
+  async rotateSession(id: string, newId: string, expiresAt: string): Promise<void> {
+    await this.db.update(sessions).set({ id: newId, expiresAt }).where(eq(sessions.id, id));
+  }
+
+  // Two-factor authentication
+  async getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined> {
+    const result = await this.db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId)).limit(1);
+    return result[0];
+  }
+
+  async saveTwoFactorSecret(userId: string, secret: string): Promise<void> {
+    const values = { userId, secret, enabledAt: null, lastUsedStep: null, createdAt: new Date().toISOString() };
+    await this.db.insert(twoFactorCredentials).values(values)
+      .onConflictDoUpdate({ target: twoFactorCredentials.userId, set: values });
+  }
+
+  async enableTwoFactor(userId: string, step: number): Promise<void> {
+    await this.db.update(twoFactorCredentials)
+      .set({ enabledAt: new Date().toISOString(), lastUsedStep: step })
+      .where(eq(twoFactorCredentials.userId, userId));
+  }
+
+  // Record a code's time step as used; false when it (or a later one) already was
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const result = await this.db.update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), lt(twoFactorCredentials.lastUsedStep, step))
+      ));
+    return result.changes > 0;
+  }
+
+  async deleteTwoFactor(userId: string): Promise<void> {
+    await this.db.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    await this.db.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+    await this.db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.userId, userId));
+  }
+
+  async replaceBackupCodes(userId: string, codeHashes: string[]): Promise<void> {
+    const createdAt = new Date().toISOString();
+    await this.db.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+    if (codeHashes.length > 0) {
+      await this.db.insert(twoFactorBackupCodes).values(
+        codeHashes.map((codeHash) => ({ id: randomUUID(), userId, codeHash, createdAt }))
+      );
+    }
+  }
+
+  async consumeBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.db.update(twoFactorBackupCodes)
+      .set({ usedAt: new Date().toISOString() })
+      .where(and(
+        eq(twoFactorBackupCodes.userId, userId),
+        eq(twoFactorBackupCodes.codeHash, codeHash),
+        isNull(twoFactorBackupCodes.usedAt)
+      ));
+    return result.changes > 0;
+  }
+
+  async countUnusedBackupCodes(userId: string): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)` }).from(twoFactorBackupCodes)
+      .where(and(eq(twoFactorBackupCodes.userId, userId), isNull(twoFactorBackupCodes.usedAt)));
+    return Number(result[0]?.count ?? 0);
+  }
+
+  async createTwoFactorChallenge(challenge: TwoFactorChallenge): Promise<void> {
+    await this.db.insert(twoFactorChallenges).values(challenge);
+  }
+
+  async getTwoFactorChallenge(id: string): Promise<TwoFactorChallenge | undefined> {
+    const result = await this.db.select().from(twoFactorChallenges).where(eq(twoFactorChallenges.id, id)).limit(1);
+    if (result[0] && new Date(result[0].expiresAt) < new Date()) {
+      await this.deleteTwoFactorChallenge(id);
+      return undefined;
+    }
+    return result[0];
+  }
+
+  // Count a code attempt against a challenge; returns the attempts made so far
+  async recordTwoFactorChallengeAttempt(id: string): Promise<number> {
+    const result = await this.db.update(twoFactorChallenges)
+      .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+      .where(eq(twoFactorChallenges.id, id))
+      .returning({ attempts: twoFactorChallenges.attempts });
+    return result[0]?.attempts ?? 0;
+  }
+
+  async deleteTwoFactorChallenge(id: string): Promise<void> {
+    await this.db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.id, id));
+  }
+
+  // Passkeys
+  async getUserPasskeys(userId: string): Promise<Passkey[]> {
+    return this.db.select().from(passkeys).where(eq(passkeys.userId, userId)).orderBy(passkeys.createdAt);
+  }
+
+  async getPasskeyByCredentialId(credentialId: string): Promise<Passkey | undefined> {
+    const result = await this.db.select().from(passkeys).where(eq(passkeys.credentialId, credentialId)).limit(1);
+    return result[0];
+  }
+
+  async createPasskey(insertPasskey: InsertPasskey): Promise<Passkey> {
+    const transports = insertPasskey.transports ? [...insertPasskey.transports] : [];
+    const result = await this.db.insert(passkeys).values({ ...insertPasskey, id: randomUUID(), transports }).returning();
+    return result[0];
+  }
+
+  async updatePasskey(id: string, updates: Partial<Pick<Passkey, "name" | "counter" | "backedUp" | "lastUsedAt">>): Promise<void> {
+    await this.db.update(passkeys).set(updates).where(eq(passkeys.id, id));
+  }
+
+  async deletePasskey(id: string): Promise<void> {
+    await this.db.delete(passkeys).where(eq(passkeys.id, id));
+  }
+
+  async createPasskeyChallenge(challenge: PasskeyChallenge): Promise<void> {
+    // Expired ceremonies are never taken; clear them out as new ones start
+    await this.db.delete(passkeyChallenges).where(lt(passkeyChallenges.expiresAt, new Date().toISOString()));
+    await this.db.insert(passkeyChallenges).values(challenge);
+  }
+
+  async takePasskeyChallenge(id: string): Promise<PasskeyChallenge | undefined> {
+    const result = await this.db.delete(passkeyChallenges).where(eq(passkeyChallenges.id, id)).returning();
+    const challenge = result[0];
+    if (!challenge || new Date(challenge.expiresAt) < new Date()) return undefined;
+    return challenge;
   }
 
   // Connections
   async getConnection(id: string): Promise<Connection | undefined> {
-    const result = await db.select().from(connections).where(eq(connections.id, id)).limit(1);
+    const result = await this.db.select().from(connections).where(eq(connections.id, id)).limit(1);
     return result[0];
   }
 
   async getConnectionsByUser(userId: string): Promise<Connection[]> {
-    return db.select().from(connections)
+    return this.db.select().from(connections)
       .where(or(
         eq(connections.requesterId, userId),
         eq(connections.receiverId, userId)
@@ -321,7 +622,7 @@ export class SQLiteStorage implements IStorage {
   }
 
   async getConnectionBetweenUsers(userId1: string, userId2: string): Promise<Connection | undefined> {
-    const result = await db.select().from(connections)
+    const result = await this.db.select().from(connections)
       .where(or(
         and(eq(connections.requesterId, userId1), eq(connections.receiverId, userId2)),
         and(eq(connections.requesterId, userId2), eq(connections.receiverId, userId1))
@@ -337,12 +638,12 @@ export class SQLiteStorage implements IStorage {
       id,
       createdAt: new Date().toISOString()
     };
-    await db.insert(connections).values(connection);
+    await this.db.insert(connections).values(connection);
     return connection as Connection;
   }
 
   async updateConnectionStatus(id: string, status: string): Promise<Connection | undefined> {
-    await db.update(connections)
+    await this.db.update(connections)
       .set({ status, updatedAt: new Date().toISOString() })
       .where(eq(connections.id, id));
     return this.getConnection(id);
@@ -355,19 +656,224 @@ export class SQLiteStorage implements IStorage {
 
   async deleteConnection(id: string): Promise<void> {
     // Also delete related notifications
-    await db.delete(notifications).where(eq(notifications.connectionId, id));
-    await db.delete(connections).where(eq(connections.id, id));
+    await this.db.delete(notifications).where(eq(notifications.connectionId, id));
+    await this.db.delete(connections).where(eq(connections.id, id));
+  }
+
+  // Blocks and mutes
+  async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    await this.db.insert(userBlocks)
+      .values({ id: randomUUID(), blockerId, blockedId, createdAt: new Date().toISOString() })
+      .onConflictDoNothing();
+    // A block ends any connection or pending request between the two
+    const connection = await this.getConnectionBetweenUsers(blockerId, blockedId);
+    if (connection) {
+      await this.deleteConnection(connection.id);
+    }
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    await this.db.delete(userBlocks)
+      .where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId)));
+  }
+
+  async getBlockedUsers(blockerId: string): Promise<User[]> {
+    return this.db.select({ user: users })
+      .from(userBlocks)
+      .innerJoin(users, eq(users.id, userBlocks.blockedId))
+      .where(eq(userBlocks.blockerId, blockerId))
+      .orderBy(desc(userBlocks.createdAt))
+      .then((rows) => rows.map((r) => r.user));
+  }
+
+  // Users blocked by, or blocking, the given user
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    const rows = await this.db.select().from(userBlocks)
+      .where(or(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, userId)));
+    return rows.map((r) => (r.blockerId === userId ? r.blockedId : r.blockerId));
+  }
+
+  async isBlockedBetween(userId1: string, userId2: string): Promise<boolean> {
+    const result = await this.db.select({ id: userBlocks.id }).from(userBlocks)
+      .where(or(
+        and(eq(userBlocks.blockerId, userId1), eq(userBlocks.blockedId, userId2)),
+        and(eq(userBlocks.blockerId, userId2), eq(userBlocks.blockedId, userId1))
+      ))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async muteUser(muterId: string, mutedId: string): Promise<void> {
+    await this.db.insert(userMutes)
+      .values({ id: randomUUID(), muterId, mutedId, createdAt: new Date().toISOString() })
+      .onConflictDoNothing();
+  }
+
+  async unmuteUser(muterId: string, mutedId: string): Promise<void> {
+    await this.db.delete(userMutes)
+      .where(and(eq(userMutes.muterId, muterId), eq(userMutes.mutedId, mutedId)));
+  }
+
+  async getMutedUsers(muterId: string): Promise<User[]> {
+    return this.db.select({ user: users })
+      .from(userMutes)
+      .innerJoin(users, eq(users.id, userMutes.mutedId))
+      .where(eq(userMutes.muterId, muterId))
+      .orderBy(desc(userMutes.createdAt))
+      .then((rows) => rows.map((r) => r.user));
+  }
+
+  async getMutedUserIds(muterId: string): Promise<string[]> {
+    const rows = await this.db.select({ mutedId: userMutes.mutedId }).from(userMutes)
+      .where(eq(userMutes.muterId, muterId));
+    return rows.map((r) => r.mutedId);
+  }
+
+  // Accounts under a suspension that hasn't ended yet
+  async getSuspendedUserIds(): Promise<string[]> {
+    const rows = await this.db.select({ id: users.id }).from(users)
+      .where(and(
+        sql`${users.suspendedAt} IS NOT NULL`,
+        or(isNull(users.suspendedUntil), gt(users.suspendedUntil, new Date().toISOString()))
+      ));
+    return rows.map((r) => r.id);
+  }
+
+  // Reports and moderation
+  async createReport(insertReport: InsertReport): Promise<Report> {
+    const id = randomUUID();
+    const report: Report = {
+      id,
+      ...insertReport,
+      targetUserId: insertReport.targetUserId ?? null,
+      details: insertReport.details ?? null,
+      contentSnapshot: insertReport.contentSnapshot ?? null,
+      status: insertReport.status ?? "open",
+      resolvedById: null,
+      resolvedAt: null,
+    };
+    await this.db.insert(reports).values(report);
+    return report;
+  }
+
+  async getReport(id: string): Promise<Report | undefined> {
+    const result = await this.db.select().from(reports).where(eq(reports.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getOpenReportByReporter(reporterId: string, targetType: string, targetId: string): Promise<Report | undefined> {
+    const result = await this.db.select().from(reports)
+      .where(and(
+        eq(reports.reporterId, reporterId),
+        eq(reports.targetType, targetType),
+        eq(reports.targetId, targetId),
+        eq(reports.status, "open")
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  // Open reports oldest first (the queue); resolved ones most recent first
+  async getModerationReports(status: 'open' | 'resolved'): Promise<ModerationReport[]> {
+    const rows = status === 'open'
+      ? await this.db.select().from(reports).where(eq(reports.status, "open")).orderBy(reports.createdAt)
+      : await this.db.select().from(reports).where(sql`${reports.status} != 'open'`).orderBy(desc(reports.resolvedAt)).limit(200);
+
+    const userIds = Array.from(new Set(rows.flatMap((r) => [r.reporterId, r.targetUserId]).filter((id): id is string => !!id)));
+    const userRows = userIds.length > 0 ? await this.db.select().from(users).where(inArray(users.id, userIds)) : [];
+    const usersById = new Map(userRows.map((u) => [u.id, u]));
+
+    const openCounts = new Map<string, number>();
+    if (status === 'open') {
+      for (const r of rows) {
+        const key = `${r.targetType}:${r.targetId}`;
+        openCounts.set(key, (openCounts.get(key) ?? 0) + 1);
+      }
+    }
+
+    return rows.map((r) => ({
+      ...r,
+      reporter: usersById.get(r.reporterId) ?? null,
+      targetUser: r.targetUserId ? usersById.get(r.targetUserId) ?? null : null,
+      relatedOpenCount: Math.max((openCounts.get(`${r.targetType}:${r.targetId}`) ?? 0) - 1, 0),
+    }));
+  }
+
+  async getOpenReportsCount(): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)` }).from(reports)
+      .where(eq(reports.status, "open"));
+    return result[0]?.count ?? 0;
+  }
+
+  async resolveReports(ids: string[], status: 'dismissed' | 'actioned', resolvedById: string): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.update(reports)
+      .set({ status, resolvedById, resolvedAt: new Date().toISOString() })
+      .where(and(inArray(reports.id, ids), eq(reports.status, "open")));
+  }
+
+  async getOpenReportIdsForTarget(targetType: string, targetId: string): Promise<string[]> {
+    const rows = await this.db.select({ id: reports.id }).from(reports)
+      .where(and(eq(reports.targetType, targetType), eq(reports.targetId, targetId), eq(reports.status, "open")));
+    return rows.map((r) => r.id);
+  }
+
+  async createModerationAction(insertAction: InsertModerationAction): Promise<ModerationAction> {
+    const id = randomUUID();
+    const action: ModerationAction = {
+      id,
+      ...insertAction,
+      reportId: insertAction.reportId ?? null,
+      targetType: insertAction.targetType ?? null,
+      targetId: insertAction.targetId ?? null,
+      targetUserId: insertAction.targetUserId ?? null,
+      note: insertAction.note ?? null,
+    };
+    await this.db.insert(moderationActions).values(action);
+    return action;
+  }
+
+  async getModerationActions(limit: number): Promise<ModerationAuditEntry[]> {
+    const rows = await this.db.select().from(moderationActions)
+      .orderBy(desc(moderationActions.createdAt))
+      .limit(limit);
+
+    const userIds = Array.from(new Set(rows.flatMap((r) => [r.moderatorId, r.targetUserId]).filter((id): id is string => !!id)));
+    const userRows = userIds.length > 0 ? await this.db.select().from(users).where(inArray(users.id, userIds)) : [];
+    const usersById = new Map(userRows.map((u) => [u.id, u]));
+
+    return rows.map((r) => ({
+      ...r,
+      moderator: usersById.get(r.moderatorId) ?? null,
+      targetUser: r.targetUserId ? usersById.get(r.targetUserId) ?? null : null,
+    }));
   }
 
   // Notifications
-  async getNotifications(userId: string): Promise<Notification[]> {
-    return db.select().from(notifications)
+  // Each notification with its sender and the sender's accepted connection count
+  async getNotifications(userId: string): Promise<NotificationWithSender[]> {
+    const rows = await this.db.select({
+      notification: notifications,
+      fromUser: users,
+      connectionsCount: sql<number>`(
+        SELECT count(*) FROM ${connections}
+        WHERE ${connections.status} = 'accepted'
+          AND (${connections.requesterId} = ${users.id} OR ${connections.receiverId} = ${users.id})
+      )`,
+    })
+      .from(notifications)
+      .leftJoin(users, eq(users.id, notifications.fromUserId))
       .where(eq(notifications.userId, userId))
       .orderBy(desc(notifications.createdAt));
+
+    return rows.map((row) => ({
+      ...row.notification,
+      fromUser: row.fromUser ? { ...row.fromUser, connectionsCount: row.connectionsCount } : null,
+    }));
   }
 
   async getUnreadNotificationsCount(userId: string): Promise<number> {
-    const result = await db.select().from(notifications)
+    const result = await this.db.select().from(notifications)
       .where(and(
         eq(notifications.userId, userId),
         eq(notifications.read, false)
@@ -378,20 +884,20 @@ export class SQLiteStorage implements IStorage {
   async createNotification(insertNotification: InsertNotification): Promise<Notification> {
     const id = randomUUID();
     const notification = { ...insertNotification, id };
-    await db.insert(notifications).values(notification);
+    await this.db.insert(notifications).values(notification);
     return notification as Notification;
   }
 
   async markNotificationRead(id: string): Promise<void> {
-    await db.update(notifications).set({ read: true }).where(eq(notifications.id, id));
+    await this.db.update(notifications).set({ read: true }).where(eq(notifications.id, id));
   }
 
   async markAllNotificationsRead(userId: string): Promise<void> {
-    await db.update(notifications).set({ read: true }).where(eq(notifications.userId, userId));
+    await this.db.update(notifications).set({ read: true }).where(eq(notifications.userId, userId));
   }
 
   async deleteNotificationByConnectionId(connectionId: string): Promise<void> {
-    await db.delete(notifications).where(
+    await this.db.delete(notifications).where(
       and(
         eq(notifications.connectionId, connectionId),
         eq(notifications.type, "connection_request")
@@ -401,28 +907,43 @@ export class SQLiteStorage implements IStorage {
 
   // Chat messages
   async getChatMessages(): Promise<ChatMessage[]> {
-    return db.select().from(chatMessages).orderBy(chatMessages.timestamp);
+    return this.db.select().from(chatMessages).orderBy(chatMessages.timestamp);
   }
 
   async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
     const id = randomUUID();
     const message = { ...insertMessage, id };
-    await db.insert(chatMessages).values(message);
+    await this.db.insert(chatMessages).values(message);
     return message as ChatMessage;
   }
 
   // Direct messages
-  async getDirectMessages(userId: string, otherUserId: string): Promise<DirectMessage[]> {
-    return db.select().from(directMessages)
-      .where(or(
-        and(eq(directMessages.senderId, userId), eq(directMessages.receiverId, otherUserId)),
-        and(eq(directMessages.senderId, otherUserId), eq(directMessages.receiverId, userId))
-      ))
-      .orderBy(directMessages.timestamp);
+  async getDirectMessages(userId: string, otherUserId: string, options: MessagePageOptions = {}): Promise<DirectMessage[]> {
+    const conditions = [or(
+      and(eq(directMessages.senderId, userId), eq(directMessages.receiverId, otherUserId)),
+      and(eq(directMessages.senderId, otherUserId), eq(directMessages.receiverId, userId))
+    )];
+
+    const cursorId = options.before ?? options.after;
+    if (cursorId) {
+      const cursor = await this.getDirectMessage(cursorId);
+      if (!cursor) return [];
+      conditions.push(cursorCondition(directMessages.timestamp, directMessages.id, cursor, options.before ? 'before' : 'after'));
+    }
+
+    // Unless paging forward, the newest messages are wanted: read newest first and flip
+    const newestFirst = !options.after || !!options.before;
+    const rows = await this.db.select().from(directMessages)
+      .where(and(...conditions))
+      .orderBy(...(newestFirst
+        ? [desc(directMessages.timestamp), desc(directMessages.id)]
+        : [directMessages.timestamp, directMessages.id]))
+      .limit(options.limit ?? -1);
+    return newestFirst ? rows.reverse() : rows;
   }
 
   async getDirectMessage(messageId: string): Promise<DirectMessage | undefined> {
-    const result = await db.select().from(directMessages).where(eq(directMessages.id, messageId)).limit(1);
+    const result = await this.db.select().from(directMessages).where(eq(directMessages.id, messageId)).limit(1);
     return result[0];
   }
 
@@ -433,7 +954,7 @@ export class SQLiteStorage implements IStorage {
     lastTimestamp?: string; 
     unreadCount: number 
   }>> {
-    const messages = await db.select().from(directMessages)
+    const messages = await this.db.select().from(directMessages)
       .where(or(
         eq(directMessages.senderId, userId),
         eq(directMessages.receiverId, userId)
@@ -473,40 +994,107 @@ export class SQLiteStorage implements IStorage {
 
   async createDirectMessage(insertMessage: InsertDirectMessage): Promise<DirectMessage> {
     const id = randomUUID();
-    const message = { ...insertMessage, id };
-    await db.insert(directMessages).values(message);
+    const message = { deliveredAt: null, readAt: null, clientId: null, ...insertMessage, id };
+    await this.db.insert(directMessages).values(message);
     return message as DirectMessage;
   }
 
+  async editDirectMessage(messageId: string, content: string, editedById: string): Promise<DirectMessage | undefined> {
+    const existing = await this.getDirectMessage(messageId);
+    if (!existing) return undefined;
+
+    const editedAt = new Date().toISOString();
+    // The history entry and the new content are written together
+    this.db.transaction((tx) => {
+      tx.insert(messageEdits).values({
+        id: randomUUID(),
+        messageId,
+        messageType: 'direct',
+        previousContent: existing.content,
+        editedById,
+        editedAt,
+      }).run();
+      tx.update(directMessages).set({ content, editedAt }).where(eq(directMessages.id, messageId)).run();
+    });
+    return { ...existing, content, editedAt };
+  }
+
+  async getDirectMessageReplies(parentId: string): Promise<DirectMessage[]> {
+    return this.db.select().from(directMessages)
+      .where(eq(directMessages.parentId, parentId))
+      .orderBy(directMessages.timestamp);
+  }
+
   async deleteDirectMessage(messageId: string): Promise<void> {
-    await db.delete(directMessages).where(eq(directMessages.id, messageId));
+    await this.db.delete(directMessages).where(eq(directMessages.id, messageId));
+    await this.db.delete(messageEdits)
+      .where(and(eq(messageEdits.messageId, messageId), eq(messageEdits.messageType, 'direct')));
+    const attachments = await this.getMessageAttachments(messageId, 'direct');
+    if (attachments.length > 0) {
+      await this.db.delete(voiceMessagePlays)
+        .where(inArray(voiceMessagePlays.attachmentId, attachments.map((a) => a.id)));
+    }
+    await this.db.delete(messageAttachments)
+      .where(and(eq(messageAttachments.messageId, messageId), eq(messageAttachments.messageType, 'direct')));
   }
 
   async markDirectMessageAsRead(messageId: string): Promise<DirectMessage | undefined> {
-    await db.update(directMessages).set({ isRead: true }).where(eq(directMessages.id, messageId));
-    const result = await db.select().from(directMessages).where(eq(directMessages.id, messageId)).limit(1);
+    const now = new Date().toISOString();
+    await this.db.update(directMessages)
+      .set({ isRead: true, readAt: sql`coalesce(${directMessages.readAt}, ${now})`, deliveredAt: sql`coalesce(${directMessages.deliveredAt}, ${now})` })
+      .where(eq(directMessages.id, messageId));
+    const result = await this.db.select().from(directMessages).where(eq(directMessages.id, messageId)).limit(1);
     return result[0];
   }
 
-  async markMessagesFromUserAsRead(receiverId: string, senderId: string): Promise<void> {
-    await db.update(directMessages)
-      .set({ isRead: true })
+  // Returns the messages that were newly marked as read
+  async markMessagesFromUserAsRead(receiverId: string, senderId: string): Promise<DirectMessage[]> {
+    const now = new Date().toISOString();
+    return this.db.update(directMessages)
+      .set({ isRead: true, readAt: now, deliveredAt: sql`coalesce(${directMessages.deliveredAt}, ${now})` })
       .where(and(
         eq(directMessages.receiverId, receiverId),
         eq(directMessages.senderId, senderId),
         eq(directMessages.isRead, false)
-      ));
+      ))
+      .returning();
+  }
+
+  // Returns the messages that were newly marked as delivered
+  async markDirectMessagesDelivered(receiverId: string, messageIds: string[]): Promise<DirectMessage[]> {
+    if (messageIds.length === 0) return [];
+    return this.db.update(directMessages)
+      .set({ deliveredAt: new Date().toISOString() })
+      .where(and(
+        eq(directMessages.receiverId, receiverId),
+        inArray(directMessages.id, messageIds),
+        isNull(directMessages.deliveredAt)
+      ))
+      .returning();
+  }
+
+  async getUndeliveredDirectMessages(receiverId: string): Promise<DirectMessage[]> {
+    return this.db.select().from(directMessages)
+      .where(and(eq(directMessages.receiverId, receiverId), isNull(directMessages.deliveredAt)))
+      .orderBy(directMessages.timestamp);
+  }
+
+  async getDirectMessageByClientId(senderId: string, clientId: string): Promise<DirectMessage | undefined> {
+    const result = await this.db.select().from(directMessages)
+      .where(and(eq(directMessages.senderId, senderId), eq(directMessages.clientId, clientId)))
+      .limit(1);
+    return result[0];
   }
 
   async getDirectMessageCount(userId: string): Promise<number> {
-    const result = await db.select({ count: sql<number>`count(*)` })
+    const result = await this.db.select({ count: sql<number>`count(*)` })
       .from(directMessages)
       .where(eq(directMessages.senderId, userId));
     return result[0]?.count || 0;
   }
 
   async getUnreadDirectMessageCount(userId: string): Promise<number> {
-    const result = await db.select({ count: sql<number>`count(*)` })
+    const result = await this.db.select({ count: sql<number>`count(*)` })
       .from(directMessages)
       .where(and(
         eq(directMessages.receiverId, userId),
@@ -530,50 +1118,72 @@ export class SQLiteStorage implements IStorage {
   }
 
   // Posts
-  async getPosts(options?: { sortBy?: 'newest' | 'likes'; connectionIds?: string[]; currentUserId?: string }): Promise<Array<Post & { user: User; likesCount: number; dislikesCount: number; commentsCount: number; userReaction?: 'like' | 'dislike' | null }>> {
-    let allPosts = await db.select().from(posts).orderBy(desc(posts.createdAt));
-    
+  async getPosts(options?: { ids?: string[]; connectionIds?: string[]; currentUserId?: string; excludeUserIds?: string[]; limit?: number; before?: { id: string; createdAt: string } }): Promise<Array<Post & { user: User; likesCount: number; dislikesCount: number; commentsCount: number; userReaction?: 'like' | 'dislike' | null }>> {
+    const conditions = [];
+
+    // Only these posts, e.g. the next page of a ranked feed
+    if (options?.ids) {
+      if (options.ids.length === 0) return [];
+      conditions.push(inArray(posts.id, options.ids));
+    }
+
     // Filter by connections if specified
     if (options?.connectionIds && options.connectionIds.length > 0) {
-      allPosts = allPosts.filter(post => options.connectionIds!.includes(post.userId));
+      conditions.push(inArray(posts.userId, options.connectionIds));
     }
-    
-    const enrichedPosts = await Promise.all(allPosts.map(async (post) => {
-      const user = await this.getUser(post.userId);
-      const likeCounts = await this.getPostLikesCount(post.id);
-      const comments = await db.select().from(postComments).where(eq(postComments.postId, post.id));
-      
-      let userReaction: 'like' | 'dislike' | null = null;
-      if (options?.currentUserId) {
-        const reaction = await this.getPostLike(post.id, options.currentUserId);
-        userReaction = reaction?.type as 'like' | 'dislike' | null;
-      }
-      
-      return {
-        ...post,
-        user: user!,
-        likesCount: likeCounts.likes,
-        dislikesCount: likeCounts.dislikes,
-        commentsCount: comments.length,
-        userReaction,
-      };
-    }));
-    
-    // Sort by likes if specified
-    if (options?.sortBy === 'likes') {
-      enrichedPosts.sort((a, b) => b.likesCount - a.likesCount);
+
+    // Hide blocked and muted authors
+    if (options?.excludeUserIds && options.excludeUserIds.length > 0) {
+      conditions.push(notInArray(posts.userId, options.excludeUserIds));
     }
-    
-    return enrichedPosts;
+
+    // Older than the cursor, for paging newest first
+    if (options?.before) {
+      conditions.push(cursorCondition(posts.createdAt, posts.id, { id: options.before.id, timestamp: options.before.createdAt }, 'before'));
+    }
+
+    // Totals for just the posts being returned, each looked up through the
+    // post_id indexes rather than aggregating the whole likes and comments tables
+    const reactionCount = (type: 'like' | 'dislike') => sql<number>`(
+      SELECT count(*) FROM ${postLikes}
+      WHERE ${postLikes.postId} = ${posts.id} AND ${postLikes.type} = ${type}
+    )`;
+
+    const rows = await this.db.select({
+      post: posts,
+      user: users,
+      likesCount: reactionCount('like'),
+      dislikesCount: reactionCount('dislike'),
+      commentsCount: sql<number>`(SELECT count(*) FROM ${postComments} WHERE ${postComments.postId} = ${posts.id})`,
+      userReaction: sql<'like' | 'dislike' | null>`(
+        SELECT ${postLikes.type} FROM ${postLikes}
+        WHERE ${postLikes.postId} = ${posts.id} AND ${postLikes.userId} = ${options?.currentUserId ?? null}
+        LIMIT 1
+      )`,
+    })
+      .from(posts)
+      .leftJoin(users, eq(users.id, posts.userId))
+      .where(and(...conditions))
+      .orderBy(desc(posts.createdAt), desc(posts.id))
+      .limit(options?.limit ?? -1);
+
+    return rows.map((row) => ({
+      ...row.post,
+      user: row.user!,
+      likesCount: row.likesCount,
+      dislikesCount: row.dislikesCount,
+      commentsCount: row.commentsCount,
+      userReaction: row.userReaction,
+    }));
   }
 
   async getPost(id: string): Promise<Post | undefined> {
-    const result = await db.select().from(posts).where(eq(posts.id, id)).limit(1);
+    const result = await this.db.select().from(posts).where(eq(posts.id, id)).limit(1);
     return result[0];
   }
 
   async getPostsByUserId(userId: string): Promise<Array<Post & { user: User }>> {
-    const userPosts = await db.select()
+    const userPosts = await this.db.select()
       .from(posts)
       .where(eq(posts.userId, userId))
       .orderBy(desc(posts.createdAt));
@@ -590,20 +1200,20 @@ export class SQLiteStorage implements IStorage {
   async createPost(insertPost: InsertPost): Promise<Post> {
     const id = randomUUID();
     const post = { ...insertPost, id };
-    await db.insert(posts).values(post);
+    await this.db.insert(posts).values(post);
     return post as Post;
   }
 
   async deletePost(id: string): Promise<void> {
     // Delete all related likes and comments first
-    await db.delete(postLikes).where(eq(postLikes.postId, id));
-    await db.delete(postComments).where(eq(postComments.postId, id));
-    await db.delete(posts).where(eq(posts.id, id));
+    await this.db.delete(postLikes).where(eq(postLikes.postId, id));
+    await this.db.delete(postComments).where(eq(postComments.postId, id));
+    await this.db.delete(posts).where(eq(posts.id, id));
   }
 
   // Post likes
   async getPostLike(postId: string, userId: string): Promise<PostLike | undefined> {
-    const result = await db.select().from(postLikes)
+    const result = await this.db.select().from(postLikes)
       .where(and(eq(postLikes.postId, postId), eq(postLikes.userId, userId)))
       .limit(1);
     return result[0];
@@ -612,23 +1222,23 @@ export class SQLiteStorage implements IStorage {
   async createPostLike(insertLike: InsertPostLike): Promise<PostLike> {
     const id = randomUUID();
     const like = { ...insertLike, id };
-    await db.insert(postLikes).values(like);
+    await this.db.insert(postLikes).values(like);
     return like as PostLike;
   }
 
   async updatePostLike(id: string, type: 'like' | 'dislike'): Promise<PostLike | undefined> {
-    await db.update(postLikes).set({ type }).where(eq(postLikes.id, id));
-    const result = await db.select().from(postLikes).where(eq(postLikes.id, id)).limit(1);
+    await this.db.update(postLikes).set({ type }).where(eq(postLikes.id, id));
+    const result = await this.db.select().from(postLikes).where(eq(postLikes.id, id)).limit(1);
     return result[0];
   }
 
   async deletePostLike(postId: string, userId: string): Promise<void> {
-    await db.delete(postLikes)
+    await this.db.delete(postLikes)
       .where(and(eq(postLikes.postId, postId), eq(postLikes.userId, userId)));
   }
 
   async getPostLikesCount(postId: string): Promise<{ likes: number; dislikes: number }> {
-    const allLikes = await db.select().from(postLikes).where(eq(postLikes.postId, postId));
+    const allLikes = await this.db.select().from(postLikes).where(eq(postLikes.postId, postId));
     const likes = allLikes.filter(l => l.type === 'like').length;
     const dislikes = allLikes.filter(l => l.type === 'dislike').length;
     return { likes, dislikes };
@@ -636,7 +1246,7 @@ export class SQLiteStorage implements IStorage {
 
   // Post comments
   async getPostComments(postId: string): Promise<Array<PostComment & { user: User }>> {
-    const comments = await db.select().from(postComments)
+    const comments = await this.db.select().from(postComments)
       .where(eq(postComments.postId, postId))
       .orderBy(postComments.createdAt);
     
@@ -649,51 +1259,49 @@ export class SQLiteStorage implements IStorage {
   async createPostComment(insertComment: InsertPostComment): Promise<PostComment> {
     const id = randomUUID();
     const comment = { ...insertComment, id };
-    await db.insert(postComments).values(comment);
+    await this.db.insert(postComments).values(comment);
     return comment as PostComment;
   }
 
+  async getPostComment(id: string): Promise<PostComment | undefined> {
+    const result = await this.db.select().from(postComments).where(eq(postComments.id, id)).limit(1);
+    return result[0];
+  }
+
   async deletePostComment(id: string): Promise<void> {
-    await db.delete(postComments).where(eq(postComments.id, id));
+    await this.db.delete(postComments).where(eq(postComments.id, id));
   }
 
   // Shorts
-  async getShorts(options?: { limit?: number; offset?: number; random?: boolean }): Promise<{ shorts: Array<Short & { user: User }>; total: number; hasMore: boolean }> {
-    let allShorts = await db.select().from(shorts).orderBy(desc(shorts.createdAt));
-    const total = allShorts.length;
-    
-    // Shuffle if random is requested
-    if (options?.random) {
-      allShorts = allShorts.sort(() => Math.random() - 0.5);
-    }
-    
-    // Apply offset and limit for pagination
-    const offset = options?.offset ?? 0;
+  async getShorts(options?: { limit?: number; offset?: number; random?: boolean; excludeUserIds?: string[] }): Promise<{ shorts: Array<Short & { user: User }>; total: number; hasMore: boolean }> {
+    // Hide blocked and muted authors
+    const visible = options?.excludeUserIds && options.excludeUserIds.length > 0
+      ? notInArray(shorts.userId, options.excludeUserIds)
+      : undefined;
+    const [{ total }] = await this.db.select({ total: sql<number>`count(*)` }).from(shorts).where(visible);
+
+    // Apply offset and limit for pagination; random order is reshuffled on every request
+    const offset = options?.offset && options.offset > 0 ? options.offset : 0;
     const limit = options?.limit;
-    
-    if (limit) {
-      allShorts = allShorts.slice(offset, offset + limit);
-    } else if (offset > 0) {
-      allShorts = allShorts.slice(offset);
-    }
-    
+    const rows = await this.db.select({ short: shorts, user: users })
+      .from(shorts)
+      .leftJoin(users, eq(users.id, shorts.userId))
+      .where(visible)
+      .orderBy(options?.random ? sql`random()` : desc(shorts.createdAt))
+      .limit(limit || -1)
+      .offset(offset);
+
     const hasMore = limit ? (offset + limit) < total : false;
-    
-    const enrichedShorts = await Promise.all(allShorts.map(async (short) => {
-      const user = await this.getUser(short.userId);
-      return { ...short, user: user! };
-    }));
-    
-    return { shorts: enrichedShorts, total, hasMore };
+    return { shorts: rows.map((row) => ({ ...row.short, user: row.user! })), total, hasMore };
   }
 
   async getShort(id: string): Promise<Short | undefined> {
-    const result = await db.select().from(shorts).where(eq(shorts.id, id)).limit(1);
+    const result = await this.db.select().from(shorts).where(eq(shorts.id, id)).limit(1);
     return result[0];
   }
 
   async getShortsByUserId(userId: string): Promise<Array<Short & { user: User }>> {
-    const userShorts = await db.select()
+    const userShorts = await this.db.select()
       .from(shorts)
       .where(eq(shorts.userId, userId))
       .orderBy(desc(shorts.createdAt));
@@ -710,23 +1318,23 @@ export class SQLiteStorage implements IStorage {
   async createShort(insertShort: InsertShort): Promise<Short> {
     const id = randomUUID();
     const short = { ...insertShort, id };
-    await db.insert(shorts).values(short);
+    await this.db.insert(shorts).values(short);
     return short as Short;
   }
 
   async deleteShort(id: string): Promise<void> {
-    await db.delete(shorts).where(eq(shorts.id, id));
+    await this.db.delete(shorts).where(eq(shorts.id, id));
   }
 
   async incrementShortViewCount(id: string): Promise<void> {
-    await db.update(shorts)
+    await this.db.update(shorts)
       .set({ viewCount: sql`${shorts.viewCount} + 1` })
       .where(eq(shorts.id, id));
   }
 
   // Short likes
   async getShortLike(shortId: string, userId: string): Promise<ShortLike | undefined> {
-    const result = await db.select().from(shortLikes)
+    const result = await this.db.select().from(shortLikes)
       .where(and(eq(shortLikes.shortId, shortId), eq(shortLikes.userId, userId)))
       .limit(1);
     return result[0];
@@ -735,23 +1343,23 @@ export class SQLiteStorage implements IStorage {
   async createShortLike(insertLike: InsertShortLike): Promise<ShortLike> {
     const id = randomUUID();
     const like = { ...insertLike, id };
-    await db.insert(shortLikes).values(like);
+    await this.db.insert(shortLikes).values(like);
     return like as ShortLike;
   }
 
   async updateShortLike(id: string, type: 'like' | 'dislike'): Promise<ShortLike | undefined> {
-    await db.update(shortLikes).set({ type }).where(eq(shortLikes.id, id));
-    const result = await db.select().from(shortLikes).where(eq(shortLikes.id, id)).limit(1);
+    await this.db.update(shortLikes).set({ type }).where(eq(shortLikes.id, id));
+    const result = await this.db.select().from(shortLikes).where(eq(shortLikes.id, id)).limit(1);
     return result[0];
   }
 
   async deleteShortLike(shortId: string, userId: string): Promise<void> {
-    await db.delete(shortLikes)
+    await this.db.delete(shortLikes)
       .where(and(eq(shortLikes.shortId, shortId), eq(shortLikes.userId, userId)));
   }
 
   async getShortLikesCount(shortId: string): Promise<{ likes: number; dislikes: number }> {
-    const allLikes = await db.select().from(shortLikes).where(eq(shortLikes.shortId, shortId));
+    const allLikes = await this.db.select().from(shortLikes).where(eq(shortLikes.shortId, shortId));
     const likes = allLikes.filter(l => l.type === 'like').length;
     const dislikes = allLikes.filter(l => l.type === 'dislike').length;
     return { likes, dislikes };
@@ -759,7 +1367,7 @@ export class SQLiteStorage implements IStorage {
 
   // Short comments
   async getShortComments(shortId: string): Promise<Array<ShortComment & { user: User }>> {
-    const comments = await db.select().from(shortComments)
+    const comments = await this.db.select().from(shortComments)
       .where(eq(shortComments.shortId, shortId))
       .orderBy(shortComments.createdAt);
     
@@ -772,23 +1380,28 @@ export class SQLiteStorage implements IStorage {
   async createShortComment(insertComment: InsertShortComment): Promise<ShortComment> {
     const id = randomUUID();
     const comment = { ...insertComment, id };
-    await db.insert(shortComments).values(comment);
+    await this.db.insert(shortComments).values(comment);
     return comment as ShortComment;
   }
 
+  async getShortComment(id: string): Promise<ShortComment | undefined> {
+    const result = await this.db.select().from(shortComments).where(eq(shortComments.id, id)).limit(1);
+    return result[0];
+  }
+
   async deleteShortComment(id: string): Promise<void> {
-    await db.delete(shortComments).where(eq(shortComments.id, id));
+    await this.db.delete(shortComments).where(eq(shortComments.id, id));
   }
 
   // Groups
   async getGroup(id: string): Promise<Group | undefined> {
-    const result = await db.select().from(groups).where(eq(groups.id, id)).limit(1);
+    const result = await this.db.select().from(groups).where(eq(groups.id, id)).limit(1);
     return result[0];
   }
 
   async getGroupsByUser(userId: string): Promise<Array<Group & { memberCount: number }>> {
     // Get all groups where user is an accepted member
-    const memberships = await db.select().from(groupMembers)
+    const memberships = await this.db.select().from(groupMembers)
       .where(and(
         eq(groupMembers.userId, userId),
         eq(groupMembers.status, "accepted")
@@ -799,7 +1412,7 @@ export class SQLiteStorage implements IStorage {
     for (const membership of memberships) {
       const group = await this.getGroup(membership.groupId);
       if (group) {
-        const members = await db.select().from(groupMembers)
+        const members = await this.db.select().from(groupMembers)
           .where(and(
             eq(groupMembers.groupId, group.id),
             eq(groupMembers.status, "accepted")
@@ -817,37 +1430,35 @@ export class SQLiteStorage implements IStorage {
   async createGroup(insertGroup: InsertGroup): Promise<Group> {
     const id = randomUUID();
     const group = { ...insertGroup, id };
-    await db.insert(groups).values(group);
+    await this.db.insert(groups).values(group);
     return group as Group;
   }
 
   async deleteGroup(id: string): Promise<void> {
     // Delete all members and messages first
-    await db.delete(groupMembers).where(eq(groupMembers.groupId, id));
-    await db.delete(groupMessages).where(eq(groupMessages.groupId, id));
-    await db.delete(groups).where(eq(groups.id, id));
+    await this.db.delete(groupMembers).where(eq(groupMembers.groupId, id));
+    await this.db.delete(groupMessages).where(eq(groupMessages.groupId, id));
+    await this.db.delete(groups).where(eq(groups.id, id));
   }
 
   // Group members
   async getGroupMember(groupId: string, userId: string): Promise<GroupMember | undefined> {
-    const result = await db.select().from(groupMembers)
+    const result = await this.db.select().from(groupMembers)
       .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)))
       .limit(1);
     return result[0];
   }
 
   async getGroupMembers(groupId: string): Promise<Array<GroupMember & { user: User }>> {
-    const members = await db.select().from(groupMembers)
+    const rows = await this.db.select({ member: groupMembers, user: users })
+      .from(groupMembers)
+      .leftJoin(users, eq(users.id, groupMembers.userId))
       .where(eq(groupMembers.groupId, groupId));
-    
-    return Promise.all(members.map(async (member) => {
-      const user = await this.getUser(member.userId);
-      return { ...member, user: user! };
-    }));
+    return rows.map((row) => ({ ...row.member, user: row.user! }));
   }
 
   async getGroupInvitations(userId: string): Promise<Array<GroupMember & { group: Group; invitedBy: User | null }>> {
-    const invitations = await db.select().from(groupMembers)
+    const invitations = await this.db.select().from(groupMembers)
       .where(and(
         eq(groupMembers.userId, userId),
         eq(groupMembers.status, "pending")
@@ -863,7 +1474,7 @@ export class SQLiteStorage implements IStorage {
   async createGroupMember(insertMember: InsertGroupMember): Promise<GroupMember> {
     const id = randomUUID();
     const member = { ...insertMember, id };
-    await db.insert(groupMembers).values(member);
+    await this.db.insert(groupMembers).values(member);
     return member as GroupMember;
   }
 
@@ -872,51 +1483,351 @@ export class SQLiteStorage implements IStorage {
     if (joinedAt) {
       updates.joinedAt = joinedAt;
     }
-    await db.update(groupMembers).set(updates).where(eq(groupMembers.id, id));
-    const result = await db.select().from(groupMembers).where(eq(groupMembers.id, id)).limit(1);
+    await this.db.update(groupMembers).set(updates).where(eq(groupMembers.id, id));
+    const result = await this.db.select().from(groupMembers).where(eq(groupMembers.id, id)).limit(1);
     return result[0];
   }
 
   async deleteGroupMember(groupId: string, userId: string): Promise<void> {
-    await db.delete(groupMembers)
+    await this.db.delete(groupMembers)
       .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
   }
 
   // Group messages
-  async getGroupMessages(groupId: string): Promise<Array<GroupMessage & { sender: User }>> {
-    const messages = await db.select().from(groupMessages)
-      .where(eq(groupMessages.groupId, groupId))
-      .orderBy(groupMessages.timestamp);
-    
-    return Promise.all(messages.map(async (message) => {
-      const sender = await this.getUser(message.senderId);
-      return { ...message, sender: sender! };
-    }));
+  async getGroupMessages(groupId: string, options: MessagePageOptions = {}): Promise<Array<GroupMessage & { sender: User }>> {
+    const conditions = [eq(groupMessages.groupId, groupId)];
+
+    const cursorId = options.before ?? options.after;
+    if (cursorId) {
+      const cursor = await this.getGroupMessage(cursorId);
+      if (!cursor) return [];
+      conditions.push(cursorCondition(groupMessages.timestamp, groupMessages.id, cursor, options.before ? 'before' : 'after'));
+    }
+
+    // Unless paging forward, the newest messages are wanted: read newest first and flip
+    const newestFirst = !options.after || !!options.before;
+    const rows = await this.db.select({ message: groupMessages, sender: users })
+      .from(groupMessages)
+      .leftJoin(users, eq(users.id, groupMessages.senderId))
+      .where(and(...conditions))
+      .orderBy(...(newestFirst
+        ? [desc(groupMessages.timestamp), desc(groupMessages.id)]
+        : [groupMessages.timestamp, groupMessages.id]))
+      .limit(options.limit ?? -1);
+
+    const messages = rows.map((row) => ({ ...row.message, sender: row.sender! }));
+    return newestFirst ? messages.reverse() : messages;
+  }
+
+  async getGroupMessage(messageId: string): Promise<GroupMessage | undefined> {
+    const result = await this.db.select().from(groupMessages).where(eq(groupMessages.id, messageId)).limit(1);
+    return result[0];
   }
 
   async createGroupMessage(insertMessage: InsertGroupMessage): Promise<GroupMessage> {
     const id = randomUUID();
     const message = { ...insertMessage, id };
-    await db.insert(groupMessages).values(message);
+    await this.db.insert(groupMessages).values(message);
     return message as GroupMessage;
   }
 
+  async getGroupMessageByClientId(senderId: string, clientId: string): Promise<GroupMessage | undefined> {
+    const result = await this.db.select().from(groupMessages)
+      .where(and(eq(groupMessages.senderId, senderId), eq(groupMessages.clientId, clientId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async editGroupMessage(messageId: string, content: string, editedById: string): Promise<GroupMessage | undefined> {
+    const existing = await this.getGroupMessage(messageId);
+    if (!existing) return undefined;
+
+    const editedAt = new Date().toISOString();
+    // The history entry and the new content are written together
+    this.db.transaction((tx) => {
+      tx.insert(messageEdits).values({
+        id: randomUUID(),
+        messageId,
+        messageType: 'group',
+        previousContent: existing.content,
+        editedById,
+        editedAt,
+      }).run();
+      tx.update(groupMessages).set({ content, editedAt }).where(eq(groupMessages.id, messageId)).run();
+    });
+    return { ...existing, content, editedAt };
+  }
+
+  async getGroupMessageReplies(parentId: string): Promise<Array<GroupMessage & { sender: User }>> {
+    const replies = await this.db.select().from(groupMessages)
+      .where(eq(groupMessages.parentId, parentId))
+      .orderBy(groupMessages.timestamp);
+
+    return Promise.all(replies.map(async (reply) => {
+      const sender = await this.getUser(reply.senderId);
+      return { ...reply, sender: sender! };
+    }));
+  }
+
+  // Threads
+  async getReplyCounts(parentIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, number>> {
+    if (parentIds.length === 0) return {};
+
+    const table = messageType === 'group' ? groupMessages : directMessages;
+    const rows = await this.db.select({ parentId: table.parentId, count: sql<number>`count(*)` })
+      .from(table)
+      .where(inArray(table.parentId, parentIds))
+      .groupBy(table.parentId);
+
+    const counts: Record<string, number> = {};
+    for (const row of rows) {
+      if (row.parentId) counts[row.parentId] = Number(row.count);
+    }
+    return counts;
+  }
+
+  // Message attachments
+  async createMessageAttachment(insertAttachment: InsertMessageAttachment): Promise<MessageAttachment> {
+    const id = randomUUID();
+    const attachment = { ...insertAttachment, id };
+    await this.db.insert(messageAttachments).values(attachment);
+    return attachment as MessageAttachment;
+  }
+
+  async getMessageAttachment(id: string): Promise<MessageAttachment | undefined> {
+    const result = await this.db.select().from(messageAttachments).where(eq(messageAttachments.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getMessageAttachments(messageId: string, messageType: 'direct' | 'group'): Promise<MessageAttachment[]> {
+    return this.db.select().from(messageAttachments)
+      .where(and(
+        eq(messageAttachments.messageId, messageId),
+        eq(messageAttachments.messageType, messageType)
+      ))
+      .orderBy(messageAttachments.createdAt);
+  }
+
+  // Attachments of several messages at once, keyed by message id
+  async getAttachmentsForMessages(messageIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, MessageAttachment[]>> {
+    if (messageIds.length === 0) return {};
+    const rows = await this.db.select().from(messageAttachments)
+      .where(and(
+        inArray(messageAttachments.messageId, messageIds),
+        eq(messageAttachments.messageType, messageType)
+      ))
+      .orderBy(messageAttachments.createdAt);
+
+    const attachments: Record<string, MessageAttachment[]> = {};
+    for (const row of rows) {
+      (attachments[row.messageId!] ||= []).push(row);
+    }
+    return attachments;
+  }
+
+  async attachFilesToMessage(attachmentIds: string[], messageId: string, messageType: 'direct' | 'group'): Promise<void> {
+    if (attachmentIds.length === 0) return;
+    await this.db.update(messageAttachments)
+      .set({ messageId, messageType })
+      .where(inArray(messageAttachments.id, attachmentIds));
+  }
+
+  async getGroupAttachments(groupId: string): Promise<{ attachment: MessageAttachment; uploader: User | null }[]> {
+    return this.db.select({ attachment: messageAttachments, uploader: users })
+      .from(messageAttachments)
+      .innerJoin(groupMessages, eq(messageAttachments.messageId, groupMessages.id))
+      .leftJoin(users, eq(messageAttachments.uploaderId, users.id))
+      .where(and(
+        eq(messageAttachments.messageType, 'group'),
+        eq(groupMessages.groupId, groupId)
+      ))
+      .orderBy(desc(messageAttachments.createdAt));
+  }
+
+  // Returns false if the user had already played it
+  async markVoiceMessagePlayed(attachmentId: string, userId: string): Promise<boolean> {
+    const existing = await this.db.select().from(voiceMessagePlays)
+      .where(and(
+        eq(voiceMessagePlays.attachmentId, attachmentId),
+        eq(voiceMessagePlays.userId, userId)
+      ))
+      .limit(1);
+    if (existing.length > 0) return false;
+
+    await this.db.insert(voiceMessagePlays).values({
+      id: randomUUID(),
+      attachmentId,
+      userId,
+      playedAt: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  async getVoiceMessagePlays(attachmentIds: string[]): Promise<Record<string, string[]>> {
+    if (attachmentIds.length === 0) return {};
+    const rows = await this.db.select().from(voiceMessagePlays)
+      .where(inArray(voiceMessagePlays.attachmentId, attachmentIds));
+
+    const plays: Record<string, string[]> = {};
+    for (const row of rows) {
+      (plays[row.attachmentId] ||= []).push(row.userId);
+    }
+    return plays;
+  }
+
+  // Link preview cache
+  async getLinkPreviewByUrl(url: string): Promise<LinkPreview | undefined> {
+    const result = await this.db.select().from(linkPreviews).where(eq(linkPreviews.url, url)).limit(1);
+    return result[0];
+  }
+
+  async getLinkPreview(id: string): Promise<LinkPreview | undefined> {
+    const result = await this.db.select().from(linkPreviews).where(eq(linkPreviews.id, id)).limit(1);
+    return result[0];
+  }
+
+  // Insert or refresh the cached preview for a URL
+  async saveLinkPreview(preview: InsertLinkPreview): Promise<LinkPreview> {
+    await this.db.insert(linkPreviews).values(preview)
+      .onConflictDoUpdate({
+        target: linkPreviews.url,
+        set: {
+          status: preview.status,
+          title: preview.title,
+          description: preview.description,
+          siteName: preview.siteName,
+          imageUrl: preview.imageUrl,
+          imageFile: preview.imageFile,
+          fetchedAt: preview.fetchedAt,
+        },
+      });
+    return (await this.getLinkPreviewByUrl(preview.url))!;
+  }
+
+  // WebSocket event log
+  async appendUserEvent(userId: string, type: string, payload: string): Promise<number> {
+    const result = await this.db.insert(userEvents)
+      .values({ userId, type, payload, createdAt: new Date().toISOString() })
+      .returning({ seq: userEvents.seq });
+    return result[0].seq;
+  }
+
+  async getUserEventsAfter(userId: string, afterSeq: number, limit: number): Promise<UserEvent[]> {
+    return this.db.select().from(userEvents)
+      .where(and(eq(userEvents.userId, userId), gt(userEvents.seq, afterSeq)))
+      .orderBy(userEvents.seq)
+      .limit(limit);
+  }
+
+  async getLatestUserEventSeq(userId: string): Promise<number> {
+    const result = await this.db.select({ seq: sql<number | null>`max(${userEvents.seq})` })
+      .from(userEvents)
+      .where(eq(userEvents.userId, userId));
+    return result[0]?.seq ?? 0;
+  }
+
+  async getOldestUserEventSeq(userId: string): Promise<number | null> {
+    const result = await this.db.select({ seq: sql<number | null>`min(${userEvents.seq})` })
+      .from(userEvents)
+      .where(eq(userEvents.userId, userId));
+    return result[0]?.seq ?? null;
+  }
+
+  async pruneUserEvents(before: string): Promise<void> {
+    await this.db.delete(userEvents).where(lt(userEvents.createdAt, before));
+  }
+
+  // Message search
+  async searchMessages(userId: string, filters: MessageSearchFilters): Promise<MessageSearchResult[]> {
+    const matchQuery = toFtsQuery(filters.query);
+    if (!matchQuery) return [];
+
+    const limit = Math.min(Math.max(filters.limit ?? 50, 1), 100);
+    const snippet = sql`snippet(message_search, 0, ${SEARCH_HIGHLIGHT_START}, ${SEARCH_HIGHLIGHT_END}, '…', 12)`;
+    const dateFilter = (column: string) => sql.join([
+      filters.from ? sql` AND ${sql.raw(column)} >= ${filters.from}` : sql``,
+      filters.to ? sql` AND ${sql.raw(column)} <= ${filters.to}` : sql``,
+    ]);
+
+    // Leave out anyone the user has blocked or been blocked by
+    const notBlocked = (otherUserId: SQL) => sql`
+      AND NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE (b.blocker_id = ${userId} AND b.blocked_id = ${otherUserId})
+          OR (b.blocked_id = ${userId} AND b.blocker_id = ${otherUserId})
+      )`;
+
+    // Direct messages the user sent or received (skipped when filtering by group)
+    const directBranch = filters.groupId ? null : sql`
+      SELECT m.id AS messageId, 'direct' AS messageType, m.sender_id AS senderId,
+        m.receiver_id AS receiverId, NULL AS groupId, m.timestamp AS timestamp, ${snippet} AS snippet
+      FROM message_search
+      JOIN direct_messages m ON m.id = message_search.message_id
+      WHERE message_search MATCH ${matchQuery}
+        AND message_search.message_type = 'direct'
+        AND (m.sender_id = ${userId} OR m.receiver_id = ${userId})
+        ${filters.withUserId ? sql`AND (m.sender_id = ${filters.withUserId} OR m.receiver_id = ${filters.withUserId})` : sql``}
+        ${notBlocked(sql`CASE WHEN m.sender_id = ${userId} THEN m.receiver_id ELSE m.sender_id END`)}
+        ${dateFilter("m.timestamp")}`;
+
+    // Messages in groups the user is currently an accepted member of
+    const groupBranch = sql`
+      SELECT m.id AS messageId, 'group' AS messageType, m.sender_id AS senderId,
+        NULL AS receiverId, m.group_id AS groupId, m.timestamp AS timestamp, ${snippet} AS snippet
+      FROM message_search
+      JOIN group_messages m ON m.id = message_search.message_id
+      JOIN group_members gm ON gm.group_id = m.group_id AND gm.user_id = ${userId} AND gm.status = 'accepted'
+      WHERE message_search MATCH ${matchQuery}
+        AND message_search.message_type = 'group'
+        ${filters.groupId ? sql`AND m.group_id = ${filters.groupId}` : sql``}
+        ${filters.withUserId ? sql`AND m.sender_id = ${filters.withUserId}` : sql``}
+        ${notBlocked(sql`m.sender_id`)}
+        ${dateFilter("m.timestamp")}`;
+
+    const union = directBranch ? sql`${directBranch} UNION ALL ${groupBranch}` : groupBranch;
+    return this.db.all<MessageSearchResult>(sql`${union} ORDER BY timestamp DESC LIMIT ${limit}`);
+  }
+
+  // Message edit history
+  async getMessageEdits(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageEdit & { editedBy: User }>> {
+    const rows = await this.db.select({ edit: messageEdits, editedBy: users })
+      .from(messageEdits)
+      .leftJoin(users, eq(users.id, messageEdits.editedById))
+      .where(and(
+        eq(messageEdits.messageId, messageId),
+        eq(messageEdits.messageType, messageType)
+      ))
+      .orderBy(messageEdits.editedAt);
+
+    return rows.map((row) => ({ ...row.edit, editedBy: row.editedBy! }));
+  }
+
   // Message reactions
   async getMessageReactions(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageReaction & { user: User }>> {
-    const reactions = await db.select().from(messageReactions)
+    const reactions = await this.getReactionsForMessages([messageId], messageType);
+    return reactions[messageId] ?? [];
+  }
+
+  // Reactions (with who reacted) on several messages at once, keyed by message id
+  async getReactionsForMessages(messageIds: string[], messageType: 'direct' | 'group'): Promise<Record<string, Array<MessageReaction & { user: User }>>> {
+    if (messageIds.length === 0) return {};
+    const rows = await this.db.select({ reaction: messageReactions, user: users })
+      .from(messageReactions)
+      .leftJoin(users, eq(users.id, messageReactions.userId))
       .where(and(
-        eq(messageReactions.messageId, messageId),
+        inArray(messageReactions.messageId, messageIds),
         eq(messageReactions.messageType, messageType)
       ));
-    
-    return Promise.all(reactions.map(async (reaction) => {
-      const user = await this.getUser(reaction.userId);
-      return { ...reaction, user: user! };
-    }));
+
+    const reactions: Record<string, Array<MessageReaction & { user: User }>> = {};
+    for (const row of rows) {
+      (reactions[row.reaction.messageId] ||= []).push({ ...row.reaction, user: row.user! });
+    }
+    return reactions;
   }
 
   async getMessageReaction(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<MessageReaction | undefined> {
-    const result = await db.select().from(messageReactions)
+    const result = await this.db.select().from(messageReactions)
       .where(and(
         eq(messageReactions.messageId, messageId),
         eq(messageReactions.messageType, messageType),
@@ -929,12 +1840,12 @@ export class SQLiteStorage implements IStorage {
   async createMessageReaction(insertReaction: InsertMessageReaction): Promise<MessageReaction> {
     const id = randomUUID();
     const reaction = { ...insertReaction, id };
-    await db.insert(messageReactions).values(reaction);
+    await this.db.insert(messageReactions).values(reaction);
     return reaction as MessageReaction;
   }
 
   async deleteMessageReaction(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<void> {
-    await db.delete(messageReactions)
+    await this.db.delete(messageReactions)
       .where(and(
         eq(messageReactions.messageId, messageId),
         eq(messageReactions.messageType, messageType),
@@ -944,7 +1855,7 @@ export class SQLiteStorage implements IStorage {
 
   // Message read receipts
   async getMessageReadReceipts(messageId: string, messageType: 'direct' | 'group'): Promise<Array<MessageReadReceipt & { user: User }>> {
-    const receipts = await db.select().from(messageReadReceipts)
+    const receipts = await this.db.select().from(messageReadReceipts)
       .where(and(
         eq(messageReadReceipts.messageId, messageId),
         eq(messageReadReceipts.messageType, messageType)
@@ -957,7 +1868,7 @@ export class SQLiteStorage implements IStorage {
   }
 
   async getMessageReadReceipt(messageId: string, messageType: 'direct' | 'group', userId: string): Promise<MessageReadReceipt | undefined> {
-    const result = await db.select().from(messageReadReceipts)
+    const result = await this.db.select().from(messageReadReceipts)
       .where(and(
         eq(messageReadReceipts.messageId, messageId),
         eq(messageReadReceipts.messageType, messageType),
@@ -970,7 +1881,7 @@ export class SQLiteStorage implements IStorage {
   async createMessageReadReceipt(insertReceipt: InsertMessageReadReceipt): Promise<MessageReadReceipt> {
     const id = randomUUID();
     const receipt = { ...insertReceipt, id };
-    await db.insert(messageReadReceipts).values(receipt);
+    await this.db.insert(messageReadReceipts).values(receipt);
     return receipt as MessageReadReceipt;
   }
 
@@ -990,4 +1901,25 @@ export class SQLiteStorage implements IStorage {
   }
 }
 
-export const storage = new SQLiteStorage();
+// Pick the backend for a DATABASE_URL: a postgres:// URL selects PostgreSQL,
+// "memory" a MemStorage that keeps nothing, and anything else names the
+// SQLite file (":memory:" for a private in-memory SQLite database)
+export function createStorage(databaseUrl = process.env.DATABASE_URL ?? ""): IStorage {
+  if (/^postgres(ql)?:\/\//.test(databaseUrl)) {
+    return new PostgresStorage(databaseUrl);
+  }
+  if (databaseUrl === "memory") {
+    return new MemStorage();
+  }
+  return new SQLiteStorage(getSqlitePath(databaseUrl));
+}
+
+export const storage: IStorage = createStorage();
+
+// Async setup the selected backend needs before serving requests. SQLite is
+// migrated synchronously when SQLiteStorage is created, so only Postgres waits here.
+export async function initializeStorage(): Promise<void> {
+  if (storage instanceof PostgresStorage) {
+    await storage.initialize();
+  }
+}
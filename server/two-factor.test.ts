@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildOtpauthUrl,
+  generateBackupCodes,
+  generateTotpSecret,
+  getTotpStep,
+  normalizeBackupCode,
+} from "./two-factor";
+
+// The SHA-1 key of the RFC 6238 test vectors, "12345678901234567890", in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("getTotpStep", () => {
+  // RFC 6238 appendix B, SHA-1, cut to the last six of the eight digits
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+  ])("accepts the RFC 6238 code at %i seconds", (seconds, code) => {
+    expect(getTotpStep(RFC_SECRET, code, seconds * 1000)).toBe(Math.floor(seconds / 30));
+  });
+
+  it("allows one step of clock drift either way", () => {
+    const at = 1111111111 * 1000;
+    const step = Math.floor(at / 1000 / 30);
+    expect(getTotpStep(RFC_SECRET, "050471", at + 30 * 1000)).toBe(step);
+    expect(getTotpStep(RFC_SECRET, "050471", at - 30 * 1000)).toBe(step);
+    expect(getTotpStep(RFC_SECRET, "050471", at + 60 * 1000)).toBeNull();
+    expect(getTotpStep(RFC_SECRET, "050471", at - 60 * 1000)).toBeNull();
+  });
+
+  it("ignores spaces and refuses anything but six digits", () => {
+    expect(getTotpStep(RFC_SECRET, " 050 471 ", 1111111111 * 1000)).not.toBeNull();
+    expect(getTotpStep(RFC_SECRET, "050472", 1111111111 * 1000)).toBeNull();
+    expect(getTotpStep(RFC_SECRET, "50471", 1111111111 * 1000)).toBeNull();
+    expect(getTotpStep(RFC_SECRET, "0504711", 1111111111 * 1000)).toBeNull();
+    expect(getTotpStep(RFC_SECRET, "05047a", 1111111111 * 1000)).toBeNull();
+  });
+});
+
+describe("enrollment", () => {
+  it("generates 160-bit base32 secrets", () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it("builds an otpauth URL for authenticator apps", () => {
+    const url = new URL(buildOtpauthUrl(RFC_SECRET, "alice@example.com"));
+    expect(url.protocol).toBe("otpauth:");
+    expect(url.host).toBe("totp");
+    expect(decodeURIComponent(url.pathname)).toBe("/LocalLinkChat:alice@example.com");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: "LocalLinkChat",
+      algorithm: "SHA1",
+      digits: "6",
+      period: "30",
+    });
+  });
+});
+
+describe("backup codes", () => {
+  it("generates ten distinct codes without look-alike characters", () => {
+    const codes = generateBackupCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-hjkmnp-z2-9]{5}-[a-hjkmnp-z2-9]{5}$/);
+    }
+  });
+
+  it("compares codes without case, spaces or dashes", () => {
+    expect(normalizeBackupCode("AbCde-FgHjk")).toBe("abcdefghjk");
+    expect(normalizeBackupCode(" abcde fghjk ")).toBe("abcdefghjk");
+  });
+});
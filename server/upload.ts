@@ -5,13 +5,24 @@ import fs from "fs";
 import { randomUUID } from "crypto";
 import { requireAuth, getCurrentUser } from "./auth";
 import { storage } from "./storage";
+import { RATE_LIMITS, rateLimit } from "./rate-limit";
+import {
+  MESSAGE_ATTACHMENT_MIME_TYPES,
+  VOICE_MESSAGE_MIME_TYPES,
+  VOICE_MESSAGE_MAX_DURATION_MS,
+} from "@shared/schema";
 
 const router = Router();
 
+// Runs after requireAuth, so uploads are counted per account as well as per IP
+const uploadRateLimit = rateLimit(RATE_LIMITS.uploads);
+
 // Ensure upload directories exist
 const profileUploadDir = path.join(process.cwd(), "profile_pictures");
 const postUploadDir = path.join(process.cwd(), "post_images");
 const shortVideosDir = path.join(process.cwd(), "short_videos");
+// Chat attachments are not served statically; see GET /api/attachments/:id
+export const messageAttachmentsDir = path.join(process.cwd(), "message_attachments");
 
 if (!fs.existsSync(profileUploadDir)) {
   fs.mkdirSync(profileUploadDir, { recursive: true });
@@ -22,6 +33,9 @@ if (!fs.existsSync(postUploadDir)) {
 if (!fs.existsSync(shortVideosDir)) {
   fs.mkdirSync(shortVideosDir, { recursive: true });
 }
+if (!fs.existsSync(messageAttachmentsDir)) {
+  fs.mkdirSync(messageAttachmentsDir, { recursive: true });
+}
 
 const uploadDir = profileUploadDir;
 
@@ -55,7 +69,7 @@ const upload = multer({
 });
 
 // Upload profile picture
-router.post("/profile-picture", requireAuth, upload.single("avatar"), async (req: Request, res: Response) => {
+router.post("/profile-picture", requireAuth, uploadRateLimit, upload.single("avatar"), async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
     const file = req.file;
@@ -134,7 +148,7 @@ const postImageUpload = multer({
 });
 
 // Upload post image
-router.post("/post-image", requireAuth, postImageUpload.single("image"), async (req: Request, res: Response) => {
+router.post("/post-image", requireAuth, uploadRateLimit, postImageUpload.single("image"), async (req: Request, res: Response) => {
   try {
     const file = req.file;
 
@@ -185,7 +199,7 @@ const shortVideoUpload = multer({
 });
 
 // Upload short video
-router.post("/short-video", requireAuth, shortVideoUpload.single("video"), async (req: Request, res: Response) => {
+router.post("/short-video", requireAuth, uploadRateLimit, shortVideoUpload.single("video"), async (req: Request, res: Response) => {
   try {
     const file = req.file;
 
@@ -249,7 +263,7 @@ router.post("/short-video", requireAuth, shortVideoUpload.single("video"), async
 });
 
 // Upload short thumbnail
-router.post("/short-thumbnail", requireAuth, postImageUpload.single("thumbnail"), async (req: Request, res: Response) => {
+router.post("/short-thumbnail", requireAuth, uploadRateLimit, postImageUpload.single("thumbnail"), async (req: Request, res: Response) => {
   try {
     const file = req.file;
 
@@ -269,5 +283,184 @@ router.post("/short-thumbnail", requireAuth, postImageUpload.single("thumbnail")
   }
 });
 
+// Chat attachment limits, configurable through the environment; a size that
+// isn't a positive number falls back to the default
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const messageAttachmentMaxSizeMb = envNumber("MESSAGE_ATTACHMENT_MAX_SIZE_MB", 25);
+const messageAttachmentAllowedTypes: string[] = process.env.MESSAGE_ATTACHMENT_ALLOWED_TYPES
+  ? process.env.MESSAGE_ATTACHMENT_ALLOWED_TYPES.split(",").map((type) => type.trim()).filter(Boolean)
+  : [...MESSAGE_ATTACHMENT_MIME_TYPES];
+
+// Configure multer for chat message attachments
+const messageAttachmentStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, messageAttachmentsDir);
+  },
+  filename: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    const filename = `${randomUUID()}${ext}`;
+    cb(null, filename);
+  },
+});
+
+const messageAttachmentFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (messageAttachmentAllowedTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error("This file type is not allowed"));
+  }
+};
+
+const messageAttachmentUpload = multer({
+  storage: messageAttachmentStorage,
+  fileFilter: messageAttachmentFileFilter,
+  limits: {
+    fileSize: messageAttachmentMaxSizeMb * 1024 * 1024,
+  },
+});
+
+// Upload a chat message attachment (linked to a message when it is sent)
+router.post("/message-attachment", requireAuth, uploadRateLimit, (req: Request, res: Response, next) => {
+  messageAttachmentUpload.single("file")(req, res, (err: any) => {
+    if (!err) return next();
+    if (err.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({
+        error: "File too large",
+        details: `Maximum file size is ${messageAttachmentMaxSizeMb}MB.`,
+      });
+    }
+    res.status(400).json({ error: err.message || "Invalid file" });
+  });
+}, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const file = req.file;
+
+    if (!file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const attachment = await storage.createMessageAttachment({
+      uploaderId: user.id,
+      messageId: null,
+      messageType: null,
+      fileName: file.filename,
+      // multer decodes multipart filenames as latin1
+      originalName: Buffer.from(file.originalname, "latin1").toString("utf8"),
+      mimeType: file.mimetype,
+      size: file.size,
+      createdAt: new Date().toISOString(),
+    });
+
+    res.json({
+      success: true,
+      attachment: {
+        id: attachment.id,
+        originalName: attachment.originalName,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+      },
+    });
+  } catch (error) {
+    console.error("Message attachment upload error:", error);
+    res.status(500).json({ error: "Failed to upload attachment" });
+  }
+});
+
+// Configure multer for voice messages (stored alongside other chat attachments)
+const voiceMessageFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  // Browsers report recorder output with codec parameters, e.g. "audio/webm;codecs=opus"
+  const baseType = file.mimetype.split(";")[0].trim();
+  if ((VOICE_MESSAGE_MIME_TYPES as readonly string[]).includes(baseType)) {
+    file.mimetype = baseType;
+    cb(null, true);
+  } else {
+    cb(new Error("Invalid file type. Only WebM, Ogg, MP4, MP3, AAC, and WAV audio are allowed."));
+  }
+};
+
+const voiceMessageUpload = multer({
+  storage: messageAttachmentStorage,
+  fileFilter: voiceMessageFileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit for voice messages
+  },
+});
+
+// Peaks sent by the recorder for drawing the waveform; anything malformed is dropped
+function parseWaveform(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  try {
+    const peaks = JSON.parse(value);
+    if (!Array.isArray(peaks) || peaks.length === 0 || peaks.length > 200) return null;
+    if (!peaks.every((p) => typeof p === "number" && p >= 0 && p <= 1)) return null;
+    return JSON.stringify(peaks.map((p: number) => Math.round(p * 100) / 100));
+  } catch {
+    return null;
+  }
+}
+
+// Upload a recorded voice message (linked to a message when it is sent)
+router.post("/voice-message", requireAuth, uploadRateLimit, (req: Request, res: Response, next) => {
+  voiceMessageUpload.single("audio")(req, res, (err: any) => {
+    if (!err) return next();
+    if (err.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({ error: "File too large", details: "Maximum file size is 10MB." });
+    }
+    res.status(400).json({ error: err.message || "Invalid file" });
+  });
+}, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const file = req.file;
+
+    if (!file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const durationMs = Math.round(Number(req.body.durationMs));
+    if (!Number.isFinite(durationMs) || durationMs <= 0 || durationMs > VOICE_MESSAGE_MAX_DURATION_MS) {
+      fs.unlink(file.path, () => {});
+      return res.status(400).json({
+        error: "Invalid duration",
+        details: `Voice messages can be at most ${VOICE_MESSAGE_MAX_DURATION_MS / 60000} minutes long.`,
+      });
+    }
+
+    const waveform = parseWaveform(req.body.waveform);
+    const attachment = await storage.createMessageAttachment({
+      uploaderId: user.id,
+      messageId: null,
+      messageType: null,
+      fileName: file.filename,
+      originalName: Buffer.from(file.originalname, "latin1").toString("utf8"),
+      mimeType: file.mimetype,
+      size: file.size,
+      durationMs,
+      waveform,
+      createdAt: new Date().toISOString(),
+    });
+
+    res.json({
+      success: true,
+      attachment: {
+        id: attachment.id,
+        originalName: attachment.originalName,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        durationMs,
+        waveform: waveform ? JSON.parse(waveform) : null,
+      },
+    });
+  } catch (error) {
+    console.error("Voice message upload error:", error);
+    res.status(500).json({ error: "Failed to upload voice message" });
+  }
+});
+
 export default router;
 
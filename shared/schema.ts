@@ -17,6 +17,10 @@ export const users = sqliteTable("users", {
   profileCompleted: integer("profile_completed", { mode: "boolean" }).default(false),
   preferredLanguage: text("preferred_language").default("en"),
   googleId: text("google_id"),
+  role: text("role").default("member"), // member, moderator, admin
+  suspendedAt: text("suspended_at"),
+  suspendedUntil: text("suspended_until"), // null while suspended means indefinitely
+  suspensionReason: text("suspension_reason"),
   createdAt: text("created_at").notNull(),
   lastLoginAt: text("last_login_at"),
 });
@@ -25,6 +29,13 @@ export const insertUserSchema = createInsertSchema(users).omit({ id: true });
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// What other users get to see of someone in listings like message search
+export type PublicUser = Pick<User, "id" | "name" | "fullName" | "avatarUrl">;
+
+// Moderators and admins work the report queue; only admins can change roles
+export const USER_ROLES = ["member", "moderator", "admin"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
 // Magic link tokens for authentication
 export const magicLinkTokens = sqliteTable("magic_link_tokens", {
   id: text("id").primaryKey(),
@@ -45,12 +56,107 @@ export const sessions = sqliteTable("sessions", {
   userId: text("user_id").notNull(),
   expiresAt: text("expires_at").notNull(),
   createdAt: text("created_at").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  lastActiveAt: text("last_active_at"),
 });
 
-export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true });
+// Sessions are inserted with their ID: the hash of the token handed out as the cookie
+export const insertSessionSchema = createInsertSchema(sessions);
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Session = typeof sessions.$inferSelect;
 
+// A signed-in device as listed to its owner. `id` is a digest of the session
+// ID so the cookie value itself never leaves the server.
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  current: boolean;
+}
+
+// TOTP second factor. A row without enabledAt is an enrollment whose first
+// code hasn't been confirmed yet. lastUsedStep stops a code being replayed.
+export const twoFactorCredentials = sqliteTable("two_factor_credentials", {
+  userId: text("user_id").primaryKey(),
+  secret: text("secret").notNull(),
+  enabledAt: text("enabled_at"),
+  lastUsedStep: integer("last_used_step"),
+  createdAt: text("created_at").notNull(),
+});
+
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+
+// Single-use recovery codes, stored hashed like session tokens
+export const twoFactorBackupCodes = sqliteTable("two_factor_backup_codes", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: text("used_at"),
+  createdAt: text("created_at").notNull(),
+});
+
+export type TwoFactorBackupCode = typeof twoFactorBackupCodes.$inferSelect;
+
+// A sign-in that passed the first factor and is waiting for a code. `id` is the
+// hash of the short-lived challenge cookie.
+export const twoFactorChallenges = sqliteTable("two_factor_challenges", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: text("expires_at").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export type TwoFactorChallenge = typeof twoFactorChallenges.$inferSelect;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  backupCodesRemaining: number;
+}
+
+// WebAuthn credentials for passwordless sign-in. credentialId and publicKey
+// are base64url; counter is the authenticator's signature count.
+export const passkeys = sqliteTable("passkeys", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  credentialId: text("credential_id").notNull().unique(),
+  publicKey: text("public_key").notNull(),
+  counter: integer("counter").notNull().default(0),
+  transports: text("transports", { mode: "json" }).$type<string[]>().default([]),
+  backedUp: integer("backed_up", { mode: "boolean" }).default(false),
+  name: text("name").notNull(),
+  createdAt: text("created_at").notNull(),
+  lastUsedAt: text("last_used_at"),
+});
+
+export const insertPasskeySchema = createInsertSchema(passkeys).omit({ id: true });
+export type InsertPasskey = z.infer<typeof insertPasskeySchema>;
+export type Passkey = typeof passkeys.$inferSelect;
+
+// A pending passkey registration or sign-in. `id` is the hash of the cookie
+// that ties the ceremony to the browser; userId is unset for sign-ins.
+export const passkeyChallenges = sqliteTable("passkey_challenges", {
+  id: text("id").primaryKey(),
+  userId: text("user_id"),
+  challenge: text("challenge").notNull(),
+  expiresAt: text("expires_at").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export type PasskeyChallenge = typeof passkeyChallenges.$inferSelect;
+
+// A passkey as listed to its owner; key material stays on the server
+export interface PasskeyInfo {
+  id: string;
+  name: string;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
 // Connections between users
 export const connections = sqliteTable("connections", {
   id: text("id").primaryKey(),
@@ -65,11 +171,77 @@ export const insertConnectionSchema = createInsertSchema(connections).omit({ id:
 export type InsertConnection = z.infer<typeof insertConnectionSchema>;
 export type Connection = typeof connections.$inferSelect;
 
+// A user blocked by another. Blocks apply both ways: neither can contact or see the other.
+export const userBlocks = sqliteTable("user_blocks", {
+  id: text("id").primaryKey(),
+  blockerId: text("blocker_id").notNull(),
+  blockedId: text("blocked_id").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export type UserBlock = typeof userBlocks.$inferSelect;
+
+// A user muted by another: their posts, REALS and comments are hidden from the muter only
+export const userMutes = sqliteTable("user_mutes", {
+  id: text("id").primaryKey(),
+  muterId: text("muter_id").notNull(),
+  mutedId: text("muted_id").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export type UserMute = typeof userMutes.$inferSelect;
+
+// Reports of content or profiles, worked through by moderators
+export const REPORT_TARGET_TYPES = ["post", "post_comment", "short", "short_comment", "direct_message", "user"] as const;
+export type ReportTargetType = typeof REPORT_TARGET_TYPES[number];
+
+export const REPORT_REASONS = ["spam", "harassment", "hate_speech", "nudity", "violence", "misinformation", "impersonation", "other"] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export const reports = sqliteTable("reports", {
+  id: text("id").primaryKey(),
+  reporterId: text("reporter_id").notNull(),
+  targetType: text("target_type").notNull(), // one of REPORT_TARGET_TYPES
+  targetId: text("target_id").notNull(),
+  targetUserId: text("target_user_id"), // author of the content, or the reported profile
+  reason: text("reason").notNull(), // one of REPORT_REASONS
+  details: text("details"),
+  contentSnapshot: text("content_snapshot"), // content as it was when reported
+  status: text("status").notNull().default("open"), // open, dismissed, actioned
+  resolvedById: text("resolved_by_id"),
+  resolvedAt: text("resolved_at"),
+  createdAt: text("created_at").notNull(),
+});
+
+export const insertReportSchema = createInsertSchema(reports).omit({ id: true });
+export type InsertReport = z.infer<typeof insertReportSchema>;
+export type Report = typeof reports.$inferSelect;
+
+// Audit trail of every moderation decision; rows are never updated or deleted
+export const MODERATION_ACTIONS = ["dismiss", "delete_content", "warn", "suspend", "unsuspend", "set_role", "reset_two_factor"] as const;
+export type ModerationActionType = typeof MODERATION_ACTIONS[number];
+
+export const moderationActions = sqliteTable("moderation_actions", {
+  id: text("id").primaryKey(),
+  moderatorId: text("moderator_id").notNull(),
+  action: text("action").notNull(), // one of MODERATION_ACTIONS
+  reportId: text("report_id"),
+  targetType: text("target_type"),
+  targetId: text("target_id"),
+  targetUserId: text("target_user_id"),
+  note: text("note"),
+  createdAt: text("created_at").notNull(),
+});
+
+export const insertModerationActionSchema = createInsertSchema(moderationActions).omit({ id: true });
+export type InsertModerationAction = z.infer<typeof insertModerationActionSchema>;
+export type ModerationAction = typeof moderationActions.$inferSelect;
+
 // Notifications for connection requests and other events
 export const notifications = sqliteTable("notifications", {
   id: text("id").primaryKey(),
   userId: text("user_id").notNull(),
-  type: text("type").notNull(), // connection_request, connection_accepted, message
+  type: text("type").notNull(), // connection_request, connection_accepted, message, moderation_warning
   fromUserId: text("from_user_id"),
   connectionId: text("connection_id"),
   message: text("message"),
@@ -103,12 +275,31 @@ export const directMessages = sqliteTable("direct_messages", {
   content: text("content").notNull(),
   timestamp: text("timestamp").notNull(),
   isRead: integer("is_read", { mode: "boolean" }).default(false),
+  editedAt: text("edited_at"),
+  parentId: text("parent_id"), // message this one replies to
+  deliveredAt: text("delivered_at"), // acknowledged by one of the receiver's sockets
+  readAt: text("read_at"),
+  clientId: text("client_id"), // generated by the sender's client so retries are idempotent
 });
 
 export const insertDirectMessageSchema = createInsertSchema(directMessages).omit({ id: true });
 export type InsertDirectMessage = z.infer<typeof insertDirectMessageSchema>;
 export type DirectMessage = typeof directMessages.$inferSelect;
 
+// Delivery state pushed to the sender as "direct_message_status" events
+export type DirectMessageStatus = "sent" | "delivered" | "read";
+
+// Per-user log of WebSocket events, replayed to clients that resume after a disconnect
+export const userEvents = sqliteTable("user_events", {
+  seq: integer("seq").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull(),
+  type: text("type").notNull(),
+  payload: text("payload").notNull(), // JSON-encoded frame, without its seq
+  createdAt: text("created_at").notNull(),
+});
+
+export type UserEvent = typeof userEvents.$inferSelect;
+
 // Message reactions (emoji reactions)
 export const messageReactions = sqliteTable("message_reactions", {
   id: text("id").primaryKey(),
@@ -136,6 +327,65 @@ export const insertMessageReadReceiptSchema = createInsertSchema(messageReadRece
 export type InsertMessageReadReceipt = z.infer<typeof insertMessageReadReceiptSchema>;
 export type MessageReadReceipt = typeof messageReadReceipts.$inferSelect;
 
+// Files attached to direct or group messages (stored on disk, served with access checks)
+export const messageAttachments = sqliteTable("message_attachments", {
+  id: text("id").primaryKey(),
+  uploaderId: text("uploader_id").notNull(),
+  messageId: text("message_id"), // null until the message is sent
+  messageType: text("message_type"), // 'direct' or 'group'
+  fileName: text("file_name").notNull(), // name on disk
+  originalName: text("original_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  durationMs: integer("duration_ms"), // voice messages only
+  waveform: text("waveform"), // voice messages only: JSON array of peaks between 0 and 1
+  createdAt: text("created_at").notNull(),
+});
+
+export const insertMessageAttachmentSchema = createInsertSchema(messageAttachments).omit({ id: true });
+export type InsertMessageAttachment = z.infer<typeof insertMessageAttachmentSchema>;
+export type MessageAttachment = typeof messageAttachments.$inferSelect;
+
+// Who has listened to a voice message (one row per recipient)
+export const voiceMessagePlays = sqliteTable("voice_message_plays", {
+  id: text("id").primaryKey(),
+  attachmentId: text("attachment_id").notNull(),
+  userId: text("user_id").notNull(),
+  playedAt: text("played_at").notNull(),
+});
+
+export type VoiceMessagePlay = typeof voiceMessagePlays.$inferSelect;
+
+// Cached Open Graph / Twitter card data for URLs in posts and messages
+export const linkPreviews = sqliteTable("link_previews", {
+  id: text("id").primaryKey(),
+  url: text("url").notNull().unique(),
+  status: text("status").notNull(), // 'ok' or 'failed'
+  title: text("title"),
+  description: text("description"),
+  siteName: text("site_name"),
+  imageUrl: text("image_url"), // original remote image
+  imageFile: text("image_file"), // local copy served by /api/link-previews/:id/image
+  fetchedAt: text("fetched_at").notNull(),
+});
+
+export type LinkPreview = typeof linkPreviews.$inferSelect;
+export type InsertLinkPreview = typeof linkPreviews.$inferInsert;
+
+// Message edit history (previous revisions of edited messages)
+export const messageEdits = sqliteTable("message_edits", {
+  id: text("id").primaryKey(),
+  messageId: text("message_id").notNull(),
+  messageType: text("message_type").notNull(), // 'direct' or 'group'
+  previousContent: text("previous_content").notNull(),
+  editedById: text("edited_by_id").notNull(),
+  editedAt: text("edited_at").notNull(),
+});
+
+export const insertMessageEditSchema = createInsertSchema(messageEdits).omit({ id: true });
+export type InsertMessageEdit = z.infer<typeof insertMessageEditSchema>;
+export type MessageEdit = typeof messageEdits.$inferSelect;
+
 // Supported emoji reactions
 export const SUPPORTED_REACTIONS = ["😂", "❤", "👍", "😒", "😠"] as const;
 export type SupportedReaction = typeof SUPPORTED_REACTIONS[number];
@@ -260,6 +510,9 @@ export const groupMessages = sqliteTable("group_messages", {
   senderId: text("sender_id").notNull(),
   content: text("content").notNull(),
   timestamp: text("timestamp").notNull(),
+  editedAt: text("edited_at"),
+  parentId: text("parent_id"), // message this one replies to
+  clientId: text("client_id"), // generated by the sender's client so retries are idempotent
 });
 
 export const insertGroupMessageSchema = createInsertSchema(groupMessages).omit({ id: true });
@@ -280,6 +533,119 @@ export interface ActivityItem {
   interests?: string[];
 }
 
+// Link preview card data returned to clients (the image is proxied by our server)
+export interface LinkPreviewInfo {
+  url: string;
+  title: string | null;
+  description: string | null;
+  siteName: string | null;
+  imageUrl: string | null;
+}
+
+// Report as shown in the moderation queue
+export interface ModerationReport extends Report {
+  reporter: User | null;
+  targetUser: User | null;
+  // Other open reports against the same content
+  relatedOpenCount: number;
+}
+
+// Audit trail entry with the people involved
+export interface ModerationAuditEntry extends ModerationAction {
+  moderator: User | null;
+  targetUser: User | null;
+}
+
+// Notification with the account that triggered it
+export interface NotificationWithSender extends Notification {
+  fromUser: (User & { connectionsCount: number }) | null;
+}
+
+// Message search results. Matched terms in the snippet are wrapped in
+// SEARCH_HIGHLIGHT_START / SEARCH_HIGHLIGHT_END markers.
+export const SEARCH_HIGHLIGHT_START = "\u0002";
+export const SEARCH_HIGHLIGHT_END = "\u0003";
+
+// Attachment metadata included with messages; the file itself is at `url`
+export interface MessageAttachmentInfo {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  url: string;
+  // Voice messages only
+  durationMs?: number | null;
+  waveform?: number[] | null;
+  playedBy?: string[];
+}
+
+// The message a reply quotes, as sent along with the reply
+export interface ParentPreview {
+  id: string;
+  senderId: string;
+  senderName: string;
+  content: string;
+}
+
+// Reply context and attachments added to messages by the server
+export interface ThreadInfo {
+  parent?: ParentPreview | null;
+  replyCount?: number;
+  attachments?: MessageAttachmentInfo[];
+}
+
+// Recorded voice messages (uploaded separately from regular attachments)
+export const VOICE_MESSAGE_MIME_TYPES = [
+  "audio/webm",
+  "audio/ogg",
+  "audio/mp4",
+  "audio/mpeg",
+  "audio/aac",
+  "audio/wav",
+] as const;
+
+export const VOICE_MESSAGE_MAX_DURATION_MS = 5 * 60 * 1000;
+
+// File types that can be attached to chat messages (overridable on the server
+// with MESSAGE_ATTACHMENT_ALLOWED_TYPES)
+export const MESSAGE_ATTACHMENT_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.oasis.opendocument.text",
+  "application/vnd.oasis.opendocument.spreadsheet",
+  "text/plain",
+  "text/csv",
+  "application/zip",
+] as const;
+
+export interface MessageSearchFilters {
+  query: string;
+  withUserId?: string;
+  groupId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  messageType: "direct" | "group";
+  senderId: string;
+  receiverId: string | null;
+  groupId: string | null;
+  timestamp: string;
+  snippet: string;
+}
+
 // Interest categories
 export const INTEREST_CATEGORIES = [
   "Networking",
@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "script/**/*.test.ts"],
+    environment: "node",
+    // Tests against TEST_DATABASE_URL share one database, so files run one at a time
+    fileParallelism: false,
+    // Keep the module-level storage off the real database file
+    env: { DATABASE_URL: "memory" },
+  },
+});